@@ -7,11 +7,15 @@ import userSlice from './store/user/slice'
 import OpticalCableVisualizer from './components/Templates/fibersConnection'
 import InteractiveMap from './components/Templates/Maps/InteractiveMap'
 import { MapPoint } from './utils/types'
+import { TH_GetMyInvitations, TH_GetProjects } from './store/project/thunk'
 
 export default function App() {
   const dispatch = useAppDispatch()
   const isLoggedIn = useAppSelector(getAuthStatus) 
+  const isEmailVerified = useAppSelector(getAccount)?.emailVerified
   const [mode, setMode] = useState<"map" | "cable">("map")
+  // Closure the splice view opens on, set when a cable route on the map is followed
+  const [openClosureId, setOpenClosureId] = useState<string | undefined>()
 
   useEffect(()=>{
     const accountLS = getUserFromLS()
@@ -20,6 +24,19 @@ export default function App() {
     }
   }, [isLoggedIn])
 
+  useEffect(()=>{
+    if(isLoggedIn){
+      dispatch(TH_GetProjects())
+    }
+  }, [isLoggedIn])
+
+  // Invitations are only shown to a confirmed address, so they are loaded again once it is confirmed
+  useEffect(()=>{
+    if(isLoggedIn){
+      dispatch(TH_GetMyInvitations())
+    }
+  }, [isLoggedIn, isEmailVerified])
+
   const markers: MapPoint[] = [
     { id: 1, lat: 40.1792, lng: 44.5152 }, // Yerevan Center
     { id: 2, lat: 40.2050, lng: 44.5250 }, // Near Komitas Pantheon
@@ -32,7 +49,9 @@ export default function App() {
       <Header setMode={setMode} />
 
       {/* {isLoggedIn ? <LoggedInText /> : <LoggedOutText />} */}
-      {mode === "cable" ? <OpticalCableVisualizer /> : <InteractiveMap points={markers} />}
+      {mode === "cable"
+        ? <OpticalCableVisualizer initialClosureId={openClosureId} />
+        : <InteractiveMap points={markers} onOpenClosure={(closureId) => { setOpenClosureId(closureId); setMode("cable") }} />}
     </div>
   )
 }
@@ -0,0 +1,27 @@
+import { T_CreateAsset, T_DeleteAsset, T_GetAssets, T_ImportNetwork, T_UpdateAsset } from "./types"
+import api from "../config"
+
+export const R_GetAssets = async (projectId: T_GetAssets['args']) => {
+    const response = await api.get<T_GetAssets["response"]>(`/projects/${projectId}/assets`)
+    return response.data
+}
+
+export const R_CreateAsset = async ({ projectId, ...data }: T_CreateAsset['args']) => {
+    const response = await api.post<T_CreateAsset["response"]>(`/projects/${projectId}/assets`, data)
+    return response.data
+}
+
+export const R_UpdateAsset = async ({ projectId, assetId, ...data }: T_UpdateAsset['args']) => {
+    const response = await api.put<T_UpdateAsset["response"]>(`/projects/${projectId}/assets/${assetId}`, data)
+    return response.data
+}
+
+export const R_DeleteAsset = async ({ projectId, assetId }: T_DeleteAsset['args']) => {
+    await api.delete<T_DeleteAsset["response"]>(`/projects/${projectId}/assets/${assetId}`)
+}
+
+// Assets and cable routes read from a GIS file, created in one request
+export const R_ImportNetwork = async ({ projectId, ...data }: T_ImportNetwork['args']) => {
+    const response = await api.post<T_ImportNetwork["response"]>(`/projects/${projectId}/network/import`, data)
+    return response.data
+}
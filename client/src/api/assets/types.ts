@@ -0,0 +1,42 @@
+import { IAsset as IAssetFields, ICableRoute as ICableRouteFields } from "shared/networkSchema"
+import { IAsset, ICableRoute } from "../../utils/types"
+
+export interface T_GetAssets {
+    args: string,
+    response: IAsset[]
+}
+
+export interface T_CreateAsset {
+    args: IAssetFields & {
+        projectId: string
+    },
+    response: IAsset
+}
+
+export interface T_UpdateAsset {
+    args: IAssetFields & {
+        projectId: string,
+        assetId: string
+    },
+    response: IAsset
+}
+
+export interface T_DeleteAsset {
+    args: {
+        projectId: string,
+        assetId: string
+    },
+    response: void
+}
+
+export interface T_ImportNetwork {
+    args: {
+        projectId: string,
+        assets: IAssetFields[],
+        routes: ICableRouteFields[]
+    },
+    response: {
+        assets: IAsset[],
+        routes: ICableRoute[]
+    }
+}
@@ -1,18 +1,45 @@
-import { T_Register, T_signIn } from "./types"
-import { IUser } from "../../utils/types"
+import { T_ForgotPassword, T_Logout, T_Register, T_ResendVerification, T_ResetPassword, T_VerifyEmail, T_signIn } from "./types"
 import api from "../config"
-import { saveToken, saveUserToLS } from "../../utils/helperFunctions"
+import { saveRefreshToken, saveToken, saveUserToLS } from "../../utils/helperFunctions"
 
 export const R_SignIn = async (data: T_signIn['args']) => {
         const response = await api.post<T_signIn["response"]>("/auth/login", data)
-        saveUserToLS({ authStatus: true, ...response.data as IUser })
-        saveToken(response.data.token)
+        const { token, refreshToken, ...user } = response.data
+        saveUserToLS({ authStatus: true, ...user })
+        saveToken(token)
+        saveRefreshToken(refreshToken)
         return response.data
 }
 
 export const R_Register = async (data: T_Register['args']) => {
     const response = await api.post<T_Register["response"]>("/auth/register", data)
-    saveUserToLS({ authStatus: true, ...response.data as IUser })
-    saveToken(response.data.token)
+    const { token, refreshToken, ...user } = response.data
+    saveUserToLS({ authStatus: true, ...user })
+    saveToken(token)
+    saveRefreshToken(refreshToken)
     return response.data
-}
\ No newline at end of file
+}
+
+export const R_Logout = async (data: T_Logout['args']) => {
+    await api.post<T_Logout["response"]>("/auth/logout", data)
+}
+
+export const R_ForgotPassword = async (data: T_ForgotPassword['args']) => {
+    const response = await api.post<T_ForgotPassword["response"]>("/auth/forgot-password", data)
+    return response.data
+}
+
+export const R_ResetPassword = async (data: T_ResetPassword['args']) => {
+    const response = await api.post<T_ResetPassword["response"]>("/auth/reset-password", data)
+    return response.data
+}
+
+export const R_VerifyEmail = async (data: T_VerifyEmail['args']) => {
+    const response = await api.post<T_VerifyEmail["response"]>("/auth/verify-email", data)
+    return response.data
+}
+
+export const R_ResendVerification = async () => {
+    const response = await api.post<T_ResendVerification["response"]>("/auth/resend-verification")
+    return response.data
+}
@@ -1,12 +1,46 @@
 import { ICredentials, IRegister, IUser } from "../../utils/types"
 
+export interface T_AuthTokens {
+    token: string,
+    refreshToken: string
+}
 
 export interface T_signIn {
     args: ICredentials, 
-    response: IUser & {token: string}
+    response: IUser & T_AuthTokens
 }
 
 export interface T_Register {
     args: IRegister, 
-    response: IUser & {token: string}
-}
\ No newline at end of file
+    response: IUser & T_AuthTokens
+}
+
+export interface T_Refresh {
+    args: { refreshToken: string },
+    response: T_AuthTokens
+}
+
+export interface T_Logout {
+    args: { refreshToken: string },
+    response: void
+}
+
+export interface T_ForgotPassword {
+    args: { email: string },
+    response: { message: string }
+}
+
+export interface T_ResetPassword {
+    args: { token: string, password: string, confirmPassword: string },
+    response: { message: string }
+}
+
+export interface T_VerifyEmail {
+    args: { token: string },
+    response: { message: string }
+}
+
+export interface T_ResendVerification {
+    args: void,
+    response: { message: string }
+}
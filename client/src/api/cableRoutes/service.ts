@@ -0,0 +1,21 @@
+import { T_CreateCableRoute, T_DeleteCableRoute, T_GetCableRoutes, T_UpdateCableRoute } from "./types"
+import api from "../config"
+
+export const R_GetCableRoutes = async (projectId: T_GetCableRoutes['args']) => {
+    const response = await api.get<T_GetCableRoutes["response"]>(`/projects/${projectId}/cable-routes`)
+    return response.data
+}
+
+export const R_CreateCableRoute = async ({ projectId, ...data }: T_CreateCableRoute['args']) => {
+    const response = await api.post<T_CreateCableRoute["response"]>(`/projects/${projectId}/cable-routes`, data)
+    return response.data
+}
+
+export const R_UpdateCableRoute = async ({ projectId, cableRouteId, ...data }: T_UpdateCableRoute['args']) => {
+    const response = await api.put<T_UpdateCableRoute["response"]>(`/projects/${projectId}/cable-routes/${cableRouteId}`, data)
+    return response.data
+}
+
+export const R_DeleteCableRoute = async ({ projectId, cableRouteId }: T_DeleteCableRoute['args']) => {
+    await api.delete<T_DeleteCableRoute["response"]>(`/projects/${projectId}/cable-routes/${cableRouteId}`)
+}
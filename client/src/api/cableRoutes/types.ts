@@ -0,0 +1,30 @@
+import { ICableRoute as ICableRouteFields } from "shared/networkSchema"
+import { ICableRoute } from "../../utils/types"
+
+export interface T_GetCableRoutes {
+    args: string,
+    response: ICableRoute[]
+}
+
+export interface T_CreateCableRoute {
+    args: ICableRouteFields & {
+        projectId: string
+    },
+    response: ICableRoute
+}
+
+export interface T_UpdateCableRoute {
+    args: ICableRouteFields & {
+        projectId: string,
+        cableRouteId: string
+    },
+    response: ICableRoute
+}
+
+export interface T_DeleteCableRoute {
+    args: {
+        projectId: string,
+        cableRouteId: string
+    },
+    response: void
+}
@@ -0,0 +1,21 @@
+import { T_CreateCableType, T_DeleteCableType, T_GetCableTypes, T_UpdateCableType } from "./types"
+import api from "../config"
+
+export const R_GetCableTypes = async (projectId: T_GetCableTypes['args']) => {
+    const response = await api.get<T_GetCableTypes["response"]>(`/projects/${projectId}/cable-types`)
+    return response.data
+}
+
+export const R_CreateCableType = async ({ projectId, ...data }: T_CreateCableType['args']) => {
+    const response = await api.post<T_CreateCableType["response"]>(`/projects/${projectId}/cable-types`, data)
+    return response.data
+}
+
+export const R_UpdateCableType = async ({ projectId, cableTypeId, ...data }: T_UpdateCableType['args']) => {
+    const response = await api.put<T_UpdateCableType["response"]>(`/projects/${projectId}/cable-types/${cableTypeId}`, data)
+    return response.data
+}
+
+export const R_DeleteCableType = async ({ projectId, cableTypeId }: T_DeleteCableType['args']) => {
+    await api.delete<T_DeleteCableType["response"]>(`/projects/${projectId}/cable-types/${cableTypeId}`)
+}
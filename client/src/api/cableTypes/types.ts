@@ -0,0 +1,30 @@
+import { ICableType as ICableTypeFields } from "shared/networkSchema"
+import { ICableType } from "../../utils/types"
+
+export interface T_GetCableTypes {
+    args: string,
+    response: ICableType[]
+}
+
+export interface T_CreateCableType {
+    args: ICableTypeFields & {
+        projectId: string
+    },
+    response: ICableType
+}
+
+export interface T_UpdateCableType {
+    args: ICableTypeFields & {
+        projectId: string,
+        cableTypeId: string
+    },
+    response: ICableType
+}
+
+export interface T_DeleteCableType {
+    args: {
+        projectId: string,
+        cableTypeId: string
+    },
+    response: void
+}
@@ -0,0 +1,46 @@
+import { T_CreateClosure, T_DeleteClosure, T_GetClosure, T_GetClosurePlans, T_GetClosures, T_SaveConnections, T_TraceFiber, T_UpdateClosure } from "./types"
+import api from "../config"
+import { SCHEMA_VERSION } from "shared/networkSchema"
+
+export const R_GetClosures = async (projectId: T_GetClosures['args']) => {
+    const response = await api.get<T_GetClosures["response"]>(`/projects/${projectId}/closures`)
+    return response.data
+}
+
+export const R_GetClosure = async ({ projectId, closureId }: T_GetClosure['args']) => {
+    const response = await api.get<T_GetClosure["response"]>(`/projects/${projectId}/closures/${closureId}`)
+    return response.data
+}
+
+// Read only access for reports
+export const R_GetClosurePlans = async ({ projectId, closureIds }: T_GetClosurePlans['args']) => {
+    return Promise.all(closureIds.map(async closureId => {
+        const response = await api.get<T_GetClosure["response"]>(`/projects/${projectId}/closures/${closureId}`)
+        return response.data
+    }))
+}
+
+export const R_CreateClosure = async ({ projectId, ...data }: T_CreateClosure['args']) => {
+    const response = await api.post<T_CreateClosure["response"]>(`/projects/${projectId}/closures`, data)
+    return response.data
+}
+
+export const R_UpdateClosure = async ({ projectId, closureId, ...data }: T_UpdateClosure['args']) => {
+    const response = await api.put<T_UpdateClosure["response"]>(`/projects/${projectId}/closures/${closureId}`, data)
+    return response.data
+}
+
+export const R_SaveConnections = async ({ projectId, closureId, connections, baseUpdatedAt }: T_SaveConnections['args']) => {
+    const response = await api.put<T_SaveConnections["response"]>(`/projects/${projectId}/closures/${closureId}/connections`, { schemaVersion: SCHEMA_VERSION, connections, baseUpdatedAt })
+    return response.data
+}
+
+export const R_DeleteClosure = async ({ projectId, closureId }: T_DeleteClosure['args']) => {
+    await api.delete<T_DeleteClosure["response"]>(`/projects/${projectId}/closures/${closureId}`)
+}
+
+// Follows the fiber through every closure of the project
+export const R_TraceFiber = async ({ projectId, fiberId }: T_TraceFiber['args']) => {
+    const response = await api.get<T_TraceFiber["response"]>(`/projects/${projectId}/fibers/${encodeURIComponent(fiberId)}/trace`)
+    return response.data
+}
@@ -0,0 +1,75 @@
+import { ICable } from "../../utils/threeJSHelpers/types"
+import { IFiberTrace } from "shared/networkSchema"
+import { IClosure, IClosurePlan, IStoredConnection, Splitter } from "../../utils/types"
+
+export interface T_GetClosures {
+    args: string,
+    response: IClosure[]
+}
+
+export interface T_GetClosure {
+    args: {
+        projectId: string,
+        closureId: string
+    },
+    response: IClosurePlan
+}
+
+export interface T_GetClosurePlans {
+    args: {
+        projectId: string,
+        closureIds: string[]
+    },
+    response: IClosurePlan[]
+}
+
+export interface T_CreateClosure {
+    args: {
+        projectId: string,
+        name: string,
+        description?: string,
+        cables?: ICable[],
+        splitters?: Splitter[],
+        connections?: IStoredConnection[]
+    },
+    response: IClosurePlan
+}
+
+export interface T_UpdateClosure {
+    args: {
+        projectId: string,
+        closureId: string,
+        name?: string,
+        description?: string,
+        cables?: ICable[],
+        splitters?: Splitter[]
+    },
+    response: IClosurePlan
+}
+
+export interface T_SaveConnections {
+    args: {
+        projectId: string,
+        closureId: string,
+        connections: IStoredConnection[],
+        // updatedAt of the plan the connections were edited on, the server refuses the save when it moved on since
+        baseUpdatedAt?: string
+    },
+    response: IClosurePlan
+}
+
+export interface T_DeleteClosure {
+    args: {
+        projectId: string,
+        closureId: string
+    },
+    response: void
+}
+
+export interface T_TraceFiber {
+    args: {
+        projectId: string,
+        fiberId: string
+    },
+    response: IFiberTrace
+}
@@ -0,0 +1,22 @@
+import { T_CreateColorCode, T_DeleteColorCode, T_GetColorCodes, T_UpdateColorCode } from "./types"
+import api from "../config"
+
+export const R_GetColorCodes = async (projectId: T_GetColorCodes['args']) => {
+    const response = await api.get<T_GetColorCodes["response"]>(`/projects/${projectId}/color-codes`)
+    return response.data
+}
+
+export const R_CreateColorCode = async ({ projectId, ...data }: T_CreateColorCode['args']) => {
+    const response = await api.post<T_CreateColorCode["response"]>(`/projects/${projectId}/color-codes`, data)
+    return response.data
+}
+
+// The id in the path names the code, it can't be changed
+export const R_UpdateColorCode = async ({ projectId, id, ...data }: T_UpdateColorCode['args']) => {
+    const response = await api.put<T_UpdateColorCode["response"]>(`/projects/${projectId}/color-codes/${id}`, data)
+    return response.data
+}
+
+export const R_DeleteColorCode = async ({ projectId, colorCodeId }: T_DeleteColorCode['args']) => {
+    await api.delete<T_DeleteColorCode["response"]>(`/projects/${projectId}/color-codes/${colorCodeId}`)
+}
@@ -0,0 +1,29 @@
+import { IColorCode as IColorCodeFields } from "shared/networkSchema"
+import { IColorCode } from "../../utils/types"
+
+export interface T_GetColorCodes {
+    args: string,
+    response: IColorCode[]
+}
+
+export interface T_CreateColorCode {
+    args: IColorCodeFields & {
+        projectId: string
+    },
+    response: IColorCode
+}
+
+export interface T_UpdateColorCode {
+    args: IColorCodeFields & {
+        projectId: string
+    },
+    response: IColorCode
+}
+
+export interface T_DeleteColorCode {
+    args: {
+        projectId: string,
+        colorCodeId: string
+    },
+    response: void
+}
@@ -1,11 +1,74 @@
-import axios, { AxiosError } from 'axios'
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios'
 import { BACKEND_URL } from '../constants'
 import { BaseThunkAPI } from '@reduxjs/toolkit/dist/createAsyncThunk'
+import { getRefreshToken, getToken, removeRefreshToken, removeToken, saveRefreshToken, saveToken } from '../utils/helperFunctions'
+import { T_Refresh } from './auth/types'
 
 const api = axios.create({
   baseURL: BACKEND_URL,
 })
 
+// attach the access token to every request
+api.interceptors.request.use((config) => {
+  const token = getToken()
+  if (token) {
+    config.headers.Authorization = `Bearer ${token}`
+  }
+  return config
+})
+
+let sessionExpiredHandler: (() => void) | null = null
+let refreshRequest: Promise<string | null> | null = null
+
+// how long a failed refresh waits for another tab to store the token it rotated
+const OTHER_TAB_WAIT_MS = 1000
+
+// the store registers this, api can't import it without a cycle
+export const onSessionExpired = (handler: () => void) => {
+  sessionExpiredHandler = handler
+}
+
+// parallel 401s share one refresh, the server rotates the token so a second call would revoke the family
+const refreshAccessToken = () => {
+  if (!refreshRequest) {
+    const refreshToken = getRefreshToken()
+    refreshRequest = (refreshToken
+      ? axios.post<T_Refresh['response']>(`${BACKEND_URL}/auth/refresh`, { refreshToken })
+        .then(({ data }) => {
+          saveToken(data.token)
+          saveRefreshToken(data.refreshToken)
+          return data.token
+        })
+        // another tab may have rotated the same token a moment earlier, its tokens are in storage then
+        .catch(() => new Promise<string | null>((resolve) => {
+          setTimeout(() => resolve(getRefreshToken() !== refreshToken ? getToken() : null), OTHER_TAB_WAIT_MS)
+        }))
+      : Promise.resolve(null)
+    ).finally(() => { refreshRequest = null })
+  }
+  return refreshRequest
+}
+
+// retry once with a fresh access token, log out when the refresh token is gone too
+api.interceptors.response.use(undefined, async (error: AxiosError) => {
+  const config = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined
+  if (error.response?.status !== 401 || !config || config._retried || config.url?.startsWith('/auth/')) {
+    return Promise.reject(error)
+  }
+
+  config._retried = true
+  const token = await refreshAccessToken()
+  if (!token) {
+    removeToken()
+    removeRefreshToken()
+    sessionExpiredHandler?.()
+    return Promise.reject(error)
+  }
+
+  config.headers.Authorization = `Bearer ${token}`
+  return api(config)
+})
+
 export default api
 
 
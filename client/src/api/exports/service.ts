@@ -0,0 +1,17 @@
+import { T_CreateExport, T_DownloadExport, T_GetExport } from "./types"
+import api from "../config"
+
+export const R_CreateExport = async ({ projectId, format }: T_CreateExport['args']) => {
+    const response = await api.post<T_CreateExport["response"]>(`/projects/${projectId}/exports`, { format })
+    return response.data
+}
+
+export const R_GetExport = async ({ projectId, exportId }: T_GetExport['args']) => {
+    const response = await api.get<T_GetExport["response"]>(`/projects/${projectId}/exports/${exportId}`)
+    return response.data
+}
+
+export const R_DownloadExport = async ({ projectId, exportId }: T_DownloadExport['args']) => {
+    const response = await api.get<T_DownloadExport["response"]>(`/projects/${projectId}/exports/${exportId}/file`, { responseType: 'blob' })
+    return response.data
+}
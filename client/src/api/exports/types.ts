@@ -0,0 +1,25 @@
+import { ExportFormat, IExportJob } from "../../utils/types"
+
+export interface T_CreateExport {
+    args: {
+        projectId: string,
+        format: ExportFormat
+    },
+    response: IExportJob
+}
+
+export interface T_GetExport {
+    args: {
+        projectId: string,
+        exportId: string
+    },
+    response: IExportJob
+}
+
+export interface T_DownloadExport {
+    args: {
+        projectId: string,
+        exportId: string
+    },
+    response: Blob
+}
@@ -0,0 +1,73 @@
+import {
+    T_AcceptInvitation,
+    T_ChangeMemberRole,
+    T_CreateOrganization,
+    T_CreateProject,
+    T_DeclineInvitation,
+    T_GetMembers,
+    T_GetMyInvitations,
+    T_GetOrganizations,
+    T_GetProjectInvitations,
+    T_GetProjects,
+    T_InviteMember,
+    T_RemoveMember,
+} from "./types"
+import api from "../config"
+
+export const R_GetProjects = async () => {
+    const response = await api.get<T_GetProjects["response"]>("/projects")
+    return response.data
+}
+
+export const R_GetOrganizations = async () => {
+    const response = await api.get<T_GetOrganizations["response"]>("/organizations")
+    return response.data
+}
+
+export const R_CreateOrganization = async (data: T_CreateOrganization['args']) => {
+    const response = await api.post<T_CreateOrganization["response"]>("/organizations", data)
+    return response.data
+}
+
+export const R_CreateProject = async ({ organizationId, ...data }: T_CreateProject['args']) => {
+    const response = await api.post<T_CreateProject["response"]>(`/organizations/${organizationId}/projects`, data)
+    return response.data
+}
+
+export const R_GetMembers = async (projectId: T_GetMembers['args']) => {
+    const response = await api.get<T_GetMembers["response"]>(`/projects/${projectId}/members`)
+    return response.data
+}
+
+export const R_ChangeMemberRole = async ({ projectId, memberId, role }: T_ChangeMemberRole['args']) => {
+    const response = await api.patch<T_ChangeMemberRole["response"]>(`/projects/${projectId}/members/${memberId}`, { role })
+    return response.data
+}
+
+export const R_RemoveMember = async ({ projectId, memberId }: T_RemoveMember['args']) => {
+    await api.delete<T_RemoveMember["response"]>(`/projects/${projectId}/members/${memberId}`)
+}
+
+export const R_InviteMember = async ({ projectId, ...data }: T_InviteMember['args']) => {
+    const response = await api.post<T_InviteMember["response"]>(`/projects/${projectId}/invitations`, data)
+    return response.data
+}
+
+export const R_GetProjectInvitations = async (projectId: T_GetProjectInvitations['args']) => {
+    const response = await api.get<T_GetProjectInvitations["response"]>(`/projects/${projectId}/invitations`)
+    return response.data
+}
+
+export const R_GetMyInvitations = async () => {
+    const response = await api.get<T_GetMyInvitations["response"]>("/invitations")
+    return response.data
+}
+
+export const R_AcceptInvitation = async (invitationId: T_AcceptInvitation['args']) => {
+    const response = await api.post<T_AcceptInvitation["response"]>(`/invitations/${invitationId}/accept`)
+    return response.data
+}
+
+export const R_DeclineInvitation = async (invitationId: T_DeclineInvitation['args']) => {
+    await api.delete<T_DeclineInvitation["response"]>(`/invitations/${invitationId}`)
+}
@@ -0,0 +1,76 @@
+import { IInvitation, IOrganization, IProject, IProjectMember, ProjectRole } from "../../utils/types"
+
+export interface T_GetProjects {
+    args: void,
+    response: IProject[]
+}
+
+export interface T_GetOrganizations {
+    args: void,
+    response: IOrganization[]
+}
+
+export interface T_CreateOrganization {
+    args: { name: string },
+    response: IOrganization
+}
+
+export interface T_CreateProject {
+    args: {
+        organizationId: string,
+        name: string,
+        description?: string
+    },
+    response: IProject
+}
+
+export interface T_GetMembers {
+    args: string,
+    response: IProjectMember[]
+}
+
+export interface T_ChangeMemberRole {
+    args: {
+        projectId: string,
+        memberId: string,
+        role: ProjectRole
+    },
+    response: IProjectMember
+}
+
+export interface T_RemoveMember {
+    args: {
+        projectId: string,
+        memberId: string
+    },
+    response: void
+}
+
+export interface T_InviteMember {
+    args: {
+        projectId: string,
+        email: string,
+        role: ProjectRole
+    },
+    response: IInvitation
+}
+
+export interface T_GetProjectInvitations {
+    args: string,
+    response: IInvitation[]
+}
+
+export interface T_GetMyInvitations {
+    args: void,
+    response: IInvitation[]
+}
+
+export interface T_AcceptInvitation {
+    args: string,
+    response: IProject
+}
+
+export interface T_DeclineInvitation {
+    args: string,
+    response: void
+}
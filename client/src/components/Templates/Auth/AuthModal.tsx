@@ -1,24 +1,31 @@
 import { Fragment, useEffect, useState } from 'react'
-import { Dialog, DialogTitle, TextField, Button, CircularProgress, InputProps } from '@mui/material'
+import { Dialog, DialogTitle, TextField, Button, CircularProgress, InputProps, Typography } from '@mui/material'
 import { ICredentials, IRegister } from 'src/utils/types'
 import { useAppDispatch, useAppSelector } from 'src/store/storeHooks'
 import { getAuthError, getAuthLoading } from 'src/store/user/selectors'
-import { TH_Register, TH_SignIn } from 'src/store/user/thunk'
+import { TH_ForgotPassword, TH_Register, TH_ResetPassword, TH_SignIn, TH_VerifyEmail } from 'src/store/user/thunk'
 import userSlice from 'src/store/user/slice'
 
 const textFieldSx = { mx: 2, my: 0.5 }
 
+type Screen = 'auth' | 'forgot' | 'reset' | 'verify'
+
 interface IProps {
   open: boolean,
   isRegisterMode: boolean,
   close: () => void,
   toggleRegister: () => void,
+  // tokens from the links in reset/verification emails
+  resetToken?: string | null,
+  verifyToken?: string | null,
 }
 
-export default function AuthModal({ open, close, isRegisterMode, toggleRegister }: IProps) {
+export default function AuthModal({ open, close, isRegisterMode, toggleRegister, resetToken, verifyToken }: IProps) {
   const dispatch = useAppDispatch()
 
   const [formData, setFormData] = useState({} as ICredentials | IRegister)
+  const [screen, setScreen] = useState<Screen>('auth')
+  const [notice, setNotice] = useState<string | null>(null)
   const loading = useAppSelector(getAuthLoading)
   const error = useAppSelector(getAuthError)
 
@@ -31,9 +38,30 @@ export default function AuthModal({ open, close, isRegisterMode, toggleRegister
     isRegisterMode ? dispatch(TH_Register({formData, onSuccess: close} as {formData: IRegister, onSuccess: ()=>void})) : dispatch(TH_SignIn({formData, onSuccess: close} as {formData: ICredentials, onSuccess: ()=>void}))
   }
 
+  const clickSendResetLink = () => {
+    dispatch(TH_ForgotPassword({ formData: { email: formData['email'] }, onSuccess: setNotice }))
+  }
+
+  const clickResetPassword = () => {
+    const { password, confirmPassword } = formData as IRegister
+    dispatch(TH_ResetPassword({ formData: { token: resetToken as string, password, confirmPassword }, onSuccess: setNotice }))
+  }
+
+  const showScreen = (next: Screen) => {
+    setScreen(next)
+    setNotice(null)
+    dispatch(userSlice.actions.setError(null))
+  }
+
   useEffect(()=>{
+    if (open) {
+      setScreen(resetToken ? 'reset' : verifyToken ? 'verify' : 'auth')
+      // verification needs no input, redeem the token right away
+      if (verifyToken) dispatch(TH_VerifyEmail({ formData: { token: verifyToken }, onSuccess: setNotice }))
+    }
     return ()=>{
       setFormData({} as ICredentials)
+      setNotice(null)
       dispatch(userSlice.actions.setError(null))
     }
   }, [open])
@@ -41,6 +69,37 @@ export default function AuthModal({ open, close, isRegisterMode, toggleRegister
 
   const disabledLoginButton = !formData['email'] || !formData['password']
   const disabledRegisterButton = !formData['email'] || !formData['password']
+  const disabledResetButton = !formData['password'] || !(formData as IRegister)['confirmPassword']
+
+  if (screen !== 'auth') {
+    return (
+      <Dialog open={open} onClose={close}>
+        {screen === 'forgot' && <ForgotPasswordForm formData={formData as ICredentials} handleChange={handleChange} />}
+        {screen === 'reset' && <ResetPasswordForm formData={formData as IRegister} handleChange={handleChange} />}
+        {screen === 'verify' && <DialogTitle>Confirm your email address</DialogTitle>}
+
+        {notice && <Typography sx={textFieldSx}>{notice}</Typography>}
+        {error && <span className='error'>{error}</span>}
+
+        {loading ? (
+          <center>
+            <CircularProgress color='inherit' />
+          </center>
+        ) : (
+          <Fragment>
+            {screen === 'forgot' && !notice && (
+              <Button onClick={clickSendResetLink} disabled={!formData['email']}>Send reset link</Button>
+            )}
+            {screen === 'reset' && !notice && (
+              <Button onClick={clickResetPassword} disabled={disabledResetButton}>Set new password</Button>
+            )}
+          </Fragment>
+        )}
+
+        <Button onClick={() => showScreen('auth')}>Back to login</Button>
+      </Dialog>
+    )
+  }
 
   return (
     <Dialog open={open} onClose={close}>
@@ -64,6 +123,8 @@ export default function AuthModal({ open, close, isRegisterMode, toggleRegister
         </Button>
       )}
 
+      {!isRegisterMode && <Button onClick={() => showScreen('forgot')}>Forgot password?</Button>}
+
       <Button onClick={toggleRegister}>
         {isRegisterMode ? 'I already have an account' : "I don't have an account"}
       </Button>
@@ -168,3 +229,51 @@ function RegisterForm({ formData, handleChange }: IPropsRegister) {
     </Fragment>
   )
 }
+
+function ForgotPasswordForm({ formData, handleChange }: IPropsLogin) {
+  return (
+    <Fragment>
+      <DialogTitle>Reset your password</DialogTitle>
+
+      <TextField
+        label='Email'
+        name='email'
+        type='text'
+        value={formData['email'] || ''}
+        onChange={handleChange}
+        variant='filled'
+        sx={textFieldSx}
+        required
+      />
+    </Fragment>
+  )
+}
+
+function ResetPasswordForm({ formData, handleChange }: IPropsRegister) {
+  return (
+    <Fragment>
+      <DialogTitle>Choose a new password</DialogTitle>
+
+      <TextField
+        label='Password'
+        name='password'
+        type='password'
+        value={formData['password'] || ''}
+        onChange={handleChange}
+        variant='filled'
+        sx={textFieldSx}
+        required
+      />
+      <TextField
+        label='Confirm Password'
+        name='confirmPassword'
+        type='password'
+        value={formData['confirmPassword'] || ''}
+        onChange={handleChange}
+        variant='filled'
+        sx={textFieldSx}
+        required
+      />
+    </Fragment>
+  )
+}
@@ -1,4 +1,4 @@
-import { Fragment, MouseEvent, useState } from 'react'
+import { Fragment, MouseEvent, useEffect, useState } from 'react'
 import {
   AppBar,
   IconButton,
@@ -7,24 +7,50 @@ import {
   List,
   ListSubheader,
   ListItemButton,
+  Select,
+  MenuItem,
+  Badge,
 } from '@mui/material'
 import OnlineIndicator from '../OnlineIndicator/OnlineIndicator'
 import AuthModal from '../Auth/AuthModal'
 import { useAppDispatch, useAppSelector } from 'src/store/storeHooks'
 import { getAccount, getAuthStatus } from 'src/store/user/selectors'
-import userSlice from 'src/store/user/slice'
+import { TH_Logout, TH_ResendVerification } from 'src/store/user/thunk'
+import closureSlice from 'src/store/closure/slice'
+import projectSlice from 'src/store/project/slice'
+import { getActiveProjectId, getMyInvitations, getProjects } from 'src/store/project/selectors'
+import ProjectsDialog from '../Projects/ProjectsDialog'
 
 export default function Header({setMode}: {setMode: (mode: "map" | "cable") => void}) {
   const dispatch = useAppDispatch()
   const isLoggedIn = useAppSelector(getAuthStatus)
   const account = useAppSelector(getAccount)
+  const projects = useAppSelector(getProjects)
+  const activeProjectId = useAppSelector(getActiveProjectId)
+  const invitations = useAppSelector(getMyInvitations)
+  const [projectsDialog, setProjectsDialog] = useState(false)
+  const [emailTokens, setEmailTokens] = useState<{ resetToken: string | null, verifyToken: string | null }>({ resetToken: null, verifyToken: null })
+
+  // links from reset/verification emails land here with the token in the query string
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const resetToken = params.get('resetToken')
+    const verifyToken = params.get('verifyToken')
+    if (!resetToken && !verifyToken) return
+    setEmailTokens({ resetToken, verifyToken })
+    setRegister(false)
+    setAuthModal(true)
+    window.history.replaceState(null, '', window.location.pathname)
+  }, [])
   const [anchorEl, setAnchorEl] = useState<HTMLButtonElement | null>(null)
   const [popover, setPopover] = useState(false)
   const [authModal, setAuthModal] = useState(false)
   const [register, setRegister] = useState(false)
 
   const handleLogout = () => {
-    dispatch(userSlice.actions.logout())
+    dispatch(TH_Logout())
+    dispatch(closureSlice.actions.reset())
+    dispatch(projectSlice.actions.reset())
   }
 
   const openPopover = (e: MouseEvent<HTMLButtonElement>) => {
@@ -58,6 +84,24 @@ export default function Header({setMode}: {setMode: (mode: "map" | "cable") => v
         <button onClick={()=>setMode("cable")}>
           cable
         </button>
+        {isLoggedIn && (
+          <Fragment>
+            <Select
+              size='small'
+              displayEmpty
+              value={activeProjectId ?? ''}
+              onChange={(e) => dispatch(projectSlice.actions.setActiveProject(e.target.value))}
+              sx={{ minWidth: 180, ml: 1, bgcolor: 'white' }}>
+              <MenuItem value='' disabled>No project</MenuItem>
+              {projects.map(item => <MenuItem key={item._id} value={item._id}>{item.organization.name} / {item.name}</MenuItem>)}
+            </Select>
+            <Badge badgeContent={invitations.length} color='secondary'>
+              <button onClick={() => setProjectsDialog(true)}>
+                projects
+              </button>
+            </Badge>
+          </Fragment>
+        )}
       </div>
 
 
@@ -79,7 +123,12 @@ export default function Header({setMode}: {setMode: (mode: "map" | "cable") => v
           </ListSubheader>
 
           {isLoggedIn ? (
-            <ListItemButton onClick={handleLogout}>Logout</ListItemButton>
+            <Fragment>
+              {account?.emailVerified === false && (
+                <ListItemButton onClick={() => { dispatch(TH_ResendVerification()); closePopover() }}>Resend verification email</ListItemButton>
+              )}
+              <ListItemButton onClick={handleLogout}>Logout</ListItemButton>
+            </Fragment>
           ) : (
             <Fragment>
               <ListItemButton onClick={clickLogin}>Login</ListItemButton>
@@ -89,11 +138,15 @@ export default function Header({setMode}: {setMode: (mode: "map" | "cable") => v
         </List>
       </Popover>
 
+      <ProjectsDialog open={projectsDialog} close={() => setProjectsDialog(false)} />
+
       <AuthModal
         open={authModal}
-        close={() => setAuthModal(false)}
+        close={() => { setAuthModal(false); setEmailTokens({ resetToken: null, verifyToken: null }) }}
         isRegisterMode={register}
         toggleRegister={() => setRegister((prev) => !prev)}
+        resetToken={emailTokens.resetToken}
+        verifyToken={emailTokens.verifyToken}
       />
     </AppBar>
   )
@@ -7,7 +7,7 @@ import useNotification from "../../../utils/hooks/useNotification"
 
 export const Layout = () => {
     useNotification()
-    const timeoutId = useRef<number | null>(null)
+    const timeoutId = useRef<ReturnType<typeof setTimeout> | null>(null)
     const INACTIVITY_TIMEOUT = 21600000 // 6 hours
 
     const handleUserActivity = () => {
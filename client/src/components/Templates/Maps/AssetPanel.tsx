@@ -0,0 +1,132 @@
+import { useEffect, useState } from 'react'
+import {
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Paper,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material'
+import CloseIcon from '@mui/icons-material/Close'
+import { AssetType } from 'shared/networkSchema'
+import { useAppDispatch, useAppSelector } from 'src/store/storeHooks'
+import { getClosures } from 'src/store/closure/selectors'
+import { TH_GetClosures } from 'src/store/closure/thunk'
+import { getAssetError } from 'src/store/asset/selectors'
+import { TH_DeleteAsset, TH_UpdateAsset } from 'src/store/asset/thunk'
+import { ASSET_TYPE_LIST, getAssetTypeInfo } from 'src/utils/MapsHelpers/assetTypes'
+import { IAsset } from 'src/utils/types'
+
+const rowSx = { display: 'flex', gap: 1, alignItems: 'center', my: 1, flexWrap: 'wrap' }
+
+interface IProps {
+  asset: IAsset,
+  projectId: string,
+  canEdit: boolean,
+  close: () => void,
+  // Opens the splice view of the closure a splice closure asset stands for
+  onOpenClosure: (closureId: string) => void,
+}
+
+export default function AssetPanel({ asset, projectId, canEdit, close, onOpenClosure }: IProps) {
+  const dispatch = useAppDispatch()
+  const closures = useAppSelector(getClosures)
+  const error = useAppSelector(getAssetError)
+
+  const [name, setName] = useState(asset.name)
+  const [type, setType] = useState<AssetType>(asset.type)
+  const [attributes, setAttributes] = useState<Record<string, string>>(asset.attributes)
+  const [closureId, setClosureId] = useState(asset.closure ?? '')
+
+  // A drag saves the asset again, the form follows the stored copy
+  useEffect(() => {
+    setName(asset.name)
+    setType(asset.type)
+    setAttributes(asset.attributes)
+    setClosureId(asset.closure ?? '')
+  }, [asset])
+
+  useEffect(() => {
+    if (type === 'closure' && closures.length === 0) dispatch(TH_GetClosures(projectId))
+  }, [type, projectId])
+
+  const clickSave = () => {
+    // Attributes of another type are dropped when the type changes
+    const fields = getAssetTypeInfo(type).attributes
+    dispatch(TH_UpdateAsset({
+      projectId,
+      assetId: asset._id,
+      type,
+      name: name.trim(),
+      lat: asset.lat,
+      lng: asset.lng,
+      attributes: Object.fromEntries(fields.filter(field => attributes[field.key]).map(field => [field.key, attributes[field.key]])),
+      closure: type === 'closure' && closureId ? closureId : undefined,
+    }))
+  }
+
+  const clickDelete = async () => {
+    await dispatch(TH_DeleteAsset({ projectId, assetId: asset._id }))
+    close()
+  }
+
+  return (
+    <Paper elevation={4} sx={{ position: 'absolute', top: 15, left: 15, zIndex: 1000, p: 2, width: 280 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center' }}>
+        <Typography variant='subtitle1' sx={{ flexGrow: 1 }}>{asset.name}</Typography>
+        <IconButton size='small' onClick={close}><CloseIcon /></IconButton>
+      </Box>
+      <Typography variant='caption'>{asset.lat.toFixed(6)}, {asset.lng.toFixed(6)}</Typography>
+      <Box sx={rowSx}>
+        <TextField size='small' fullWidth label='Name' value={name} onChange={(e) => setName(e.target.value)} disabled={!canEdit} />
+      </Box>
+      <Box sx={rowSx}>
+        <Select size='small' fullWidth value={type} onChange={(e) => setType(e.target.value as AssetType)} disabled={!canEdit}>
+          {ASSET_TYPE_LIST.map(item => <MenuItem key={item.type} value={item.type}>{item.label}</MenuItem>)}
+        </Select>
+      </Box>
+      {getAssetTypeInfo(type).attributes.map(field => (
+        <Box key={field.key} sx={rowSx}>
+          {field.options ? (
+            <Select
+              size='small'
+              fullWidth
+              displayEmpty
+              value={attributes[field.key] ?? ''}
+              onChange={(e) => setAttributes({ ...attributes, [field.key]: e.target.value })}
+              disabled={!canEdit}
+            >
+              <MenuItem value=''>{field.label}</MenuItem>
+              {field.options.map(option => <MenuItem key={option} value={option}>{option}</MenuItem>)}
+            </Select>
+          ) : (
+            <TextField
+              size='small'
+              fullWidth
+              label={field.label}
+              value={attributes[field.key] ?? ''}
+              onChange={(e) => setAttributes({ ...attributes, [field.key]: e.target.value })}
+              disabled={!canEdit}
+            />
+          )}
+        </Box>
+      ))}
+      {type === 'closure' && (
+        <Box sx={rowSx}>
+          <Select size='small' fullWidth displayEmpty value={closureId} onChange={(e) => setClosureId(e.target.value)} disabled={!canEdit}>
+            <MenuItem value=''>No closure record</MenuItem>
+            {closures.map(item => <MenuItem key={item._id} value={item._id}>{item.name}</MenuItem>)}
+          </Select>
+        </Box>
+      )}
+      {error && <span className='error'>{error}</span>}
+      <Box sx={rowSx}>
+        {asset.closure && <Button size='small' onClick={() => onOpenClosure(asset.closure as string)}>Open splice view</Button>}
+        {canEdit && <Button size='small' color='error' onClick={clickDelete}>Delete</Button>}
+        {canEdit && <Button size='small' variant='contained' onClick={clickSave} disabled={!name.trim()}>Save</Button>}
+      </Box>
+    </Paper>
+  )
+}
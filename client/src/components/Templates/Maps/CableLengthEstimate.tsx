@@ -0,0 +1,51 @@
+import { Box, TextField, Typography } from '@mui/material'
+import { ICableLengthEstimate, ICableLengthSettings } from 'shared/networkSchema'
+import { formatDistance } from 'src/utils/MapsHelpers/distance'
+import { toLengthSettings } from 'src/utils/MapsHelpers/cableEstimate'
+
+const rowSx = { display: 'flex', gap: 1, alignItems: 'center', my: 1, flexWrap: 'wrap' }
+
+const SETTING_FIELDS: { key: keyof ICableLengthSettings, label: string }[] = [
+  { key: 'slackPerPole', label: 'Slack per pole, m' },
+  { key: 'sagPercent', label: 'Sag, %' },
+  { key: 'poleRiser', label: 'Pole riser, m' },
+  { key: 'manholeRiser', label: 'Manhole riser, m' },
+  { key: 'reservePercent', label: 'Reserve, %' },
+]
+
+interface IProps {
+  estimate: ICableLengthEstimate,
+  onChange: (settings: ICableLengthSettings) => void,
+  disabled?: boolean,
+}
+
+export default function CableLengthEstimate({ estimate, onChange, disabled = false }: IProps) {
+  const changeSetting = (key: keyof ICableLengthSettings, value: string) =>
+    onChange({ ...toLengthSettings(estimate), [key]: Math.max(0, Number(value) || 0) })
+
+  return (
+    <Box>
+      <Box sx={rowSx}>
+        {SETTING_FIELDS.map(field => (
+          <TextField
+            key={field.key}
+            size='small'
+            type='number'
+            label={field.label}
+            value={estimate[field.key]}
+            onChange={(e) => changeSetting(field.key, e.target.value)}
+            disabled={disabled}
+            inputProps={{ min: 0 }}
+            sx={{ width: 120 }}
+          />
+        ))}
+      </Box>
+      <Typography variant='body2'>
+        {estimate.poles} poles, {estimate.poleRisers} pole risers, {estimate.manholes} manholes, {formatDistance(estimate.aerialLength)} aerial
+      </Typography>
+      <Typography variant='subtitle1' sx={{ fontWeight: 'bold' }}>
+        Order length: {formatDistance(estimate.orderLength)}
+      </Typography>
+    </Box>
+  )
+}
@@ -1,11 +1,30 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import 'leaflet/dist/leaflet.css';
 import './MapStyles.css';
 
-import { MapPoint } from 'src/utils/types';
-import YandexMapWrapper from './YandexMapWrapper';
-import GoogleMapRenderer from './GoogleMapRenderer';
-import LeafletMapRenderer from './LeafletMapRenderer';
+import { IAsset, ICableRoute, MapPoint } from 'src/utils/types';
+import { AssetType, ICableLengthSettings, IGeoPoint } from 'shared/networkSchema';
+import MapView from './MapView';
+import RouteDialog from './RouteDialog';
+import AssetPanel from './AssetPanel';
+import NetworkExchangeDialog from './NetworkExchangeDialog';
+import CableLengthEstimate from './CableLengthEstimate';
+import OfflineStatus from './OfflineStatus';
+import { useAppDispatch, useAppSelector } from 'src/store/storeHooks';
+import { getActiveProjectId, getCanEditNetwork } from 'src/store/project/selectors';
+import { getAuthStatus } from 'src/store/user/selectors';
+import { getIsOnline } from 'src/store/offline/selectors';
+import { getCableRoutes } from 'src/store/cableRoute/selectors';
+import { TH_GetCableRoutes, TH_UpdateCableRoute } from 'src/store/cableRoute/thunk';
+import cableRouteSlice from 'src/store/cableRoute/slice';
+import { getAssets } from 'src/store/asset/selectors';
+import { TH_CreateAsset, TH_GetAssets, TH_UpdateAsset } from 'src/store/asset/thunk';
+import assetSlice from 'src/store/asset/slice';
+import { ASSET_TYPE_LIST, getAssetTypeInfo } from 'src/utils/MapsHelpers/assetTypes';
+import { calculatePathLength, formatDistance } from 'src/utils/MapsHelpers/distance';
+import { DEFAULT_LENGTH_SETTINGS, estimateCableLength, toLengthSettings } from 'src/utils/MapsHelpers/cableEstimate';
+import { DEFAULT_SNAP_TOLERANCE } from 'src/utils/MapsHelpers/snapping';
+import { MapProvider } from 'src/utils/MapsHelpers/adapters/types';
 
 // MUI Imports
 import Box from '@mui/material/Box';
@@ -16,11 +35,10 @@ import InputLabel from '@mui/material/InputLabel';
 import IconButton from '@mui/material/IconButton';
 import Paper from '@mui/material/Paper';
 import StraightenIcon from '@mui/icons-material/Straighten';
-import { Button, Typography } from '@mui/material';
+import FitScreenIcon from '@mui/icons-material/FitScreen';
+import { Button, TextField, Typography } from '@mui/material';
 
 // --- Configuration ---
-type MapProvider = 'google' | 'yandex' | 'leaflet';
-
 interface MapTypeOption { value: string; label: string; }
 
 const mapTypesByProvider: Record<MapProvider, MapTypeOption[]> = {
@@ -41,22 +59,63 @@ const mapCenter = { lat: 40.1792, lng: 44.5152 };
 
 interface InteractiveMapProps {
     points?: MapPoint[];
+    // Opens the splice view of a closure a cable route is linked to
+    onOpenClosure?: (closureId: string) => void;
 }
 
-export type SpecialMode = 'ruler' | 'pillar' | null;
+export type SpecialMode = 'ruler' | 'asset' | 'route' | 'vertices' | null;
 
-const InteractiveMap: React.FC<InteractiveMapProps> = ({ points = [] }) => {
+const InteractiveMap: React.FC<InteractiveMapProps> = ({ points = [], onOpenClosure = () => { } }) => {
+    const dispatch = useAppDispatch();
+    const isLoggedIn = useAppSelector(getAuthStatus);
+    const projectId = useAppSelector(getActiveProjectId);
+    const routes = useAppSelector(getCableRoutes);
+    const assets = useAppSelector(getAssets);
+    const isOnline = useAppSelector(getIsOnline);
     const [provider, setProvider] = useState<MapProvider>('yandex');
     const [mapType, setMapType] = useState<string>(mapTypesByProvider.yandex[0].value);
 
     // --- State for Measurement UI ---
     const [specialMode, setSpecialMode] = useState<SpecialMode>(null);
     const [totalDistance, setTotalDistance] = useState(0);
+    const [fitRequest, setFitRequest] = useState(0);
+    const [exchangeDialog, setExchangeDialog] = useState(false);
+    const canEditNetwork = useAppSelector(getCanEditNetwork);
 
+    // The ruler line turned into a cable order length, which can be kept on a route
+    const [measuredPoints, setMeasuredPoints] = useState<IGeoPoint[]>([]);
+    const [lengthSettings, setLengthSettings] = useState<ICableLengthSettings>(DEFAULT_LENGTH_SETTINGS);
+    const [estimateRouteId, setEstimateRouteId] = useState('');
+    const estimate = useMemo(() => estimateCableLength(measuredPoints, assets, lengthSettings), [measuredPoints, assets, lengthSettings]);
 
+    // A route just drawn, or a saved one that was clicked
+    const [routeDialog, setRouteDialog] = useState(false);
+    const [draftRoute, setDraftRoute] = useState<IGeoPoint[]>([]);
+    const [selectedRoute, setSelectedRoute] = useState<ICableRoute | null>(null);
 
-    const handleProviderChange = (event: SelectChangeEvent) => {
-        const newProvider = event.target.value as MapProvider;
+    // A saved route whose points are being moved, added or removed in 'vertices' mode
+    const [editingRoute, setEditingRoute] = useState<ICableRoute | null>(null);
+    const [editPoints, setEditPoints] = useState<IGeoPoint[]>([]);
+    const isEditingRoute = specialMode === 'vertices' && !!editingRoute;
+    const [snapTolerance, setSnapTolerance] = useState(DEFAULT_SNAP_TOLERANCE);
+
+    // Type placed by a click in asset mode, and the asset open in the side panel
+    const [assetType, setAssetType] = useState<AssetType>('pole');
+    const [selectedAssetId, setSelectedAssetId] = useState<string | null>(null);
+    const selectedAsset = assets.find(item => item._id === selectedAssetId);
+
+    // Routes and assets never outlive the project they were loaded from
+    useEffect(() => {
+        dispatch(cableRouteSlice.actions.reset());
+        dispatch(assetSlice.actions.reset());
+        setSelectedAssetId(null);
+        if (isLoggedIn && projectId) {
+            dispatch(TH_GetCableRoutes(projectId));
+            dispatch(TH_GetAssets(projectId));
+        }
+    }, [isLoggedIn, projectId, dispatch]);
+
+    const changeProvider = (newProvider: MapProvider) => {
         setProvider(newProvider);
         setMapType(mapTypesByProvider[newProvider][0].value);
         // Reset measurement when provider changes
@@ -64,12 +123,45 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({ points = [] }) => {
         setTotalDistance(0);
     };
 
+    const handleProviderChange = (event: SelectChangeEvent) => {
+        changeProvider(event.target.value as MapProvider);
+    };
+
+    // Only the Leaflet tiles are kept for offline use, the other providers need a connection to load
+    useEffect(() => {
+        if (!isOnline && provider !== 'leaflet') changeProvider('leaflet');
+    }, [isOnline]);
+
     const handleMapTypeChange = (event: SelectChangeEvent) => {
         setMapType(event.target.value);
     }
 
-    const handlePillarClick = () => {
-        setSpecialMode(prev=>prev === "pillar" ? null : "pillar");
+    const handleAssetModeClick = () => {
+        setSpecialMode(prev => prev === "asset" ? null : "asset");
+    };
+
+    const handleAssetPlaced = async (point: IGeoPoint) => {
+        if (!projectId) return;
+        const count = assets.filter(item => item.type === assetType).length;
+        const result = await dispatch(TH_CreateAsset({
+            projectId,
+            type: assetType,
+            name: `${getAssetTypeInfo(assetType).label} ${count + 1}`,
+            ...point,
+            attributes: {},
+        }));
+        if (TH_CreateAsset.fulfilled.match(result)) setSelectedAssetId(result.payload._id);
+    };
+
+    const handleAssetMove = (asset: IAsset, point: IGeoPoint) => {
+        if (!projectId) return;
+        const { type, name, attributes, closure } = asset;
+        dispatch(TH_UpdateAsset({ projectId, assetId: asset._id, type, name, attributes, closure, ...point }));
+    };
+
+    const handleAssetClick = (asset: IAsset) => {
+        if (specialMode) return;
+        setSelectedAssetId(asset._id);
     };
 
     const handleRulerClick = () => {
@@ -80,45 +172,69 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({ points = [] }) => {
         }
     };
 
+    const handleSaveEstimate = async () => {
+        const route = routes.find(item => item._id === estimateRouteId);
+        if (!projectId || !route) return;
+        const { name, points: routePoints, length, closure, cableId, toClosure, toCableId } = route;
+        const result = await dispatch(TH_UpdateCableRoute({ projectId, cableRouteId: route._id, name, points: routePoints, length, closure, cableId, toClosure, toCableId, estimate }));
+        if (TH_UpdateCableRoute.fulfilled.match(result)) setEstimateRouteId('');
+    };
+
+    const handleRouteModeClick = () => {
+        setSpecialMode(prev => prev === "route" ? null : "route");
+        setTotalDistance(0);
+    };
+
+    const handleRouteDrawn = (routePoints: IGeoPoint[]) => {
+        setSpecialMode(null);
+        setTotalDistance(0);
+        setSelectedRoute(null);
+        setDraftRoute(routePoints);
+        setRouteDialog(true);
+    };
+
+    const handleRouteClick = (route: ICableRoute) => {
+        if (specialMode) return;
+        setSelectedRoute(route);
+        setRouteDialog(true);
+    };
+
+    const handleEditRoutePoints = (route: ICableRoute) => {
+        setRouteDialog(false);
+        setEditingRoute(route);
+        setEditPoints(route.points.map(({ lat, lng }) => ({ lat, lng })));
+        setSpecialMode('vertices');
+    };
+
+    const handleCancelEditPoints = () => {
+        setSpecialMode(null);
+        setEditingRoute(null);
+    };
+
+    // The estimate is worked out again for the new line with the settings it was saved with
+    const handleSaveEditPoints = async () => {
+        if (!projectId || !editingRoute) return;
+        const { name, closure, cableId, toClosure, toCableId, estimate: savedEstimate } = editingRoute;
+        const result = await dispatch(TH_UpdateCableRoute({
+            projectId,
+            cableRouteId: editingRoute._id,
+            name,
+            points: editPoints,
+            length: calculatePathLength(editPoints),
+            closure,
+            cableId,
+            toClosure,
+            toCableId,
+            estimate: savedEstimate && estimateCableLength(editPoints, assets, toLengthSettings(savedEstimate)),
+        }));
+        if (TH_UpdateCableRoute.fulfilled.match(result)) handleCancelEditPoints();
+    };
+
     // Callback for map components to report their calculated distance
     const handleDistanceChange = (distance: number) => {
         setTotalDistance(distance);
     };
 
-    const renderMap = () => {
-        const commonProps = {
-            points,
-            specialMode,
-            mapType,
-            onDistanceChange: handleDistanceChange,
-        };
-
-        // These props are not needed for Yandex anymore, but might be for others
-        // If you refactor Google/Leaflet in the same way, you can remove them.
-        const legacyMeasureProps = {
-            measurePoints: [],
-            mousePosition: null,
-            segments: [],
-            onMapClick: () => { },
-            onMouseMove: () => { },
-        };
-
-        switch (provider) {
-            case 'google':
-                return <GoogleMapRenderer {...commonProps} {...legacyMeasureProps} />;
-            case 'yandex':
-                return <YandexMapWrapper
-                    {...commonProps}
-                    center={[mapCenter.lat, mapCenter.lng]}
-                    apiKey={import.meta.env.VITE_APP_YANDEX_MAPS_API_KEY}
-                />;
-            case 'leaflet':
-                return <LeafletMapRenderer {...commonProps} {...legacyMeasureProps} />;
-            default:
-                return <div>Select a map provider</div>;
-        }
-    };
-
     return (
         <Box sx={{
             position: 'relative',
@@ -130,14 +246,47 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({ points = [] }) => {
                 <IconButton onClick={handleRulerClick} color={specialMode === 'ruler' ? 'error' : 'primary'}>
                     <StraightenIcon />
                 </IconButton>
-                {specialMode === 'ruler' && totalDistance > 0 && (
+                <IconButton onClick={() => setFitRequest(prev => prev + 1)} color='primary'>
+                    <FitScreenIcon />
+                </IconButton>
+                {projectId && (
+                    <Button onClick={() => setExchangeDialog(true)} size='small' sx={{ fontSize: 10 }}>
+                        Import / export
+                    </Button>
+                )}
+                {projectId && <OfflineStatus projectId={projectId} />}
+                {(specialMode === 'ruler' || specialMode === 'route') && totalDistance > 0 && (
                     <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
-                        {totalDistance < 1000 ? `${totalDistance.toFixed(0)} m` : `${(totalDistance / 1000).toFixed(2)} km`}
+                        {formatDistance(totalDistance)}
                     </Typography>
                 )}
-                <Button onClick={handlePillarClick} variant='contained' size='small' sx={{ fontSize: 10 }} color={specialMode === 'pillar' ? 'error' : 'primary'}>
-                    Pillar
-                </Button>
+                {canEditNetwork && projectId && (
+                    <>
+                        <Select size="small" value={assetType} onChange={(e) => setAssetType(e.target.value as AssetType)} sx={{ fontSize: 12 }}>
+                            {ASSET_TYPE_LIST.map(item => <MenuItem key={item.type} value={item.type}>{item.label}</MenuItem>)}
+                        </Select>
+                        <Button onClick={handleAssetModeClick} variant='contained' size='small' sx={{ fontSize: 10 }} color={specialMode === 'asset' ? 'error' : 'primary'}>
+                            Place
+                        </Button>
+                    </>
+                )}
+                {canEditNetwork && projectId && (
+                    <Button onClick={handleRouteModeClick} variant='contained' size='small' sx={{ fontSize: 10 }} color={specialMode === 'route' ? 'error' : 'primary'}>
+                        Route
+                    </Button>
+                )}
+                {specialMode === 'route' && (
+                    <Typography variant="caption">Click to add points, right click to finish</Typography>
+                )}
+                {isEditingRoute && (
+                    <>
+                        <Typography variant="caption">
+                            {editingRoute.name}: {formatDistance(calculatePathLength(editPoints))}, drag points, right click one to remove it
+                        </Typography>
+                        <Button onClick={handleCancelEditPoints} size='small' sx={{ fontSize: 10 }}>Cancel</Button>
+                        <Button onClick={handleSaveEditPoints} variant='contained' size='small' sx={{ fontSize: 10 }}>Save points</Button>
+                    </>
+                )}
             </Paper>
 
             <Paper
@@ -184,9 +333,90 @@ const InteractiveMap: React.FC<InteractiveMapProps> = ({ points = [] }) => {
                         ))}
                     </Select>
                 </FormControl>
+                <TextField
+                    label="Snap, px"
+                    type="number"
+                    size="small"
+                    value={snapTolerance}
+                    onChange={(e) => setSnapTolerance(Math.max(0, Number(e.target.value) || 0))}
+                    inputProps={{ min: 0 }}
+                    helperText="0 turns snapping off"
+                />
             </Paper>
 
-            {renderMap()}
+            {/* Every provider gets a fresh map element */}
+            <MapView
+                key={provider}
+                provider={provider}
+                center={mapCenter}
+                mapType={mapType}
+                points={points}
+                specialMode={specialMode}
+                onDistanceChange={handleDistanceChange}
+                onMeasureChange={setMeasuredPoints}
+                fitRequest={fitRequest}
+                routes={isEditingRoute ? routes.filter(item => item._id !== editingRoute._id) : routes}
+                onRouteDrawn={handleRouteDrawn}
+                onRouteClick={handleRouteClick}
+                assets={assets}
+                canMoveAssets={canEditNetwork && !specialMode}
+                onAssetPlaced={handleAssetPlaced}
+                onAssetMove={handleAssetMove}
+                onAssetClick={handleAssetClick}
+                snapTolerance={snapTolerance}
+                editPoints={isEditingRoute ? editPoints : null}
+                onEditPointsChange={setEditPoints}
+            />
+
+            {specialMode === 'ruler' && measuredPoints.length > 1 && (
+                <Paper elevation={4} sx={{ position: 'absolute', bottom: 25, left: 15, zIndex: 1000, p: 2, maxWidth: 680 }}>
+                    <Typography variant="subtitle2">Cable length estimate</Typography>
+                    <CableLengthEstimate estimate={estimate} onChange={setLengthSettings} />
+                    {canEditNetwork && projectId && routes.length > 0 && (
+                        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                            <Select size="small" displayEmpty value={estimateRouteId} onChange={(e) => setEstimateRouteId(e.target.value)} sx={{ minWidth: 180 }}>
+                                <MenuItem value='' disabled>Cable route</MenuItem>
+                                {routes.map(item => <MenuItem key={item._id} value={item._id}>{item.name}</MenuItem>)}
+                            </Select>
+                            <Button onClick={handleSaveEstimate} disabled={!estimateRouteId} size='small'>
+                                Save to route
+                            </Button>
+                        </Box>
+                    )}
+                </Paper>
+            )}
+
+            {projectId && selectedAsset && (
+                <AssetPanel
+                    asset={selectedAsset}
+                    projectId={projectId}
+                    canEdit={canEditNetwork}
+                    close={() => setSelectedAssetId(null)}
+                    onOpenClosure={onOpenClosure}
+                />
+            )}
+
+            {projectId && (
+                <NetworkExchangeDialog
+                    open={exchangeDialog}
+                    close={() => setExchangeDialog(false)}
+                    projectId={projectId}
+                    canEdit={canEditNetwork}
+                />
+            )}
+
+            {projectId && (
+                <RouteDialog
+                    open={routeDialog}
+                    close={() => setRouteDialog(false)}
+                    projectId={projectId}
+                    canEdit={canEditNetwork}
+                    route={selectedRoute}
+                    points={draftRoute}
+                    onOpenClosure={(closureId) => { setRouteDialog(false); onOpenClosure(closureId); }}
+                    onEditPoints={handleEditRoutePoints}
+                />
+            )}
         </Box>
     );
 };
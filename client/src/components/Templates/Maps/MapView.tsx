@@ -0,0 +1,330 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { IAsset, ICableRoute, MapPoint } from 'src/utils/types';
+import { IGeoPoint } from 'shared/networkSchema';
+import { calculateDistance, formatDistance } from 'src/utils/MapsHelpers/distance';
+import { getAssetTypeInfo } from 'src/utils/MapsHelpers/assetTypes';
+import { SnapTarget, findSnapTarget, getSnapTargets } from 'src/utils/MapsHelpers/snapping';
+import { createMapAdapter } from 'src/utils/MapsHelpers/adapters/createMapAdapter';
+import { MapAdapter, MapMarker, MapPolyline, MapProvider } from 'src/utils/MapsHelpers/adapters/types';
+import { SpecialMode } from './InteractiveMap';
+
+interface MapViewProps {
+  provider: MapProvider;
+  center: IGeoPoint;
+  zoom?: number;
+  mapType: string;
+  points: MapPoint[]; // Default points to display
+  specialMode: SpecialMode;
+  onDistanceChange: (distance: number) => void; // Callback to update parent with total distance
+  onMeasureChange?: (points: IGeoPoint[]) => void; // The points measured so far, for the cable length estimate
+  // Bumped by the parent to fit the map to everything drawn on it
+  fitRequest?: number;
+  routes?: ICableRoute[]; // Saved cable routes, drawn as polylines
+  onRouteDrawn?: (points: IGeoPoint[]) => void; // Right click finishes a route in route mode
+  onRouteClick?: (route: ICableRoute) => void;
+  assets?: IAsset[]; // Saved network assets, drawn with one icon per type
+  canMoveAssets?: boolean; // Assets can be dragged to a new position
+  onAssetPlaced?: (point: IGeoPoint) => void; // A click in asset mode
+  onAssetMove?: (asset: IAsset, point: IGeoPoint) => void;
+  onAssetClick?: (asset: IAsset) => void;
+  // Clicks within this many pixels of an asset or a route vertex land on it, 0 turns snapping off
+  snapTolerance?: number;
+  editPoints?: IGeoPoint[] | null; // A route being reshaped in 'vertices' mode
+  onEditPointsChange?: (points: IGeoPoint[]) => void;
+}
+
+const RULER_COLOR = '#FF0000';
+const ROUTE_COLOR = '#1565C0';
+const EDIT_COLOR = '#EF6C00';
+
+const midpoint = (p1: IGeoPoint, p2: IGeoPoint): IGeoPoint => ({ lat: (p1.lat + p2.lat) / 2, lng: (p1.lng + p2.lng) / 2 });
+
+/**
+ * The map with its drawing and measuring tools. Everything goes through a MapAdapter,
+ * so the tools work the same whichever provider is selected.
+ */
+const MapView: React.FC<MapViewProps> = ({
+  provider,
+  center,
+  zoom = 16,
+  mapType,
+  points,
+  specialMode,
+  onDistanceChange,
+  onMeasureChange,
+  fitRequest = 0,
+  routes = [],
+  onRouteDrawn,
+  onRouteClick,
+  assets = [],
+  canMoveAssets = false,
+  onAssetPlaced,
+  onAssetMove,
+  onAssetClick,
+  snapTolerance = 0,
+  editPoints = null,
+  onEditPointsChange,
+}) => {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const [adapter, setAdapter] = useState<MapAdapter | null>(null);
+
+  // --- Refs for Live Ruler Objects (for smooth updates) ---
+  const liveRulerLine = useRef<MapPolyline | null>(null);
+  const liveRulerLabel = useRef<MapMarker | null>(null);
+
+  // --- Component State ---
+  const [measurePoints, setMeasurePoints] = useState<MapPoint[]>([]);
+  const [mousePosition, setMousePosition] = useState<MapPoint | null>(null);
+  const [snapIndicator, setSnapIndicator] = useState<SnapTarget | null>(null);
+
+  // A route is drawn exactly like a ruler measurement, it is only saved at the end
+  const isMeasureMode = specialMode === 'ruler' || specialMode === 'route';
+
+  // Map event handlers are bound once per map, they read the latest values through these
+  const specialModeRef = useRef(specialMode);
+  const measurePointsRef = useRef<MapPoint[]>([]);
+  const isTrackingRef = useRef(false);
+  const callbacks = useRef({ onRouteDrawn, onRouteClick, onAssetPlaced, onAssetMove, onAssetClick, onMeasureChange, onEditPointsChange });
+  specialModeRef.current = specialMode;
+  measurePointsRef.current = measurePoints;
+  callbacks.current = { onRouteDrawn, onRouteClick, onAssetPlaced, onAssetMove, onAssetClick, onMeasureChange, onEditPointsChange };
+
+  // Assets and the vertices of the routes drawn, a route being reshaped is not among them
+  const snapTargets = useMemo(() => getSnapTargets(assets, routes), [assets, routes]);
+  const snapRef = useRef((_point: IGeoPoint): SnapTarget | undefined => undefined);
+  snapRef.current = (point) => adapter ? findSnapTarget(point, snapTargets, snapTolerance, adapter.toPixel) : undefined;
+
+  // --- Map Initialization ---
+  useEffect(() => {
+    if (!mapRef.current) return;
+    let isCancelled = false;
+    let created: MapAdapter | null = null;
+
+    createMapAdapter(provider, mapRef.current, { center, zoom, mapType })
+      .then(result => {
+        if (isCancelled) return result.destroy();
+        created = result;
+        setAdapter(result);
+      })
+      .catch(error => console.error(`The ${provider} map could not be loaded:`, error));
+
+    return () => {
+      isCancelled = true;
+      created?.destroy();
+      setAdapter(null);
+    };
+  }, [provider]);
+
+  useEffect(() => {
+    adapter?.setMapType(mapType);
+  }, [adapter, mapType]);
+
+  // --- Event Handlers for the Tools ---
+  useEffect(() => {
+    if (!adapter) return;
+
+    const offClick = adapter.on('click', (point) => {
+      switch (specialModeRef.current) {
+        case 'ruler':
+        case 'route':
+          isTrackingRef.current = true;
+          setMeasurePoints(prev => [...prev, { id: Date.now(), ...(snapRef.current(point)?.point ?? point) }]);
+          break;
+        case 'asset':
+          callbacks.current.onAssetPlaced?.(point);
+          break;
+        default:
+          break;
+      }
+    });
+
+    // Right click ends the line, in route mode it hands the route to the parent
+    const offRightClick = adapter.on('rightclick', () => {
+      isTrackingRef.current = false;
+      setMousePosition(null);
+      setSnapIndicator(null);
+      if (specialModeRef.current === 'route' && measurePointsRef.current.length > 1) {
+        callbacks.current.onRouteDrawn?.(measurePointsRef.current.map(({ lat, lng }) => ({ lat, lng })));
+        setMeasurePoints([]);
+      }
+    });
+
+    // The indicator shows where a click would land before it is made
+    const offMouseMove = adapter.on('mousemove', (point) => {
+      if (specialModeRef.current !== 'ruler' && specialModeRef.current !== 'route') return;
+      const target = snapRef.current(point);
+      setSnapIndicator(target ?? null);
+      if (isTrackingRef.current) setMousePosition({ id: 'mouse', ...(target?.point ?? point) });
+    });
+
+    return () => {
+      offClick();
+      offRightClick();
+      offMouseMove();
+    };
+  }, [adapter]);
+
+  useEffect(() => {
+    if (!adapter) return;
+    adapter.setCursor(specialMode && specialMode !== 'vertices' ? 'crosshair' : 'grab');
+    if (!specialMode) {
+      isTrackingRef.current = false;
+      setMeasurePoints([]);
+      setMousePosition(null);
+      setSnapIndicator(null);
+    }
+  }, [adapter, specialMode]);
+
+  // --- Memoization and Callbacks ---
+  const segments = useMemo(() => {
+    return measurePoints.slice(0, -1).map((_point, i) => {
+      const p1 = measurePoints[i];
+      const p2 = measurePoints[i + 1];
+      return { p1, p2, distance: calculateDistance(p1, p2) };
+    });
+  }, [measurePoints]);
+
+  useEffect(() => {
+    const total = segments.reduce((acc, seg) => acc + seg.distance, 0);
+    onDistanceChange(total);
+  }, [segments, onDistanceChange]);
+
+  useEffect(() => {
+    callbacks.current.onMeasureChange?.(measurePoints.map(({ lat, lng }) => ({ lat, lng })));
+  }, [measurePoints]);
+
+  useEffect(() => {
+    if (!adapter || fitRequest === 0) return;
+    adapter.fitBounds([
+      ...points,
+      ...assets,
+      ...routes.flatMap(route => route.points),
+    ]);
+  }, [fitRequest]);
+
+  // --- Drawing Effects ---
+
+  // STATIC measurement objects, redrawn only when a point is added (or all are cleared)
+  useEffect(() => {
+    if (!adapter || !isMeasureMode) return;
+    const color = specialMode === 'route' ? ROUTE_COLOR : RULER_COLOR;
+
+    const objects = [
+      ...segments.flatMap(seg => [
+        adapter.addPolyline({ points: [seg.p1, seg.p2], color, width: 2 }),
+        adapter.addMarker({
+          point: midpoint(seg.p1, seg.p2),
+          className: 'distance-label',
+          text: `${seg.distance.toFixed(0)} m`,
+        }),
+      ]),
+      ...measurePoints.map(p => adapter.addMarker({ point: p, className: 'ruler-x-placemark' })),
+    ];
+    return () => objects.forEach(item => item.remove());
+  }, [adapter, measurePoints, segments, isMeasureMode, specialMode]);
+
+  // DYNAMIC live ruler, updated on every mouse move for a smooth change
+  useEffect(() => {
+    if (!adapter || !isMeasureMode || !mousePosition || measurePoints.length === 0) {
+      liveRulerLine.current?.remove();
+      liveRulerLabel.current?.remove();
+      liveRulerLine.current = null;
+      liveRulerLabel.current = null;
+      return;
+    }
+
+    const lastPoint = measurePoints[measurePoints.length - 1];
+    const labelPoint = midpoint(lastPoint, mousePosition);
+    const distanceText = `${calculateDistance(lastPoint, mousePosition).toFixed(0)} m`;
+
+    if (!liveRulerLine.current || !liveRulerLabel.current) {
+      liveRulerLine.current = adapter.addPolyline({
+        points: [lastPoint, mousePosition],
+        color: specialMode === 'route' ? ROUTE_COLOR : RULER_COLOR,
+        width: 2,
+        opacity: 0.7,
+        dashed: true,
+      });
+      liveRulerLabel.current = adapter.addMarker({ point: labelPoint, className: 'distance-label', text: distanceText });
+    } else {
+      liveRulerLine.current.setPoints([lastPoint, mousePosition]);
+      liveRulerLabel.current.setPosition(labelPoint);
+      liveRulerLabel.current.setText(distanceText);
+    }
+  }, [adapter, mousePosition, measurePoints, isMeasureMode]);
+
+  useEffect(() => {
+    if (!adapter || !snapIndicator) return;
+    const marker = adapter.addMarker({ point: snapIndicator.point, className: 'snap-indicator', text: snapIndicator.label });
+    return () => marker.remove();
+  }, [adapter, snapIndicator]);
+
+  // The route being reshaped: vertices are dragged or removed with a right click, the handles between them add one
+  useEffect(() => {
+    if (!adapter || !editPoints) return;
+    const snap = (point: IGeoPoint) => snapRef.current(point)?.point ?? point;
+    const change = (next: IGeoPoint[]) => callbacks.current.onEditPointsChange?.(next);
+    const insert = (index: number, point: IGeoPoint) => change([...editPoints.slice(0, index), point, ...editPoints.slice(index)]);
+    const canRemove = editPoints.length > 2;
+
+    const objects = [
+      adapter.addPolyline({ points: editPoints, color: EDIT_COLOR, width: 4 }),
+      ...editPoints.map((point, i) => adapter.addMarker({
+        point,
+        className: 'route-vertex',
+        hint: canRemove ? 'Drag to move, right click to remove' : 'Drag to move',
+        draggable: true,
+        onDragEnd: (next) => change(editPoints.map((item, j) => j === i ? snap(next) : item)),
+        onRightClick: () => { if (canRemove) change(editPoints.filter((_item, j) => j !== i)) },
+      })),
+      ...editPoints.slice(1).map((point, i) => adapter.addMarker({
+        point: midpoint(editPoints[i], point),
+        className: 'route-vertex-insert',
+        hint: 'Click or drag to add a point',
+        draggable: true,
+        onClick: () => insert(i + 1, midpoint(editPoints[i], point)),
+        onDragEnd: (next) => insert(i + 1, snap(next)),
+      })),
+    ];
+    return () => objects.forEach(item => item.remove());
+  }, [adapter, editPoints]);
+
+  // Saved cable routes, a click hands the route to the parent
+  useEffect(() => {
+    if (!adapter) return;
+    const lines = routes.map(route => adapter.addPolyline({
+      points: route.points,
+      color: ROUTE_COLOR,
+      width: 4,
+      opacity: 0.8,
+      hint: [route.name, formatDistance(route.length), route.estimate && `order ${formatDistance(route.estimate.orderLength)}`].filter(Boolean).join(' · '),
+      onClick: () => callbacks.current.onRouteClick?.(route),
+    }));
+    return () => lines.forEach(item => item.remove());
+  }, [adapter, routes]);
+
+  // Saved assets, dragging one reports its new position
+  useEffect(() => {
+    if (!adapter) return;
+    const markers = assets.map(asset => adapter.addMarker({
+      point: asset,
+      className: getAssetTypeInfo(asset.type).className,
+      hint: asset.name,
+      draggable: canMoveAssets,
+      onClick: () => callbacks.current.onAssetClick?.(asset),
+      onDragEnd: (point) => callbacks.current.onAssetMove?.(asset, point),
+    }));
+    return () => markers.forEach(item => item.remove());
+  }, [adapter, assets, canMoveAssets]);
+
+  // Effect for default points from props
+  useEffect(() => {
+    if (!adapter) return;
+    const markers = points.map(point => adapter.addMarker({ point, className: 'pillar-placemark' }));
+    return () => markers.forEach(item => item.remove());
+  }, [adapter, points]);
+
+  return <div ref={mapRef} style={{ width: '100%', height: '100%' }} />;
+};
+
+export default MapView;
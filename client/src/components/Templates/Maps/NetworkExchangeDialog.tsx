@@ -0,0 +1,228 @@
+import { ChangeEvent, Fragment, useMemo, useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  ListSubheader,
+  MenuItem,
+  Select,
+  Typography,
+} from '@mui/material'
+import { AssetType } from 'shared/networkSchema'
+import { useAppDispatch, useAppSelector } from 'src/store/storeHooks'
+import { getActiveProject } from 'src/store/project/selectors'
+import { getAssetError, getAssets } from 'src/store/asset/selectors'
+import { getCableRoutes } from 'src/store/cableRoute/selectors'
+import { TH_ImportNetwork } from 'src/store/asset/thunk'
+import { ASSET_TYPE_LIST, getAssetTypeInfo } from 'src/utils/MapsHelpers/assetTypes'
+import { formatDistance } from 'src/utils/MapsHelpers/distance'
+import { ImportMapping, ParsedFeatures, buildImportPlan, createDefaultMapping, getPropertyKeys, getPropertyValues } from 'src/utils/geoExchange/features'
+import { GEO_FILE_ACCEPT, GeoFileFormat, readGeoFile, writeGeoFile } from 'src/utils/geoExchange/files'
+import { downloadBlob, toFileName } from 'src/utils/helperFunctions'
+import { ExportFormat } from 'src/utils/types'
+import { R_CreateExport, R_DownloadExport, R_GetExport } from 'src/api/exports/service'
+
+const rowSx = { display: 'flex', gap: 1, alignItems: 'center', my: 1, flexWrap: 'wrap' }
+
+// The preview lists this many items of each kind
+const PREVIEW_SIZE = 20
+
+// How often a server export is checked while it is being built
+const EXPORT_POLL_INTERVAL = 1000
+
+const SERVER_EXPORTS: { format: ExportFormat, label: string }[] = [
+  { format: 'shapefile', label: 'Shapefile (zip)' },
+  { format: 'geopackage', label: 'GeoPackage' },
+]
+
+interface IProps {
+  open: boolean,
+  close: () => void,
+  projectId: string,
+  canEdit: boolean,
+}
+
+export default function NetworkExchangeDialog({ open, close, projectId, canEdit }: IProps) {
+  const dispatch = useAppDispatch()
+  const project = useAppSelector(getActiveProject)
+  const assets = useAppSelector(getAssets)
+  const routes = useAppSelector(getCableRoutes)
+  const error = useAppSelector(getAssetError)
+
+  const [fileName, setFileName] = useState('')
+  const [parsed, setParsed] = useState<ParsedFeatures | null>(null)
+  const [mapping, setMapping] = useState<ImportMapping | null>(null)
+  const [readError, setReadError] = useState('')
+  const [isBusy, setIsBusy] = useState(false)
+  const [serverExport, setServerExport] = useState<ExportFormat | null>(null)
+  const [exportError, setExportError] = useState('')
+
+  const plan = useMemo(() => parsed && mapping ? buildImportPlan(parsed.features, mapping) : null, [parsed, mapping])
+  const propertyKeys = useMemo(() => parsed ? getPropertyKeys(parsed.features) : [], [parsed])
+  const typeValues = useMemo(() => parsed && mapping?.typeProperty ? getPropertyValues(parsed.features, mapping.typeProperty) : [], [parsed, mapping?.typeProperty])
+
+  const resetImport = () => {
+    setFileName('')
+    setParsed(null)
+    setMapping(null)
+    setReadError('')
+  }
+
+  const handleExport = async (format: GeoFileFormat) => {
+    const name = project?.name ?? 'network'
+    downloadBlob(await writeGeoFile(format, assets, routes, name), toFileName(name, format))
+  }
+
+  const handleServerExport = async (format: ExportFormat) => {
+    setServerExport(format)
+    setExportError('')
+    try {
+      let job = await R_CreateExport({ projectId, format })
+      while (job.status === 'pending') {
+        await new Promise(resolve => setTimeout(resolve, EXPORT_POLL_INTERVAL))
+        job = await R_GetExport({ projectId, exportId: job._id })
+      }
+      if (job.status === 'failed') throw new Error(job.error)
+      downloadBlob(await R_DownloadExport({ projectId, exportId: job._id }), job.fileName ?? toFileName(project?.name ?? 'network', format === 'shapefile' ? 'zip' : 'gpkg'))
+    } catch (error) {
+      console.error('Server export failed:', error)
+      setExportError((error as Error).message || 'The export could not be built')
+    } finally {
+      setServerExport(null)
+    }
+  }
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    resetImport()
+    setFileName(file.name)
+    try {
+      const result = await readGeoFile(file)
+      setParsed(result)
+      setMapping(createDefaultMapping(result.features))
+    } catch (error) {
+      console.error('GIS file could not be read:', error)
+      setReadError((error as Error).message || 'The file could not be read')
+    }
+  }
+
+  const clickImport = async () => {
+    if (!plan) return
+    setIsBusy(true)
+    const result = await dispatch(TH_ImportNetwork({ projectId, ...plan }))
+    setIsBusy(false)
+    if (TH_ImportNetwork.fulfilled.match(result)) {
+      resetImport()
+      close()
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={close} fullWidth maxWidth='md'>
+      <DialogTitle>Import / export</DialogTitle>
+      <DialogContent>
+        <ListSubheader disableGutters>Export {assets.length} assets and {routes.length} routes</ListSubheader>
+        <Box sx={rowSx}>
+          {(['geojson', 'kml', 'kmz'] as GeoFileFormat[]).map(format => (
+            <Button key={format} disabled={assets.length + routes.length === 0} onClick={() => handleExport(format)}>
+              {format.toUpperCase()}
+            </Button>
+          ))}
+          {SERVER_EXPORTS.map(item => (
+            <Button key={item.format} disabled={assets.length + routes.length === 0 || serverExport !== null} onClick={() => handleServerExport(item.format)}>
+              {serverExport === item.format ? 'Building…' : item.label}
+            </Button>
+          ))}
+        </Box>
+        {exportError && <span className='error'>{exportError}</span>}
+
+        {canEdit && (
+          <Fragment>
+            <ListSubheader disableGutters>Import GeoJSON, KML or KMZ</ListSubheader>
+            <Box sx={rowSx}>
+              <Button component='label'>
+                Choose file
+                <input hidden type='file' accept={GEO_FILE_ACCEPT} onChange={handleFile} />
+              </Button>
+              {fileName && <Typography variant='body2'>{fileName}</Typography>}
+            </Box>
+            {readError && <span className='error'>{readError}</span>}
+          </Fragment>
+        )}
+
+        {parsed && mapping && plan && (
+          <Fragment>
+            <Typography variant='body2'>
+              {plan.assets.length} points become assets, {plan.routes.length} lines become cable routes
+              {parsed.skipped > 0 && `, ${parsed.skipped} features without points or lines are skipped`}
+            </Typography>
+
+            <Box sx={rowSx}>
+              <Typography variant='body2'>Name from</Typography>
+              <Select size='small' displayEmpty value={mapping.nameProperty} onChange={(e) => setMapping({ ...mapping, nameProperty: e.target.value })}>
+                <MenuItem value=''>Generated</MenuItem>
+                {propertyKeys.map(key => <MenuItem key={key} value={key}>{key}</MenuItem>)}
+              </Select>
+              <Typography variant='body2'>Type from</Typography>
+              <Select size='small' displayEmpty value={mapping.typeProperty} onChange={(e) => setMapping({ ...mapping, typeProperty: e.target.value, typeValues: {} })}>
+                <MenuItem value=''>None</MenuItem>
+                {propertyKeys.map(key => <MenuItem key={key} value={key}>{key}</MenuItem>)}
+              </Select>
+              <Typography variant='body2'>Otherwise</Typography>
+              <Select size='small' value={mapping.defaultType} onChange={(e) => setMapping({ ...mapping, defaultType: e.target.value as AssetType })}>
+                {ASSET_TYPE_LIST.map(info => <MenuItem key={info.type} value={info.type}>{info.label}</MenuItem>)}
+              </Select>
+            </Box>
+
+            {typeValues.map(value => (
+              <Box key={value} sx={rowSx}>
+                <Typography variant='body2' sx={{ minWidth: 160 }}>{value}</Typography>
+                <Select
+                  size='small'
+                  displayEmpty
+                  value={mapping.typeValues[value] ?? ''}
+                  onChange={(e) => setMapping({ ...mapping, typeValues: { ...mapping.typeValues, [value]: e.target.value as AssetType } })}
+                >
+                  <MenuItem value=''>{getAssetTypeInfo(mapping.defaultType).label}</MenuItem>
+                  {ASSET_TYPE_LIST.map(info => <MenuItem key={info.type} value={info.type}>{info.label}</MenuItem>)}
+                </Select>
+              </Box>
+            ))}
+
+            <List dense subheader={<ListSubheader disableGutters>Preview</ListSubheader>}>
+              {plan.assets.slice(0, PREVIEW_SIZE).map((asset, i) => (
+                <ListItem key={`asset-${i}`} disableGutters>
+                  <ListItemText
+                    primary={`${asset.name} · ${getAssetTypeInfo(asset.type).label}`}
+                    secondary={[`${asset.lat.toFixed(6)}, ${asset.lng.toFixed(6)}`, ...Object.entries(asset.attributes).map(([key, value]) => `${key}: ${value}`)].join(' · ')}
+                  />
+                </ListItem>
+              ))}
+              {plan.routes.slice(0, PREVIEW_SIZE).map((route, i) => (
+                <ListItem key={`route-${i}`} disableGutters>
+                  <ListItemText primary={route.name} secondary={`${route.points.length} points, ${formatDistance(route.length)}`} />
+                </ListItem>
+              ))}
+              {(plan.assets.length > PREVIEW_SIZE || plan.routes.length > PREVIEW_SIZE) && (
+                <ListItem disableGutters><ListItemText secondary='…' /></ListItem>
+              )}
+            </List>
+
+            {error && <span className='error'>{error}</span>}
+            <Box sx={rowSx}>
+              <Button onClick={resetImport}>Discard</Button>
+              <Button variant='contained' disabled={isBusy || plan.assets.length + plan.routes.length === 0} onClick={clickImport}>Import</Button>
+            </Box>
+          </Fragment>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  MenuItem,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material'
+import { useAppSelector } from 'src/store/storeHooks'
+import { getAssets } from 'src/store/asset/selectors'
+import { getCableRoutes } from 'src/store/cableRoute/selectors'
+import { TILE_LAYERS } from 'src/utils/MapsHelpers/adapters/leafletAdapter'
+import { MAX_OFFLINE_TILES, TileBounds, clearTileCache, countTiles, listTileUrls, precacheTiles, toTileBounds } from 'src/utils/offline/tiles'
+
+const rowSx = { display: 'flex', gap: 1, alignItems: 'center', my: 1, flexWrap: 'wrap' }
+
+// Degrees added around the network, about 500 m
+const NETWORK_MARGIN = 0.005
+
+const BOUND_FIELDS: { key: keyof TileBounds, label: string }[] = [
+  { key: 'north', label: 'North' },
+  { key: 'south', label: 'South' },
+  { key: 'west', label: 'West' },
+  { key: 'east', label: 'East' },
+]
+
+interface IProps {
+  open: boolean,
+  close: () => void,
+}
+
+export default function OfflineMapDialog({ open, close }: IProps) {
+  const assets = useAppSelector(getAssets)
+  const routes = useAppSelector(getCableRoutes)
+
+  const [layer, setLayer] = useState('streets')
+  const [bounds, setBounds] = useState<Record<keyof TileBounds, string>>({ south: '', west: '', north: '', east: '' })
+  const [minZoom, setMinZoom] = useState(12)
+  const [maxZoom, setMaxZoom] = useState(17)
+  const [progress, setProgress] = useState<{ done: number, total: number } | null>(null)
+  const [message, setMessage] = useState('')
+
+  const fillNetworkExtent = () => {
+    const extent = toTileBounds([...assets, ...routes.flatMap(route => route.points)], NETWORK_MARGIN)
+    if (extent) setBounds({ south: extent.south.toFixed(5), west: extent.west.toFixed(5), north: extent.north.toFixed(5), east: extent.east.toFixed(5) })
+  }
+
+  useEffect(() => {
+    if (!open) return
+    setMessage('')
+    if (!bounds.north) fillNetworkExtent()
+  }, [open])
+
+  const numbers = { south: Number(bounds.south), west: Number(bounds.west), north: Number(bounds.north), east: Number(bounds.east) }
+  const isValid = Object.values(bounds).every(value => value.trim() !== '' && Number.isFinite(Number(value)))
+    && numbers.south < numbers.north && numbers.west < numbers.east && minZoom <= maxZoom
+  const tileCount = isValid ? countTiles(numbers, minZoom, maxZoom) : 0
+  const isDownloading = progress !== null
+
+  const clickDownload = async () => {
+    const urls = listTileUrls(TILE_LAYERS[layer].url, numbers, minZoom, maxZoom)
+    setMessage('')
+    setProgress({ done: 0, total: urls.length })
+    try {
+      const { saved, failed } = await precacheTiles(urls, done => setProgress({ done, total: urls.length }))
+      setMessage(failed > 0 ? `${saved} tiles saved, ${failed} could not be downloaded` : `${saved} tiles saved for offline use`)
+    } catch (error) {
+      console.error('Tiles could not be saved:', error)
+      setMessage('Tiles could not be saved, offline storage is not available')
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  const clickClear = async () => {
+    await clearTileCache()
+    setMessage('Saved tiles removed')
+  }
+
+  return (
+    <Dialog open={open} onClose={isDownloading ? undefined : close} fullWidth maxWidth='sm'>
+      <DialogTitle>Offline map</DialogTitle>
+      <DialogContent>
+        <Typography variant='body2'>
+          Saved tiles are shown by the Leaflet (OSM) map when there is no connection. The network data of the project is kept on this device as it loads.
+        </Typography>
+        <Box sx={rowSx}>
+          <Select size='small' value={layer} onChange={(e) => setLayer(e.target.value)} disabled={isDownloading}>
+            {Object.keys(TILE_LAYERS).map(key => <MenuItem key={key} value={key}>{key}</MenuItem>)}
+          </Select>
+          <Button onClick={fillNetworkExtent} disabled={isDownloading || assets.length + routes.length === 0}>Around the network</Button>
+        </Box>
+        <Box sx={rowSx}>
+          {BOUND_FIELDS.map(field => (
+            <TextField
+              key={field.key}
+              size='small'
+              type='number'
+              label={field.label}
+              value={bounds[field.key]}
+              onChange={(e) => setBounds({ ...bounds, [field.key]: e.target.value })}
+              disabled={isDownloading}
+              sx={{ width: 130 }}
+            />
+          ))}
+        </Box>
+        <Box sx={rowSx}>
+          <TextField size='small' type='number' label='From zoom' value={minZoom} onChange={(e) => setMinZoom(Number(e.target.value))} inputProps={{ min: 0, max: 19 }} disabled={isDownloading} sx={{ width: 110 }} />
+          <TextField size='small' type='number' label='To zoom' value={maxZoom} onChange={(e) => setMaxZoom(Number(e.target.value))} inputProps={{ min: 0, max: 19 }} disabled={isDownloading} sx={{ width: 110 }} />
+          {isValid && (
+            <Typography variant='body2' color={tileCount > MAX_OFFLINE_TILES ? 'error' : undefined}>
+              {tileCount} tiles{tileCount > MAX_OFFLINE_TILES && `, at most ${MAX_OFFLINE_TILES} can be saved at once`}
+            </Typography>
+          )}
+        </Box>
+        {progress && (
+          <Box sx={{ my: 1 }}>
+            <LinearProgress variant='determinate' value={progress.total ? progress.done / progress.total * 100 : 0} />
+            <Typography variant='caption'>{progress.done} of {progress.total}</Typography>
+          </Box>
+        )}
+        {message && <Typography variant='body2'>{message}</Typography>}
+      </DialogContent>
+      <DialogActions>
+        <Button color='error' onClick={clickClear} disabled={isDownloading}>Remove saved tiles</Button>
+        <Button onClick={close} disabled={isDownloading}>Close</Button>
+        <Button variant='contained' onClick={clickDownload} disabled={!isValid || isDownloading || tileCount === 0 || tileCount > MAX_OFFLINE_TILES}>
+          Save tiles
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react'
+import { Button, Chip, IconButton } from '@mui/material'
+import CloudDownloadIcon from '@mui/icons-material/CloudDownload'
+import { useAppDispatch, useAppSelector } from 'src/store/storeHooks'
+import { getIsOnline, getIsSyncing, getPendingEditCount } from 'src/store/offline/selectors'
+import { TH_CountPendingEdits, TH_SyncEdits } from 'src/store/offline/thunk'
+import offlineSlice from 'src/store/offline/slice'
+import OfflineMapDialog from './OfflineMapDialog'
+import SyncConflictDialog from './SyncConflictDialog'
+
+interface IProps {
+  projectId: string,
+}
+
+/**
+ * Connection state and queued edits of the map screen. Edits are synced as soon as the connection returns.
+ */
+export default function OfflineStatus({ projectId }: IProps) {
+  const dispatch = useAppDispatch()
+  const isOnline = useAppSelector(getIsOnline)
+  const isSyncing = useAppSelector(getIsSyncing)
+  const pendingEdits = useAppSelector(getPendingEditCount)
+  const [mapDialog, setMapDialog] = useState(false)
+
+  useEffect(() => {
+    const goOnline = () => {
+      dispatch(offlineSlice.actions.setOnline(true))
+      dispatch(TH_SyncEdits(projectId))
+    }
+    const goOffline = () => dispatch(offlineSlice.actions.setOnline(false))
+    window.addEventListener('online', goOnline)
+    window.addEventListener('offline', goOffline)
+    return () => {
+      window.removeEventListener('online', goOnline)
+      window.removeEventListener('offline', goOffline)
+    }
+  }, [projectId, dispatch])
+
+  // Edits left from an earlier visit go out when the project opens
+  useEffect(() => {
+    if (navigator.onLine) dispatch(TH_SyncEdits(projectId))
+    else dispatch(TH_CountPendingEdits(projectId))
+  }, [projectId, dispatch])
+
+  return (
+    <>
+      {!isOnline && (
+        <Chip size='small' color='warning' label={pendingEdits > 0 ? `Offline, ${pendingEdits} edits queued` : 'Offline'} />
+      )}
+      {isOnline && pendingEdits > 0 && (
+        <Button onClick={() => dispatch(TH_SyncEdits(projectId))} disabled={isSyncing} size='small' sx={{ fontSize: 10 }}>
+          {isSyncing ? 'Syncing…' : `Sync ${pendingEdits} edits`}
+        </Button>
+      )}
+      <IconButton onClick={() => setMapDialog(true)} color='primary' title='Offline map'>
+        <CloudDownloadIcon />
+      </IconButton>
+
+      <OfflineMapDialog open={mapDialog} close={() => setMapDialog(false)} />
+      <SyncConflictDialog projectId={projectId} />
+    </>
+  )
+}
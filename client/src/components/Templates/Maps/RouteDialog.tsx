@@ -0,0 +1,205 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  ListSubheader,
+  MenuItem,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material'
+import { ICable, ICableLengthSettings, IGeoPoint } from 'shared/networkSchema'
+import { useAppDispatch, useAppSelector } from 'src/store/storeHooks'
+import { getClosures } from 'src/store/closure/selectors'
+import { TH_GetClosures } from 'src/store/closure/thunk'
+import { getCableRouteError } from 'src/store/cableRoute/selectors'
+import { getAssets } from 'src/store/asset/selectors'
+import { TH_CreateCableRoute, TH_DeleteCableRoute, TH_UpdateCableRoute } from 'src/store/cableRoute/thunk'
+import { R_GetClosurePlans } from 'src/api/closures/service'
+import { calculatePathLength, formatDistance } from 'src/utils/MapsHelpers/distance'
+import { DEFAULT_LENGTH_SETTINGS, estimateCableLength, toLengthSettings } from 'src/utils/MapsHelpers/cableEstimate'
+import { ICableRoute } from 'src/utils/types'
+import CableLengthEstimate from './CableLengthEstimate'
+
+const rowSx = { display: 'flex', gap: 1, alignItems: 'center', my: 1, flexWrap: 'wrap' }
+
+const describeCable = (cable: ICable, cables: ICable[]) =>
+  `${cable.type.toUpperCase()} cable ${cables.filter(item => item.type === cable.type).indexOf(cable) + 1}, ${cable.fibers.length}F`
+
+// The cable list comes with the closure's splice plan
+const useClosureCables = (open: boolean, projectId: string, closureId: string) => {
+  const [cables, setCables] = useState<ICable[]>([])
+  useEffect(() => {
+    setCables([])
+    if (!open || !closureId) return
+    R_GetClosurePlans({ projectId, closureIds: [closureId] })
+      .then(([plan]) => setCables(plan.cables))
+      .catch(error => console.error('Closure could not be loaded:', error))
+  }, [open, projectId, closureId])
+  return cables
+}
+
+interface ICableSelectProps {
+  closures: { _id: string, name: string }[],
+  closureId: string,
+  cableId: string,
+  cables: ICable[],
+  emptyLabel: string,
+  disabled: boolean,
+  onChange: (closureId: string, cableId: string) => void,
+}
+
+const CableSelect = ({ closures, closureId, cableId, cables, emptyLabel, disabled, onChange }: ICableSelectProps) => (
+  <Box sx={rowSx}>
+    <Select
+      size='small'
+      displayEmpty
+      value={closureId}
+      onChange={(e) => onChange(e.target.value, '')}
+      disabled={disabled}
+      sx={{ minWidth: 180 }}
+    >
+      <MenuItem value=''>{emptyLabel}</MenuItem>
+      {closures.map(item => <MenuItem key={item._id} value={item._id}>{item.name}</MenuItem>)}
+    </Select>
+    <Select
+      size='small'
+      displayEmpty
+      value={cables.some(item => item.id === cableId) ? cableId : ''}
+      onChange={(e) => onChange(closureId, e.target.value)}
+      disabled={disabled || !closureId}
+      sx={{ minWidth: 180 }}
+    >
+      <MenuItem value='' disabled>Cable</MenuItem>
+      {cables.map(item => <MenuItem key={item.id} value={item.id}>{describeCable(item, cables)}</MenuItem>)}
+    </Select>
+  </Box>
+)
+
+interface IProps {
+  open: boolean,
+  close: () => void,
+  projectId: string,
+  canEdit: boolean,
+  // An existing route, or the points of one just drawn
+  route: ICableRoute | null,
+  points: IGeoPoint[],
+  // Opens the splice view of the closure the linked cable is in
+  onOpenClosure: (closureId: string) => void,
+  // Reshapes a saved route on the map
+  onEditPoints: (route: ICableRoute) => void,
+}
+
+export default function RouteDialog({ open, close, projectId, canEdit, route, points, onOpenClosure, onEditPoints }: IProps) {
+  const dispatch = useAppDispatch()
+  const closures = useAppSelector(getClosures)
+  const error = useAppSelector(getCableRouteError)
+  const assets = useAppSelector(getAssets)
+
+  const [name, setName] = useState('')
+  const [closureId, setClosureId] = useState('')
+  const [cableId, setCableId] = useState('')
+  // The far end, where the same cable reaches the next closure
+  const [toClosureId, setToClosureId] = useState('')
+  const [toCableId, setToCableId] = useState('')
+  const [lengthSettings, setLengthSettings] = useState<ICableLengthSettings>(DEFAULT_LENGTH_SETTINGS)
+
+  const routePoints = route ? route.points : points
+  const length = calculatePathLength(routePoints)
+  const estimate = useMemo(() => estimateCableLength(routePoints, assets, lengthSettings), [routePoints, assets, lengthSettings])
+
+  useEffect(() => {
+    if (!open) return
+    setName(route?.name ?? '')
+    setClosureId(route?.closure ?? '')
+    setCableId(route?.cableId ?? '')
+    setToClosureId(route?.toClosure ?? '')
+    setToCableId(route?.toCableId ?? '')
+    setLengthSettings(route?.estimate ? toLengthSettings(route.estimate) : DEFAULT_LENGTH_SETTINGS)
+    if (closures.length === 0) dispatch(TH_GetClosures(projectId))
+  }, [open, route])
+
+  const cables = useClosureCables(open, projectId, closureId)
+  const toCables = useClosureCables(open, projectId, toClosureId)
+  const hasLink = !!closureId && !!cableId
+  const hasFarLink = hasLink && !!toClosureId && !!toCableId
+
+  const clickSave = async () => {
+    const data = {
+      projectId,
+      name: name.trim(),
+      points: routePoints.map(({ lat, lng }) => ({ lat, lng })),
+      length,
+      closure: hasLink ? closureId : undefined,
+      cableId: hasLink ? cableId : undefined,
+      toClosure: hasFarLink ? toClosureId : undefined,
+      toCableId: hasFarLink ? toCableId : undefined,
+      estimate,
+    }
+    const result = route
+      ? await dispatch(TH_UpdateCableRoute({ ...data, cableRouteId: route._id }))
+      : await dispatch(TH_CreateCableRoute(data))
+    if (TH_CreateCableRoute.fulfilled.match(result) || TH_UpdateCableRoute.fulfilled.match(result)) close()
+  }
+
+  const clickDelete = async () => {
+    if (!route) return
+    await dispatch(TH_DeleteCableRoute({ projectId, cableRouteId: route._id }))
+    close()
+  }
+
+  return (
+    <Dialog open={open} onClose={close} fullWidth maxWidth='sm'>
+      <DialogTitle>{route ? route.name : 'New cable route'}</DialogTitle>
+      <DialogContent>
+        <Typography variant='body2'>
+          {routePoints.length} points, {formatDistance(length)}
+        </Typography>
+        <Box sx={rowSx}>
+          <TextField size='small' label='Name' value={name} onChange={(e) => setName(e.target.value)} disabled={!canEdit} />
+        </Box>
+        <ListSubheader disableGutters>Cable</ListSubheader>
+        <CableSelect
+          closures={closures}
+          closureId={closureId}
+          cableId={cableId}
+          cables={cables}
+          emptyLabel='No closure'
+          disabled={!canEdit}
+          onChange={(closure, cable) => {
+            setClosureId(closure)
+            setCableId(cable)
+            if (!closure || closure === toClosureId) setToClosureId('')
+          }}
+        />
+        <Typography variant='caption'>
+          Where the cable ends: fiber by fiber, traces continue into this cable of the next closure
+        </Typography>
+        <CableSelect
+          closures={closures.filter(item => item._id !== closureId)}
+          closureId={toClosureId}
+          cableId={toCableId}
+          cables={toCables}
+          emptyLabel='No far end'
+          disabled={!canEdit || !hasLink}
+          onChange={(closure, cable) => { setToClosureId(closure); setToCableId(cable) }}
+        />
+        <ListSubheader disableGutters>Cable length estimate</ListSubheader>
+        <CableLengthEstimate estimate={estimate} onChange={setLengthSettings} disabled={!canEdit} />
+        {error && <span className='error'>{error}</span>}
+      </DialogContent>
+      <DialogActions>
+        {route?.closure && (
+          <Button onClick={() => onOpenClosure(route.closure as string)}>Open splice view</Button>
+        )}
+        {route && canEdit && <Button onClick={() => onEditPoints(route)}>Edit points</Button>}
+        {route && canEdit && <Button color='error' onClick={clickDelete}>Delete</Button>}
+        {canEdit && <Button variant='contained' onClick={clickSave} disabled={!name.trim()}>Save</Button>}
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,86 @@
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from '@mui/material'
+import { useAppDispatch, useAppSelector } from 'src/store/storeHooks'
+import { getOfflineError, getSyncConflicts } from 'src/store/offline/selectors'
+import { TH_ResolveConflict } from 'src/store/offline/thunk'
+import { OfflineConflict } from 'src/utils/offline/sync'
+
+const ENTITY_LABELS = {
+  asset: 'Asset',
+  cableRoute: 'Cable route',
+  closure: 'Splice plan of closure',
+}
+
+const ACTION_LABELS = {
+  create: 'created',
+  update: 'changed',
+  delete: 'deleted',
+}
+
+const describeConflict = ({ edit, reason, message }: OfflineConflict) => {
+  switch (reason) {
+    case 'changed':
+      return `Someone else changed it on the server after it was loaded onto this device.`
+    case 'deleted':
+      return edit.entity === 'closure'
+        ? `Someone else deleted the closure on the server, your splices can't be kept.`
+        : `Someone else deleted it on the server. Keeping your version creates it again.`
+    case 'rejected':
+      return `The server did not accept the edit: ${message}`
+    default:
+      return `It could not be ${ACTION_LABELS[edit.action]}.`
+  }
+}
+
+interface IProps {
+  projectId: string,
+}
+
+/**
+ * Asks about the edits the last sync held back, one at a time, until none are left.
+ */
+export default function SyncConflictDialog({ projectId }: IProps) {
+  const dispatch = useAppDispatch()
+  const conflicts = useAppSelector(getSyncConflicts)
+  const error = useAppSelector(getOfflineError)
+  const conflict = conflicts[0]
+
+  if (!conflict) return null
+  const { edit } = conflict
+
+  const resolve = (keep: 'local' | 'server') => dispatch(TH_ResolveConflict({ projectId, conflict, keep }))
+
+  return (
+    <Dialog open fullWidth maxWidth='sm'>
+      <DialogTitle>
+        Sync conflict{conflicts.length > 1 && ` (1 of ${conflicts.length})`}
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant='subtitle1'>
+          {ENTITY_LABELS[edit.entity]} {edit.name}
+        </Typography>
+        <Typography variant='body2'>
+          You {ACTION_LABELS[edit.action]} it offline on {new Date(edit.madeAt).toLocaleString()}.
+        </Typography>
+        <Typography variant='body2'>{describeConflict(conflict)}</Typography>
+        {error && <span className='error'>{error}</span>}
+      </DialogContent>
+      <DialogActions>
+        {conflict.reason === 'rejected' || (conflict.reason === 'deleted' && edit.entity === 'closure') ? (
+          <Button variant='contained' onClick={() => resolve('server')}>Discard my edit</Button>
+        ) : (
+          <>
+            <Button onClick={() => resolve('server')}>Keep server version</Button>
+            <Button variant='contained' onClick={() => resolve('local')}>Keep my version</Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  )
+}
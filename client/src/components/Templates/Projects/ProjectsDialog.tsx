@@ -0,0 +1,193 @@
+import { Fragment, useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  TextField,
+  Button,
+  Select,
+  MenuItem,
+  List,
+  ListItem,
+  ListItemText,
+  ListSubheader,
+  IconButton,
+  Box,
+} from '@mui/material'
+import DeleteIcon from '@mui/icons-material/Delete'
+import { useAppDispatch, useAppSelector } from 'src/store/storeHooks'
+import {
+  getActiveProject,
+  getCanManageProject,
+  getMyInvitations,
+  getOrganizations,
+  getProjectError,
+  getProjectInvitations,
+  getProjectMembers,
+} from 'src/store/project/selectors'
+import {
+  TH_AcceptInvitation,
+  TH_ChangeMemberRole,
+  TH_CreateOrganization,
+  TH_CreateProject,
+  TH_DeclineInvitation,
+  TH_GetMembers,
+  TH_GetMyInvitations,
+  TH_GetOrganizations,
+  TH_GetProjectInvitations,
+  TH_InviteMember,
+  TH_RemoveMember,
+} from 'src/store/project/thunk'
+import { getAccount } from 'src/store/user/selectors'
+import { ProjectRole } from 'src/utils/types'
+
+const PROJECT_ROLES: ProjectRole[] = ['viewer', 'technician', 'planner', 'admin']
+
+const rowSx = { display: 'flex', gap: 1, alignItems: 'center', my: 1 }
+
+interface IProps {
+  open: boolean,
+  close: () => void,
+}
+
+export default function ProjectsDialog({ open, close }: IProps) {
+  const dispatch = useAppDispatch()
+  const account = useAppSelector(getAccount)
+  const activeProject = useAppSelector(getActiveProject)
+  const canManage = useAppSelector(getCanManageProject)
+  const organizations = useAppSelector(getOrganizations)
+  const members = useAppSelector(getProjectMembers)
+  const projectInvitations = useAppSelector(getProjectInvitations)
+  const invitations = useAppSelector(getMyInvitations)
+  const error = useAppSelector(getProjectError)
+
+  const [organizationName, setOrganizationName] = useState('')
+  const [organizationId, setOrganizationId] = useState('')
+  const [projectName, setProjectName] = useState('')
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<ProjectRole>('technician')
+
+  useEffect(() => {
+    if (!open) return
+    dispatch(TH_GetOrganizations())
+    dispatch(TH_GetMyInvitations())
+  }, [open])
+
+  useEffect(() => {
+    if (!open || !activeProject) return
+    dispatch(TH_GetMembers(activeProject._id))
+    if (canManage) dispatch(TH_GetProjectInvitations(activeProject._id))
+  }, [open, activeProject?._id, canManage])
+
+  // projects can only be opened in organizations the account owns
+  const ownedOrganizations = organizations.filter(item => item.owner === account?._id)
+
+  const clickCreateOrganization = () => {
+    dispatch(TH_CreateOrganization({ name: organizationName.trim() }))
+    setOrganizationName('')
+  }
+
+  const clickCreateProject = () => {
+    dispatch(TH_CreateProject({ organizationId, name: projectName.trim() }))
+    setProjectName('')
+  }
+
+  const clickInvite = () => {
+    if (!activeProject) return
+    dispatch(TH_InviteMember({ projectId: activeProject._id, email: inviteEmail.trim(), role: inviteRole }))
+    setInviteEmail('')
+  }
+
+  return (
+    <Dialog open={open} onClose={close} fullWidth maxWidth='sm'>
+      <DialogTitle>Projects</DialogTitle>
+      <DialogContent>
+        {invitations.length > 0 && (
+          <List subheader={<ListSubheader disableGutters>Invitations</ListSubheader>}>
+            {invitations.map(item => (
+              <ListItem
+                key={item._id}
+                disableGutters
+                secondaryAction={
+                  <Fragment>
+                    <Button size='small' onClick={() => dispatch(TH_AcceptInvitation(item._id))}>Accept</Button>
+                    <Button size='small' color='error' onClick={() => dispatch(TH_DeclineInvitation(item._id))}>Decline</Button>
+                  </Fragment>
+                }>
+                <ListItemText
+                  primary={typeof item.project === 'string' ? item.project : item.project.name}
+                  secondary={`as ${item.role}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        <ListSubheader disableGutters>New organization</ListSubheader>
+        <Box sx={rowSx}>
+          <TextField size='small' label='Name' value={organizationName} onChange={(e) => setOrganizationName(e.target.value)} />
+          <Button onClick={clickCreateOrganization} disabled={!organizationName.trim()}>Create</Button>
+        </Box>
+
+        {ownedOrganizations.length > 0 && (
+          <Fragment>
+            <ListSubheader disableGutters>New project</ListSubheader>
+            <Box sx={rowSx}>
+              <Select size='small' displayEmpty value={organizationId} onChange={(e) => setOrganizationId(e.target.value)} sx={{ minWidth: 160 }}>
+                <MenuItem value='' disabled>Organization</MenuItem>
+                {ownedOrganizations.map(item => <MenuItem key={item._id} value={item._id}>{item.name}</MenuItem>)}
+              </Select>
+              <TextField size='small' label='Name' value={projectName} onChange={(e) => setProjectName(e.target.value)} />
+              <Button onClick={clickCreateProject} disabled={!organizationId || !projectName.trim()}>Create</Button>
+            </Box>
+          </Fragment>
+        )}
+
+        {activeProject && (
+          <List subheader={<ListSubheader disableGutters>Members of {activeProject.name}</ListSubheader>}>
+            {members.map(item => (
+              <ListItem
+                key={item._id}
+                disableGutters
+                secondaryAction={canManage && item.account._id !== account?._id && (
+                  <Fragment>
+                    <Select
+                      size='small'
+                      value={item.role}
+                      onChange={(e) => dispatch(TH_ChangeMemberRole({ projectId: activeProject._id, memberId: item._id, role: e.target.value as ProjectRole }))}>
+                      {PROJECT_ROLES.map(role => <MenuItem key={role} value={role}>{role}</MenuItem>)}
+                    </Select>
+                    <IconButton onClick={() => dispatch(TH_RemoveMember({ projectId: activeProject._id, memberId: item._id }))}>
+                      <DeleteIcon />
+                    </IconButton>
+                  </Fragment>
+                )}>
+                <ListItemText
+                  primary={`${item.account.firstName} ${item.account.lastName}`}
+                  secondary={canManage && item.account._id !== account?._id ? item.account.email : `${item.account.email} · ${item.role}`}
+                />
+              </ListItem>
+            ))}
+            {canManage && projectInvitations.map(item => (
+              <ListItem key={item._id} disableGutters>
+                <ListItemText primary={item.email} secondary={`invited as ${item.role}`} />
+              </ListItem>
+            ))}
+          </List>
+        )}
+
+        {activeProject && canManage && (
+          <Box sx={rowSx}>
+            <TextField size='small' label='Invite by email' value={inviteEmail} onChange={(e) => setInviteEmail(e.target.value)} />
+            <Select size='small' value={inviteRole} onChange={(e) => setInviteRole(e.target.value as ProjectRole)}>
+              {PROJECT_ROLES.map(role => <MenuItem key={role} value={role}>{role}</MenuItem>)}
+            </Select>
+            <Button onClick={clickInvite} disabled={!inviteEmail.trim()}>Invite</Button>
+          </Box>
+        )}
+
+        {error && <span className='error'>{error}</span>}
+      </DialogContent>
+    </Dialog>
+  )
+}
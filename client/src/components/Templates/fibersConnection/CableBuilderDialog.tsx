@@ -0,0 +1,150 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  ListSubheader,
+  MenuItem,
+  Select,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material'
+import DeleteIcon from '@mui/icons-material/Delete'
+import { useAppDispatch, useAppSelector } from 'src/store/storeHooks'
+import { getCableTypeError, getCableTypes, getProjectColorCodes } from 'src/store/cableType/selectors'
+import { TH_CreateCableType, TH_DeleteCableType, TH_GetCableTypes, TH_GetColorCodes } from 'src/store/cableType/thunk'
+import { ICable, ICableType as ICableTypeFields } from 'shared/networkSchema'
+import { ICableType } from 'src/utils/types'
+import { cableTypeToSpec, formatCableSpec, generateCable, validateCableSpec } from 'src/utils/colorCodes/cableSpec'
+import { DEFAULT_COLOR_CODE_ID, getColorCodes } from 'src/utils/colorCodes/standards'
+
+const rowSx = { display: 'flex', gap: 1, alignItems: 'center', my: 1, flexWrap: 'wrap' }
+
+const EMPTY_CABLE_TYPE: ICableTypeFields = {
+  name: '',
+  fiberCount: 12,
+  tubeCount: 0,
+  fibersPerTube: 12,
+  colorStandard: DEFAULT_COLOR_CODE_ID,
+  sheathColor: '',
+}
+
+const describeCableType = (cableType: ICableType) => [
+  formatCableSpec(cableTypeToSpec(cableType)),
+  cableType.sheathColor && `${cableType.sheathColor} sheath`,
+  cableType.outerDiameter && `Ø ${cableType.outerDiameter} mm`,
+].filter(Boolean).join(' · ')
+
+interface IProps {
+  open: boolean,
+  close: () => void,
+  projectId: string,
+  // Planners may also edit the catalogue
+  canEditCatalogue: boolean,
+  onAddCable: (cable: ICable) => void,
+}
+
+export default function CableBuilderDialog({ open, close, projectId, canEditCatalogue, onAddCable }: IProps) {
+  const dispatch = useAppDispatch()
+  const cableTypes = useAppSelector(getCableTypes)
+  const error = useAppSelector(getCableTypeError)
+  const projectColorCodes = useAppSelector(getProjectColorCodes)
+
+  const [selectedId, setSelectedId] = useState('')
+  const [direction, setDirection] = useState<ICable['type']>('in')
+  const [draft, setDraft] = useState<ICableTypeFields>(EMPTY_CABLE_TYPE)
+
+  const colorCodes = useMemo(() => getColorCodes(), [projectColorCodes])
+  const selected = cableTypes.find(item => item._id === selectedId)
+  const draftErrors = validateCableSpec(cableTypeToSpec(draft))
+
+  useEffect(() => {
+    if (!open) return
+    dispatch(TH_GetCableTypes(projectId))
+    dispatch(TH_GetColorCodes(projectId))
+  }, [open, projectId])
+
+  const updateDraft = (field: keyof ICableTypeFields, value: string) => {
+    const numeric = ['fiberCount', 'tubeCount', 'fibersPerTube', 'outerDiameter'].includes(field)
+    setDraft(prev => ({ ...prev, [field]: numeric ? (value === '' ? undefined : Number(value)) : value }))
+  }
+
+  const clickCreate = () => {
+    const { outerDiameter, sheathColor, ...fields } = draft
+    dispatch(TH_CreateCableType({
+      projectId,
+      ...fields,
+      name: fields.name.trim(),
+      ...(sheathColor ? { sheathColor } : {}),
+      ...(outerDiameter ? { outerDiameter } : {}),
+    }))
+    setDraft(EMPTY_CABLE_TYPE)
+  }
+
+  const clickAdd = () => {
+    if (!selected) return
+    onAddCable(generateCable(cableTypeToSpec(selected), direction))
+    close()
+  }
+
+  return (
+    <Dialog open={open} onClose={close} fullWidth maxWidth='sm'>
+      <DialogTitle>Add cable</DialogTitle>
+      <DialogContent>
+        <List dense subheader={<ListSubheader disableGutters>Catalogue</ListSubheader>}>
+          {cableTypes.length === 0 && <ListItemText secondary='No cable types yet' />}
+          {cableTypes.map(item => (
+            <ListItemButton key={item._id} selected={item._id === selectedId} onClick={() => setSelectedId(item._id)}>
+              <ListItemText primary={item.name} secondary={describeCableType(item)} />
+              {canEditCatalogue && (
+                <IconButton edge='end' onClick={(e) => { e.stopPropagation(); dispatch(TH_DeleteCableType({ projectId, cableTypeId: item._id })) }}>
+                  <DeleteIcon />
+                </IconButton>
+              )}
+            </ListItemButton>
+          ))}
+        </List>
+
+        <Box sx={rowSx}>
+          <ToggleButtonGroup size='small' exclusive value={direction} onChange={(_, value) => { if (value) setDirection(value) }}>
+            <ToggleButton value='in'>In</ToggleButton>
+            <ToggleButton value='out'>Out</ToggleButton>
+          </ToggleButtonGroup>
+          <Button variant='contained' onClick={clickAdd} disabled={!selected}>Add to closure</Button>
+        </Box>
+
+        {canEditCatalogue && (
+          <>
+            <ListSubheader disableGutters>New cable type</ListSubheader>
+            <Box sx={rowSx}>
+              <TextField size='small' label='Name' value={draft.name} onChange={(e) => updateDraft('name', e.target.value)} />
+              <Select size='small' value={draft.colorStandard} onChange={(e) => updateDraft('colorStandard', e.target.value)}>
+                {colorCodes.map(code => <MenuItem key={code.id} value={code.id}>{code.name}</MenuItem>)}
+              </Select>
+            </Box>
+            <Box sx={rowSx}>
+              <TextField size='small' type='number' label='Fibers' value={draft.fiberCount ?? ''} onChange={(e) => updateDraft('fiberCount', e.target.value)} sx={{ width: 100 }} />
+              <TextField size='small' type='number' label='Tubes' value={draft.tubeCount ?? ''} onChange={(e) => updateDraft('tubeCount', e.target.value)} sx={{ width: 100 }} />
+              <TextField size='small' type='number' label='Fibers per tube' value={draft.fibersPerTube ?? ''} onChange={(e) => updateDraft('fibersPerTube', e.target.value)} sx={{ width: 130 }} />
+            </Box>
+            <Box sx={rowSx}>
+              <TextField size='small' label='Sheath colour' value={draft.sheathColor ?? ''} onChange={(e) => updateDraft('sheathColor', e.target.value)} />
+              <TextField size='small' type='number' label='Outer Ø, mm' value={draft.outerDiameter ?? ''} onChange={(e) => updateDraft('outerDiameter', e.target.value)} sx={{ width: 120 }} />
+              <Button onClick={clickCreate} disabled={!draft.name.trim() || !draft.fibersPerTube || draftErrors.length > 0}>Save</Button>
+            </Box>
+            {draftErrors.length > 0 && <span className='error'>{draftErrors.join(', ')}</span>}
+          </>
+        )}
+
+        {error && <span className='error'>{error}</span>}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,198 @@
+import { useEffect, useMemo, useState } from 'react'
+import {
+  Box,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material'
+import { ICable, IFiberTrace, ITraceEndpoint } from 'shared/networkSchema'
+import { IClosurePlan } from 'src/utils/types'
+import { useAppDispatch, useAppSelector } from 'src/store/storeHooks'
+import { getCableRoutes } from 'src/store/cableRoute/selectors'
+import { TH_GetCableRoutes } from 'src/store/cableRoute/thunk'
+import { R_TraceFiber } from 'src/api/closures/service'
+import { getConnectionDocuments } from 'src/utils/helperFunctions'
+import { getFiberColorLabel } from 'src/utils/colorCodes/standards'
+import { BudgetSettings, CircuitElement, DEFAULT_BUDGET_SETTINGS, WAVELENGTHS, Wavelength, computePowerBudget, spanFromRoute } from 'src/utils/powerBudget/budget'
+import { traceCircuitPaths, traceClosureCircuit, unusedSplitterElement } from 'src/utils/powerBudget/circuit'
+
+const rowSx = { display: 'flex', gap: 1, alignItems: 'center', my: 1, flexWrap: 'wrap' }
+
+const numberFieldSx = { width: 120 }
+
+interface IProps {
+  open: boolean,
+  close: () => void,
+  projectId: string,
+  closure: IClosurePlan,
+}
+
+export default function PowerBudgetDialog({ open, close, projectId, closure }: IProps) {
+  const dispatch = useAppDispatch()
+  const routes = useAppSelector(getCableRoutes)
+  const [settings, setSettings] = useState<BudgetSettings>(DEFAULT_BUDGET_SETTINGS)
+  const [startFiberId, setStartFiberId] = useState('')
+  const [feederKm, setFeederKm] = useState(5)
+  const [dropKm, setDropKm] = useState(1)
+  const [trace, setTrace] = useState<IFiberTrace | null>(null)
+
+  const inFibers = closure.cables
+    .filter(cable => cable.type === 'in')
+    .flatMap((cable, cableIndex) => cable.fibers.map((fiber, i) => ({
+      id: fiber.id,
+      label: `IN cable ${cableIndex + 1}, fiber ${i + 1} (${getFiberColorLabel(fiber.color, fiber.isMarked)})`,
+    })))
+
+  // Route lengths come from the map, the cables are linked to routes there
+  useEffect(() => {
+    if (open) dispatch(TH_GetCableRoutes(projectId))
+  }, [open, projectId])
+
+  // A route ending at the cable in this closure, from either of its ends
+  const findCableRoute = (cable?: ICable) => cable && routes.find(route =>
+    (route.closure === closure._id && route.cableId === cable.id) || (route.toClosure === closure._id && route.toCableId === cable.id))
+
+  // The circuit through every closure on its way, from the saved plans of the project
+  useEffect(() => {
+    setTrace(null)
+    if (!open || !startFiberId) return
+    let isCurrent = true
+    R_TraceFiber({ projectId, fiberId: startFiberId })
+      .then(result => { if (isCurrent) setTrace(result) })
+      .catch(error => console.error('Fiber trace failed, the budget covers this closure only:', error))
+    return () => { isCurrent = false }
+  }, [open, projectId, startFiberId])
+
+  const findClosureCable = (endpoint: ITraceEndpoint) => endpoint.closureId === closure._id
+    ? closure.cables.find(cable => cable.fibers.some(fiber => fiber.id === endpoint.portId))
+    : undefined
+
+  // Without a trace only this closure is known. The views save to localStorage first, it is newer than the closure loaded from the server
+  const circuits = useMemo(() => {
+    if (!open || !startFiberId) return []
+    const paths = trace ? traceCircuitPaths(trace) : []
+    if (paths.length > 0) {
+      return paths.map(path => {
+        const endSplitter = path.end.closureId === closure._id
+          ? closure.splitters.find(splitter => splitter.inputs.some(port => port.id === path.end.portId))
+          : undefined
+        const endCable = findClosureCable(path.end)
+        return {
+          elements: endSplitter ? [...path.elements, unusedSplitterElement(endSplitter)] : path.elements,
+          feederCable: findClosureCable(path.start),
+          dropCable: endCable?.type === 'out' ? endCable : undefined,
+        }
+      })
+    }
+    const single = traceClosureCircuit({ ...closure, connections: getConnectionDocuments() }, startFiberId)
+    return [{
+      elements: single.elements,
+      feederCable: closure.cables.find(cable => cable.fibers.some(fiber => fiber.id === startFiberId)),
+      dropCable: closure.cables.find(cable => cable.type === 'out' && cable.fibers.some(fiber => fiber.id === single.endPortId)),
+    }]
+  }, [open, closure, startFiberId, trace])
+
+  const toElements = ({ elements, feederCable, dropCable }: typeof circuits[number]) => {
+    const feederRoute = findCableRoute(feederCable)
+    const dropRoute = findCableRoute(dropCable)
+    return {
+      feederRoute,
+      dropRoute,
+      elements: [
+        { kind: 'connector', label: 'OLT connector' },
+        feederRoute ? spanFromRoute(feederRoute, 'Feeder cable') : { kind: 'span', label: 'Feeder cable', lengthKm: feederKm },
+        ...elements,
+        dropRoute ? spanFromRoute(dropRoute, 'Drop cable') : { kind: 'span', label: 'Drop cable', lengthKm: dropKm },
+        { kind: 'connector', label: 'ONT connector' },
+      ] as CircuitElement[],
+    }
+  }
+
+  // The budget has to hold for the customer behind the worst branch
+  const worst = circuits
+    .map(toElements)
+    .reduce<ReturnType<typeof toElements> | null>((found, candidate) => !found
+      || computePowerBudget(candidate.elements, settings).totalLoss > computePowerBudget(found.elements, settings).totalLoss ? candidate : found, null)
+  const feederRoute = worst?.feederRoute
+  const dropRoute = worst?.dropRoute
+  const elements: CircuitElement[] = worst?.elements ?? []
+
+  const result = computePowerBudget(elements, settings)
+
+  const updateSetting = (field: keyof BudgetSettings, value: string) => {
+    setSettings(prev => ({ ...prev, [field]: Number(value) }))
+  }
+
+  return (
+    <Dialog open={open} onClose={close} fullWidth maxWidth='md'>
+      <DialogTitle>Power budget</DialogTitle>
+      <DialogContent>
+        <Box sx={rowSx}>
+          <Select size='small' displayEmpty value={startFiberId} onChange={(e) => setStartFiberId(e.target.value)} sx={{ minWidth: 320 }}>
+            <MenuItem value='' disabled>Start fiber</MenuItem>
+            {inFibers.map(item => <MenuItem key={item.id} value={item.id}>{item.label}</MenuItem>)}
+          </Select>
+          <ToggleButtonGroup size='small' exclusive value={settings.wavelength} onChange={(_, value: Wavelength | null) => { if (value) setSettings(prev => ({ ...prev, wavelength: value })) }}>
+            {WAVELENGTHS.map(wavelength => <ToggleButton key={wavelength} value={wavelength}>{wavelength} nm</ToggleButton>)}
+          </ToggleButtonGroup>
+        </Box>
+        <Box sx={rowSx}>
+          <TextField size='small' type='number' label='Tx power, dBm' value={settings.txPower} onChange={(e) => updateSetting('txPower', e.target.value)} sx={numberFieldSx} />
+          <TextField size='small' type='number' label='Rx sensitivity, dBm' value={settings.rxSensitivity} onChange={(e) => updateSetting('rxSensitivity', e.target.value)} sx={numberFieldSx} />
+          <TextField size='small' type='number' label='Safety margin, dB' value={settings.safetyMargin} onChange={(e) => updateSetting('safetyMargin', e.target.value)} sx={numberFieldSx} />
+          <TextField size='small' type='number' label='Splice, dB' value={settings.spliceLoss} onChange={(e) => updateSetting('spliceLoss', e.target.value)} sx={numberFieldSx} />
+          <TextField size='small' type='number' label='Connector, dB' value={settings.connectorLoss} onChange={(e) => updateSetting('connectorLoss', e.target.value)} sx={numberFieldSx} />
+        </Box>
+        {/* Spans without a route on the map are entered by hand */}
+        <Box sx={rowSx}>
+          {feederRoute
+            ? <Typography variant='body2'>Feeder along {feederRoute.name}</Typography>
+            : <TextField size='small' type='number' label='Feeder, km' value={feederKm} onChange={(e) => setFeederKm(Number(e.target.value))} sx={numberFieldSx} />}
+          {dropRoute
+            ? <Typography variant='body2'>Drop along {dropRoute.name}</Typography>
+            : <TextField size='small' type='number' label='Drop, km' value={dropKm} onChange={(e) => setDropKm(Number(e.target.value))} sx={numberFieldSx} />}
+        </Box>
+
+        {elements.length > 0 && (
+          <>
+            <Table size='small'>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Element</TableCell>
+                  <TableCell align='right'>Loss, dB</TableCell>
+                  <TableCell align='right'>Power, dBm</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {result.rows.map((row, i) => (
+                  <TableRow key={i}>
+                    <TableCell>{row.element.kind === 'span' ? `${row.element.label}, ${row.element.lengthKm} km` : row.element.label}</TableCell>
+                    <TableCell align='right'>{row.loss.toFixed(2)}</TableCell>
+                    <TableCell align='right'>{row.power.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Typography sx={{ mt: 2 }}>
+              Total loss {result.totalLoss.toFixed(2)} dB, received {result.receivedPower.toFixed(2)} dBm
+            </Typography>
+            <Typography color={result.passes ? 'success.main' : 'error'}>
+              Margin {result.margin.toFixed(2)} dB {result.passes ? '' : '- the receiver is out of budget'}
+            </Typography>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItemButton,
+  ListItemText,
+  MenuItem,
+  Select,
+  Typography,
+} from '@mui/material'
+import { IFiberTrace, ITraceEndpoint, ITraceHop } from 'shared/networkSchema'
+import { IClosurePlan } from 'src/utils/types'
+import { R_TraceFiber } from 'src/api/closures/service'
+import { getFiberColorLabel } from 'src/utils/colorCodes/standards'
+import { formatDistance } from 'src/utils/MapsHelpers/distance'
+
+const rowSx = { display: 'flex', gap: 1, alignItems: 'center', my: 1, flexWrap: 'wrap' }
+
+const HOP_LABELS: Record<ITraceHop['kind'], string> = {
+  splice: 'Splice',
+  splitter: 'Splitter',
+  cable: 'Cable',
+}
+
+const describeEndpoint = (endpoint: ITraceEndpoint) =>
+  `${endpoint.description}${endpoint.color ? ` (${getFiberColorLabel(endpoint.color, endpoint.isMarked)})` : ''}`
+
+interface IProps {
+  open: boolean,
+  close: () => void,
+  projectId: string,
+  closure: IClosurePlan,
+  trace: IFiberTrace | null,
+  onTrace: (trace: IFiberTrace | null) => void,
+  // Opens the closure a hop is in
+  onOpenClosure: (closureId: string) => void,
+}
+
+export default function TraceDialog({ open, close, projectId, closure, trace, onTrace, onOpenClosure }: IProps) {
+  const [fiberId, setFiberId] = useState('')
+  const [isTracing, setIsTracing] = useState(false)
+  const [error, setError] = useState('')
+
+  const ports = [
+    ...closure.cables.flatMap(cable => cable.fibers.map((fiber, i) => ({
+      id: fiber.id,
+      label: `${cable.type.toUpperCase()} cable ${closure.cables.filter(item => item.type === cable.type).indexOf(cable) + 1}, fiber ${i + 1} (${getFiberColorLabel(fiber.color, fiber.isMarked)})`,
+    }))),
+    ...closure.splitters.flatMap(splitter => [
+      ...splitter.inputs.map((port, i) => ({ id: port.id, label: `${splitter.name}, input ${i + 1}` })),
+      ...splitter.outputs.map((port, i) => ({ id: port.id, label: `${splitter.name}, output ${i + 1}` })),
+    ]),
+  ]
+
+  const clickTrace = async () => {
+    setIsTracing(true)
+    setError('')
+    try {
+      onTrace(await R_TraceFiber({ projectId, fiberId }))
+    } catch (error) {
+      console.error('Fiber trace failed:', error)
+      setError('The fiber could not be traced')
+    } finally {
+      setIsTracing(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={close} fullWidth maxWidth='md'>
+      <DialogTitle>Trace fiber</DialogTitle>
+      <DialogContent>
+        <Box sx={rowSx}>
+          <Select size='small' displayEmpty value={fiberId} onChange={(e) => setFiberId(e.target.value)} sx={{ minWidth: 320 }}>
+            <MenuItem value='' disabled>Fiber or splitter port</MenuItem>
+            {ports.map(item => <MenuItem key={item.id} value={item.id}>{item.label}</MenuItem>)}
+          </Select>
+          <Button variant='contained' onClick={clickTrace} disabled={!fiberId || isTracing}>Trace</Button>
+          {trace && <Button onClick={() => onTrace(null)}>Clear</Button>}
+        </Box>
+
+        {trace && trace.hops.length === 0 && <Typography>The fiber isn't spliced anywhere.</Typography>}
+        {trace && trace.hops.length > 0 && (
+          <List dense>
+            {trace.hops.map((hop, i) => (
+              <ListItemButton key={i} onClick={() => { onOpenClosure(hop.to.closureId); close() }}>
+                <ListItemText
+                  primary={`${i + 1}. ${HOP_LABELS[hop.kind]}${hop.loss !== undefined ? `, ${hop.loss} dB` : ''}${hop.length !== undefined ? `, ${formatDistance(hop.length)}` : ''}: ${describeEndpoint(hop.from)} → ${describeEndpoint(hop.to)}`}
+                  secondary={hop.from.closureId === hop.to.closureId ? hop.to.closureName : `${hop.from.closureName} → ${hop.to.closureName}`}
+                />
+              </ListItemButton>
+            ))}
+          </List>
+        )}
+
+        {error && <span className='error'>{error}</span>}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,32 +1,17 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { save2DConnectionsToLocalStorage } from 'src/utils/helperFunctions'; // Assuming this exists
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import { downloadBlob, get2DConnectionsFromLocalStorage, save2DConnectionsToLocalStorage, toFileName } from 'src/utils/helperFunctions'; // Assuming this exists
 import { ICable as InitialICable, IFiber as InitialIFiber } from 'src/utils/threeJSHelpers/types'; // Assuming these exist
-import { Splitter } from 'src/utils/types';
+import { IStoredConnection, Splitter } from 'src/utils/types';
 import { v4 } from 'uuid';
+import { CommandHistory, getHistoryShortcut } from 'src/utils/history/CommandHistory';
+import { renderSpliceDiagramSvg } from 'src/utils/diagramExport/svg';
+import { renderSpliceDiagramPdf } from 'src/utils/diagramExport/pdf';
+import { PaperSize } from 'src/utils/diagramExport/types';
+import { Bounds, IDENTITY_VIEW, ViewTransform, boundsOfPoints, centerOn, fitToBounds, screenToWorld, unionBounds, zoomAt } from 'src/utils/canvasView/ViewTransform';
 
-// Re-define local input types if they differ or for clarity
-export type IFiber = {
-    color: string;
-    isMarked?: boolean;
-    id: string;
-    parentId: string;
-    tubeId?: string;
-};
-
-export type ITube = {
-    color: string;
-    id: string;
-    parentId: string;
-};
-
-export type ICable = {
-    fibers: IFiber[];
-    type: "in" | "out";
-    id: string;
-    tubes?: ITube[];
-};
-
+import { ICable, IFiber, ITube } from 'shared/networkSchema';
 
+export type { ICable, IFiber, ITube };
 
 // --- TypeScript Interfaces for internal state and calculations ---
 interface Fiber extends IFiber {
@@ -81,6 +66,13 @@ interface OpticalCanvasProps {
     objectsOnCanvas?: Splitter[];
     width?: number;
     height?: number;
+    onConnectionsChange?: (connections: IStoredConnection[]) => void;
+    readOnly?: boolean;
+    // Shown in the title block of exported diagrams
+    closureName?: string;
+    author?: string;
+    // Fibers and ports of a traced circuit
+    highlightedIds?: string[];
 }
 
 interface SplitterPort {
@@ -89,6 +81,8 @@ interface SplitterPort {
     originalColor: string;
     color: string;
     isMarked?: boolean;
+    loss?: number;
+    ratio?: number;
     rect: { x: number; y: number; width: number; height: number };
     exitPoint: { x: number; y: number };
     type: "in" | "out";
@@ -108,6 +102,13 @@ interface SplitterState extends Splitter {
     isRotating?: boolean;
 }
 
+// Everything an undo step restores
+interface CanvasSnapshot {
+    cables: Cable[];
+    splitters: SplitterState[];
+    connections: Connection[];
+}
+
 
 
 
@@ -150,12 +151,17 @@ const dx = 26; // Offset for delete icon
 const dy = 8;  // Offset for delete icon
 
 const SPLITTER_WIDTH = 40;
+const TRACE_COLOR = 'magenta';
 const SPLITTER_PADDING = FIBER_SPACING;
 const SPLITTER_PORT_DIMENSION = FIBER_DIMENSION_PERPENDICULAR; // The size of the input/output squares
 const SPLITTER_PORT_SPACING = FIBER_SPACING;
 
 
 const GRID_GAP = 5;
+const HISTORY_LIMIT = 100;
+const ZOOM_STEP = 1.1; // Per wheel notch and per zoom button click
+const MINIMAP_SIZE = 180; // Longest side of the minimap in pixels
+const MINIMAP_MARGIN = 12;
 
 const snapToGrid = (value: number): number => {
     return Math.round(value / GRID_GAP) * GRID_GAP;
@@ -230,12 +236,19 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
     objectsOnCanvas = [],
     width = window.innerWidth,
     height = Math.max(window.innerHeight, Math.max(initialCablesFromProps.filter(item=>item.type === 'in').length, initialCablesFromProps.filter(item=>item.type === 'out').length) * 200),
+    onConnectionsChange,
+    readOnly = false,
+    closureName = 'Splice diagram',
+    author = '',
+    highlightedIds,
 }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [managedCables, setManagedCables] = useState<Cable[]>([]);
     const [selectedFiberId1, setSelectedFiberId1] = useState<string | null>(null);
     const [activePresplice, setActivePresplice] = useState<Presplice | null>(null);
     const [connections, setConnections] = useState<Connection[]>([]);
+    const highlighted = useMemo(() => new Set(highlightedIds), [highlightedIds]);
+    const connectionsLoaded = useRef(false); // Don't report the empty initial state before localStorage is read
     const [draggingCableInfo, setDraggingCableInfo] = useState<{ cableId: string; offsetX: number; offsetY: number } | null>(null);
     const [editingConnectionId, setEditingConnectionId] = useState<string | null>(null);
     const [draggingControlPoint, setDraggingControlPoint] = useState<{ connectionId: string; pointIndex: number; offsetX: number; offsetY: number } | null>(null);
@@ -243,12 +256,85 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
     const [draggingSplitterInfo, setDraggingSplitterInfo] = useState<{ id: string; offsetX: number; offsetY: number } | null>(null);
     const [rotatingSplitterInfo, setRotatingSplitterInfo] = useState<{ id: string; startAngle: number; initialRotation: number; } | null>(null);
 
+    // --- View transform (zoom/pan) ---
+    const [viewport, setViewport] = useState({ width: window.innerWidth, height: window.innerHeight });
+    const [view, setView] = useState<ViewTransform>(IDENTITY_VIEW);
+    const viewRef = useRef(view);
+    viewRef.current = view;
+    const spaceHeld = useRef(false);
+    const [panInfo, setPanInfo] = useState<{ mode: 'pan' | 'minimap'; startX: number; startY: number; startView: ViewTransform } | null>(null);
+
+    // --- Undo/redo ---
+    const history = useRef(new CommandHistory(HISTORY_LIMIT)).current;
+    const latestState = useRef<CanvasSnapshot>({ cables: [], splitters: [], connections: [] });
+    latestState.current = { cables: managedCables, splitters: managedSplitters, connections };
+    // State before the drag in progress, a whole drag becomes a single history step
+    const gestureStart = useRef<{ label: string; before: CanvasSnapshot } | null>(null);
+
+    const restoreSnapshot = useCallback((snapshot: CanvasSnapshot) => {
+        // Drop the handle highlights that were on while the snapshot was taken mid-drag
+        setManagedCables(snapshot.cables.map(c => ({ ...c, dragHandle: { ...c.dragHandle, isActive: false }, isDragging: false })));
+        setManagedSplitters(snapshot.splitters.map(s => ({ ...s, dragHandle: { ...s.dragHandle, isActive: false }, rotateHandle: { ...s.rotateHandle, isActive: false }, isDragging: false, isRotating: false })));
+        setConnections(snapshot.connections);
+        setEditingConnectionId(null);
+        setSelectedFiberId1(null);
+        setActivePresplice(null);
+    }, []);
+
+    const pushSnapshotCommand = useCallback((label: string, before: CanvasSnapshot, after: CanvasSnapshot) => {
+        history.push({
+            label,
+            undo: () => restoreSnapshot(before),
+            redo: () => restoreSnapshot(after),
+        });
+    }, [history, restoreSnapshot]);
+
+    // Applies a connections edit (connect, delete) as one history step
+    const commitConnections = useCallback((label: string, nextConnections: Connection[]) => {
+        const before = latestState.current;
+        pushSnapshotCommand(label, before, { ...before, connections: nextConnections });
+        setConnections(nextConnections);
+    }, [pushSnapshotCommand]);
+
+    const beginGesture = (label: string) => {
+        gestureStart.current = { label, before: latestState.current };
+    };
+
+    const endGesture = useCallback(() => {
+        const gesture = gestureStart.current;
+        gestureStart.current = null;
+        if (!gesture) return;
+
+        const after = latestState.current;
+        const layoutKey = ({ cables, splitters, connections }: CanvasSnapshot) => JSON.stringify([
+            cables.map(c => [c.id, c.x, c.y]),
+            splitters.map(s => [s.id, s.x, s.y, s.rotation]),
+            connections.map(c => [c.id, c.path]),
+        ]);
+        // A click on a handle without moving it is not an edit
+        if (layoutKey(gesture.before) !== layoutKey(after)) pushSnapshotCommand(gesture.label, gesture.before, after);
+    }, [pushSnapshotCommand]);
+
+    useEffect(() => {
+        if (readOnly) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const action = getHistoryShortcut(e);
+            if (!action || gestureStart.current) return;
+            e.preventDefault();
+            if (action === 'undo') history.undo();
+            else history.redo();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [history, readOnly]);
+
 
     // Debounce resize
     const [dimensions, setDimensions] = useState({ width, height });
     useEffect(() => {
         const handleResize = () => {
             setDimensions({ width: window.innerWidth, height: Math.max(window.innerHeight, Math.max(initialCablesFromProps.filter(item=>item.type === 'in').length, initialCablesFromProps.filter(item=>item.type === 'out').length) * 200) });
+            setViewport({ width: window.innerWidth, height: window.innerHeight });
         };
         window.addEventListener('resize', handleResize);
         return () => window.removeEventListener('resize', handleResize);
@@ -256,9 +342,9 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
 
 
     useEffect(() => {
-        if (connections.length) {
-            save2DConnectionsToLocalStorage(connections);
-        }
+        if (!connectionsLoaded.current) return;
+        onConnectionsChange?.(save2DConnectionsToLocalStorage(connections));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [connections]);
 
 
@@ -603,9 +689,9 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
 
     useEffect(() => {
         // Load connections from localStorage and regenerate paths
-        const initialConnections = localStorage.getItem("connections2D");
-        if (initialConnections && managedCables.length > 0) { // Ensure cables are laid out first
-            const parsedInitialConnections: Connection[] = JSON.parse(initialConnections);
+        if (managedCables.length > 0) connectionsLoaded.current = true;
+        if (managedCables.length > 0) { // Ensure cables are laid out first
+            const parsedInitialConnections = get2DConnectionsFromLocalStorage();
             const tempConnections: Connection[] = []; // To provide to path generation for current batch
             const connectionsWithPathRegeneration = parsedInitialConnections.map(conn => {
                 if (conn.path.length === 0) { // Regenerate if path is missing
@@ -641,6 +727,76 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
     }, [managedCables]); // Rerun when cables change,  getConnectionPointById/getCableById will have new cable data.
 
 
+    // Everything that is drawn, in world coordinates. Never smaller than the layout area.
+    const contentBounds = useMemo((): Bounds => unionBounds([
+        { x: 0, y: 0, width: dimensions.width, height: dimensions.height },
+        ...managedCables.map(cable => cable.rect),
+        ...managedSplitters.map(s => getAABBOfRotatedRect(s, s, s.rotation)),
+        ...connections.map(conn => boundsOfPoints(conn.path)).filter((b): b is Bounds => b !== null),
+    ])!, [dimensions.width, dimensions.height, managedCables, managedSplitters, connections]);
+
+    // Where the minimap sits on the canvas and how much it shrinks the world
+    const minimap = useMemo(() => {
+        const scale = MINIMAP_SIZE / Math.max(contentBounds.width, contentBounds.height);
+        const width = contentBounds.width * scale;
+        const height = contentBounds.height * scale;
+        return { x: viewport.width - width - MINIMAP_MARGIN, y: viewport.height - height - MINIMAP_MARGIN, width, height, scale };
+    }, [contentBounds, viewport.width, viewport.height]);
+
+    const minimapToWorld = useCallback((pos: { x: number, y: number }) => ({
+        x: contentBounds.x + (pos.x - minimap.x) / minimap.scale,
+        y: contentBounds.y + (pos.y - minimap.y) / minimap.scale,
+    }), [contentBounds, minimap]);
+
+    const drawMinimap = (ctx: CanvasRenderingContext2D) => {
+        const toMinimap = (x: number, y: number) => ({
+            x: minimap.x + (x - contentBounds.x) * minimap.scale,
+            y: minimap.y + (y - contentBounds.y) * minimap.scale,
+        });
+
+        ctx.save();
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+        ctx.strokeStyle = '#555';
+        ctx.lineWidth = 1;
+        ctx.fillRect(minimap.x, minimap.y, minimap.width, minimap.height);
+        ctx.strokeRect(minimap.x, minimap.y, minimap.width, minimap.height);
+
+        ctx.fillStyle = 'black';
+        managedCables.forEach(({ rect }) => {
+            const { x, y } = toMinimap(rect.x, rect.y);
+            ctx.fillRect(x, y, Math.max(1, rect.width * minimap.scale), Math.max(1, rect.height * minimap.scale));
+        });
+        ctx.fillStyle = 'grey';
+        managedSplitters.forEach(splitter => {
+            const box = getAABBOfRotatedRect(splitter, splitter, splitter.rotation);
+            const { x, y } = toMinimap(box.x, box.y);
+            ctx.fillRect(x, y, Math.max(1, box.width * minimap.scale), Math.max(1, box.height * minimap.scale));
+        });
+        connections.forEach(conn => {
+            if (conn.path.length < 2) return;
+            ctx.strokeStyle = conn.color1;
+            ctx.beginPath();
+            conn.path.forEach((point, i) => {
+                const { x, y } = toMinimap(point.x, point.y);
+                if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+            });
+            ctx.stroke();
+        });
+
+        // The part of the world the canvas currently shows
+        const topLeft = screenToWorld(view, { x: 0, y: 0 });
+        const bottomRight = screenToWorld(view, { x: viewport.width, y: viewport.height });
+        const a = toMinimap(topLeft.x, topLeft.y);
+        const b = toMinimap(bottomRight.x, bottomRight.y);
+        ctx.beginPath();
+        ctx.rect(minimap.x, minimap.y, minimap.width, minimap.height);
+        ctx.clip();
+        ctx.strokeStyle = 'red';
+        ctx.lineWidth = 1.5;
+        ctx.strokeRect(a.x, a.y, b.x - a.x, b.y - a.y);
+        ctx.restore();
+    };
+
     // --- Drawing Functions ---
     const draw = useCallback(() => {
         const canvas = canvasRef.current;
@@ -648,7 +804,9 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
         const ctx = canvas.getContext('2d');
         if (!ctx) return;
 
-        ctx.clearRect(0, 0, dimensions.width, dimensions.height);
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, viewport.width, viewport.height);
+        ctx.setTransform(view.scale, 0, 0, view.scale, view.offsetX, view.offsetY);
         drawGrid(ctx, dimensions.width, dimensions.height, GRID_GAP);
 
         managedCables.forEach(cable => {
@@ -669,6 +827,12 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
                 ctx.fillStyle = fiber.originalColor;
                 ctx.fillRect(fiber.rect.x, fiber.rect.y, fiber.rect.width, fiber.rect.height);
 
+                if (highlighted.has(fiber.id)) {
+                    ctx.strokeStyle = TRACE_COLOR;
+                    ctx.lineWidth = 2;
+                    ctx.strokeRect(fiber.rect.x, fiber.rect.y, fiber.rect.width, fiber.rect.height);
+                }
+
                 if (selectedFiberId1 === fiber.id && !activePresplice) {
                     ctx.strokeStyle = 'yellow';
                     ctx.lineWidth = 2;
@@ -723,6 +887,15 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
             ctx.textBaseline = 'middle';
             ctx.fillText(name, 0, 0); // Draw at the new (0,0) origin
 
+            // Nominal output losses in dB, inside the body next to their ports
+            ctx.font = '8px Arial';
+            ctx.textAlign = 'right';
+            outputs.forEach((port, i) => {
+                if (port.loss === undefined) return;
+                const portY = -height / 2 + SPLITTER_PADDING + (i * (SPLITTER_PORT_DIMENSION + SPLITTER_PORT_SPACING)) + SPLITTER_PORT_DIMENSION / 2;
+                ctx.fillText(port.loss.toFixed(1), width / 2 - 2, portY);
+            });
+
             ctx.restore(); // Restore canvas to normal coordinate system
 
             // --- Draw the NON-ROTATED handles at their absolute positions ---
@@ -743,6 +916,12 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
                 ctx.fillStyle = port.originalColor;
                 ctx.fillRect(port.rect.x, port.rect.y, port.rect.width, port.rect.height);
 
+                if (highlighted.has(port.id)) {
+                    ctx.strokeStyle = TRACE_COLOR;
+                    ctx.lineWidth = 2;
+                    ctx.strokeRect(port.rect.x, port.rect.y, port.rect.width, port.rect.height);
+                }
+
                 if (selectedFiberId1 === port.id) {
                     ctx.strokeStyle = 'yellow';
                     ctx.lineWidth = 2;
@@ -759,6 +938,17 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
             const fiber2 = getConnectionPointById(conn.fiber2Id);
             if (!fiber1 || !fiber2 || conn.path.length === 0) return;
 
+            // Traced splices get a halo under the fiber colours
+            if (highlighted.has(conn.fiber1Id) && highlighted.has(conn.fiber2Id)) {
+                ctx.beginPath();
+                ctx.moveTo(fiber1.exitPoint.x, fiber1.exitPoint.y);
+                conn.path.forEach(point => ctx.lineTo(point.x, point.y));
+                ctx.lineTo(fiber2.exitPoint.x, fiber2.exitPoint.y);
+                ctx.strokeStyle = TRACE_COLOR;
+                ctx.lineWidth = CONNECTION_LINE_WIDTH + 4;
+                ctx.stroke();
+            }
+
             ctx.lineWidth = CONNECTION_LINE_WIDTH;
             if (conn.path.length > 0) {
                 ctx.beginPath();
@@ -878,12 +1068,11 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
             ctx.fillRect(x - size / 6, y - size / 2, size / 3, size);
         }
 
-
-
-
-
-
-    }, [managedCables, connections, managedSplitters, activePresplice, selectedFiberId1, editingConnectionId, dimensions.width, dimensions.height, getConnectionPointById /* drawMarksOnPath removed as dep, assumed stable */]);
+        // Overlays are drawn in canvas pixels, unaffected by zoom
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        drawMinimap(ctx);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [managedCables, connections, managedSplitters, activePresplice, selectedFiberId1, highlighted, editingConnectionId, dimensions.width, dimensions.height, getConnectionPointById, view, viewport, minimap, contentBounds /* drawMarksOnPath removed as dep, assumed stable */]);
 
     const drawMarksOnPath = (ctx: CanvasRenderingContext2D, path: { x: number, y: number }[], color: string) => {
         ctx.strokeStyle = 'black';
@@ -1331,13 +1520,99 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
         return pos.x >= rect.x && pos.x <= rect.x + rect.width && pos.y >= rect.y && pos.y <= rect.y + rect.height;
     }
 
-    const getMousePos = useCallback((e: React.MouseEvent | MouseEvent): { x: number, y: number } => {
+    // Pointer position in canvas pixels
+    const getScreenPos = useCallback((e: { clientX: number, clientY: number }): { x: number, y: number } => {
         const canvas = canvasRef.current;
         if (!canvas) return { x: 0, y: 0 };
         const rect = canvas.getBoundingClientRect();
         return { x: e.clientX - rect.left, y: e.clientY - rect.top };
     }, []);
 
+    // Pointer position in world coordinates, what every hit test works with
+    const getMousePos = useCallback((e: React.MouseEvent | MouseEvent): { x: number, y: number } => {
+        return screenToWorld(viewRef.current, getScreenPos(e));
+    }, [getScreenPos]);
+
+    const zoomBy = useCallback((factor: number, anchor?: { x: number, y: number }) => {
+        setView(prev => zoomAt(prev, anchor ?? { x: viewport.width / 2, y: viewport.height / 2 }, factor));
+    }, [viewport.width, viewport.height]);
+
+    const fitToContent = useCallback(() => {
+        setView(fitToBounds(contentBounds, viewport));
+    }, [contentBounds, viewport]);
+
+    // Wheel zoom needs a non-passive listener to keep the page from scrolling
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            zoomBy(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, getScreenPos(e));
+        };
+        canvas.addEventListener('wheel', handleWheel, { passive: false });
+        return () => canvas.removeEventListener('wheel', handleWheel);
+    }, [zoomBy, getScreenPos]);
+
+    // Holding space turns a left drag into panning
+    useEffect(() => {
+        const isTyping = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            return !!target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+        };
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.code !== 'Space' || isTyping(e)) return;
+            e.preventDefault();
+            spaceHeld.current = true;
+        };
+        const handleKeyUp = (e: KeyboardEvent) => {
+            if (e.code === 'Space') spaceHeld.current = false;
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+        };
+    }, []);
+
+    useEffect(() => {
+        if (!panInfo) return;
+        const handlePanMove = (e: MouseEvent) => {
+            if (panInfo.mode === 'minimap') {
+                setView(prev => centerOn(prev, minimapToWorld(getScreenPos(e)), viewport));
+                return;
+            }
+            setView({
+                ...panInfo.startView,
+                offsetX: panInfo.startView.offsetX + e.clientX - panInfo.startX,
+                offsetY: panInfo.startView.offsetY + e.clientY - panInfo.startY,
+            });
+        };
+        const handlePanEnd = () => setPanInfo(null);
+        window.addEventListener('mousemove', handlePanMove);
+        window.addEventListener('mouseup', handlePanEnd);
+        return () => {
+            window.removeEventListener('mousemove', handlePanMove);
+            window.removeEventListener('mouseup', handlePanEnd);
+        };
+    }, [panInfo, minimapToWorld, getScreenPos, viewport]);
+
+    // View navigation comes before editing and stays available to read-only roles
+    const handleCanvasMouseDown = (e: React.MouseEvent) => {
+        const screenPos = getScreenPos(e);
+        if (e.button === 0 && isPointInsideRectangle(screenPos, minimap)) {
+            setView(prev => centerOn(prev, minimapToWorld(screenPos), viewport));
+            setPanInfo({ mode: 'minimap', startX: e.clientX, startY: e.clientY, startView: view });
+            return;
+        }
+        if (e.button === 1 || (e.button === 0 && spaceHeld.current)) {
+            e.preventDefault();
+            setPanInfo({ mode: 'pan', startX: e.clientX, startY: e.clientY, startView: view });
+            return;
+        }
+        if (e.button === 0 && !readOnly) handleMouseDown(e);
+    };
+
     // --- Event Handlers ---
     const handleMouseDown = useCallback((e: React.MouseEvent) => {
         const pos = getMousePos(e);
@@ -1349,6 +1624,7 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
             // Check Drag Handle
             const distDrag = Math.sqrt((pos.x - splitter.dragHandle.x) ** 2 + (pos.y - splitter.dragHandle.y) ** 2);
             if (distDrag <= splitter.dragHandle.radius + 2) {
+                beginGesture('Move splitter');
                 setDraggingSplitterInfo({ id: splitter.id, offsetX: snapToGrid(splitter.x - pos.x), offsetY: snapToGrid(splitter.y - pos.y) });
                 // Set active state for immediate visual feedback
                 setManagedSplitters(prev => prev.map(s => s.id === splitter.id ? { ...s, dragHandle: { ...s.dragHandle, isActive: true } } : s));
@@ -1359,6 +1635,7 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
             const rh = splitter.rotateHandle;
             if (pos.x >= rh.x && pos.x <= rh.x + rh.width && pos.y >= rh.y && pos.y <= rh.y + rh.height) {
                 const startAngle = Math.atan2(pos.y - splitter.y, pos.x - splitter.y);
+                beginGesture('Rotate splitter');
                 setRotatingSplitterInfo({ id: splitter.id, startAngle, initialRotation: splitter.rotation });
                 // Set active state
                 setManagedSplitters(prev => prev.map(s => s.id === splitter.id ? { ...s, rotateHandle: { ...s.rotateHandle, isActive: true } } : s));
@@ -1376,7 +1653,7 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
                     const delRect1 = { x: conn.path[conn.path.length - 1].x + dx - 16, y: conn.path[conn.path.length - 1].y - dy, width: conn.deleteIconRect.width, height: conn.deleteIconRect.height };
                     const delRect2 = { x: conn.path[0].x - dx, y: conn.path[0].y - dy, width: conn.deleteIconRect.width, height: conn.deleteIconRect.height };
                     if (isPointInsideRectangle(pos, delRect1) || isPointInsideRectangle(pos, delRect2)) {
-                        setConnections(prev => prev.filter(c => c.id !== editingConnectionId));
+                        commitConnections('Delete connection', connections.filter(c => c.id !== editingConnectionId));
                         setEditingConnectionId(null);
                         return;
                     }
@@ -1385,6 +1662,7 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
                     const cp = conn.controlPoints![i];
                     const dist = Math.sqrt((pos.x - cp.x) ** 2 + (pos.y - cp.y) ** 2);
                     if (dist <= CONNECTION_CONTROL_POINT_RADIUS + 2) {
+                        beginGesture('Move control point');
                         setDraggingControlPoint({ connectionId: conn.id, pointIndex: i, offsetX: cp.x - pos.x, offsetY: cp.y - pos.y });
                         return;
                     }
@@ -1399,6 +1677,8 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
                             const newPointFromClick = { x: pos.x, y: pos.y };
                             const newPath = [...conn.path.slice(0, i + 1), newPointFromClick, ...conn.path.slice(i + 1)];
                             const newPointIndex = i + 1;
+                            // Inserting the point and dragging it away is one step
+                            beginGesture('Add control point');
                             setConnections(prevConns => prevConns.map(c =>
                                 c.id === conn.id ? { ...c, path: newPath, controlPoints: newPath.map(p_ => ({ ...p_, radius: CONNECTION_CONTROL_POINT_RADIUS })) } : c
                             ));
@@ -1414,6 +1694,7 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
         for (const cable of managedCables) {
             const dist = Math.sqrt((pos.x - cable.dragHandle.x) ** 2 + (pos.y - cable.dragHandle.y) ** 2);
             if (dist <= cable.dragHandle.radius + 2) { // Increased click radius for handle
+                beginGesture('Move cable');
                 setDraggingCableInfo({ cableId: cable.id, offsetX: cable.x - pos.x, offsetY: cable.y - pos.y });
                 setManagedCables(prev => prev.map(c => c.id === cable.id ? { ...c, dragHandle: { ...c.dragHandle, isActive: true } } : c));
                 return;
@@ -1466,7 +1747,7 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
 
                         // Create the final connection object
                         const newConnection: Connection = {
-                            id: `conn-${Date.now()}`,
+                            id: `conn-${v4()}`,
                             fiber1Id: point1.id,
                             fiber2Id: point2.id,
                             path: newPath,
@@ -1478,7 +1759,7 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
                         };
 
                         // Add the new connection to our state
-                        setConnections(prev => [...prev, newConnection]);
+                        commitConnections('Connect fibers', [...connections, newConnection]);
                     }
                 }
 
@@ -1611,7 +1892,8 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
         getCableById,
         generateManhattanPathWithAvoidance,
         dimensions.width, dimensions.height,
-        getMousePos
+        getMousePos,
+        commitConnections
     ]);
 
 
@@ -1848,6 +2130,7 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
     }, [draggingCableInfo, draggingControlPoint, dimensions.width, dimensions.height, calculateLayout, getConnectionPointById, getCableById, getMousePos, editingConnectionId, generateManhattanPathWithAvoidance, connections]); // Added connections to deps for generateManhattan...
 
     const handleMouseUp = useCallback(() => {
+        endGesture();
         if (draggingCableInfo) {
             setManagedCables(prev => prev.map(c => c.id === draggingCableInfo.cableId ? { ...c, dragHandle: { ...c.dragHandle, isActive: false }, isDragging: false } : c));
         }
@@ -1855,7 +2138,7 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
         setDraggingControlPoint(null);
         setDraggingSplitterInfo(null);
         setRotatingSplitterInfo(null);
-    }, [draggingCableInfo]);
+    }, [draggingCableInfo, endGesture]);
 
     // Attach mouse move and up to window to handle dragging outside canvas
     useEffect(() => {
@@ -1889,18 +2172,49 @@ const OpticalFiberCanvas: React.FC<OpticalCanvasProps> = ({
     ]);
 
 
+    const exportSvg = () => {
+        const svg = renderSpliceDiagramSvg({ cables: managedCables, splitters: managedSplitters, connections });
+        downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), toFileName(closureName, 'svg'));
+    };
+
+    const exportPdf = async (paperSize: PaperSize) => {
+        try {
+            const pdf = await renderSpliceDiagramPdf(
+                { cables: managedCables, splitters: managedSplitters, connections },
+                paperSize,
+                { closureName, author, date: new Date() },
+            );
+            downloadBlob(pdf, toFileName(`${closureName}_${paperSize.toUpperCase()}`, 'pdf'));
+        } catch (error) {
+            console.error('PDF export failed:', error);
+        }
+    };
+
+    const toolbarButtonStyle: React.CSSProperties = { minWidth: 32, padding: '4px 8px', cursor: 'pointer' };
+
     return (
+        <div style={{ position: 'relative', width: viewport.width, height: viewport.height, overflow: 'hidden' }}>
         <canvas
             ref={canvasRef}
-            width={dimensions.width}
-            height={dimensions.height}
-            onMouseDown={handleMouseDown}
+            width={viewport.width}
+            height={viewport.height}
+            onMouseDown={handleCanvasMouseDown}
             // MouseMove and MouseUp are handled by window listeners when dragging
             // onMouseMove={handleMouseMove} // Only if not dragging window-wide
             // onMouseUp={handleMouseUp}     // Only if not dragging window-wide
             // onMouseLeave={handleMouseUp} // Still useful if not using window listeners for up
-            style={{ border: '1px solid #ccc', background: 'rgb(216 216 216)', touchAction: 'none' }}
+            style={{ border: '1px solid #ccc', background: 'rgb(216 216 216)', touchAction: 'none', cursor: panInfo ? 'grabbing' : undefined, display: 'block' }}
         />
+        <div style={{ position: 'absolute', top: 12, right: MINIMAP_MARGIN, display: 'flex', gap: 4 }}>
+            <button style={toolbarButtonStyle} onClick={() => zoomBy(1 / ZOOM_STEP)} title="Zoom out">-</button>
+            <button style={toolbarButtonStyle} onClick={() => setView(prev => zoomAt(prev, { x: viewport.width / 2, y: viewport.height / 2 }, 1 / prev.scale))} title="Reset zoom">{Math.round(view.scale * 100)}%</button>
+            <button style={toolbarButtonStyle} onClick={() => zoomBy(ZOOM_STEP)} title="Zoom in">+</button>
+            <button style={toolbarButtonStyle} onClick={fitToContent} title="Fit to content">Fit</button>
+            <button style={toolbarButtonStyle} onClick={exportSvg} title="Export as SVG">SVG</button>
+            <button style={toolbarButtonStyle} onClick={() => exportPdf('a4')} title="Export as PDF on A4 sheets">PDF A4</button>
+            <button style={toolbarButtonStyle} onClick={() => exportPdf('a3')} title="Export as PDF on A3 sheets">PDF A3</button>
+        </div>
+        </div>
     );
 };
 
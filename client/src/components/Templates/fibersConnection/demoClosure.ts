@@ -0,0 +1,60 @@
+import { ICable } from "src/utils/threeJSHelpers/types";
+import { Splitter } from "src/utils/types";
+import { v4 } from "uuid";
+import { generateCable, parseCableSpec } from "src/utils/colorCodes/cableSpec";
+import { createSplitterFromModel, getSplitterModel } from "src/utils/splitterCatalogue/catalogue";
+
+/**
+ * Sample splice plan used to seed a new closure, so the 2D/3D views have something to show.
+ */
+export const getDemoSplicePlan = (): { cables: ICable[], splitters: Splitter[] } => {
+    // Fiber and port ids must stay unique across closures, the sample numbering is kept as a suffix
+    const planId = v4();
+    const portId = (suffix: string) => `${planId}-${suffix}`;
+    const cables: ICable[] = [
+        generateCable(parseCableSpec("16F, TIA-598")!, "in"),
+        generateCable(parseCableSpec("16F, TIA-598")!, "out"),
+        generateCable(parseCableSpec("8F, TIA-598")!, "in"),
+        generateCable(parseCableSpec("2F, TIA-598")!, "out"),
+        generateCable(parseCableSpec("12F, 4 tubes × 3, TIA-598")!, "out"),
+    ]
+
+    const splitter3Id: string = v4();
+
+    const splitters: Splitter[] = [
+        createSplitterFromModel(getSplitterModel("plc-1x4")!, "1/4"),
+        createSplitterFromModel(getSplitterModel("plc-1x8")!, "1/8"),
+        createSplitterFromModel(getSplitterModel("fbt-1x2-70-30")!),
+    ]
+
+    const commutators = [
+        {
+            name: "OLT",
+            id: splitter3Id,
+            inputs: [
+                { id: portId("168"), parentId: splitter3Id },
+                { id: portId("169"), parentId: splitter3Id },
+                { id: portId("170"), parentId: splitter3Id },
+                { id: portId("171"), parentId: splitter3Id },
+                { id: portId("172"), parentId: splitter3Id },
+                { id: portId("173"), parentId: splitter3Id },
+                { id: portId("174"), parentId: splitter3Id },
+                { id: portId("175"), parentId: splitter3Id },
+                { id: portId("176"), parentId: splitter3Id },
+                { id: portId("177"), parentId: splitter3Id },
+            ],
+            outputs: [
+                { id: portId("178"), parentId: splitter3Id },
+                { id: portId("179"), parentId: splitter3Id },
+                { id: portId("180"), parentId: splitter3Id },
+                { id: portId("181"), parentId: splitter3Id },
+                { id: portId("182"), parentId: splitter3Id },
+                { id: portId("183"), parentId: splitter3Id },
+                { id: portId("184"), parentId: splitter3Id },
+                { id: portId("185"), parentId: splitter3Id },
+            ],
+        },
+    ]
+
+    return { cables, splitters: [...splitters, ...commutators] }
+}
@@ -1,183 +1,222 @@
 
-import { ICable } from "src/utils/threeJSHelpers/types";
 import FiberCanvas from "./canvasDraw";
-import OpticalCanvas3D from "./three_fiber";
 import OpticalCableVisualizer from "./threeJS";
-import { v4 } from "uuid";
-import { useState } from "react";
-import { Splitter } from "src/utils/types";
+import { useEffect, useRef, useState } from "react";
+import { Box, Button, MenuItem, Select, TextField, Typography } from "@mui/material";
+import { useAppDispatch, useAppSelector } from "src/store/storeHooks";
+import { getAccount, getAuthStatus } from "src/store/user/selectors";
+import { getActiveProjectId, getCanEditNetwork, getCanEditSplices } from "src/store/project/selectors";
+import { getActiveClosure, getClosureLoading, getClosurePlanLoads, getClosures } from "src/store/closure/selectors";
+import { TH_CreateClosure, TH_DeleteClosure, TH_GetClosure, TH_GetClosures, TH_SaveConnections, TH_UpdateClosure } from "src/store/closure/thunk";
+import { IStoredConnection } from "src/utils/types";
+import { getDemoSplicePlan } from "./demoClosure";
+import closureSlice from "src/store/closure/slice";
+import { R_GetClosurePlans } from "src/api/closures/service";
+import { buildClosureReport } from "src/utils/spliceReport/report";
+import { toSpliceReportCsv, toSpliceReportXlsx } from "src/utils/spliceReport/export";
+import { downloadBlob, toFileName } from "src/utils/helperFunctions";
+import CableBuilderDialog from "./CableBuilderDialog";
+import PowerBudgetDialog from "./PowerBudgetDialog";
+import TraceDialog from "./TraceDialog";
+import { ICable, IFiberTrace } from "shared/networkSchema";
+import cableTypeSlice from "src/store/cableType/slice";
+import { TH_GetColorCodes } from "src/store/cableType/thunk";
+import { SPLITTER_MODELS, createSplitterFromModel, getSplitterModel } from "src/utils/splitterCatalogue/catalogue";
+import { TH_SyncEdits } from "src/store/offline/thunk";
+import SyncConflictDialog from "../Maps/SyncConflictDialog";
 
+const SAVE_DELAY = 800
 
-const App = () => {
+interface IProps {
+    // Closure to open first instead of the first of the project
+    initialClosureId?: string
+}
+
+const App = ({ initialClosureId }: IProps) => {
+    const dispatch = useAppDispatch()
+    const isLoggedIn = useAppSelector(getAuthStatus)
+    const account = useAppSelector(getAccount)
+    const projectId = useAppSelector(getActiveProjectId)
+    const closures = useAppSelector(getClosures)
+    const activeClosure = useAppSelector(getActiveClosure)
+    const isLoading = useAppSelector(getClosureLoading)
+    const planLoads = useAppSelector(getClosurePlanLoads)
+    const canEditSplices = useAppSelector(getCanEditSplices)
+    const canEditNetwork = useAppSelector(getCanEditNetwork)
 
     const [visualization, setVisualization] = useState<"2D" | "3D">("3D")
+    const [newClosureName, setNewClosureName] = useState("")
+    const [isExporting, setIsExporting] = useState(false)
+    const [cableBuilder, setCableBuilder] = useState(false)
+    const [powerBudget, setPowerBudget] = useState(false)
+    const [traceDialog, setTraceDialog] = useState(false)
+    const [trace, setTrace] = useState<IFiberTrace | null>(null)
+    const saveTimeout = useRef<ReturnType<typeof setTimeout> | null>(null)
+    const pendingSave = useRef<(() => void) | null>(null)
+
+    // Closures never outlive the project they were loaded from
+    useEffect(() => {
+        dispatch(closureSlice.actions.reset())
+        dispatch(cableTypeSlice.actions.reset())
+        setTrace(null)
+        if (isLoggedIn && projectId) {
+            dispatch(TH_GetClosures(projectId))
+            // Fiber labels and generated cables need the project's own colour codes too
+            dispatch(TH_GetColorCodes(projectId))
+            // Splices made offline go out before they are worked on again, conflicts are asked about here
+            if (navigator.onLine) dispatch(TH_SyncEdits(projectId))
+        }
+    }, [isLoggedIn, projectId, dispatch])
+
+    useEffect(() => {
+        if (!projectId || activeClosure || closures.length === 0) return
+        const closureId = closures.some(item => item._id === initialClosureId) ? initialClosureId as string : closures[0]._id
+        dispatch(TH_GetClosure({ projectId, closureId }))
+    }, [projectId, activeClosure, closures, initialClosureId, dispatch])
+
+    // Sends the save still waiting out its delay right away
+    const flushSave = () => {
+        if (saveTimeout.current) clearTimeout(saveTimeout.current)
+        saveTimeout.current = null
+        const save = pendingSave.current
+        pendingSave.current = null
+        save?.()
+    }
+
+    // Leaving the page must not drop the last edits of a burst
+    useEffect(() => flushSave, [])
+
+    // Both views report every change, the server only gets the last one of a burst
+    const scheduleSave = (connections: IStoredConnection[]) => {
+        if (!projectId || !activeClosure || !canEditSplices) return
+        const closureId = activeClosure._id
+        if (saveTimeout.current) clearTimeout(saveTimeout.current)
+        pendingSave.current = () => dispatch(TH_SaveConnections({ projectId, closureId, connections }))
+        saveTimeout.current = setTimeout(flushSave, SAVE_DELAY)
+    }
+
+    // Covers every closure of the project, as saved on the server
+    const handleExportReport = async (format: "csv" | "xlsx") => {
+        if (!projectId || closures.length === 0) return
+        setIsExporting(true)
+        try {
+            const plans = await R_GetClosurePlans({ projectId, closureIds: closures.map(item => item._id) })
+            const reports = plans.map(buildClosureReport)
+            const blob = format === "csv"
+                ? new Blob([toSpliceReportCsv(reports)], { type: "text/csv;charset=utf-8" })
+                : await toSpliceReportXlsx(reports)
+            downloadBlob(blob, toFileName("splice_report", format))
+        } catch (error) {
+            console.error("Splice report export failed:", error)
+        } finally {
+            setIsExporting(false)
+        }
+    }
+
+    const handleAddCable = (cable: ICable) => {
+        if (!projectId || !activeClosure) return
+        dispatch(TH_UpdateClosure({ projectId, closureId: activeClosure._id, cables: [...activeClosure.cables, cable] }))
+    }
+
+    const handleAddSplitter = (modelId: string) => {
+        const model = getSplitterModel(modelId)
+        if (!projectId || !activeClosure || !model) return
+        const splitters = [...activeClosure.splitters, createSplitterFromModel(model)]
+        dispatch(TH_UpdateClosure({ projectId, closureId: activeClosure._id, splitters }))
+    }
+
+    const handleCreateClosure = (withSample: boolean) => {
+        if (!projectId) return
+        const name = newClosureName.trim() || `Closure ${closures.length + 1}`
+        dispatch(TH_CreateClosure({ projectId, name, ...(withSample ? getDemoSplicePlan() : {}) }))
+        setNewClosureName("")
+    }
+
+    const viewKey = activeClosure ? `${activeClosure._id}-${activeClosure.cables.length}-${activeClosure.splitters.length}-${planLoads}` : ""
+
+    if (!isLoggedIn) {
+        return (
+            <Box sx={{ p: 4 }}>
+                <Typography>Log in to load your splice closures.</Typography>
+            </Box>
+        )
+    }
 
-    const cable1ID = v4();
-    const cable2ID = v4();
-    const cable3ID = v4();
-    const cable4ID = v4();
-    const cable5ID = v4();
-    const largeTubeId = "54"
-    const cables: ICable[] = [
-        {
-            id: cable1ID,
-            type: "in", fibers: [
-                { color: "rgb(0, 0, 255)", id: "100", parentId: cable1ID },
-                { color: "rgb(255, 165, 0)", id: "101", parentId: cable1ID },
-                { color: "rgb(0, 128, 0)", id: "102", parentId: cable1ID },
-                { color: "rgb(165, 42, 42)", id: "103", parentId: cable1ID },
-                { color: "rgb(128, 128, 128)", id: "104", parentId: cable1ID },
-                { color: "rgb(255, 255, 255)", id: "105", parentId: cable1ID },
-                { color: "rgb(255, 0, 0)", id: "106", parentId: cable1ID },
-                { color: "rgb(0, 0, 0)", id: "107", parentId: cable1ID },
-                { color: "rgb(255, 255, 0)", id: "108", parentId: cable1ID },
-                { color: "rgb(128, 0, 128)", id: "109", parentId: cable1ID },
-                { color: "rgb(255, 192, 203)", id: "110", parentId: cable1ID },
-                { color: "rgb(0, 255, 255)", id: "111", parentId: cable1ID },
-                { color: "rgb(0, 0, 255)", isMarked: true, id: "112", parentId: cable1ID },
-                { color: "rgb(255, 165, 0)", isMarked: true, id: "113", parentId: cable1ID },
-                { color: "rgb(0, 128, 0)", isMarked: true, id: "114", parentId: cable1ID },
-                { color: "rgb(165, 42, 42)", isMarked: true, id: "115", parentId: cable1ID },
-
-            ]
-        },
-        {
-            id: cable2ID,
-            type: "out", fibers: [
-                { color: "rgb(0, 0, 255)", id: "116", parentId: cable2ID },
-                { color: "rgb(255, 165, 0)", id: "117", parentId: cable2ID },
-                { color: "rgb(0, 128, 0)", id: "118", parentId: cable2ID },
-                { color: "rgb(165, 42, 42)", id: "119", parentId: cable2ID },
-                { color: "rgb(128, 128, 128)", id: "120", parentId: cable2ID },
-                { color: "rgb(255, 255, 255)", id: "121", parentId: cable2ID },
-                { color: "rgb(255, 0, 0)", id: "122", parentId: cable2ID },
-                { color: "rgb(0, 0, 0)", id: "123", parentId: cable2ID },
-                { color: "rgb(255, 255, 0)", id: "124", parentId: cable2ID },
-                { color: "rgb(128, 0, 128)", id: "125", parentId: cable2ID },
-                { color: "rgb(255, 192, 203)", id: "126", parentId: cable2ID },
-                { color: "rgb(0, 255, 255)", id: "127", parentId: cable2ID },
-                { color: "rgb(0, 0, 255)", isMarked: true, id: "128", parentId: cable2ID },
-                { color: "rgb(255, 165, 0)", isMarked: true, id: "129", parentId: cable2ID },
-                { color: "rgb(0, 128, 0)", isMarked: true, id: "130", parentId: cable2ID },
-                { color: "rgb(165, 42, 42)", isMarked: true, id: "131", parentId: cable2ID },
-
-            ]
-        },
-        {
-            id: cable3ID,
-            type: "in", fibers: [
-                { color: "rgb(0, 0, 255)", id: "132", parentId: cable3ID },
-                { color: "rgb(255, 165, 0)", id: "133", parentId: cable3ID },
-                { color: "rgb(0, 128, 0)", id: "134", parentId: cable3ID },
-                { color: "rgb(165, 42, 42)", id: "135", parentId: cable3ID },
-                { color: "rgb(128, 128, 128)", id: "136", parentId: cable3ID },
-                { color: "rgb(255, 255, 255)", id: "137", parentId: cable3ID },
-                { color: "rgb(255, 0, 0)", id: "138", parentId: cable3ID },
-                { color: "rgb(0, 0, 0)", id: "139", parentId: cable3ID },
-            ]
-        },
-        {
-            id: cable4ID,
-            type: "out", fibers: [
-                { color: "rgb(0, 0, 255)", id: "140", parentId: cable4ID },
-                { color: "rgb(255, 0, 0)", id: "141", parentId: cable4ID },
-            ]
-        },
-        {
-            id: cable5ID,
-            type: "out",
-            tubes: [
-                { color: "rgb(0, 0, 255)", id: "142", parentId: cable5ID },
-                { color: "rgb(255, 165, 0)", id: "143", parentId: cable5ID },
-                { color: "rgb(0, 128, 0)", id: "144", parentId: cable5ID },
-                { color: "rgb(255, 0, 0)", id: "145", parentId: cable5ID },
-            ],
-            fibers: [
-                { color: "rgb(0, 0, 255)", id: "146", parentId: cable5ID, tubeId: "142" },
-                { color: "rgb(255, 165, 0)", id: "147", parentId: cable5ID, tubeId: "142" },
-                { color: "rgb(0, 128, 0)", id: "148", parentId: cable5ID, tubeId: "142" },
-                { color: "rgb(255, 0, 0)", id: "149", parentId: cable5ID, tubeId: "142" },
-                { color: "rgb(0, 0, 255)", id: "150", parentId: cable5ID, tubeId: "143"  },
-                { color: "rgb(255, 165, 0)", id: "151", parentId: cable5ID, tubeId: "143"  },
-                { color: "rgb(0, 128, 0)", id: "152", parentId: cable5ID, tubeId: "143"  },
-                { color: "rgb(165, 42, 42)", id: "153", parentId: cable5ID, tubeId: "144"  },
-                { color: "rgb(128, 128, 128)", id: "154", parentId: cable5ID, tubeId: "144"  },
-                { color: "rgb(255, 255, 255)", id: "155", parentId: cable5ID, tubeId: "145"  },
-                { color: "rgb(255, 0, 0)", id: "156", parentId: cable5ID, tubeId: "145"  },
-            ]
-        },
-    ]
-
-    const splitter1Id: string = v4();
-    const splitter2Id: string = v4();
-    const splitter3Id: string = v4();
-
-
-
-    const splitters: Splitter[] = [
-        {
-            name: "1/4",
-            id: splitter1Id,
-            inputs: [{ id: "157", parentId: splitter1Id }],
-            outputs: [{ id: "158", parentId: splitter1Id, color: "rgb(255, 0, 0)" }, { id: "61", parentId: splitter1Id, color: "rgb(255, 0, 0)" }, { id: "60", parentId: splitter1Id, color: "rgb(255, 0, 0)" }, { id: "61", parentId: splitter1Id, color: "rgb(255, 0, 0)" }],
-        },
-        {
-            name: "1/8",
-            id: splitter2Id,
-            inputs: [{ id: "159", parentId: splitter2Id }],
-            outputs: [
-                { color: "rgb(0, 0, 255)", id: "160", parentId: splitter2Id },
-                { color: "rgb(255, 165, 0)", id: "161", parentId: splitter2Id },
-                { color: "rgb(0, 128, 0)", id: "162", parentId: splitter2Id },
-                { color: "rgb(165, 42, 42)", id: "163", parentId: splitter2Id },
-                { color: "rgb(128, 128, 128)", id: "164", parentId: splitter2Id },
-                { color: "rgb(255, 255, 255)", id: "165", parentId: splitter2Id },
-                { color: "rgb(255, 0, 0)", id: "166", parentId: splitter2Id },
-                { color: "rgb(0, 0, 0)", id: "167", parentId: splitter2Id },
-            ],
-        },
-    ]
-
-    const commutators = [
-        {
-            name: "OLT",
-            id: splitter3Id,
-            inputs: [
-                { id: "168", parentId: splitter3Id },
-                { id: "169", parentId: splitter3Id },
-                { id: "170", parentId: splitter3Id },
-                { id: "171", parentId: splitter3Id },
-                { id: "172", parentId: splitter3Id },
-                { id: "173", parentId: splitter3Id },
-                { id: "174", parentId: splitter3Id },
-                { id: "175", parentId: splitter3Id },
-                { id: "176", parentId: splitter3Id },
-                { id: "177", parentId: splitter3Id },
-            ],
-            outputs: [
-                { id: "178", parentId: splitter3Id },
-                { id: "179", parentId: splitter3Id },
-                { id: "180", parentId: splitter3Id },
-                { id: "181", parentId: splitter3Id },
-                { id: "182", parentId: splitter3Id },
-                { id: "183", parentId: splitter3Id },
-                { id: "184", parentId: splitter3Id },
-                { id: "185", parentId: splitter3Id },
-            ],
-        },
-    ]
+    if (!projectId) {
+        return (
+            <Box sx={{ p: 4 }}>
+                <Typography>Select or create a project to work on its closures.</Typography>
+            </Box>
+        )
+    }
 
     return (
         <div style={{ position: 'relative' }}>
-            <span>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 1, flexWrap: 'wrap' }}>
                 <button onClick={() => { setVisualization('2D') }}>2D</button>
                 <button onClick={() => { setVisualization('3D') }}>3D</button>
-            </span>
+                <Select
+                    size="small"
+                    displayEmpty
+                    value={activeClosure?._id ?? ""}
+                    onChange={(e) => { if (e.target.value) dispatch(TH_GetClosure({ projectId, closureId: e.target.value })) }}
+                    sx={{ minWidth: 200 }}
+                >
+                    <MenuItem value="" disabled>{closures.length ? "Select closure" : "No closures yet"}</MenuItem>
+                    {closures.map(item => <MenuItem key={item._id} value={item._id}>{item.name}</MenuItem>)}
+                </Select>
+                <Button disabled={isExporting || closures.length === 0} onClick={() => handleExportReport("csv")}>Report CSV</Button>
+                <Button disabled={isExporting || closures.length === 0} onClick={() => handleExportReport("xlsx")}>Report XLSX</Button>
+                <Button disabled={!activeClosure} onClick={() => setPowerBudget(true)}>Power budget</Button>
+                <Button disabled={!activeClosure} onClick={() => setTraceDialog(true)}>{trace ? "Trace (active)" : "Trace"}</Button>
+                {canEditNetwork && (
+                    <>
+                        <TextField
+                            size="small"
+                            placeholder="New closure name"
+                            value={newClosureName}
+                            onChange={(e) => setNewClosureName(e.target.value)}
+                        />
+                        <Button variant="outlined" onClick={() => handleCreateClosure(false)}>New closure</Button>
+                        <Button variant="outlined" onClick={() => handleCreateClosure(true)}>Create sample closure</Button>
+                        {activeClosure && (
+                            <Button onClick={() => setCableBuilder(true)}>Add cable</Button>
+                        )}
+                        {activeClosure && (
+                            <Select size="small" displayEmpty value="" onChange={(e) => handleAddSplitter(e.target.value)} sx={{ minWidth: 140 }}>
+                                <MenuItem value="" disabled>Add splitter</MenuItem>
+                                {SPLITTER_MODELS.map(model => <MenuItem key={model.id} value={model.id}>{model.name}</MenuItem>)}
+                            </Select>
+                        )}
+                        {activeClosure && (
+                            <Button color="error" onClick={() => dispatch(TH_DeleteClosure({ projectId, closureId: activeClosure._id }))}>Delete</Button>
+                        )}
+                    </>
+                )}
+            </Box>
+            <CableBuilderDialog open={cableBuilder} close={() => setCableBuilder(false)} projectId={projectId} canEditCatalogue={canEditNetwork} onAddCable={handleAddCable} />
+            {activeClosure && (
+                <TraceDialog
+                    open={traceDialog}
+                    close={() => setTraceDialog(false)}
+                    projectId={projectId}
+                    closure={activeClosure}
+                    trace={trace}
+                    onTrace={setTrace}
+                    onOpenClosure={(closureId) => { if (closureId !== activeClosure._id) dispatch(TH_GetClosure({ projectId, closureId })) }}
+                />
+            )}
+            <SyncConflictDialog projectId={projectId} />
+            {activeClosure && <PowerBudgetDialog open={powerBudget} close={() => setPowerBudget(false)} projectId={projectId} closure={activeClosure} />}
             <div style={{ margin: '0 auto', width: '100vw', height: '100vh' }}>
-                {visualization === "2D" ? <FiberCanvas initialCables={cables} objectsOnCanvas={[...splitters, ...commutators]} /> : <OpticalCableVisualizer objectsOnCanvas={[...splitters, ...commutators]}  cables={cables} />}
+                {isLoading && !activeClosure && <Typography sx={{ p: 2 }}>Loading...</Typography>}
+                {/* The views lay the closure out once, a new cable or splitter or a reloaded plan mounts them again */}
+                {activeClosure && (visualization === "2D"
+                    ? <FiberCanvas key={viewKey} initialCables={activeClosure.cables} objectsOnCanvas={activeClosure.splitters} onConnectionsChange={scheduleSave} readOnly={!canEditSplices} closureName={activeClosure.name} author={account ? `${account.firstName} ${account.lastName}` : ''} highlightedIds={trace?.portIds} />
+                    : <OpticalCableVisualizer key={viewKey} objectsOnCanvas={activeClosure.splitters} cables={activeClosure.cables} onConnectionsChange={scheduleSave} readOnly={!canEditSplices} highlightedIds={trace?.portIds} />)}
             </div>
         </div>
     )
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -1,20 +1,31 @@
 import { colors } from '@mui/material';
 import React, { useRef, useEffect, useMemo, useState } from 'react';
-import { save3DConnectionsToLocalStorage } from 'src/utils/helperFunctions';
-import { ControlPointData, FiberConnection, InitialConnectionObject } from 'src/utils/threeJSHelpers/fiberConnections';
+import { get3DConnectionsFromLocalStorage, save3DConnectionsToLocalStorage } from 'src/utils/helperFunctions';
+import { ControlPointData, FiberConnection, FiberConnectionState, InitialConnectionObject } from 'src/utils/threeJSHelpers/fiberConnections';
 import { getOpticalCableScenes } from 'src/utils/threeJSHelpers/OpticalCableDrawer';
 import { ICable, IFiber, ISplitter } from 'src/utils/threeJSHelpers/types';
+import { IStoredConnection } from 'src/utils/types';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 import { ConnectionManager } from 'src/utils/threeJSHelpers/ConnectionManager';
 import { createSplitter } from 'src/utils/threeJSHelpers/SplitterDrawer';
+import { CommandHistory, getHistoryShortcut } from 'src/utils/history/CommandHistory';
+
+const HISTORY_LIMIT = 100;
 
 interface OpticalCableProps {
     cables: ICable[];
     objectsOnCanvas?: ISplitter[];
+    onConnectionsChange?: (connections: IStoredConnection[]) => void;
+    readOnly?: boolean;
+    // Fibers and ports of a traced circuit
+    highlightedIds?: string[];
 }
 
-const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: splitters }) => {
+// Sleeve drawn around traced fibers, it must not take hover or clicks from the fiber inside
+const TRACE_MATERIAL = new THREE.MeshBasicMaterial({ color: 0xff00ff, transparent: true, opacity: 0.4, depthWrite: false });
+
+const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: splitters, onConnectionsChange, readOnly = false, highlightedIds }) => {
     const mountRef = useRef<HTMLDivElement>(null);
     const isMounted = useRef<boolean>(false);
 
@@ -31,6 +42,7 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
     const hoveredFiber = useRef<THREE.Object3D | null>(null);
     const selectedCable = useRef<THREE.Object3D | null>(null);
     const connections = useRef<FiberConnection[]>([]);
+    const connectionsLoaded = useRef(false); // Don't report the empty initial state before localStorage is read
     const [selectedFibers, setSelectedFibers] = useState<THREE.Mesh[]>([]);
     const [activeConnection, setActiveConnection] = useState<FiberConnection | null>(null);
     const [selectedControlPoint, setSelectedControlPoint] = useState<number | null>(null);
@@ -52,14 +64,20 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
 
     const [random, setRandom] = useState(Math.random());
 
-    const connectionManager = useRef(new ConnectionManager()).current;
+    const history = useRef(new CommandHistory(HISTORY_LIMIT)).current;
+    const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+    const connectionManager = useRef(new ConnectionManager(history)).current;
+
+    // Transform of the cable or splitter group at the start of the drag/rotation in progress
+    const transformStart = useRef<{ position: THREE.Vector3, rotation: THREE.Euler } | null>(null);
 
     const selectedControlPointInfo = useRef<{
         mesh: THREE.Mesh,
         connection: FiberConnection,
         pointIndex: number,
         dragPlane: THREE.Plane,
-        dragOffset: THREE.Vector3
+        dragOffset: THREE.Vector3,
+        stateBefore: FiberConnectionState
     } | null>(null);
 
     const controlPointHelpers = useRef<THREE.Mesh[]>([]);
@@ -103,7 +121,8 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
                     fiber1Mesh,
                     fiber2Mesh,
                     connectionManager,
-                    connDef.points
+                    connDef.points,
+                    connDef.id
                 );
                 sceneInstance.add(connection.getMesh());
                 newConnections.push(connection);
@@ -120,8 +139,9 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
     };
 
     useEffect(() => {
-        if (connections.current.length)
-            save3DConnectionsToLocalStorage(connections.current)
+        if (!connectionsLoaded.current) return;
+        onConnectionsChange?.(save3DConnectionsToLocalStorage(connections.current))
+        // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [connections.current, random]);
 
     const clearControlPointHelpers = () => {
@@ -150,6 +170,50 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
         });
     };
 
+    useEffect(() => history.subscribe(() => {
+        setHistoryState({ canUndo: history.canUndo(), canRedo: history.canRedo() });
+    }), [history]);
+
+    // Adds or removes a connection as a recorded step, the mesh is kept alive so it can come back
+    const recordConnectionPresence = (connection: FiberConnection, present: boolean) => {
+        const attach = () => {
+            connection.update();
+            scene.add(connection.getMesh());
+            connections.current = [...connections.current, connection];
+        };
+        const detach = () => {
+            scene.remove(connection.getMesh());
+            connections.current = connections.current.filter(conn => conn !== connection);
+        };
+        history.record({
+            label: present ? 'Add connection' : 'Remove connection',
+            undo: present ? detach : attach,
+            redo: present ? attach : detach,
+        });
+    };
+
+    const stepHistory = (action: 'undo' | 'redo') => {
+        const changed = action === 'undo' ? history.undo() : history.redo();
+        if (!changed) return;
+        // Helpers and the edited connection may point at a state that no longer exists
+        clearControlPointHelpers();
+        setEditingConnection(null);
+        setRandom(Math.random());
+    };
+
+    useEffect(() => {
+        if (readOnly) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const action = getHistoryShortcut(event);
+            if (!action || history.isInTransaction() || isDragging.current || isRotating.current) return;
+            event.preventDefault();
+            stepHistory(action);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [history, readOnly]);
+
     const handleDeleteConnection = () => {
         if (!editingConnection) {
             console.warn("[OpticalCable] No connection selected to delete.");
@@ -157,9 +221,12 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
         }
 
         console.log("[OpticalCable] Deleting connection:", editingConnection);
+        history.begin('Delete connection');
         scene.remove(editingConnection.getMesh());
         editingConnection.dispose();
         connections.current = connections.current.filter(conn => conn !== editingConnection);
+        recordConnectionPresence(editingConnection, false);
+        history.commit();
         clearControlPointHelpers();
         setEditingConnection(null);
         setSelectedFibers([]);
@@ -221,14 +288,27 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
     }, [cables, splitters])
 
     useEffect(() => {
-        const initialConnections = localStorage.getItem("connections3D");
-        if (initialConnections && allConnectables.length && scene) {
-            const parsedConnections: InitialConnectionObject[] = JSON.parse(initialConnections);
-            createInitialConnections(parsedConnections, allConnectables, scene);
+        if (allConnectables.length) connectionsLoaded.current = true;
+        if (allConnectables.length && scene) {
+            createInitialConnections(get3DConnectionsFromLocalStorage(), allConnectables, scene);
         }
     }, [allConnectables, scene]);
 
 
+    // Traced circuit
+    useEffect(() => {
+        if (!highlightedIds?.length) return;
+        const ids = new Set(highlightedIds);
+        const sleeves = (allConnectables as THREE.Mesh[]).filter(mesh => ids.has(mesh.userData.fiberId)).map(mesh => {
+            const sleeve = new THREE.Mesh(mesh.geometry, TRACE_MATERIAL);
+            sleeve.scale.setScalar(1.3);
+            sleeve.raycast = () => {};
+            mesh.add(sleeve);
+            return sleeve;
+        });
+        return () => sleeves.forEach(sleeve => sleeve.removeFromParent());
+    }, [allConnectables, highlightedIds]);
+
     // main useEffect for event listeners
     useEffect(() => {
         if (!mountRef.current) return;
@@ -283,6 +363,9 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
                 const { connectionInstance, pointIndex } = intersectedCPMesh.userData;
 
                 console.log('[OpticalCable] MouseDown on ControlPoint:', pointIndex);
+                // The slot released by the first move lands in the same step as the move itself
+                history.begin('Move control point');
+                const stateBefore = (connectionInstance as FiberConnection).getState();
 
                 isDragging.current = false;
                 isDraggingControlPoint.current = true;
@@ -301,7 +384,8 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
                     connection: connectionInstance as FiberConnection,
                     pointIndex: pointIndex as number,
                     dragPlane: dragPlane,
-                    dragOffset: dragOffset
+                    dragOffset: dragOffset,
+                    stateBefore
                 };
                 currentMountRef.style.cursor = 'grabbing';
                 return;
@@ -326,6 +410,7 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
                 if (groupToTransform && !intersectedObject.userData.isCable && !intersectedObject.userData.isFiber && !intersectedObject.userData.isControlPoint) {
                     controls.current!.enabled = false;
                     selectedCable.current = groupToTransform;
+                    transformStart.current = { position: groupToTransform.position.clone(), rotation: groupToTransform.rotation.clone() };
 
                     // NEW: Check for Alt key to decide between rotating and dragging
                     if (event.altKey) {
@@ -458,9 +543,37 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
             }
         };
 
+        // Records the finished move/rotation of a group as one step
+        const recordGroupTransform = (group: THREE.Object3D, label: string) => {
+            const start = transformStart.current;
+            transformStart.current = null;
+            if (!start || (start.position.equals(group.position) && start.rotation.equals(group.rotation))) return;
+
+            const end = { position: group.position.clone(), rotation: group.rotation.clone() };
+            const apply = (transform: typeof end) => {
+                group.position.copy(transform.position);
+                group.rotation.copy(transform.rotation);
+                updateAttachedConnections(group);
+            };
+            history.push({ label, undo: () => apply(start), redo: () => apply(end) });
+        };
+
         const handleMouseUp = () => {
             // Unchanged: End drag for Control Points
             if (isDraggingControlPoint.current) {
+                const info = selectedControlPointInfo.current;
+                if (info) {
+                    const { connection, stateBefore } = info;
+                    const stateAfter = connection.getState();
+                    if (JSON.stringify(stateBefore) !== JSON.stringify(stateAfter)) {
+                        history.record({
+                            label: 'Move control point',
+                            undo: () => connection.restoreState(stateBefore),
+                            redo: () => connection.restoreState(stateAfter),
+                        });
+                    }
+                }
+                history.commit();
                 isDraggingControlPoint.current = false;
                 if (controls.current) controls.current.enabled = true;
                 selectedControlPointInfo.current = null;
@@ -470,6 +583,7 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
             if (isDragging.current) {
                 isDragging.current = false;
                 if (controls.current) controls.current.enabled = true;
+                if (selectedCable.current) recordGroupTransform(selectedCable.current, 'Move group');
                 selectedCable.current = null;
                 // ADDED: Clear the drag info
                 dragInfo.current = null;
@@ -479,6 +593,7 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
             if (isRotating.current) {
                 isRotating.current = false;
                 if (controls.current) controls.current.enabled = true;
+                if (selectedCable.current) recordGroupTransform(selectedCable.current, 'Rotate group');
                 rotationInfo.current = null;
                 selectedCable.current = null;
             }
@@ -562,9 +677,12 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
                         const firstFiberOriginalMaterial = originalMaterials.get(fiber1) || fiber1.material;
                         (fiber1 as THREE.Mesh).material = firstFiberOriginalMaterial;
 
+                        history.begin('Connect fibers');
                         const newConnection = new FiberConnection(fiber1, fiber2, connectionManager, undefined);
                         scene.add(newConnection.getMesh());
                         connections.current = [...connections.current, newConnection];
+                        recordConnectionPresence(newConnection, true);
+                        history.commit();
                         setSelectedFibers([]);
                     } else if (selectedFibers.length === 1 && selectedFibers[0] === clickedFiber) {
                         (clickedFiber as THREE.Mesh).material = originalMaterial;
@@ -598,10 +716,13 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
             setSelectedFiber(null);
         };
 
-        currentMountRef.addEventListener('mousedown', handleMouseDown);
+        // Read-only roles can still orbit and hover, but never pick up or connect anything
+        if (!readOnly) {
+            currentMountRef.addEventListener('mousedown', handleMouseDown);
+            currentMountRef.addEventListener('click', handleClick);
+        }
         currentMountRef.addEventListener('mousemove', handleMouseMove);
         window.addEventListener('mouseup', handleMouseUp);
-        currentMountRef.addEventListener('click', handleClick);
 
         return () => {
             currentMountRef.removeEventListener('mousedown', handleMouseDown);
@@ -610,7 +731,7 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
             currentMountRef.removeEventListener('click', handleClick);
         };
 
-    }, [camera, allCableGroups, allSplitterGroups, allConnectables, editingConnection, selectedFibers, originalMaterials, controls, raycaster, mouse]);
+    }, [camera, allCableGroups, allSplitterGroups, allConnectables, editingConnection, selectedFibers, originalMaterials, controls, raycaster, mouse, readOnly]);
 
     // ... (rest of your component, including the other useEffect hooks and the return statement)
     useEffect(() => {
@@ -738,6 +859,12 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
                     </div>
                 )}
             </div>
+            {!readOnly && (
+                <div style={{ position: 'absolute', top: '20px', left: '20px', display: 'flex', gap: '8px', zIndex: 10 }}>
+                    <button onClick={() => stepHistory('undo')} disabled={!historyState.canUndo} title="Undo (Ctrl+Z)">Undo</button>
+                    <button onClick={() => stepHistory('redo')} disabled={!historyState.canRedo} title="Redo (Ctrl+Shift+Z)">Redo</button>
+                </div>
+            )}
             {editingConnection && (
                 <button
                     onClick={handleDeleteConnection}
@@ -763,12 +890,12 @@ const OpticalCable: React.FC<OpticalCableProps> = ({ cables, objectsOnCanvas: sp
     );
 };
 // The wrapper component OpticalCableVisualizer remains unchanged
-const OpticalCableVisualizer: React.FC<{ cables: ICable[], objectsOnCanvas: ISplitter[] }> = ({ cables, objectsOnCanvas }) => {
+const OpticalCableVisualizer: React.FC<{ cables: ICable[], objectsOnCanvas: ISplitter[], onConnectionsChange?: (connections: IStoredConnection[]) => void, readOnly?: boolean, highlightedIds?: string[] }> = ({ cables, objectsOnCanvas, onConnectionsChange, readOnly, highlightedIds }) => {
 
     return (
         <div>
             <div style={{ margin: '0 auto' }}>
-                <OpticalCable cables={cables} objectsOnCanvas={objectsOnCanvas} />
+                <OpticalCable cables={cables} objectsOnCanvas={objectsOnCanvas} onConnectionsChange={onConnectionsChange} readOnly={readOnly} highlightedIds={highlightedIds} />
             </div>
         </div>
     );
@@ -0,0 +1,5 @@
+import { RootState } from "../config"
+
+export const getAssets = (store: RootState) => store.asset.assets
+export const getAssetLoading = (store: RootState) => store.asset.isLoading
+export const getAssetError = (store: RootState) => store.asset.error
@@ -0,0 +1,74 @@
+import { createSlice } from '@reduxjs/toolkit';
+import { IAsset } from '../../utils/types';
+import { TH_CreateAsset, TH_DeleteAsset, TH_GetAssets, TH_ImportNetwork, TH_UpdateAsset } from './thunk';
+
+interface AssetState {
+  isLoading: boolean;
+  error: string | null;
+  assets: IAsset[];
+}
+
+const initialState: AssetState = {
+  isLoading: false,
+  error: null,
+  assets: [],
+};
+
+const assetSlice = createSlice({
+  name: 'asset',
+  initialState,
+  reducers: {
+    reset: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(TH_GetAssets.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(TH_GetAssets.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.assets = action.payload as IAsset[];
+      })
+      .addCase(TH_GetAssets.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(TH_CreateAsset.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(TH_CreateAsset.fulfilled, (state, action) => {
+        state.assets = [...state.assets, action.payload as IAsset];
+      })
+      .addCase(TH_CreateAsset.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_UpdateAsset.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(TH_UpdateAsset.fulfilled, (state, action) => {
+        const asset = action.payload as IAsset;
+        state.assets = state.assets.map(item => item._id === asset._id ? asset : item);
+      })
+      .addCase(TH_UpdateAsset.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_DeleteAsset.fulfilled, (state, action) => {
+        state.assets = state.assets.filter(item => item._id !== action.payload);
+      })
+      .addCase(TH_DeleteAsset.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_ImportNetwork.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(TH_ImportNetwork.fulfilled, (state, action) => {
+        state.assets = [...state.assets, ...action.payload.assets];
+      })
+      .addCase(TH_ImportNetwork.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export default assetSlice;
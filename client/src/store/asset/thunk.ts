@@ -0,0 +1,79 @@
+import { createAsyncThunk } from '@reduxjs/toolkit';
+import { AxiosError } from 'axios';
+import { R_CreateAsset, R_DeleteAsset, R_GetAssets, R_ImportNetwork, R_UpdateAsset } from '../../api/assets/service';
+import { T_CreateAsset, T_DeleteAsset, T_ImportNetwork, T_UpdateAsset } from '../../api/assets/types';
+import { handleResponseError } from '../../api/config';
+import { isOfflineError, isOfflineId, queueCreate, queueDelete, queueUpdate } from '../../utils/offline/editQueue';
+import { readNetworkCache } from '../../utils/offline/networkCache';
+import type { RootState } from '../config';
+
+const findAsset = (state: unknown, assetId: string) => (state as RootState).asset.assets.find(item => item._id === assetId);
+
+export const TH_GetAssets = createAsyncThunk(
+    'asset/getAssets',
+    async (projectId: string, thunkAPI) => {
+        try {
+            return await R_GetAssets(projectId);
+        } catch (error) {
+            const cached = isOfflineError(error) ? await readNetworkCache(projectId) : undefined;
+            if (cached?.assets) return cached.assets;
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_CreateAsset = createAsyncThunk(
+    'asset/createAsset',
+    async (data: T_CreateAsset['args'], thunkAPI) => {
+        try {
+            return await R_CreateAsset(data);
+        } catch (error) {
+            if (isOfflineError(error)) {
+                const { projectId, ...fields } = data;
+                return await queueCreate(projectId, 'asset', fields);
+            }
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_UpdateAsset = createAsyncThunk(
+    'asset/updateAsset',
+    async (data: T_UpdateAsset['args'], thunkAPI) => {
+        const { projectId, assetId, ...fields } = data;
+        try {
+            // An asset made offline only exists on the server after the next sync
+            if (isOfflineId(assetId)) return await queueUpdate(projectId, 'asset', assetId, fields, findAsset(thunkAPI.getState(), assetId));
+            return await R_UpdateAsset(data);
+        } catch (error) {
+            if (isOfflineError(error)) return await queueUpdate(projectId, 'asset', assetId, fields, findAsset(thunkAPI.getState(), assetId));
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_DeleteAsset = createAsyncThunk(
+    'asset/deleteAsset',
+    async (data: T_DeleteAsset['args'], thunkAPI) => {
+        const { projectId, assetId } = data;
+        try {
+            if (isOfflineId(assetId)) return await queueDelete(projectId, 'asset', assetId, findAsset(thunkAPI.getState(), assetId));
+            await R_DeleteAsset(data);
+            return assetId;
+        } catch (error) {
+            if (isOfflineError(error)) return await queueDelete(projectId, 'asset', assetId, findAsset(thunkAPI.getState(), assetId));
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_ImportNetwork = createAsyncThunk(
+    'asset/importNetwork',
+    async (data: T_ImportNetwork['args'], thunkAPI) => {
+        try {
+            return await R_ImportNetwork(data);
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
@@ -0,0 +1,5 @@
+import { RootState } from "../config"
+
+export const getCableRoutes = (store: RootState) => store.cableRoute.cableRoutes
+export const getCableRouteLoading = (store: RootState) => store.cableRoute.isLoading
+export const getCableRouteError = (store: RootState) => store.cableRoute.error
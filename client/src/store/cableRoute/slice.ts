@@ -0,0 +1,70 @@
+import { createSlice } from '@reduxjs/toolkit';
+import { ICableRoute } from '../../utils/types';
+import { TH_CreateCableRoute, TH_DeleteCableRoute, TH_GetCableRoutes, TH_UpdateCableRoute } from './thunk';
+import { TH_ImportNetwork } from '../asset/thunk';
+
+interface CableRouteState {
+  isLoading: boolean;
+  error: string | null;
+  cableRoutes: ICableRoute[];
+}
+
+const initialState: CableRouteState = {
+  isLoading: false,
+  error: null,
+  cableRoutes: [],
+};
+
+const cableRouteSlice = createSlice({
+  name: 'cableRoute',
+  initialState,
+  reducers: {
+    reset: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(TH_GetCableRoutes.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(TH_GetCableRoutes.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.cableRoutes = action.payload as ICableRoute[];
+      })
+      .addCase(TH_GetCableRoutes.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(TH_CreateCableRoute.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(TH_CreateCableRoute.fulfilled, (state, action) => {
+        state.cableRoutes = [...state.cableRoutes, action.payload as ICableRoute];
+      })
+      .addCase(TH_CreateCableRoute.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_UpdateCableRoute.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(TH_UpdateCableRoute.fulfilled, (state, action) => {
+        const cableRoute = action.payload as ICableRoute;
+        state.cableRoutes = state.cableRoutes.map(item => item._id === cableRoute._id ? cableRoute : item);
+      })
+      .addCase(TH_UpdateCableRoute.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_DeleteCableRoute.fulfilled, (state, action) => {
+        state.cableRoutes = state.cableRoutes.filter(item => item._id !== action.payload);
+      })
+      .addCase(TH_DeleteCableRoute.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      // Imports create routes together with assets
+      .addCase(TH_ImportNetwork.fulfilled, (state, action) => {
+        state.cableRoutes = [...state.cableRoutes, ...action.payload.routes];
+      });
+  },
+});
+
+export default cableRouteSlice;
@@ -0,0 +1,68 @@
+import { createAsyncThunk } from '@reduxjs/toolkit';
+import { AxiosError } from 'axios';
+import { R_CreateCableRoute, R_DeleteCableRoute, R_GetCableRoutes, R_UpdateCableRoute } from '../../api/cableRoutes/service';
+import { T_CreateCableRoute, T_DeleteCableRoute, T_UpdateCableRoute } from '../../api/cableRoutes/types';
+import { handleResponseError } from '../../api/config';
+import { isOfflineError, isOfflineId, queueCreate, queueDelete, queueUpdate } from '../../utils/offline/editQueue';
+import { readNetworkCache } from '../../utils/offline/networkCache';
+import type { RootState } from '../config';
+
+const findCableRoute = (state: unknown, cableRouteId: string) => (state as RootState).cableRoute.cableRoutes.find(item => item._id === cableRouteId);
+
+export const TH_GetCableRoutes = createAsyncThunk(
+    'cableRoute/getCableRoutes',
+    async (projectId: string, thunkAPI) => {
+        try {
+            return await R_GetCableRoutes(projectId);
+        } catch (error) {
+            const cached = isOfflineError(error) ? await readNetworkCache(projectId) : undefined;
+            if (cached?.routes) return cached.routes;
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_CreateCableRoute = createAsyncThunk(
+    'cableRoute/createCableRoute',
+    async (data: T_CreateCableRoute['args'], thunkAPI) => {
+        try {
+            return await R_CreateCableRoute(data);
+        } catch (error) {
+            if (isOfflineError(error)) {
+                const { projectId, ...fields } = data;
+                return await queueCreate(projectId, 'cableRoute', fields);
+            }
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_UpdateCableRoute = createAsyncThunk(
+    'cableRoute/updateCableRoute',
+    async (data: T_UpdateCableRoute['args'], thunkAPI) => {
+        const { projectId, cableRouteId, ...fields } = data;
+        try {
+            // A route made offline only exists on the server after the next sync
+            if (isOfflineId(cableRouteId)) return await queueUpdate(projectId, 'cableRoute', cableRouteId, fields, findCableRoute(thunkAPI.getState(), cableRouteId));
+            return await R_UpdateCableRoute(data);
+        } catch (error) {
+            if (isOfflineError(error)) return await queueUpdate(projectId, 'cableRoute', cableRouteId, fields, findCableRoute(thunkAPI.getState(), cableRouteId));
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_DeleteCableRoute = createAsyncThunk(
+    'cableRoute/deleteCableRoute',
+    async (data: T_DeleteCableRoute['args'], thunkAPI) => {
+        const { projectId, cableRouteId } = data;
+        try {
+            if (isOfflineId(cableRouteId)) return await queueDelete(projectId, 'cableRoute', cableRouteId, findCableRoute(thunkAPI.getState(), cableRouteId));
+            await R_DeleteCableRoute(data);
+            return cableRouteId;
+        } catch (error) {
+            if (isOfflineError(error)) return await queueDelete(projectId, 'cableRoute', cableRouteId, findCableRoute(thunkAPI.getState(), cableRouteId));
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
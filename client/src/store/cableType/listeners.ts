@@ -0,0 +1,26 @@
+import { createListenerMiddleware, isAnyOf } from '@reduxjs/toolkit';
+import type { RootState } from '../config';
+import { setCustomColorCodes } from '../../utils/colorCodes/standards';
+import cableTypeSlice from './slice';
+import { TH_CreateColorCode, TH_DeleteColorCode, TH_GetColorCodes, TH_UpdateColorCode } from './thunk';
+
+/**
+ * Hands the project's colour codes to colorCodes/standards, which cable generation and fiber labels
+ * read outside of React.
+ */
+const colorCodeListener = createListenerMiddleware();
+
+colorCodeListener.startListening({
+  matcher: isAnyOf(
+    TH_GetColorCodes.fulfilled,
+    TH_CreateColorCode.fulfilled,
+    TH_UpdateColorCode.fulfilled,
+    TH_DeleteColorCode.fulfilled,
+    cableTypeSlice.actions.reset,
+  ),
+  effect: (_action, listenerApi) => {
+    setCustomColorCodes((listenerApi.getState() as RootState).cableType.colorCodes);
+  },
+});
+
+export default colorCodeListener;
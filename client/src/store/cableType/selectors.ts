@@ -0,0 +1,6 @@
+import { RootState } from "../config"
+
+export const getCableTypes = (store: RootState) => store.cableType.cableTypes
+export const getProjectColorCodes = (store: RootState) => store.cableType.colorCodes
+export const getCableTypeLoading = (store: RootState) => store.cableType.isLoading
+export const getCableTypeError = (store: RootState) => store.cableType.error
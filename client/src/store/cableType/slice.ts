@@ -0,0 +1,110 @@
+import { createSlice } from '@reduxjs/toolkit';
+import { ICableType, IColorCode } from '../../utils/types';
+import {
+  TH_CreateCableType,
+  TH_CreateColorCode,
+  TH_DeleteCableType,
+  TH_DeleteColorCode,
+  TH_GetCableTypes,
+  TH_GetColorCodes,
+  TH_UpdateCableType,
+  TH_UpdateColorCode,
+} from './thunk';
+
+interface CableTypeState {
+  isLoading: boolean;
+  error: string | null;
+  cableTypes: ICableType[];
+  // Company colour codes of the project, the standard ones live in colorCodes/standards
+  colorCodes: IColorCode[];
+}
+
+const initialState: CableTypeState = {
+  isLoading: false,
+  error: null,
+  cableTypes: [],
+  colorCodes: [],
+};
+
+const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name)
+
+const cableTypeSlice = createSlice({
+  name: 'cableType',
+  initialState,
+  reducers: {
+    reset: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(TH_GetCableTypes.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(TH_GetCableTypes.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.cableTypes = action.payload as ICableType[];
+      })
+      .addCase(TH_GetCableTypes.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(TH_CreateCableType.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(TH_CreateCableType.fulfilled, (state, action) => {
+        state.cableTypes = [...state.cableTypes, action.payload as ICableType].sort(byName);
+      })
+      .addCase(TH_CreateCableType.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_UpdateCableType.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(TH_UpdateCableType.fulfilled, (state, action) => {
+        const cableType = action.payload as ICableType;
+        state.cableTypes = state.cableTypes.map(item => item._id === cableType._id ? cableType : item).sort(byName);
+      })
+      .addCase(TH_UpdateCableType.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_DeleteCableType.fulfilled, (state, action) => {
+        state.cableTypes = state.cableTypes.filter(item => item._id !== action.payload);
+      })
+      .addCase(TH_DeleteCableType.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_GetColorCodes.fulfilled, (state, action) => {
+        state.colorCodes = action.payload as IColorCode[];
+      })
+      .addCase(TH_GetColorCodes.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_CreateColorCode.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(TH_CreateColorCode.fulfilled, (state, action) => {
+        state.colorCodes = [...state.colorCodes, action.payload as IColorCode].sort(byName);
+      })
+      .addCase(TH_CreateColorCode.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_UpdateColorCode.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(TH_UpdateColorCode.fulfilled, (state, action) => {
+        const colorCode = action.payload as IColorCode;
+        state.colorCodes = state.colorCodes.map(item => item.id === colorCode.id ? colorCode : item).sort(byName);
+      })
+      .addCase(TH_UpdateColorCode.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_DeleteColorCode.fulfilled, (state, action) => {
+        state.colorCodes = state.colorCodes.filter(item => item.id !== action.payload);
+      })
+      .addCase(TH_DeleteColorCode.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export default cableTypeSlice;
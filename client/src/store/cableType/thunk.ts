@@ -0,0 +1,98 @@
+import { createAsyncThunk } from '@reduxjs/toolkit';
+import { AxiosError } from 'axios';
+import { R_CreateCableType, R_DeleteCableType, R_GetCableTypes, R_UpdateCableType } from '../../api/cableTypes/service';
+import { T_CreateCableType, T_DeleteCableType, T_UpdateCableType } from '../../api/cableTypes/types';
+import { R_CreateColorCode, R_DeleteColorCode, R_GetColorCodes, R_UpdateColorCode } from '../../api/colorCodes/service';
+import { T_CreateColorCode, T_DeleteColorCode, T_UpdateColorCode } from '../../api/colorCodes/types';
+import { handleResponseError } from '../../api/config';
+
+export const TH_GetCableTypes = createAsyncThunk(
+    'cableType/getCableTypes',
+    async (projectId: string, thunkAPI) => {
+        try {
+            return await R_GetCableTypes(projectId);
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_CreateCableType = createAsyncThunk(
+    'cableType/createCableType',
+    async (data: T_CreateCableType['args'], thunkAPI) => {
+        try {
+            return await R_CreateCableType(data);
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_UpdateCableType = createAsyncThunk(
+    'cableType/updateCableType',
+    async (data: T_UpdateCableType['args'], thunkAPI) => {
+        try {
+            return await R_UpdateCableType(data);
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_DeleteCableType = createAsyncThunk(
+    'cableType/deleteCableType',
+    async (data: T_DeleteCableType['args'], thunkAPI) => {
+        try {
+            await R_DeleteCableType(data);
+            return data.cableTypeId;
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+// Company colour codes sit in the same catalogue, cable types refer to them by id
+export const TH_GetColorCodes = createAsyncThunk(
+    'cableType/getColorCodes',
+    async (projectId: string, thunkAPI) => {
+        try {
+            return await R_GetColorCodes(projectId);
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_CreateColorCode = createAsyncThunk(
+    'cableType/createColorCode',
+    async (data: T_CreateColorCode['args'], thunkAPI) => {
+        try {
+            return await R_CreateColorCode(data);
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_UpdateColorCode = createAsyncThunk(
+    'cableType/updateColorCode',
+    async (data: T_UpdateColorCode['args'], thunkAPI) => {
+        try {
+            return await R_UpdateColorCode(data);
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_DeleteColorCode = createAsyncThunk(
+    'cableType/deleteColorCode',
+    async (data: T_DeleteColorCode['args'], thunkAPI) => {
+        try {
+            await R_DeleteColorCode(data);
+            return data.colorCodeId;
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
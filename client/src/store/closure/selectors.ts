@@ -0,0 +1,7 @@
+import { RootState } from "../config"
+
+export const getClosures = (store: RootState) => store.closure.closures
+export const getActiveClosure = (store: RootState) => store.closure.activeClosure
+export const getClosurePlanLoads = (store: RootState) => store.closure.planLoads
+export const getClosureLoading = (store: RootState) => store.closure.isLoading
+export const getClosureError = (store: RootState) => store.closure.error
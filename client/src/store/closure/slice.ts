@@ -0,0 +1,97 @@
+import { createSlice } from '@reduxjs/toolkit';
+import { IClosure, IClosurePlan } from '../../utils/types';
+import { TH_CreateClosure, TH_DeleteClosure, TH_GetClosure, TH_GetClosures, TH_SaveConnections, TH_UpdateClosure } from './thunk';
+
+interface ClosureState {
+  isLoading: boolean;
+  error: string | null;
+  closures: IClosure[];
+  activeClosure: IClosurePlan | null;
+  // Counts plan loads, the views read the connections once and mount again for every load
+  planLoads: number;
+}
+
+const initialState: ClosureState = {
+  isLoading: false,
+  error: null,
+  closures: [],
+  activeClosure: null,
+  planLoads: 0,
+};
+
+const toClosure = ({ cables, splitters, connections, ...closure }: IClosurePlan): IClosure => closure
+
+const closureSlice = createSlice({
+  name: 'closure',
+  initialState,
+  reducers: {
+    reset: () => initialState,
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(TH_GetClosures.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(TH_GetClosures.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.closures = action.payload as IClosure[];
+      })
+      .addCase(TH_GetClosures.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(TH_GetClosure.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(TH_GetClosure.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.activeClosure = action.payload as IClosurePlan;
+        state.planLoads++;
+      })
+      .addCase(TH_GetClosure.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(TH_CreateClosure.fulfilled, (state, action) => {
+        const plan = action.payload as IClosurePlan;
+        state.closures.push(toClosure(plan));
+        state.activeClosure = plan;
+      })
+      .addCase(TH_CreateClosure.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_UpdateClosure.fulfilled, (state, action) => {
+        const plan = action.payload as IClosurePlan;
+        state.closures = state.closures.map(item => item._id === plan._id ? toClosure(plan) : item);
+        if (state.activeClosure?._id === plan._id) {
+          state.activeClosure = plan;
+        }
+      })
+      .addCase(TH_UpdateClosure.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_SaveConnections.fulfilled, (state, action) => {
+        const plan = action.payload as IClosurePlan;
+        if (state.activeClosure && state.activeClosure._id === action.meta.arg.closureId) {
+          state.activeClosure.connections = plan.connections;
+          state.activeClosure.updatedAt = plan.updatedAt;
+        }
+      })
+      .addCase(TH_SaveConnections.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_DeleteClosure.fulfilled, (state, action) => {
+        state.closures = state.closures.filter(item => item._id !== action.payload);
+        if (state.activeClosure?._id === action.payload) {
+          state.activeClosure = null;
+        }
+      })
+      .addCase(TH_DeleteClosure.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export default closureSlice;
@@ -0,0 +1,99 @@
+import { createAsyncThunk } from '@reduxjs/toolkit';
+import { AxiosError } from 'axios';
+import { R_CreateClosure, R_DeleteClosure, R_GetClosure, R_GetClosures, R_SaveConnections, R_UpdateClosure } from '../../api/closures/service';
+import { T_CreateClosure, T_DeleteClosure, T_GetClosure, T_SaveConnections, T_UpdateClosure } from '../../api/closures/types';
+import { handleResponseError } from '../../api/config';
+import { saveConnectionDocuments } from '../../utils/helperFunctions';
+import { isOfflineError, queueUpdate } from '../../utils/offline/editQueue';
+import { readCachedClosurePlan, readNetworkCache } from '../../utils/offline/networkCache';
+import type { RootState } from '../config';
+
+const findClosurePlan = (state: unknown, closureId: string) => {
+    const plan = (state as RootState).closure.activeClosure;
+    return plan?._id === closureId ? plan : undefined;
+};
+
+export const TH_GetClosures = createAsyncThunk(
+    'closure/getClosures',
+    async (projectId: string, thunkAPI) => {
+        try {
+            return await R_GetClosures(projectId);
+        } catch (error) {
+            // Closures are read from the offline copy
+            const cached = isOfflineError(error) ? await readNetworkCache(projectId) : undefined;
+            if (cached?.closures) return cached.closures;
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+// The connection views read the plan's connections from localStorage
+export const TH_GetClosure = createAsyncThunk(
+    'closure/getClosure',
+    async (data: T_GetClosure['args'], thunkAPI) => {
+        try {
+            const plan = await R_GetClosure(data);
+            saveConnectionDocuments(plan.connections);
+            return plan;
+        } catch (error) {
+            const cached = isOfflineError(error) ? await readCachedClosurePlan(data.projectId, data.closureId) : undefined;
+            if (cached) {
+                saveConnectionDocuments(cached.connections);
+                return cached;
+            }
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_CreateClosure = createAsyncThunk(
+    'closure/createClosure',
+    async (data: T_CreateClosure['args'], thunkAPI) => {
+        try {
+            const plan = await R_CreateClosure(data);
+            saveConnectionDocuments(plan.connections);
+            return plan;
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_UpdateClosure = createAsyncThunk(
+    'closure/updateClosure',
+    async (data: T_UpdateClosure['args'], thunkAPI) => {
+        try {
+            return await R_UpdateClosure(data);
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+// Offline the connections wait in the edit queue with the version they were made on, the sync checks it
+export const TH_SaveConnections = createAsyncThunk(
+    'closure/saveConnections',
+    async (data: T_SaveConnections['args'], thunkAPI) => {
+        try {
+            return await R_SaveConnections(data);
+        } catch (error) {
+            if (isOfflineError(error)) {
+                const current = findClosurePlan(thunkAPI.getState(), data.closureId);
+                return await queueUpdate(data.projectId, 'closure', data.closureId, { name: current?.name ?? '', connections: data.connections }, current);
+            }
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_DeleteClosure = createAsyncThunk(
+    'closure/deleteClosure',
+    async (data: T_DeleteClosure['args'], thunkAPI) => {
+        try {
+            await R_DeleteClosure(data);
+            return data.closureId;
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
@@ -1,10 +1,25 @@
 import { Action, ThunkAction, combineReducers, configureStore } from '@reduxjs/toolkit';
 import userSlice from './user/slice';
 import notificationsSlice from './Notification/slice';
+import closureSlice from './closure/slice';
+import projectSlice from './project/slice';
+import cableTypeSlice from './cableType/slice';
+import cableRouteSlice from './cableRoute/slice';
+import assetSlice from './asset/slice';
+import offlineSlice from './offline/slice';
+import offlineListener from './offline/listeners';
+import colorCodeListener from './cableType/listeners';
+import { onSessionExpired } from '../api/config';
 
 const rootReducer = combineReducers({
 	user: userSlice.reducer,
-	notifications: notificationsSlice.reducer
+	notifications: notificationsSlice.reducer,
+	closure: closureSlice.reducer,
+	project: projectSlice.reducer,
+	cableType: cableTypeSlice.reducer,
+	cableRoute: cableRouteSlice.reducer,
+	asset: assetSlice.reducer,
+	offline: offlineSlice.reducer
 })
 
 // Define the AppThunk type for Thunk actions
@@ -19,11 +34,21 @@ export type AppThunk<ReturnType = void> = ThunkAction<
 const setupStore = () => {
 	return configureStore({
 		reducer: rootReducer,
-		middleware: (getDefaultMiddleware) => getDefaultMiddleware({serializableCheck: false})
+		middleware: (getDefaultMiddleware) => getDefaultMiddleware({serializableCheck: false}).prepend(offlineListener.middleware, colorCodeListener.middleware)
 	})
 }
 
 export const store = setupStore()
+
+onSessionExpired(() => {
+	store.dispatch(userSlice.actions.logout())
+	store.dispatch(closureSlice.actions.reset())
+	store.dispatch(projectSlice.actions.reset())
+	store.dispatch(cableTypeSlice.actions.reset())
+	store.dispatch(cableRouteSlice.actions.reset())
+	store.dispatch(assetSlice.actions.reset())
+	store.dispatch(offlineSlice.actions.reset())
+})
 export type RootState = ReturnType<typeof rootReducer>;
 export type AppStore = ReturnType<typeof setupStore>;
 export type AppDispatch = AppStore["dispatch"];
\ No newline at end of file
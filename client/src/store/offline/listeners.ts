@@ -0,0 +1,107 @@
+import { createListenerMiddleware, isAnyOf } from '@reduxjs/toolkit';
+import type { RootState } from '../config';
+import { removeCachedClosurePlan, saveCachedClosurePlan, saveCachedProjects, saveNetworkCache } from '../../utils/offline/networkCache';
+import { TH_CreateAsset, TH_DeleteAsset, TH_GetAssets, TH_ImportNetwork, TH_UpdateAsset } from '../asset/thunk';
+import { TH_CreateCableRoute, TH_DeleteCableRoute, TH_GetCableRoutes, TH_UpdateCableRoute } from '../cableRoute/thunk';
+import { TH_CreateClosure, TH_DeleteClosure, TH_GetClosure, TH_GetClosures, TH_SaveConnections, TH_UpdateClosure } from '../closure/thunk';
+import { TH_GetProjects } from '../project/thunk';
+import { TH_CountPendingEdits, TH_ResolveConflict, TH_SyncEdits } from './thunk';
+
+/**
+ * Keeps the IndexedDB copy of the active project in step with the store, so the map opens without a connection.
+ * Only the list an action changed is written.
+ */
+const offlineListener = createListenerMiddleware();
+
+const writeCache = (state: RootState, lists: Parameters<typeof saveNetworkCache>[1]) => {
+  const projectId = state.project.activeProjectId;
+  if (!projectId) return;
+  saveNetworkCache(projectId, lists).catch(error => console.error('Offline copy could not be saved:', error));
+};
+
+const assetEdits = [TH_CreateAsset.fulfilled, TH_UpdateAsset.fulfilled, TH_DeleteAsset.fulfilled] as const;
+const cableRouteEdits = [TH_CreateCableRoute.fulfilled, TH_UpdateCableRoute.fulfilled, TH_DeleteCableRoute.fulfilled] as const;
+
+offlineListener.startListening({
+  matcher: isAnyOf(TH_GetAssets.fulfilled, TH_ImportNetwork.fulfilled, ...assetEdits),
+  effect: (_action, listenerApi) => {
+    const state = listenerApi.getState() as RootState;
+    writeCache(state, { assets: state.asset.assets });
+  },
+});
+
+offlineListener.startListening({
+  matcher: isAnyOf(TH_GetCableRoutes.fulfilled, TH_ImportNetwork.fulfilled, ...cableRouteEdits),
+  effect: (_action, listenerApi) => {
+    const state = listenerApi.getState() as RootState;
+    writeCache(state, { routes: state.cableRoute.cableRoutes });
+  },
+});
+
+offlineListener.startListening({
+  matcher: isAnyOf(TH_GetClosures.fulfilled, TH_CreateClosure.fulfilled, TH_UpdateClosure.fulfilled, TH_DeleteClosure.fulfilled),
+  effect: (_action, listenerApi) => {
+    const state = listenerApi.getState() as RootState;
+    writeCache(state, { closures: state.closure.closures });
+  },
+});
+
+// The plan open in the splice editor, so the closure can be worked on without a connection
+offlineListener.startListening({
+  matcher: isAnyOf(TH_GetClosure.fulfilled, TH_CreateClosure.fulfilled, TH_UpdateClosure.fulfilled, TH_SaveConnections.fulfilled),
+  effect: (_action, listenerApi) => {
+    const { project, closure } = listenerApi.getState() as RootState;
+    if (!project.activeProjectId || !closure.activeClosure) return;
+    saveCachedClosurePlan(project.activeProjectId, closure.activeClosure)
+      .catch(error => console.error('Offline copy could not be saved:', error));
+  },
+});
+
+offlineListener.startListening({
+  actionCreator: TH_DeleteClosure.fulfilled,
+  effect: (action) => {
+    removeCachedClosurePlan(action.meta.arg.projectId, action.meta.arg.closureId)
+      .catch(error => console.error('Offline copy could not be saved:', error));
+  },
+});
+
+offlineListener.startListening({
+  actionCreator: TH_GetProjects.fulfilled,
+  effect: (_action, listenerApi) => {
+    saveCachedProjects((listenerApi.getState() as RootState).project.projects)
+      .catch(error => console.error('Offline copy could not be saved:', error));
+  },
+});
+
+// An edit may have gone to the queue instead of the server
+offlineListener.startListening({
+  matcher: isAnyOf(...assetEdits, ...cableRouteEdits, TH_SaveConnections.fulfilled),
+  effect: (_action, listenerApi) => {
+    const projectId = (listenerApi.getState() as RootState).project.activeProjectId;
+    if (projectId) listenerApi.dispatch(TH_CountPendingEdits(projectId));
+  },
+});
+
+// Splice plans sent by a sync are loaded again, the views still show what they had before
+const reloadActiveClosure = (state: RootState, dispatch: (action: ReturnType<typeof TH_GetClosure>) => unknown) => {
+  const { project, closure } = state;
+  if (project.activeProjectId && closure.activeClosure) {
+    dispatch(TH_GetClosure({ projectId: project.activeProjectId, closureId: closure.activeClosure._id }));
+  }
+};
+
+offlineListener.startListening({
+  actionCreator: TH_SyncEdits.fulfilled,
+  effect: (action, listenerApi) => {
+    if (action.payload.synced > 0) reloadActiveClosure(listenerApi.getState() as RootState, listenerApi.dispatch);
+  },
+});
+
+offlineListener.startListening({
+  actionCreator: TH_ResolveConflict.fulfilled,
+  effect: (action, listenerApi) => {
+    if (action.payload.edit.entity === 'closure') reloadActiveClosure(listenerApi.getState() as RootState, listenerApi.dispatch);
+  },
+});
+
+export default offlineListener;
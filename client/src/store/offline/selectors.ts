@@ -0,0 +1,7 @@
+import { RootState } from "../config"
+
+export const getIsOnline = (store: RootState) => store.offline.isOnline
+export const getIsSyncing = (store: RootState) => store.offline.isSyncing
+export const getPendingEditCount = (store: RootState) => store.offline.pendingEdits
+export const getSyncConflicts = (store: RootState) => store.offline.conflicts
+export const getOfflineError = (store: RootState) => store.offline.error
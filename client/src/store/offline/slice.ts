@@ -0,0 +1,61 @@
+import { PayloadAction, createSlice } from '@reduxjs/toolkit';
+import { OfflineConflict } from '../../utils/offline/sync';
+import { TH_CountPendingEdits, TH_ResolveConflict, TH_SyncEdits } from './thunk';
+
+interface OfflineState {
+  isOnline: boolean;
+  isSyncing: boolean;
+  error: string | null;
+  // Edits of the active project waiting for a connection
+  pendingEdits: number;
+  // Edits the last sync held back, each one waits for the user to pick a side
+  conflicts: OfflineConflict[];
+}
+
+const initialState: OfflineState = {
+  isOnline: navigator.onLine,
+  isSyncing: false,
+  error: null,
+  pendingEdits: 0,
+  conflicts: [],
+};
+
+const offlineSlice = createSlice({
+  name: 'offline',
+  initialState,
+  reducers: {
+    reset: (state) => ({ ...initialState, isOnline: state.isOnline }),
+    setOnline: (state, action: PayloadAction<boolean>) => {
+      state.isOnline = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(TH_CountPendingEdits.fulfilled, (state, action) => {
+        state.pendingEdits = action.payload;
+      })
+      .addCase(TH_SyncEdits.pending, (state) => {
+        state.isSyncing = true;
+        state.error = null;
+      })
+      .addCase(TH_SyncEdits.fulfilled, (state, action) => {
+        state.isSyncing = false;
+        state.conflicts = action.payload.conflicts;
+      })
+      .addCase(TH_SyncEdits.rejected, (state, action) => {
+        state.isSyncing = false;
+        state.error = action.payload as string;
+      })
+      .addCase(TH_ResolveConflict.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(TH_ResolveConflict.fulfilled, (state, action) => {
+        state.conflicts = state.conflicts.filter(item => item.edit.id !== action.payload.edit.id);
+      })
+      .addCase(TH_ResolveConflict.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+  },
+});
+
+export default offlineSlice;
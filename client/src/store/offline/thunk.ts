@@ -0,0 +1,43 @@
+import { createAsyncThunk } from '@reduxjs/toolkit';
+import { AxiosError } from 'axios';
+import { handleResponseError } from '../../api/config';
+import { getPendingEdits } from '../../utils/offline/editQueue';
+import { OfflineConflict, resolveConflict, syncEdits } from '../../utils/offline/sync';
+import { TH_GetAssets } from '../asset/thunk';
+import { TH_GetCableRoutes } from '../cableRoute/thunk';
+
+export const TH_CountPendingEdits = createAsyncThunk(
+    'offline/countPendingEdits',
+    async (projectId: string) => (await getPendingEdits(projectId)).length
+);
+
+// The lists are loaded again afterwards, items created offline get their server ids
+export const TH_SyncEdits = createAsyncThunk(
+    'offline/syncEdits',
+    async (projectId: string, thunkAPI) => {
+        try {
+            const result = await syncEdits(projectId);
+            if (result.synced > 0) {
+                await Promise.all([thunkAPI.dispatch(TH_GetAssets(projectId)), thunkAPI.dispatch(TH_GetCableRoutes(projectId))]);
+            }
+            thunkAPI.dispatch(TH_CountPendingEdits(projectId));
+            return result;
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_ResolveConflict = createAsyncThunk(
+    'offline/resolveConflict',
+    async ({ projectId, conflict, keep }: { projectId: string, conflict: OfflineConflict, keep: 'local' | 'server' }, thunkAPI) => {
+        try {
+            await resolveConflict(conflict, keep);
+            await Promise.all([thunkAPI.dispatch(TH_GetAssets(projectId)), thunkAPI.dispatch(TH_GetCableRoutes(projectId))]);
+            thunkAPI.dispatch(TH_CountPendingEdits(projectId));
+            return conflict;
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
@@ -0,0 +1,27 @@
+import { RootState } from "../config"
+import { ProjectRole } from "src/utils/types"
+
+const PROJECT_ROLES: ProjectRole[] = ['viewer', 'technician', 'planner', 'admin']
+
+export const getProjects = (store: RootState) => store.project.projects
+export const getOrganizations = (store: RootState) => store.project.organizations
+export const getActiveProjectId = (store: RootState) => store.project.activeProjectId
+export const getActiveProject = (store: RootState) => store.project.projects.find(item => item._id === store.project.activeProjectId) ?? null
+export const getProjectMembers = (store: RootState) => store.project.members
+export const getProjectInvitations = (store: RootState) => store.project.projectInvitations
+export const getMyInvitations = (store: RootState) => store.project.invitations
+export const getProjectError = (store: RootState) => store.project.error
+
+// Same cap as the server: a viewer or technician account never acts above its own role in a project
+const getActiveRole = (store: RootState): ProjectRole | null => {
+    const projectRole = getActiveProject(store)?.role
+    if (!projectRole) return null
+    const accountRole = store.user.account?.role
+    const ceiling: ProjectRole = accountRole === 'planner' || accountRole === 'admin' ? 'admin' : accountRole ?? 'viewer'
+    return PROJECT_ROLES.indexOf(projectRole) <= PROJECT_ROLES.indexOf(ceiling) ? projectRole : ceiling
+}
+
+// technicians splice fibers, planners also shape the network (closures, cables, map assets)
+export const getCanEditSplices = (store: RootState): boolean => ['technician', 'planner', 'admin'].includes(getActiveRole(store) ?? '')
+export const getCanEditNetwork = (store: RootState): boolean => ['planner', 'admin'].includes(getActiveRole(store) ?? '')
+export const getCanManageProject = (store: RootState): boolean => getActiveRole(store) === 'admin'
@@ -0,0 +1,137 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { IInvitation, IOrganization, IProject, IProjectMember } from '../../utils/types';
+import { getActiveProjectId, saveActiveProjectId } from '../../utils/helperFunctions';
+import {
+  TH_AcceptInvitation,
+  TH_ChangeMemberRole,
+  TH_CreateOrganization,
+  TH_CreateProject,
+  TH_DeclineInvitation,
+  TH_GetMembers,
+  TH_GetMyInvitations,
+  TH_GetOrganizations,
+  TH_GetProjectInvitations,
+  TH_GetProjects,
+  TH_InviteMember,
+  TH_RemoveMember,
+} from './thunk';
+
+interface ProjectState {
+  isLoading: boolean;
+  error: string | null;
+  projects: IProject[];
+  organizations: IOrganization[];
+  activeProjectId: string | null;
+  // members and pending invitations of the active project
+  members: IProjectMember[];
+  projectInvitations: IInvitation[];
+  // invitations addressed to the current account
+  invitations: IInvitation[];
+}
+
+const initialState: ProjectState = {
+  isLoading: false,
+  error: null,
+  projects: [],
+  organizations: [],
+  activeProjectId: getActiveProjectId(),
+  members: [],
+  projectInvitations: [],
+  invitations: [],
+};
+
+const setActive = (state: ProjectState, projectId: string | null) => {
+  state.activeProjectId = projectId;
+  state.members = [];
+  state.projectInvitations = [];
+  if (projectId) saveActiveProjectId(projectId);
+}
+
+const projectSlice = createSlice({
+  name: 'project',
+  initialState,
+  reducers: {
+    setActiveProject: (state, action: PayloadAction<string>) => {
+      setActive(state, action.payload);
+    },
+    reset: () => ({ ...initialState, activeProjectId: null }),
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(TH_GetProjects.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(TH_GetProjects.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.projects = action.payload as IProject[];
+        // fall back to the first project when the remembered one is gone
+        if (!state.projects.some(item => item._id === state.activeProjectId)) {
+          setActive(state, state.projects[0]?._id ?? null);
+        }
+      })
+      .addCase(TH_GetProjects.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+      .addCase(TH_GetOrganizations.fulfilled, (state, action) => {
+        state.organizations = action.payload as IOrganization[];
+      })
+      .addCase(TH_CreateOrganization.fulfilled, (state, action) => {
+        state.organizations.push(action.payload as IOrganization);
+      })
+      .addCase(TH_CreateOrganization.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_CreateProject.fulfilled, (state, action) => {
+        const project = action.payload as IProject;
+        state.projects.push(project);
+        setActive(state, project._id);
+      })
+      .addCase(TH_CreateProject.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_GetMembers.fulfilled, (state, action) => {
+        state.members = action.payload as IProjectMember[];
+      })
+      .addCase(TH_ChangeMemberRole.fulfilled, (state, action) => {
+        const member = action.payload as IProjectMember;
+        state.members = state.members.map(item => item._id === member._id ? { ...item, role: member.role } : item);
+      })
+      .addCase(TH_ChangeMemberRole.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_RemoveMember.fulfilled, (state, action) => {
+        state.members = state.members.filter(item => item._id !== action.payload);
+      })
+      .addCase(TH_RemoveMember.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_InviteMember.fulfilled, (state, action) => {
+        const invitation = action.payload as IInvitation;
+        state.projectInvitations = [...state.projectInvitations.filter(item => item._id !== invitation._id), invitation];
+      })
+      .addCase(TH_InviteMember.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_GetProjectInvitations.fulfilled, (state, action) => {
+        state.projectInvitations = action.payload as IInvitation[];
+      })
+      .addCase(TH_GetMyInvitations.fulfilled, (state, action) => {
+        state.invitations = action.payload as IInvitation[];
+      })
+      .addCase(TH_AcceptInvitation.fulfilled, (state, action) => {
+        const project = action.payload as IProject;
+        state.invitations = state.invitations.filter(item => item._id !== action.meta.arg);
+        state.projects = [...state.projects.filter(item => item._id !== project._id), project];
+      })
+      .addCase(TH_AcceptInvitation.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      .addCase(TH_DeclineInvitation.fulfilled, (state, action) => {
+        state.invitations = state.invitations.filter(item => item._id !== action.payload);
+      });
+  },
+});
+
+export default projectSlice;
@@ -0,0 +1,156 @@
+import { createAsyncThunk } from '@reduxjs/toolkit';
+import { AxiosError } from 'axios';
+import {
+    R_AcceptInvitation,
+    R_ChangeMemberRole,
+    R_CreateOrganization,
+    R_CreateProject,
+    R_DeclineInvitation,
+    R_GetMembers,
+    R_GetMyInvitations,
+    R_GetOrganizations,
+    R_GetProjectInvitations,
+    R_GetProjects,
+    R_InviteMember,
+    R_RemoveMember,
+} from '../../api/projects/service';
+import { T_ChangeMemberRole, T_CreateOrganization, T_CreateProject, T_InviteMember, T_RemoveMember } from '../../api/projects/types';
+import { handleResponseError } from '../../api/config';
+import { isOfflineError } from '../../utils/offline/editQueue';
+import { readCachedProjects } from '../../utils/offline/networkCache';
+
+export const TH_GetProjects = createAsyncThunk(
+    'project/getProjects',
+    async (_, thunkAPI) => {
+        try {
+            return await R_GetProjects();
+        } catch (error) {
+            const cached = isOfflineError(error) ? await readCachedProjects() : undefined;
+            if (cached) return cached;
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_GetOrganizations = createAsyncThunk(
+    'project/getOrganizations',
+    async (_, thunkAPI) => {
+        try {
+            return await R_GetOrganizations();
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_CreateOrganization = createAsyncThunk(
+    'project/createOrganization',
+    async (data: T_CreateOrganization['args'], thunkAPI) => {
+        try {
+            return await R_CreateOrganization(data);
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_CreateProject = createAsyncThunk(
+    'project/createProject',
+    async (data: T_CreateProject['args'], thunkAPI) => {
+        try {
+            return await R_CreateProject(data);
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_GetMembers = createAsyncThunk(
+    'project/getMembers',
+    async (projectId: string, thunkAPI) => {
+        try {
+            return await R_GetMembers(projectId);
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_ChangeMemberRole = createAsyncThunk(
+    'project/changeMemberRole',
+    async (data: T_ChangeMemberRole['args'], thunkAPI) => {
+        try {
+            return await R_ChangeMemberRole(data);
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_RemoveMember = createAsyncThunk(
+    'project/removeMember',
+    async (data: T_RemoveMember['args'], thunkAPI) => {
+        try {
+            await R_RemoveMember(data);
+            return data.memberId;
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_InviteMember = createAsyncThunk(
+    'project/inviteMember',
+    async (data: T_InviteMember['args'], thunkAPI) => {
+        try {
+            return await R_InviteMember(data);
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_GetProjectInvitations = createAsyncThunk(
+    'project/getProjectInvitations',
+    async (projectId: string, thunkAPI) => {
+        try {
+            return await R_GetProjectInvitations(projectId);
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_GetMyInvitations = createAsyncThunk(
+    'project/getMyInvitations',
+    async (_, thunkAPI) => {
+        try {
+            return await R_GetMyInvitations();
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_AcceptInvitation = createAsyncThunk(
+    'project/acceptInvitation',
+    async (invitationId: string, thunkAPI) => {
+        try {
+            return await R_AcceptInvitation(invitationId);
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_DeclineInvitation = createAsyncThunk(
+    'project/declineInvitation',
+    async (invitationId: string, thunkAPI) => {
+        try {
+            await R_DeclineInvitation(invitationId);
+            return invitationId;
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
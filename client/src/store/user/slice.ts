@@ -1,7 +1,7 @@
-import { createSlice } from '@reduxjs/toolkit';
+import { createSlice, isAnyOf } from '@reduxjs/toolkit';
 import { IUser } from '../../utils/types';
-import { TH_Register, TH_SignIn } from './thunk';
-import { removeToken, removeUserFromLS } from 'src/utils/helperFunctions';
+import { TH_ForgotPassword, TH_Logout, TH_Register, TH_ResetPassword, TH_SignIn, TH_VerifyEmail } from './thunk';
+import { removeRefreshToken, removeToken, removeUserFromLS, saveUserToLS } from 'src/utils/helperFunctions';
 
 interface UserState {
   isLoading: boolean;
@@ -17,6 +17,16 @@ const initialState: UserState = {
   account: null
 };
 
+const clearSession = (state: UserState) => {
+  state.isLoading = false;
+  state.isAuthenticated = false;
+  state.error = null;
+  state.account = null
+  removeUserFromLS()
+  removeToken()
+  removeRefreshToken()
+}
+
 const userSlice = createSlice({
   name: 'user',
   initialState,
@@ -27,14 +37,7 @@ const userSlice = createSlice({
       state.error = null;
       state.account = action.payload
     },
-    logout: (state) => {
-      state.isLoading = false;
-      state.isAuthenticated = false;
-      state.error = null;
-      state.account = null
-      removeUserFromLS()
-      removeToken()
-    },
+    logout: clearSession,
     setError: (state, action)=>{
       state.error = action.payload;
     }
@@ -68,6 +71,25 @@ const userSlice = createSlice({
       .addCase(TH_Register.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.payload as string;
+      })
+      .addCase(TH_Logout.fulfilled, clearSession)
+      .addCase(TH_VerifyEmail.fulfilled, (state) => {
+        state.isLoading = false;
+        if (state.account) {
+          state.account.emailVerified = true
+          saveUserToLS({ authStatus: true, ...state.account })
+        }
+      })
+      .addMatcher(isAnyOf(TH_ForgotPassword.pending, TH_ResetPassword.pending, TH_VerifyEmail.pending), (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addMatcher(isAnyOf(TH_ForgotPassword.fulfilled, TH_ResetPassword.fulfilled), (state) => {
+        state.isLoading = false;
+      })
+      .addMatcher(isAnyOf(TH_ForgotPassword.rejected, TH_ResetPassword.rejected, TH_VerifyEmail.rejected), (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
       });
   },
 
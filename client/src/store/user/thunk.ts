@@ -1,8 +1,10 @@
 import { createAsyncThunk } from '@reduxjs/toolkit';
-import { R_Register, R_SignIn } from '../../api/auth/service';
+import { R_ForgotPassword, R_Logout, R_Register, R_ResendVerification, R_ResetPassword, R_SignIn, R_VerifyEmail } from '../../api/auth/service';
+import { T_ForgotPassword, T_ResetPassword, T_VerifyEmail } from '../../api/auth/types';
 import { ICredentials, IRegister } from '../../utils/types';
 import { handleResponseError } from '../../api/config';
 import { AxiosError } from 'axios';
+import { getRefreshToken } from '../../utils/helperFunctions';
 export const TH_SignIn = createAsyncThunk(
     'user/signIn',
     async (data: {formData: ICredentials, onSuccess: ()=>void}, thunkAPI) => {
@@ -28,4 +30,68 @@ export const TH_Register = createAsyncThunk(
             return handleResponseError(error as AxiosError, thunkAPI)
         }
     }
-);
\ No newline at end of file
+);
+
+export const TH_Logout = createAsyncThunk(
+    'user/logout',
+    async () => {
+        const refreshToken = getRefreshToken()
+        if (!refreshToken) return
+        try {
+            await R_Logout({ refreshToken });
+        } catch (error) {
+            // the local session is cleared either way, an unreachable server must not keep the user logged in
+            console.error(error)
+        }
+    }
+);
+
+export const TH_ForgotPassword = createAsyncThunk(
+    'user/forgotPassword',
+    async (data: {formData: T_ForgotPassword['args'], onSuccess: (message: string)=>void}, thunkAPI) => {
+        try {
+            const response = await R_ForgotPassword(data.formData);
+            data.onSuccess(response.message)
+            return response;
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_ResetPassword = createAsyncThunk(
+    'user/resetPassword',
+    async (data: {formData: T_ResetPassword['args'], onSuccess: (message: string)=>void}, thunkAPI) => {
+        try {
+            const response = await R_ResetPassword(data.formData);
+            data.onSuccess(response.message)
+            return response;
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_VerifyEmail = createAsyncThunk(
+    'user/verifyEmail',
+    async (data: {formData: T_VerifyEmail['args'], onSuccess: (message: string)=>void}, thunkAPI) => {
+        try {
+            const response = await R_VerifyEmail(data.formData);
+            data.onSuccess(response.message)
+            return response;
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
+
+export const TH_ResendVerification = createAsyncThunk(
+    'user/resendVerification',
+    async (_, thunkAPI) => {
+        try {
+            return await R_ResendVerification();
+        } catch (error) {
+            return handleResponseError(error as AxiosError, thunkAPI)
+        }
+    }
+);
@@ -0,0 +1,15 @@
+import { MapAdapter, MapAdapterOptions, MapProvider } from "./types";
+import { createYandexAdapter } from "./yandexAdapter";
+import { createGoogleAdapter } from "./googleAdapter";
+import { createLeafletAdapter } from "./leafletAdapter";
+
+export const createMapAdapter = (provider: MapProvider, container: HTMLElement, options: MapAdapterOptions): Promise<MapAdapter> => {
+  switch (provider) {
+    case 'yandex':
+      return createYandexAdapter(container, options, import.meta.env.VITE_APP_YANDEX_MAPS_API_KEY);
+    case 'google':
+      return createGoogleAdapter(container, options, import.meta.env.VITE_APP_Maps_API_KEY);
+    case 'leaflet':
+      return createLeafletAdapter(container, options);
+  }
+};
@@ -0,0 +1,164 @@
+/// <reference types="google.maps" />
+import { IGeoPoint } from "shared/networkSchema";
+import { MapAdapter, MapAdapterOptions, MapEventName, MapMarker, MapPolyline, MarkerOptions, PolylineOptions, isInteractiveMarker } from "./types";
+import { loadScript } from "./loadScript";
+
+const EVENT_NAMES: Record<MapEventName, string> = {
+  click: 'click',
+  rightclick: 'rightclick',
+  mousemove: 'mousemove',
+};
+
+// A dash pattern drawn with symbols, Google polylines have no stroke style
+const DASH_ICONS = [{ icon: { path: 'M 0,-1 0,1', strokeOpacity: 1, scale: 2 }, offset: '0', repeat: '10px' }];
+
+const toPoint = (latLng: google.maps.LatLng): IGeoPoint => ({ lat: latLng.lat(), lng: latLng.lng() });
+
+export const createGoogleAdapter = async (container: HTMLElement, options: MapAdapterOptions, apiKey: string): Promise<MapAdapter> => {
+  await loadScript(`https://maps.googleapis.com/maps/api/js?key=${apiKey}`);
+
+  const map = new google.maps.Map(container, {
+    center: options.center,
+    zoom: options.zoom,
+    mapTypeId: options.mapType,
+    disableDefaultUI: true,
+    gestureHandling: 'greedy',
+  });
+
+  /**
+   * Markers are plain HTML elements so they share the stylesheet with the other providers.
+   * Dragging is done by hand, an OverlayView has no drag support of its own.
+   */
+  class HtmlMarker extends google.maps.OverlayView {
+    element = document.createElement('div');
+    position: google.maps.LatLng;
+    // The click that ends a drag is not a click on the marker
+    private wasDragged = false;
+
+    constructor(private options: MarkerOptions) {
+      super();
+      this.position = new google.maps.LatLng(options.point);
+      this.element.className = options.className;
+      this.element.textContent = options.text ?? '';
+      this.element.style.position = 'absolute';
+      if (options.hint) this.element.title = options.hint;
+      if (options.onClick) this.element.addEventListener('click', this.click);
+      if (options.onRightClick) this.element.addEventListener('contextmenu', this.rightClick);
+      if (options.draggable) this.element.addEventListener('pointerdown', this.startDrag);
+      if (isInteractiveMarker(options)) google.maps.OverlayView.preventMapHitsAndGesturesFrom(this.element);
+      this.setMap(map);
+    }
+
+    onAdd() {
+      const panes = this.getPanes();
+      (isInteractiveMarker(this.options) ? panes?.overlayMouseTarget : panes?.overlayLayer)?.appendChild(this.element);
+    }
+
+    draw() {
+      const pixel = this.getProjection()?.fromLatLngToDivPixel(this.position);
+      if (!pixel) return;
+      this.element.style.left = `${pixel.x}px`;
+      this.element.style.top = `${pixel.y}px`;
+    }
+
+    onRemove() {
+      this.element.remove();
+    }
+
+    setPosition(point: IGeoPoint) {
+      this.position = new google.maps.LatLng(point);
+      this.draw();
+    }
+
+    private click = () => {
+      if (!this.wasDragged) this.options.onClick?.();
+      this.wasDragged = false;
+    };
+
+    private rightClick = (event: MouseEvent) => {
+      event.preventDefault();
+      this.options.onRightClick?.();
+    };
+
+    private startDrag = (event: PointerEvent) => {
+      event.stopPropagation();
+      this.wasDragged = false;
+      const projection = this.getProjection();
+      const bounds = map.getDiv().getBoundingClientRect();
+      const move = (e: PointerEvent) => {
+        const latLng = projection.fromContainerPixelToLatLng(new google.maps.Point(e.clientX - bounds.left, e.clientY - bounds.top));
+        if (latLng) this.setPosition(toPoint(latLng));
+        this.wasDragged = true;
+      };
+      const end = () => {
+        document.removeEventListener('pointermove', move);
+        document.removeEventListener('pointerup', end);
+        this.options.onDragEnd?.(toPoint(this.position));
+      };
+      document.addEventListener('pointermove', move);
+      document.addEventListener('pointerup', end);
+    };
+  }
+
+  const addMarker = (markerOptions: MarkerOptions): MapMarker => {
+    const marker = new HtmlMarker(markerOptions);
+    return {
+      setPosition: (next) => marker.setPosition(next),
+      setText: (next) => { marker.element.textContent = next },
+      remove: () => marker.setMap(null),
+    };
+  };
+
+  const addPolyline = ({ points, color, width, opacity = 1, dashed, hint, onClick }: PolylineOptions): MapPolyline => {
+    const line = new google.maps.Polyline({
+      map,
+      path: points,
+      strokeColor: color,
+      strokeWeight: width,
+      // A dashed line is drawn by its symbols only
+      strokeOpacity: dashed ? 0 : opacity,
+      icons: dashed ? DASH_ICONS.map(item => ({ ...item, icon: { ...item.icon, strokeColor: color, strokeOpacity: opacity } })) : [],
+      clickable: !!(onClick || hint),
+    });
+    if (onClick) line.addListener('click', onClick);
+    // Polylines have no tooltip, the map element carries it while hovered
+    if (hint) {
+      line.addListener('mouseover', () => { map.getDiv().title = hint });
+      line.addListener('mouseout', () => { map.getDiv().title = '' });
+    }
+
+    return {
+      setPoints: (next) => line.setPath(next),
+      remove: () => line.setMap(null),
+    };
+  };
+
+  return {
+    setMapType: (mapType) => map.setMapTypeId(mapType),
+    setCursor: (cursor) => map.setOptions({ draggableCursor: cursor }),
+    fitBounds: (points) => {
+      if (points.length === 0) return;
+      const bounds = new google.maps.LatLngBounds();
+      points.forEach(point => bounds.extend(point));
+      map.fitBounds(bounds, 40);
+    },
+    addMarker,
+    addPolyline,
+    toPixel: (point) => {
+      // World coordinates are the pixels at zoom 0
+      const world = map.getProjection()?.fromLatLngToPoint(point);
+      const scale = 2 ** (map.getZoom() ?? 0);
+      return world ? { x: world.x * scale, y: world.y * scale } : { x: NaN, y: NaN };
+    },
+    on: (event, handler) => {
+      const listener = map.addListener(EVENT_NAMES[event], (e: google.maps.MapMouseEvent) => {
+        if (e.latLng) handler(toPoint(e.latLng));
+      });
+      return () => listener.remove();
+    },
+    destroy: () => {
+      google.maps.event.clearInstanceListeners(map);
+      map.getDiv().replaceChildren();
+    },
+  };
+};
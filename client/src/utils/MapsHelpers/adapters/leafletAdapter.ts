@@ -0,0 +1,81 @@
+import L from 'leaflet';
+import { IGeoPoint } from "shared/networkSchema";
+import { MapAdapter, MapAdapterOptions, MapEventName, MapMarker, MapPolyline, MarkerOptions, PolylineOptions, isInteractiveMarker } from "./types";
+
+const EVENT_NAMES: Record<MapEventName, string> = {
+  click: 'click',
+  rightclick: 'contextmenu',
+  mousemove: 'mousemove',
+};
+
+// The service worker keeps tiles by URL, so every layer has a single host the offline download can use too
+export const TILE_LAYERS: Record<string, { url: string, attribution: string }> = {
+  streets: { url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png', attribution: '&copy; OpenStreetMap' },
+  satellite: { url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}', attribution: '&copy; Esri' },
+};
+
+const toPoint = (latLng: L.LatLng): IGeoPoint => ({ lat: latLng.lat, lng: latLng.lng });
+
+export const createLeafletAdapter = async (container: HTMLElement, options: MapAdapterOptions): Promise<MapAdapter> => {
+  const map = L.map(container, { center: options.center, zoom: options.zoom, zoomControl: false });
+  let tiles: L.TileLayer | null = null;
+
+  const setMapType = (mapType: string) => {
+    tiles?.remove();
+    const layer = TILE_LAYERS[mapType] ?? TILE_LAYERS.streets;
+    tiles = L.tileLayer(layer.url, { attribution: layer.attribution }).addTo(map);
+  };
+  setMapType(options.mapType);
+
+  const addMarker = (markerOptions: MarkerOptions): MapMarker => {
+    const { point, className, text = '', hint, draggable, onClick, onRightClick, onDragEnd } = markerOptions;
+    const element = document.createElement('div');
+    element.className = className;
+    element.textContent = text;
+    // No size and no anchor, the element centres itself on the point like on the other providers
+    const marker = L.marker(point, {
+      icon: L.divIcon({ html: element, className: 'leaflet-html-marker', iconSize: undefined }),
+      draggable: !!draggable,
+      interactive: isInteractiveMarker(markerOptions),
+    }).addTo(map);
+    if (hint) marker.bindTooltip(hint);
+    if (onClick) marker.on('click', onClick);
+    if (onRightClick) marker.on('contextmenu', onRightClick);
+    if (onDragEnd) marker.on('dragend', () => onDragEnd(toPoint(marker.getLatLng())));
+
+    return {
+      setPosition: (next) => marker.setLatLng(next),
+      setText: (next) => { element.textContent = next },
+      remove: () => marker.remove(),
+    };
+  };
+
+  const addPolyline = ({ points, color, width, opacity = 1, dashed, hint, onClick }: PolylineOptions): MapPolyline => {
+    const line = L.polyline(points, { color, weight: width, opacity, dashArray: dashed ? '4 6' : undefined }).addTo(map);
+    if (hint) line.bindTooltip(hint, { sticky: true });
+    if (onClick) line.on('click', (e) => { L.DomEvent.stopPropagation(e); onClick() });
+
+    return {
+      setPoints: (next) => line.setLatLngs(next),
+      remove: () => line.remove(),
+    };
+  };
+
+  return {
+    setMapType,
+    setCursor: (cursor) => { map.getContainer().style.cursor = cursor },
+    fitBounds: (points) => {
+      if (points.length === 0) return;
+      map.fitBounds(L.latLngBounds(points), { padding: [40, 40], maxZoom: 18 });
+    },
+    addMarker,
+    addPolyline,
+    toPixel: (point) => map.latLngToContainerPoint(point),
+    on: (event, handler) => {
+      const listener = (e: L.LeafletMouseEvent) => handler(toPoint(e.latlng));
+      map.on(EVENT_NAMES[event], listener as L.LeafletEventHandlerFn);
+      return () => { map.off(EVENT_NAMES[event], listener as L.LeafletEventHandlerFn) };
+    },
+    destroy: () => map.remove(),
+  };
+};
@@ -0,0 +1,22 @@
+const loading = new Map<string, Promise<void>>();
+
+// Provider SDKs are plain script tags, each one is loaded once per page
+export const loadScript = (src: string): Promise<void> => {
+  const pending = loading.get(src);
+  if (pending) return pending;
+
+  const promise = new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = src;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      loading.delete(src);
+      script.remove();
+      reject(new Error(`${src} could not be loaded`));
+    };
+    document.head.appendChild(script);
+  });
+  loading.set(src, promise);
+  return promise;
+};
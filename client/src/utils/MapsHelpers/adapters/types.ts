@@ -0,0 +1,72 @@
+import { IGeoPoint } from "shared/networkSchema";
+
+export type MapProvider = 'google' | 'yandex' | 'leaflet';
+
+export type MapEventName = 'click' | 'rightclick' | 'mousemove';
+
+export interface MapAdapterOptions {
+  center: IGeoPoint;
+  zoom: number;
+  mapType: string;
+}
+
+export interface MarkerOptions {
+  point: IGeoPoint;
+  // Class of the HTML element drawn at the point, see MapStyles.css
+  className: string;
+  // Text inside the element, used by distance labels
+  text?: string;
+  // Tooltip on hover
+  hint?: string;
+  draggable?: boolean;
+  onClick?: () => void;
+  onRightClick?: () => void;
+  onDragEnd?: (point: IGeoPoint) => void;
+}
+
+// A marker nobody can hover, click or drag lets the events through to the map
+export const isInteractiveMarker = ({ hint, draggable, onClick, onRightClick, onDragEnd }: MarkerOptions) =>
+  !!(hint || draggable || onClick || onRightClick || onDragEnd);
+
+export interface MapMarker {
+  setPosition: (point: IGeoPoint) => void;
+  setText: (text: string) => void;
+  remove: () => void;
+}
+
+export interface PolylineOptions {
+  points: IGeoPoint[];
+  color: string;
+  width: number;
+  opacity?: number;
+  dashed?: boolean;
+  hint?: string;
+  onClick?: () => void;
+}
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapPolyline {
+  setPoints: (points: IGeoPoint[]) => void;
+  remove: () => void;
+}
+
+/**
+ * What the map tools need from a provider. Each provider implements it with its own API,
+ * everything drawn on the map goes through it so the tools behave the same on all of them.
+ */
+export interface MapAdapter {
+  setMapType: (mapType: string) => void;
+  setCursor: (cursor: 'crosshair' | 'grab') => void;
+  fitBounds: (points: IGeoPoint[]) => void;
+  addMarker: (options: MarkerOptions) => MapMarker;
+  addPolyline: (options: PolylineOptions) => MapPolyline;
+  // Pixel position at the current zoom, only the distance between two of them means something
+  toPixel: (point: IGeoPoint) => PixelPoint;
+  // Returns the function that removes the handler
+  on: (event: MapEventName, handler: (point: IGeoPoint) => void) => () => void;
+  destroy: () => void;
+}
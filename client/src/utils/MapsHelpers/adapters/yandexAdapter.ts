@@ -0,0 +1,90 @@
+import { IGeoPoint } from "shared/networkSchema";
+import { MapAdapter, MapAdapterOptions, MapEventName, MapMarker, MapPolyline, MarkerOptions, PolylineOptions, isInteractiveMarker } from "./types";
+import { loadScript } from "./loadScript";
+
+// Declare ymaps in the window scope to avoid TypeScript errors
+declare global {
+  interface Window {
+    ymaps: any;
+  }
+}
+
+const EVENT_NAMES: Record<MapEventName, string> = {
+  click: 'click',
+  rightclick: 'contextmenu',
+  mousemove: 'mousemove',
+};
+
+const toCoords = (point: IGeoPoint) => [point.lat, point.lng];
+
+const toPoint = ([lat, lng]: number[]): IGeoPoint => ({ lat, lng });
+
+export const createYandexAdapter = async (container: HTMLElement, options: MapAdapterOptions, apiKey: string): Promise<MapAdapter> => {
+  await loadScript(`https://api-maps.yandex.ru/2.1/?lang=en_US&apikey=${apiKey}`);
+  await new Promise<void>(resolve => window.ymaps.ready(() => resolve()));
+  const ymaps = window.ymaps;
+
+  const map = new ymaps.Map(container, { center: toCoords(options.center), zoom: options.zoom, type: options.mapType, controls: [] });
+
+  const addMarker = (markerOptions: MarkerOptions): MapMarker => {
+    const { point, className, text = '', hint, draggable, onClick, onRightClick, onDragEnd } = markerOptions;
+    // {{ }} escapes the text, the class comes from our own stylesheet
+    const layout = ymaps.templateLayoutFactory.createClass(`<div class="${className}">{{ properties.text }}</div>`);
+    const placemark = new ymaps.Placemark(toCoords(point), { text, hintContent: hint }, {
+      iconLayout: layout,
+      iconShape: { type: 'Circle', coordinates: [0, 0], radius: 11 },
+      draggable: !!draggable,
+      interactivityModel: isInteractiveMarker(markerOptions) ? 'default#geoObject' : 'default#transparent',
+    });
+    if (onClick) placemark.events.add('click', onClick);
+    if (onRightClick) placemark.events.add('contextmenu', (e: any) => { e.preventDefault(); onRightClick() });
+    if (onDragEnd) placemark.events.add('dragend', () => onDragEnd(toPoint(placemark.geometry.getCoordinates())));
+    map.geoObjects.add(placemark);
+
+    return {
+      setPosition: (next) => placemark.geometry.setCoordinates(toCoords(next)),
+      setText: (next) => placemark.properties.set('text', next),
+      remove: () => map.geoObjects.remove(placemark),
+    };
+  };
+
+  const addPolyline = ({ points, color, width, opacity = 1, dashed, hint, onClick }: PolylineOptions): MapPolyline => {
+    const line = new ymaps.Polyline(points.map(toCoords), { hintContent: hint }, {
+      strokeColor: color,
+      strokeWidth: width,
+      strokeStyle: dashed ? 'dot' : 'solid',
+      opacity,
+    });
+    if (onClick) line.events.add('click', onClick);
+    map.geoObjects.add(line);
+
+    return {
+      setPoints: (next) => line.geometry.setCoordinates(next.map(toCoords)),
+      remove: () => map.geoObjects.remove(line),
+    };
+  };
+
+  return {
+    setMapType: (mapType) => map.setType(mapType),
+    setCursor: (cursor) => map.options.set('cursor', cursor),
+    fitBounds: (points) => {
+      if (points.length === 0) return;
+      map.setBounds(ymaps.util.bounds.fromPoints(points.map(toCoords)), { checkZoomRange: true, zoomMargin: 40 });
+    },
+    addMarker,
+    addPolyline,
+    toPixel: (point) => {
+      const [x, y] = map.options.get('projection').toGlobalPixels(toCoords(point), map.getZoom());
+      return { x, y };
+    },
+    on: (event, handler) => {
+      const listener = (e: any) => {
+        if (event === 'rightclick') e.preventDefault();
+        handler(toPoint(e.get('coords')));
+      };
+      map.events.add(EVENT_NAMES[event], listener);
+      return () => map.events.remove(EVENT_NAMES[event], listener);
+    },
+    destroy: () => map.destroy(),
+  };
+};
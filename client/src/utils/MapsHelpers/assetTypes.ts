@@ -0,0 +1,80 @@
+import { ASSET_TYPES, AssetType } from "shared/networkSchema";
+
+export interface AssetAttributeField {
+  key: string;
+  label: string;
+  // Values offered in a select, a free text field otherwise
+  options?: string[];
+}
+
+export interface AssetTypeInfo {
+  type: AssetType;
+  label: string;
+  // Placemark class in MapStyles.css
+  className: string;
+  attributes: AssetAttributeField[];
+}
+
+const ASSET_TYPE_INFO: Record<AssetType, AssetTypeInfo> = {
+  pole: {
+    type: 'pole',
+    label: 'Pole / pillar',
+    className: 'asset-placemark asset-pole',
+    attributes: [
+      { key: 'material', label: 'Material', options: ['wood', 'concrete', 'steel', 'composite'] },
+      { key: 'height', label: 'Height, m' },
+      { key: 'owner', label: 'Owner' },
+    ],
+  },
+  manhole: {
+    type: 'manhole',
+    label: 'Manhole',
+    className: 'asset-placemark asset-manhole',
+    attributes: [
+      { key: 'depth', label: 'Depth, m' },
+      { key: 'cover', label: 'Cover' },
+      { key: 'owner', label: 'Owner' },
+    ],
+  },
+  handhole: {
+    type: 'handhole',
+    label: 'Handhole',
+    className: 'asset-placemark asset-handhole',
+    attributes: [
+      { key: 'size', label: 'Size' },
+      { key: 'owner', label: 'Owner' },
+    ],
+  },
+  cabinet: {
+    type: 'cabinet',
+    label: 'Cabinet',
+    className: 'asset-placemark asset-cabinet',
+    attributes: [
+      { key: 'model', label: 'Model' },
+      { key: 'capacity', label: 'Capacity, ports' },
+      { key: 'power', label: 'Power', options: ['none', 'mains', 'battery'] },
+    ],
+  },
+  closure: {
+    type: 'closure',
+    label: 'Splice closure',
+    className: 'asset-placemark asset-closure',
+    attributes: [
+      { key: 'model', label: 'Model' },
+      { key: 'mounting', label: 'Mounting', options: ['pole', 'wall', 'underground'] },
+    ],
+  },
+  premises: {
+    type: 'premises',
+    label: 'Customer premises',
+    className: 'asset-placemark asset-premises',
+    attributes: [
+      { key: 'address', label: 'Address' },
+      { key: 'customer', label: 'Customer' },
+    ],
+  },
+};
+
+export const ASSET_TYPE_LIST: AssetTypeInfo[] = ASSET_TYPES.map(type => ASSET_TYPE_INFO[type]);
+
+export const getAssetTypeInfo = (type: AssetType): AssetTypeInfo => ASSET_TYPE_INFO[type];
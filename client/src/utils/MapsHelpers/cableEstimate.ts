@@ -0,0 +1,61 @@
+import { AssetType, IAsset, ICableLengthEstimate, ICableLengthSettings, IGeoPoint } from "shared/networkSchema";
+import { calculateDistance, calculatePathLength } from "./distance";
+
+export const DEFAULT_LENGTH_SETTINGS: ICableLengthSettings = {
+  slackPerPole: 5,
+  sagPercent: 2,
+  poleRiser: 7,
+  manholeRiser: 2,
+  reservePercent: 5,
+};
+
+// A line point this close to an asset, in metres, is taken to be at the asset
+const ASSET_MATCH_DISTANCE = 10;
+
+const MANHOLE_TYPES: AssetType[] = ['manhole', 'handhole'];
+
+const findAssetAt = (point: IGeoPoint, assets: IAsset[]) => assets
+  .map(asset => ({ asset, distance: calculateDistance(point, asset) }))
+  .filter(item => item.distance <= ASSET_MATCH_DISTANCE)
+  .sort((a, b) => a.distance - b.distance)[0]?.asset;
+
+/**
+ * Works out the length of cable to order for a line drawn through poles and manholes.
+ * A span between two poles is aerial and gets the sag. Every other span runs in the ground,
+ * so each pole it starts or ends at needs a riser.
+ */
+export const estimateCableLength = (points: IGeoPoint[], assets: IAsset[], settings: ICableLengthSettings): ICableLengthEstimate => {
+  const types = points.map(point => findAssetAt(point, assets)?.type);
+  const isPole = types.map(type => type === 'pole');
+
+  let aerialLength = 0;
+  let poleRisers = 0;
+  points.slice(1).forEach((point, i) => {
+    if (isPole[i] && isPole[i + 1]) {
+      aerialLength += calculateDistance(points[i], point);
+    } else {
+      poleRisers += Number(isPole[i]) + Number(isPole[i + 1]);
+    }
+  });
+
+  const poles = isPole.filter(Boolean).length;
+  const manholes = types.filter(type => type && MANHOLE_TYPES.includes(type)).length;
+  const cableLength = calculatePathLength(points)
+    + aerialLength * settings.sagPercent / 100
+    + poles * settings.slackPerPole
+    + poleRisers * settings.poleRiser
+    + manholes * settings.manholeRiser;
+
+  return {
+    ...settings,
+    poles,
+    poleRisers,
+    manholes,
+    aerialLength: Math.round(aerialLength),
+    orderLength: Math.ceil(cableLength * (1 + settings.reservePercent / 100)),
+  };
+};
+
+// Only the settings of a saved estimate, to start a new one from
+export const toLengthSettings = ({ slackPerPole, sagPercent, poleRiser, manholeRiser, reservePercent }: ICableLengthSettings): ICableLengthSettings =>
+  ({ slackPerPole, sagPercent, poleRiser, manholeRiser, reservePercent });
@@ -2,8 +2,10 @@
 
 import { MapPoint } from "../types";
 
+type LatLng = Pick<MapPoint, "lat" | "lng">;
+
 // Haversine formula to calculate distance between two lat/lng points in meters
-export const calculateDistance = (point1: MapPoint, point2: MapPoint): number => {
+export const calculateDistance = (point1: LatLng, point2: LatLng): number => {
   const R = 6371e3; // Earth's radius in metres
   const phi1 = (point1.lat * Math.PI) / 180;
   const phi2 = (point2.lat * Math.PI) / 180;
@@ -17,4 +19,11 @@ export const calculateDistance = (point1: MapPoint, point2: MapPoint): number =>
   const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
 
   return R * c; // in metres
-};
\ No newline at end of file
+};
+
+// Length of a polyline in meters, the sum of its segments
+export const calculatePathLength = (points: LatLng[]): number =>
+  points.slice(1).reduce((sum, point, i) => sum + calculateDistance(points[i], point), 0);
+
+export const formatDistance = (meters: number): string =>
+  meters < 1000 ? `${meters.toFixed(0)} m` : `${(meters / 1000).toFixed(2)} km`;
@@ -0,0 +1,39 @@
+import { IGeoPoint } from "shared/networkSchema";
+import { IAsset, ICableRoute } from "../types";
+import { getAssetTypeInfo } from "./assetTypes";
+import { PixelPoint } from "./adapters/types";
+
+export const DEFAULT_SNAP_TOLERANCE = 12;
+
+/**
+ * Something a drawn point can be pulled onto, with what to call it in the indicator.
+ */
+export interface SnapTarget {
+  point: IGeoPoint;
+  label: string;
+}
+
+export const getSnapTargets = (assets: IAsset[], routes: ICableRoute[]): SnapTarget[] => [
+  ...assets.map(asset => ({ point: { lat: asset.lat, lng: asset.lng }, label: `${getAssetTypeInfo(asset.type).label} ${asset.name}` })),
+  ...routes.flatMap(route => route.points.map((point, i) => ({ point: { lat: point.lat, lng: point.lng }, label: `${route.name}, point ${i + 1}` }))),
+];
+
+/**
+ * The target closest to the point on screen, if one is within the tolerance in pixels.
+ * Assets come first in the list, so they win over a route vertex at the same spot.
+ */
+export const findSnapTarget = (point: IGeoPoint, targets: SnapTarget[], tolerance: number, toPixel: (point: IGeoPoint) => PixelPoint): SnapTarget | undefined => {
+  if (tolerance <= 0) return undefined;
+  const origin = toPixel(point);
+  let closest: SnapTarget | undefined;
+  let closestDistance = Infinity;
+  targets.forEach(target => {
+    const pixel = toPixel(target.point);
+    const distance = Math.sqrt((pixel.x - origin.x) ** 2 + (pixel.y - origin.y) ** 2);
+    if (distance <= tolerance && distance < closestDistance) {
+      closest = target;
+      closestDistance = distance;
+    }
+  });
+  return closest;
+};
@@ -0,0 +1,79 @@
+// src/utils/canvasView/ViewTransform.ts
+
+export type Point = { x: number; y: number };
+
+export type Bounds = { x: number; y: number; width: number; height: number };
+
+/**
+ * Maps world (layout) coordinates to canvas pixels: screen = world * scale + offset.
+ */
+export type ViewTransform = { scale: number; offsetX: number; offsetY: number };
+
+export const MIN_SCALE = 0.1;
+export const MAX_SCALE = 5;
+
+export const IDENTITY_VIEW: ViewTransform = { scale: 1, offsetX: 0, offsetY: 0 };
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+export const screenToWorld = (view: ViewTransform, point: Point): Point => ({
+    x: (point.x - view.offsetX) / view.scale,
+    y: (point.y - view.offsetY) / view.scale,
+});
+
+export const worldToScreen = (view: ViewTransform, point: Point): Point => ({
+    x: point.x * view.scale + view.offsetX,
+    y: point.y * view.scale + view.offsetY,
+});
+
+/**
+ * Scales the view by `factor` keeping the world point under `anchor` (canvas pixels) in place.
+ */
+export const zoomAt = (view: ViewTransform, anchor: Point, factor: number): ViewTransform => {
+    const scale = clampScale(view.scale * factor);
+    const ratio = scale / view.scale;
+    return {
+        scale,
+        offsetX: anchor.x - (anchor.x - view.offsetX) * ratio,
+        offsetY: anchor.y - (anchor.y - view.offsetY) * ratio,
+    };
+};
+
+/**
+ * Moves the view so the world point `center` ends up in the middle of the viewport.
+ */
+export const centerOn = (view: ViewTransform, center: Point, viewport: { width: number; height: number }): ViewTransform => ({
+    scale: view.scale,
+    offsetX: viewport.width / 2 - center.x * view.scale,
+    offsetY: viewport.height / 2 - center.y * view.scale,
+});
+
+/**
+ * Largest view that shows the whole of `bounds` with `padding` pixels around it.
+ */
+export const fitToBounds = (bounds: Bounds, viewport: { width: number; height: number }, padding = 20): ViewTransform => {
+    if (bounds.width <= 0 || bounds.height <= 0) return IDENTITY_VIEW;
+    const scale = clampScale(Math.min(
+        (viewport.width - 2 * padding) / bounds.width,
+        (viewport.height - 2 * padding) / bounds.height,
+    ));
+    return centerOn({ ...IDENTITY_VIEW, scale }, { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 }, viewport);
+};
+
+/**
+ * Smallest box around all the given boxes, null when there are none.
+ */
+export const unionBounds = (items: Bounds[]): Bounds | null => {
+    if (items.length === 0) return null;
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    items.forEach(({ x, y, width, height }) => {
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x + width);
+        maxY = Math.max(maxY, y + height);
+    });
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+export const boundsOfPoints = (points: Point[]): Bounds | null =>
+    unionBounds(points.map(({ x, y }) => ({ x, y, width: 0, height: 0 })));
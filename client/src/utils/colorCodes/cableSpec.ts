@@ -0,0 +1,117 @@
+// src/utils/colorCodes/cableSpec.ts
+import { v4 } from 'uuid';
+import { ICable, ICableType, IFiber, ITube } from 'shared/networkSchema';
+import { ColorCode, getColorCode, getColorCodes, getPositionColor } from './standards';
+
+/**
+ * A cable as it is ordered: "48F, 4 tubes × 12, TIA-598".
+ */
+export type CableSpec = {
+    fiberCount: number;
+    // 0 for a cable without buffer tubes
+    tubeCount: number;
+    // Tubes are filled in order up to this many fibers, without it the fibers are spread evenly
+    fibersPerTube?: number;
+    colorCode: string;
+    // Tubes follow the fiber code unless the cable says otherwise
+    tubeColorCode?: string;
+};
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const findColorCode = (text: string): ColorCode | undefined => {
+    const value = normalize(text);
+    if (!value) return undefined;
+    // "TIA-598" finds TIA-598-C, "DIN" finds DIN VDE 0888
+    return getColorCodes().find(code => normalize(code.name) === value || normalize(code.id) === value)
+        ?? getColorCodes().find(code => normalize(code.name).startsWith(value));
+};
+
+/**
+ * Reads a spec like "48F, 4 tubes × 12, TIA-598" or "8F IEC". The fiber count may be left out
+ * when the tubes say it ("4x12"). Returns null when the text doesn't describe a cable.
+ */
+export const parseCableSpec = (text: string): CableSpec | null => {
+    const fibers = text.match(/(\d+)\s*f\b/i);
+    const tubes = text.match(/(\d+)\s*(?:tubes?)?\s*[x×*]\s*(\d+)/i);
+    const parts = text.split(',').map(part => part.trim()).filter(Boolean);
+    const code = parts.map(findColorCode).find(Boolean) ?? findColorCode(text.replace(/.*\d\s*f\b/i, ''));
+
+    const tubeCount = tubes ? Number(tubes[1]) : 0;
+    const fiberCount = fibers ? Number(fibers[1]) : tubes ? tubeCount * Number(tubes[2]) : 0;
+    if (!fiberCount) return null;
+
+    return { fiberCount, tubeCount, ...(tubes ? { fibersPerTube: Number(tubes[2]) } : {}), colorCode: (code ?? getColorCode()).id };
+};
+
+export const cableTypeToSpec = (cableType: ICableType): CableSpec => ({
+    fiberCount: cableType.fiberCount,
+    tubeCount: cableType.tubeCount,
+    ...(cableType.tubeCount > 0 ? { fibersPerTube: cableType.fibersPerTube } : {}),
+    colorCode: cableType.colorStandard,
+});
+
+/**
+ * Problems that stop a spec from being built, empty when it is fine.
+ */
+export const validateCableSpec = (spec: CableSpec): string[] => {
+    const errors: string[] = [];
+    if (!Number.isInteger(spec.fiberCount) || spec.fiberCount < 1) errors.push('Fiber count must be a positive whole number');
+    if (!Number.isInteger(spec.tubeCount) || spec.tubeCount < 0) errors.push('Tube count must be zero or a positive whole number');
+    if (spec.tubeCount > spec.fiberCount) errors.push('A cable can\'t have more tubes than fibers');
+    if (spec.fibersPerTube !== undefined && spec.tubeCount * spec.fibersPerTube < spec.fiberCount) errors.push('The fibers don\'t fit in the tubes');
+    return errors;
+};
+
+/**
+ * Builds the tube and fiber records of a cable. Fibers fill the tubes in order, or are spread
+ * evenly when the spec has no tube size, the first tubes getting one fiber more. Fiber ids are derived from
+ * the cable id, so they stay unique as long as the cable id is.
+ */
+export const generateCable = (spec: CableSpec, type: ICable['type'], id: string = v4()): ICable => {
+    const errors = validateCableSpec(spec);
+    if (errors.length) throw new Error(errors.join(', '));
+
+    const fiberCode = getColorCode(spec.colorCode);
+    const tubeCode = getColorCode(spec.tubeColorCode ?? spec.colorCode);
+
+    const tubes: ITube[] = Array.from({ length: spec.tubeCount }, (_, i) => ({
+        id: `${id}-tube-${i + 1}`,
+        parentId: id,
+        color: getPositionColor(tubeCode, i).color.color,
+    }));
+
+    const fibers: IFiber[] = [];
+    const addFibers = (count: number, tube?: ITube) => {
+        for (let i = 0; i < count; i++) {
+            const { color, isMarked } = getPositionColor(fiberCode, i);
+            fibers.push({
+                id: `${id}-fiber-${fibers.length + 1}`,
+                parentId: id,
+                color: color.color,
+                ...(isMarked ? { isMarked } : {}),
+                ...(tube ? { tubeId: tube.id } : {}),
+            });
+        }
+    };
+
+    if (tubes.length === 0) addFibers(spec.fiberCount);
+    tubes.forEach((tube, i) => {
+        const perTube = spec.fibersPerTube !== undefined
+            ? Math.max(0, Math.min(spec.fibersPerTube, spec.fiberCount - fibers.length))
+            : Math.floor(spec.fiberCount / tubes.length) + (i < spec.fiberCount % tubes.length ? 1 : 0);
+        addFibers(perTube, tube);
+    });
+
+    return { id, type, fibers, ...(tubes.length ? { tubes } : {}) };
+};
+
+/**
+ * Short description of a spec, the inverse of parseCableSpec.
+ */
+export const formatCableSpec = (spec: CableSpec): string => {
+    const parts = [`${spec.fiberCount}F`];
+    if (spec.tubeCount > 0) parts.push(`${spec.tubeCount} tubes × ${spec.fibersPerTube ?? Math.ceil(spec.fiberCount / spec.tubeCount)}`);
+    parts.push(getColorCode(spec.colorCode).name);
+    return parts.join(', ');
+};
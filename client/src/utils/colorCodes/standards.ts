@@ -0,0 +1,151 @@
+// src/utils/colorCodes/standards.ts
+
+export type NamedColor = {
+    name: string;
+    // CSS colour the views draw with
+    color: string;
+};
+
+// How fibers past the first colour run are told apart from the first run
+export type MarkingStyle = 'ring' | 'dash' | 'none';
+
+export type ColorCode = {
+    id: string;
+    name: string;
+    // Colour of position 1, 2, 3... of a tube or of a cable without tubes
+    colors: NamedColor[];
+    marking: MarkingStyle;
+    // Colour of the ring or dash, the fallback is used on fibers of that same colour
+    markColor: NamedColor;
+    markFallback: NamedColor;
+    custom?: boolean;
+};
+
+const BLUE = { name: 'blue', color: 'rgb(0, 0, 255)' };
+const ORANGE = { name: 'orange', color: 'rgb(255, 165, 0)' };
+const GREEN = { name: 'green', color: 'rgb(0, 128, 0)' };
+const BROWN = { name: 'brown', color: 'rgb(165, 42, 42)' };
+// Every colour gets its own value, names are read back from it
+const SLATE = { name: 'slate', color: 'rgb(112, 128, 144)' };
+const GREY = { name: 'grey', color: 'rgb(128, 128, 128)' };
+const WHITE = { name: 'white', color: 'rgb(255, 255, 255)' };
+const RED = { name: 'red', color: 'rgb(255, 0, 0)' };
+const BLACK = { name: 'black', color: 'rgb(0, 0, 0)' };
+const YELLOW = { name: 'yellow', color: 'rgb(255, 255, 0)' };
+const VIOLET = { name: 'violet', color: 'rgb(128, 0, 128)' };
+const ROSE = { name: 'rose', color: 'rgb(255, 0, 127)' };
+const PINK = { name: 'pink', color: 'rgb(255, 192, 203)' };
+const AQUA = { name: 'aqua', color: 'rgb(0, 255, 255)' };
+const TURQUOISE = { name: 'turquoise', color: 'rgb(64, 224, 208)' };
+
+export const DEFAULT_COLOR_CODE_ID = 'tia-598-c';
+
+export const STANDARD_COLOR_CODES: ColorCode[] = [
+    {
+        id: 'tia-598-c',
+        name: 'TIA-598-C',
+        colors: [BLUE, ORANGE, GREEN, BROWN, SLATE, WHITE, RED, BLACK, YELLOW, VIOLET, ROSE, AQUA],
+        marking: 'dash',
+        markColor: BLACK,
+        markFallback: YELLOW,
+    },
+    {
+        id: 'iec-60304',
+        name: 'IEC 60304',
+        colors: [BLUE, ORANGE, GREEN, BROWN, GREY, WHITE, RED, BLACK, YELLOW, VIOLET, PINK, TURQUOISE],
+        marking: 'ring',
+        markColor: BLACK,
+        markFallback: WHITE,
+    },
+    {
+        id: 'din-vde-0888',
+        name: 'DIN VDE 0888',
+        colors: [RED, GREEN, BLUE, YELLOW, WHITE, GREY, BROWN, VIOLET, TURQUOISE, BLACK, ORANGE, PINK],
+        marking: 'ring',
+        markColor: BLACK,
+        markFallback: WHITE,
+    },
+];
+
+// Company codes of the active project, kept in step with the store by the cable type listener
+let customColorCodes: ColorCode[] = [];
+
+export const setCustomColorCodes = (codes: Omit<ColorCode, 'custom'>[]) => {
+    customColorCodes = codes.map(({ id, name, colors, marking, markColor, markFallback }) => ({ id, name, colors, marking, markColor, markFallback, custom: true }));
+};
+
+export const getColorCodes = (): ColorCode[] => [...STANDARD_COLOR_CODES, ...customColorCodes];
+
+/**
+ * Looks a code up by id, unknown ids fall back to TIA-598-C so older data still gets colours.
+ */
+export const getColorCode = (id?: string): ColorCode => getColorCodes().find(item => item.id === id)
+    ?? STANDARD_COLOR_CODES.find(item => item.id === DEFAULT_COLOR_CODE_ID)!;
+
+/**
+ * Colour of the 0-based position in a tube or cable. Positions past the colour run start over
+ * and are marked: 13-24 of a 12-colour code repeat 1-12 with a ring or dash.
+ */
+export const getPositionColor = (code: ColorCode, index: number): { color: NamedColor; isMarked: boolean } => ({
+    color: code.colors[index % code.colors.length],
+    isMarked: code.marking !== 'none' && index >= code.colors.length,
+});
+
+// Every colour the codes know, first name wins for colours shared under different names
+const getNamedColors = (): { name: string; rgb: [number, number, number] }[] => {
+    const named: { name: string; rgb: [number, number, number] }[] = [];
+    getColorCodes().forEach(code => code.colors.forEach(item => {
+        const rgb = parseColor(item.color);
+        if (rgb && !named.some(entry => entry.rgb.every((channel, i) => channel === rgb[i]))) named.push({ name: item.name, rgb });
+    }));
+    return named;
+};
+
+const parseColor = (color: string): [number, number, number] | null => {
+    const value = color.trim().toLowerCase();
+
+    const rgb = value.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/);
+    if (rgb) return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+
+    const hex = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+    if (hex) {
+        const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+        return [parseInt(digits.slice(0, 2), 16), parseInt(digits.slice(2, 4), 16), parseInt(digits.slice(4, 6), 16)];
+    }
+
+    for (const code of getColorCodes()) {
+        const named = code.colors.find(item => item.name === value);
+        if (named) return parseColor(named.color);
+    }
+    return null;
+};
+
+/**
+ * Human readable name of a CSS colour: the nearest fiber colour, or the value itself when it can't be parsed.
+ */
+export const getColorName = (color: string): string => {
+    const rgb = parseColor(color);
+    if (!rgb) return color;
+
+    const named = getNamedColors();
+    let best = named[0];
+    let bestDistance = Infinity;
+    named.forEach(item => {
+        const distance = item.rgb.reduce((sum, channel, i) => sum + (channel - rgb[i]) ** 2, 0);
+        if (distance < bestDistance) {
+            best = item;
+            bestDistance = distance;
+        }
+    });
+    return best.name;
+};
+
+/**
+ * Label of a fiber as read off the buffer, e.g. "blue" or "blue, black dash".
+ */
+export const getFiberColorLabel = (color: string, isMarked?: boolean, code: ColorCode = getColorCode()): string => {
+    const name = getColorName(color);
+    if (!isMarked || code.marking === 'none') return name;
+    const mark = getColorName(code.markColor.color) === name ? code.markFallback : code.markColor;
+    return `${name}, ${mark.name} ${code.marking}`;
+};
@@ -0,0 +1,86 @@
+// src/utils/diagramExport/pdf.ts
+import { jsPDF } from 'jspdf';
+import { svg2pdf } from 'svg2pdf.js';
+import { getDiagramBounds, renderSpliceDiagramSvg } from './svg';
+import { PaperSize, SpliceDiagram, TitleBlock } from './types';
+
+// Landscape sheet sizes in millimetres
+const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+    a4: { width: 297, height: 210 },
+    a3: { width: 420, height: 297 },
+};
+
+const MARGIN = 10;
+const TITLE_BLOCK_WIDTH = 110;
+const TITLE_BLOCK_HEIGHT = 20;
+// Millimetres per canvas pixel. Below the minimum fiber labels become unreadable, so the diagram
+// is split over several sheets instead of being shrunk further.
+const MIN_SCALE = 0.25;
+const MAX_SCALE = 1;
+
+const drawTitleBlock = (doc: jsPDF, paper: { width: number; height: number }, title: TitleBlock, sheet: number, sheets: number) => {
+    const x = paper.width - MARGIN - TITLE_BLOCK_WIDTH;
+    const y = paper.height - MARGIN - TITLE_BLOCK_HEIGHT;
+    const rowHeight = TITLE_BLOCK_HEIGHT / 2;
+    const half = TITLE_BLOCK_WIDTH / 2;
+
+    doc.setDrawColor(0);
+    doc.setLineWidth(0.3);
+    doc.rect(x, y, TITLE_BLOCK_WIDTH, TITLE_BLOCK_HEIGHT);
+    doc.line(x, y + rowHeight, x + TITLE_BLOCK_WIDTH, y + rowHeight);
+    doc.line(x + half, y + rowHeight, x + half, y + TITLE_BLOCK_HEIGHT);
+
+    doc.setFontSize(11);
+    doc.text(title.closureName, x + 2, y + rowHeight - 3, { maxWidth: TITLE_BLOCK_WIDTH - 24 });
+    doc.setFontSize(8);
+    doc.text(`Sheet ${sheet} / ${sheets}`, x + TITLE_BLOCK_WIDTH - 2, y + rowHeight - 3, { align: 'right' });
+    doc.text(`Author: ${title.author}`, x + 2, y + TITLE_BLOCK_HEIGHT - 3, { maxWidth: half - 4 });
+    doc.text(`Date: ${title.date.toLocaleDateString()}`, x + half + 2, y + TITLE_BLOCK_HEIGHT - 3);
+};
+
+/**
+ * Lays the diagram out on landscape sheets of the given size, tiling it over as many sheets as needed
+ * to keep it readable, and stamps every sheet with the title block.
+ */
+export const renderSpliceDiagramPdf = async (diagram: SpliceDiagram, paperSize: PaperSize, title: TitleBlock): Promise<Blob> => {
+    const paper = PAPER_SIZES[paperSize];
+    const drawWidth = paper.width - 2 * MARGIN;
+    const drawHeight = paper.height - 2 * MARGIN - TITLE_BLOCK_HEIGHT;
+
+    const bounds = getDiagramBounds(diagram);
+    const fitScale = Math.min(drawWidth / bounds.width, drawHeight / bounds.height);
+    const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, fitScale));
+    const tileWidth = drawWidth / scale;
+    const tileHeight = drawHeight / scale;
+    const columns = Math.max(1, Math.ceil(bounds.width / tileWidth));
+    const rows = Math.max(1, Math.ceil(bounds.height / tileHeight));
+
+    const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: paperSize });
+    // svg2pdf measures text through the DOM, the sheets are rendered off screen
+    const host = document.createElement('div');
+    host.style.position = 'absolute';
+    host.style.left = '-10000px';
+    document.body.appendChild(host);
+
+    try {
+        for (let row = 0; row < rows; row++) {
+            for (let column = 0; column < columns; column++) {
+                const sheet = row * columns + column + 1;
+                if (sheet > 1) doc.addPage(paperSize, 'landscape');
+
+                host.innerHTML = renderSpliceDiagramSvg(diagram, {
+                    x: bounds.x + column * tileWidth,
+                    y: bounds.y + row * tileHeight,
+                    width: tileWidth,
+                    height: tileHeight,
+                });
+                await svg2pdf(host.firstElementChild as Element, doc, { x: MARGIN, y: MARGIN, width: drawWidth, height: drawHeight });
+                drawTitleBlock(doc, paper, title, sheet, rows * columns);
+            }
+        }
+    } finally {
+        document.body.removeChild(host);
+    }
+
+    return doc.output('blob');
+};
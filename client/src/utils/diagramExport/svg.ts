@@ -0,0 +1,134 @@
+// src/utils/diagramExport/svg.ts
+import { DiagramConnection, DiagramPoint, DiagramPort, DiagramRect, SpliceDiagram } from './types';
+import { boundsOfPoints, unionBounds } from '../canvasView/ViewTransform';
+
+// Same look as the canvas
+const CONNECTION_LINE_WIDTH = 3;
+const MARK_SPACING = 10;
+const FIBER_MARK_COUNT = 3;
+const EXPORT_PADDING = 20;
+
+const escapeXml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const rect = ({ x, y, width, height }: DiagramRect, fill: string, extra = '') =>
+    `<rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}" fill="${escapeXml(fill)}"${extra}/>`;
+
+const polyline = (points: DiagramPoint[], stroke: string, width = CONNECTION_LINE_WIDTH) =>
+    `<polyline points="${points.map(p => `${round(p.x)},${round(p.y)}`).join(' ')}" fill="none" stroke="${escapeXml(stroke)}" stroke-width="${width}" stroke-linejoin="round"/>`;
+
+const line = (a: DiagramPoint, b: DiagramPoint, stroke: string, width: number) =>
+    `<line x1="${round(a.x)}" y1="${round(a.y)}" x2="${round(b.x)}" y2="${round(b.y)}" stroke="${escapeXml(stroke)}" stroke-width="${width}"/>`;
+
+// Marked fibers carry black rings across the fiber, like the striped buffer they stand for
+const fiberMarks = (port: DiagramPort, orientation: 'vertical' | 'horizontal') => {
+    const { x, y, width, height } = port.rect;
+    const marks: string[] = [];
+    for (let i = 1; i <= FIBER_MARK_COUNT; i++) {
+        if (orientation === 'vertical') {
+            const markY = y + height * i / (FIBER_MARK_COUNT + 1);
+            marks.push(line({ x, y: markY }, { x: x + width, y: markY }, 'black', 1));
+        } else {
+            const markX = x + width * i / (FIBER_MARK_COUNT + 1);
+            marks.push(line({ x: markX, y }, { x: markX, y: y + height }, 'black', 1));
+        }
+    }
+    return marks.join('');
+};
+
+// Short ticks across a Manhattan path, every MARK_SPACING along each segment
+const pathMarks = (path: DiagramPoint[]) => {
+    const marks: string[] = [];
+    for (let i = 0; i < path.length - 1; i++) {
+        const p1 = path[i];
+        const p2 = path[i + 1];
+        const segX = p2.x - p1.x;
+        const segY = p2.y - p1.y;
+        const length = Math.sqrt(segX * segX + segY * segY);
+        if (length < MARK_SPACING) continue;
+        for (let j = 1; j <= Math.floor(length / MARK_SPACING); j++) {
+            const t = (j * MARK_SPACING) / length;
+            const x = p1.x + t * segX;
+            const y = p1.y + t * segY;
+            const half = CONNECTION_LINE_WIDTH / 2;
+            marks.push(Math.abs(segX) > Math.abs(segY)
+                ? line({ x, y: y - half }, { x, y: y + half }, 'black', 3)
+                : line({ x: x - half, y }, { x: x + half, y }, 'black', 3));
+        }
+    }
+    return marks.join('');
+};
+
+// The first half of a path takes the colour of fiber 1, the second half the colour of fiber 2
+const connectionSvg = (conn: DiagramConnection, ports: Map<string, DiagramPort>) => {
+    const fiber1 = ports.get(conn.fiber1Id);
+    const fiber2 = ports.get(conn.fiber2Id);
+    if (!fiber1 || !fiber2 || conn.path.length === 0) return '';
+
+    const midIndex = conn.path.length === 1 ? 0 : Math.floor(conn.path.length / 2);
+    const firstHalf = conn.path.slice(0, midIndex + 1);
+    const secondHalf = conn.path.slice(midIndex);
+    const parts = [
+        polyline([fiber1.exitPoint, ...firstHalf], conn.color1),
+        polyline([...secondHalf, fiber2.exitPoint], conn.color2),
+    ];
+    if (conn.isMarked1) parts.push(pathMarks(firstHalf));
+    if (conn.isMarked2) parts.push(pathMarks(secondHalf));
+    return `<g class="connection">${parts.join('')}</g>`;
+};
+
+/**
+ * Bounding box of everything drawn, with some room around it.
+ */
+export const getDiagramBounds = (diagram: SpliceDiagram): DiagramRect => {
+    const box = unionBounds([
+        ...diagram.cables.map(cable => cable.rect),
+        ...diagram.cables.flatMap(cable => cable.fibers.map(fiber => fiber.rect)),
+        ...diagram.splitters.flatMap(s => [...s.inputs, ...s.outputs].map(port => port.rect)),
+        ...diagram.splitters.map(s => {
+            const radius = Math.sqrt(s.width * s.width + s.height * s.height) / 2;
+            return { x: s.x - radius, y: s.y - radius, width: 2 * radius, height: 2 * radius };
+        }),
+        ...diagram.connections.map(conn => boundsOfPoints(conn.path)).filter((b): b is DiagramRect => b !== null),
+    ]) ?? { x: 0, y: 0, width: 0, height: 0 };
+    return { x: box.x - EXPORT_PADDING, y: box.y - EXPORT_PADDING, width: box.width + 2 * EXPORT_PADDING, height: box.height + 2 * EXPORT_PADDING };
+};
+
+/**
+ * Renders the diagram as a standalone SVG document. `viewBox` picks the part of the diagram to show,
+ * the whole diagram by default. Editing aids (handles, selection, control points) are left out.
+ */
+export const renderSpliceDiagramSvg = (diagram: SpliceDiagram, viewBox: DiagramRect = getDiagramBounds(diagram)): string => {
+    const ports = new Map<string, DiagramPort>();
+    diagram.cables.forEach(cable => cable.fibers.forEach(fiber => ports.set(fiber.id, fiber)));
+    diagram.splitters.forEach(s => [...s.inputs, ...s.outputs].forEach(port => ports.set(port.id, port)));
+
+    const cables = diagram.cables.map(cable => `<g class="cable">${[
+        rect(cable.rect, 'black'),
+        ...(cable.tubes ?? []).map(tube => rect(tube.rect, tube.color)),
+        ...cable.fibers.map(fiber => rect(fiber.rect, fiber.originalColor) + (fiber.isMarked ? fiberMarks(fiber, cable.orientation) : '')),
+    ].join('')}</g>`);
+
+    const splitters = diagram.splitters.map(({ x, y, width, height, rotation, name, inputs, outputs }) => {
+        const body = `<g transform="translate(${round(x)} ${round(y)}) rotate(${round(rotation * 180 / Math.PI)})">`
+            + rect({ x: -width / 2, y: -height / 2, width, height }, '#333', ' stroke="gold"')
+            + `<text x="0" y="0" fill="white" font-family="Arial, sans-serif" font-size="12" text-anchor="middle" dominant-baseline="middle">${escapeXml(name)}</text>`
+            + '</g>';
+        // Port rects already carry the rotated positions
+        const portRects = [...inputs, ...outputs].map(port => rect(port.rect, port.originalColor)).join('');
+        return `<g class="splitter">${body}${portRects}</g>`;
+    });
+
+    const connections = diagram.connections.map(conn => connectionSvg(conn, ports));
+
+    const { x, y, width, height } = viewBox;
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}" height="${round(height)}" viewBox="${round(x)} ${round(y)} ${round(width)} ${round(height)}">`
+        + `<rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}" fill="white"/>`
+        + cables.join('') + splitters.join('') + connections.join('')
+        + '</svg>';
+};
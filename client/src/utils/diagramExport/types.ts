@@ -0,0 +1,60 @@
+// src/utils/diagramExport/types.ts
+
+export type DiagramPoint = { x: number; y: number };
+
+export type DiagramRect = { x: number; y: number; width: number; height: number };
+
+export type DiagramPort = {
+    id: string;
+    originalColor: string;
+    isMarked?: boolean;
+    rect: DiagramRect;
+    exitPoint: DiagramPoint;
+};
+
+export type DiagramCable = {
+    id: string;
+    orientation: 'vertical' | 'horizontal';
+    rect: DiagramRect;
+    tubes?: { color: string; rect: DiagramRect }[];
+    fibers: DiagramPort[];
+};
+
+export type DiagramSplitter = {
+    name: string;
+    // Center of the body
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    rotation: number;
+    inputs: DiagramPort[];
+    outputs: DiagramPort[];
+};
+
+export type DiagramConnection = {
+    fiber1Id: string;
+    fiber2Id: string;
+    path: DiagramPoint[];
+    color1: string;
+    color2: string;
+    isMarked1?: boolean;
+    isMarked2?: boolean;
+};
+
+/**
+ * The laid out 2D splice diagram, in canvas coordinates. The canvas state types satisfy it as they are.
+ */
+export type SpliceDiagram = {
+    cables: DiagramCable[];
+    splitters: DiagramSplitter[];
+    connections: DiagramConnection[];
+};
+
+export type TitleBlock = {
+    closureName: string;
+    author: string;
+    date: Date;
+};
+
+export type PaperSize = 'a4' | 'a3';
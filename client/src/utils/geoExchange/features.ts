@@ -0,0 +1,133 @@
+import { ASSET_TYPES, AssetType, IAsset, ICableRoute, IGeoPoint } from "shared/networkSchema";
+import { calculatePathLength } from "../MapsHelpers/distance";
+import { ASSET_TYPE_LIST, getAssetTypeInfo } from "../MapsHelpers/assetTypes";
+
+/**
+ * A point or a line read from, or written to, a GIS file. Every format is turned into these first.
+ */
+export interface GeoFeature {
+  geometry: 'point' | 'line';
+  points: IGeoPoint[];
+  properties: Record<string, string>;
+}
+
+export interface ParsedFeatures {
+  features: GeoFeature[];
+  // Polygons and features without usable coordinates
+  skipped: number;
+}
+
+/**
+ * How the properties of imported points become asset fields. Whatever is left over is kept as attributes.
+ */
+export interface ImportMapping {
+  nameProperty: string;
+  typeProperty: string;
+  // Asset type per value found in typeProperty
+  typeValues: Record<string, AssetType>;
+  defaultType: AssetType;
+}
+
+export interface ImportPlan {
+  assets: IAsset[];
+  routes: ICableRoute[];
+}
+
+const NAME_PROPERTIES = ['name', 'Name', 'NAME', 'title', 'label'];
+const TYPE_PROPERTIES = ['type', 'Type', 'TYPE', 'asset_type', 'kind', 'category'];
+
+// Words subcontractors use for each type, matched against the type values of a file
+const TYPE_WORDS: Record<AssetType, string[]> = {
+  pole: ['pole', 'pillar', 'post', 'column'],
+  manhole: ['manhole', 'chamber', 'vault'],
+  handhole: ['handhole', 'hand hole', 'pit'],
+  cabinet: ['cabinet', 'street cabinet', 'fdh', 'odf'],
+  closure: ['closure', 'splice', 'joint', 'mufta'],
+  premises: ['premises', 'customer', 'house', 'building', 'ont', 'subscriber'],
+};
+
+export const isAssetType = (value: string): value is AssetType => (ASSET_TYPES as readonly string[]).includes(value);
+
+export const guessAssetType = (value: string): AssetType | undefined => {
+  const text = value.trim().toLowerCase();
+  if (isAssetType(text)) return text;
+  return ASSET_TYPE_LIST.find(info => TYPE_WORDS[info.type].some(word => text.includes(word)))?.type;
+};
+
+export const getPropertyKeys = (features: GeoFeature[]): string[] =>
+  Array.from(new Set(features.flatMap(feature => Object.keys(feature.properties))));
+
+export const getPropertyValues = (features: GeoFeature[], key: string): string[] =>
+  Array.from(new Set(features.filter(feature => feature.geometry === 'point').map(feature => feature.properties[key] ?? '').filter(Boolean)));
+
+export const createDefaultMapping = (features: GeoFeature[]): ImportMapping => {
+  const keys = getPropertyKeys(features);
+  const typeProperty = TYPE_PROPERTIES.find(key => keys.includes(key)) ?? '';
+  const typeValues: Record<string, AssetType> = {};
+  if (typeProperty) {
+    getPropertyValues(features, typeProperty).forEach(value => {
+      const type = guessAssetType(value);
+      if (type) typeValues[value] = type;
+    });
+  }
+  return {
+    nameProperty: NAME_PROPERTIES.find(key => keys.includes(key)) ?? '',
+    typeProperty,
+    typeValues,
+    defaultType: 'pole',
+  };
+};
+
+/**
+ * Points become assets and lines become cable routes, nothing is linked to a closure record.
+ */
+export const buildImportPlan = (features: GeoFeature[], mapping: ImportMapping): ImportPlan => {
+  const plan: ImportPlan = { assets: [], routes: [] };
+  const counts: Partial<Record<AssetType, number>> = {};
+
+  features.forEach(feature => {
+    const { [mapping.nameProperty]: name, ...rest } = feature.properties;
+
+    if (feature.geometry === 'line') {
+      plan.routes.push({
+        name: name?.trim() || `Route ${plan.routes.length + 1}`,
+        points: feature.points,
+        length: Math.round(calculatePathLength(feature.points)),
+      });
+      return;
+    }
+
+    const { [mapping.typeProperty]: typeValue, ...attributes } = rest;
+    const type = (typeValue && mapping.typeValues[typeValue]) || mapping.defaultType;
+    counts[type] = (counts[type] ?? 0) + 1;
+    plan.assets.push({
+      type,
+      name: name?.trim() || `${getAssetTypeInfo(type).label} ${counts[type]}`,
+      lat: feature.points[0].lat,
+      lng: feature.points[0].lng,
+      attributes,
+    });
+  });
+
+  return plan;
+};
+
+/**
+ * The project as features, with the properties an import reads back.
+ */
+export const toExportFeatures = (assets: IAsset[], routes: ICableRoute[]): GeoFeature[] => [
+  ...assets.map((asset): GeoFeature => ({
+    geometry: 'point',
+    points: [{ lat: asset.lat, lng: asset.lng }],
+    properties: { name: asset.name, type: asset.type, ...asset.attributes },
+  })),
+  ...routes.map((route): GeoFeature => ({
+    geometry: 'line',
+    points: route.points.map(({ lat, lng }) => ({ lat, lng })),
+    properties: {
+      name: route.name,
+      length: route.length.toFixed(0),
+      ...(route.estimate ? { order_length: route.estimate.orderLength.toFixed(0) } : {}),
+    },
+  })),
+];
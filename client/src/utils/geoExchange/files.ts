@@ -0,0 +1,38 @@
+import { IAsset, ICableRoute } from "shared/networkSchema";
+import { ParsedFeatures, toExportFeatures } from "./features";
+import { parseGeoJson, toGeoJson } from "./geojson";
+import { parseKml, parseKmz, toKml, toKmz } from "./kml";
+
+export type GeoFileFormat = 'geojson' | 'kml' | 'kmz';
+
+export const GEO_FILE_ACCEPT = '.geojson,.json,.kml,.kmz';
+
+/**
+ * Picks the reader by the file extension.
+ */
+export const readGeoFile = async (file: File): Promise<ParsedFeatures> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'kmz':
+      return parseKmz(await file.arrayBuffer());
+    case 'kml':
+      return parseKml(await file.text());
+    case 'geojson':
+    case 'json':
+      return parseGeoJson(await file.text());
+    default:
+      throw new Error(`Files of type .${extension} can not be imported`);
+  }
+};
+
+export const writeGeoFile = async (format: GeoFileFormat, assets: IAsset[], routes: ICableRoute[], name: string): Promise<Blob> => {
+  const features = toExportFeatures(assets, routes);
+  switch (format) {
+    case 'geojson':
+      return new Blob([toGeoJson(features)], { type: 'application/geo+json' });
+    case 'kml':
+      return new Blob([toKml(features, name)], { type: 'application/vnd.google-earth.kml+xml' });
+    case 'kmz':
+      return toKmz(toKml(features, name));
+  }
+};
@@ -0,0 +1,82 @@
+import { IGeoPoint } from "shared/networkSchema";
+import { GeoFeature, ParsedFeatures } from "./features";
+
+type Position = number[];
+
+interface Geometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: Geometry[];
+}
+
+const toPoint = ([lng, lat]: Position): IGeoPoint => ({ lat, lng });
+
+const isPosition = (value: unknown): value is Position =>
+  Array.isArray(value) && typeof value[0] === 'number' && typeof value[1] === 'number';
+
+// GeoJSON properties can hold anything, assets only keep text
+const toProperties = (properties: unknown): Record<string, string> =>
+  Object.fromEntries(Object.entries(properties && typeof properties === 'object' ? properties : {})
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => [key, typeof value === 'object' ? JSON.stringify(value) : String(value)]));
+
+const readGeometry = (geometry: Geometry | null, properties: Record<string, string>, result: ParsedFeatures) => {
+  if (!geometry) {
+    result.skipped++;
+    return;
+  }
+  const coordinates = geometry.coordinates as unknown[];
+  switch (geometry.type) {
+    case 'Point':
+      if (isPosition(coordinates)) result.features.push({ geometry: 'point', points: [toPoint(coordinates)], properties });
+      else result.skipped++;
+      break;
+    case 'MultiPoint':
+      coordinates.filter(isPosition).forEach(position => result.features.push({ geometry: 'point', points: [toPoint(position)], properties }));
+      break;
+    case 'LineString':
+      readLine(coordinates, properties, result);
+      break;
+    case 'MultiLineString':
+      coordinates.forEach(line => readLine(line as unknown[], properties, result));
+      break;
+    case 'GeometryCollection':
+      (geometry.geometries ?? []).forEach(item => readGeometry(item, properties, result));
+      break;
+    default:
+      result.skipped++;
+  }
+};
+
+const readLine = (coordinates: unknown[], properties: Record<string, string>, result: ParsedFeatures) => {
+  const points = coordinates.filter(isPosition).map(toPoint);
+  if (points.length > 1) result.features.push({ geometry: 'line', points, properties });
+  else result.skipped++;
+};
+
+/**
+ * Reads a FeatureCollection, a single Feature or a bare geometry. Coordinates are WGS84 as the format requires.
+ */
+export const parseGeoJson = (text: string): ParsedFeatures => {
+  const data = JSON.parse(text);
+  const result: ParsedFeatures = { features: [], skipped: 0 };
+
+  const features = data.type === 'FeatureCollection' ? data.features
+    : data.type === 'Feature' ? [data]
+    : [{ type: 'Feature', geometry: data, properties: {} }];
+  (features as { geometry: Geometry | null, properties: unknown }[])
+    .forEach(feature => readGeometry(feature.geometry, toProperties(feature.properties), result));
+
+  return result;
+};
+
+export const toGeoJson = (features: GeoFeature[]): string => JSON.stringify({
+  type: 'FeatureCollection',
+  features: features.map(feature => ({
+    type: 'Feature',
+    geometry: feature.geometry === 'point'
+      ? { type: 'Point', coordinates: [feature.points[0].lng, feature.points[0].lat] }
+      : { type: 'LineString', coordinates: feature.points.map(point => [point.lng, point.lat]) },
+    properties: feature.properties,
+  })),
+}, null, 2);
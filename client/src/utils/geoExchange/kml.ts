@@ -0,0 +1,100 @@
+import { IGeoPoint } from "shared/networkSchema";
+import { GeoFeature, ParsedFeatures } from "./features";
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// KML writes "lng,lat[,alt]" tuples separated by whitespace
+const parseCoordinates = (text: string): IGeoPoint[] => text.trim().split(/\s+/)
+  .map(tuple => tuple.split(',').map(Number))
+  .filter(([lng, lat]) => Number.isFinite(lng) && Number.isFinite(lat))
+  .map(([lng, lat]) => ({ lat, lng }));
+
+const formatCoordinates = (points: IGeoPoint[]) => points.map(point => `${point.lng},${point.lat},0`).join(' ');
+
+// Namespaces differ between producers, elements are matched by local name only
+const children = (parent: Element | Document, name: string) => Array.from(parent.getElementsByTagNameNS('*', name));
+
+const childText = (parent: Element, name: string) => children(parent, name)[0]?.textContent?.trim() ?? '';
+
+const readProperties = (placemark: Element): Record<string, string> => {
+  const properties: Record<string, string> = {};
+  const name = childText(placemark, 'name');
+  if (name) properties.name = name;
+  const description = childText(placemark, 'description');
+  if (description) properties.description = description;
+  children(placemark, 'Data').forEach(data => {
+    const key = data.getAttribute('name');
+    if (key) properties[key] = childText(data, 'value');
+  });
+  children(placemark, 'SimpleData').forEach(data => {
+    const key = data.getAttribute('name');
+    if (key) properties[key] = data.textContent?.trim() ?? '';
+  });
+  return properties;
+};
+
+/**
+ * Reads the points and lines of every Placemark, MultiGeometry included. Polygons are skipped.
+ */
+export const parseKml = (text: string): ParsedFeatures => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) throw new Error('The file is not valid KML');
+
+  const result: ParsedFeatures = { features: [], skipped: 0 };
+  children(document, 'Placemark').forEach(placemark => {
+    const properties = readProperties(placemark);
+    const points = children(placemark, 'Point').map(point => parseCoordinates(childText(point, 'coordinates')));
+    const lines = children(placemark, 'LineString').map(line => parseCoordinates(childText(line, 'coordinates')));
+    const found = points.filter(item => item.length > 0).length + lines.filter(item => item.length > 1).length;
+
+    points.filter(item => item.length > 0).forEach(item => result.features.push({ geometry: 'point', points: [item[0]], properties }));
+    lines.filter(item => item.length > 1).forEach(item => result.features.push({ geometry: 'line', points: item, properties }));
+    if (found === 0) result.skipped++;
+  });
+  return result;
+};
+
+export const toKml = (features: GeoFeature[], documentName: string): string => {
+  const placemarks = features.map(feature => {
+    const { name = '', ...properties } = feature.properties;
+    const data = Object.entries(properties)
+      .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(value)}</value></Data>`)
+      .join('');
+    const geometry = feature.geometry === 'point'
+      ? `<Point><coordinates>${formatCoordinates(feature.points)}</coordinates></Point>`
+      : `<LineString><tessellate>1</tessellate><coordinates>${formatCoordinates(feature.points)}</coordinates></LineString>`;
+    return `    <Placemark><name>${escapeXml(name)}</name><ExtendedData>${data}</ExtendedData>${geometry}</Placemark>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `  <Document><name>${escapeXml(documentName)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+  ].join('\n');
+};
+
+/**
+ * A KMZ is a zip with the document at doc.kml, or failing that the first .kml inside.
+ */
+export const parseKmz = async (data: ArrayBuffer): Promise<ParsedFeatures> => {
+  // jszip is only needed for KMZ files, load it on demand
+  const { default: JSZip } = await import('jszip');
+  const zip = await JSZip.loadAsync(data);
+  const entry = zip.file('doc.kml') ?? zip.file(/\.kml$/i)[0];
+  if (!entry) throw new Error('The KMZ file holds no KML document');
+  return parseKml(await entry.async('string'));
+};
+
+export const toKmz = async (kml: string): Promise<Blob> => {
+  const { default: JSZip } = await import('jszip');
+  const zip = new JSZip();
+  zip.file('doc.kml', kml);
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.google-earth.kmz', compression: 'DEFLATE' });
+};
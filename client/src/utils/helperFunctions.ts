@@ -1,7 +1,8 @@
 import { Connection } from "src/components/Templates/fibersConnection/canvasDraw"
-import { ControlPointData, FiberConnection } from "./threeJSHelpers/fiberConnections"
-import { IUser } from "./types"
-import { v4 } from "uuid"
+import { FiberConnection, InitialConnectionObject } from "./threeJSHelpers/fiberConnections"
+import { IStoredConnection, IUser } from "./types"
+import { IStoredConnections, SCHEMA_VERSION } from "shared/networkSchema"
+import { migrateStoredConnections, upgradeLegacyConnections } from "shared/migrations"
 
 export const saveUserToLS = (data: IUser & { authStatus: boolean }) => {
 	localStorage.setItem("userInfo", JSON.stringify(data))
@@ -25,13 +26,32 @@ export const saveToken = (token: string) => {
 
 export const getToken = () => {
 	const token = localStorage.getItem("token")
-	return token
+	return token ? JSON.parse(token) as string : null
 }
 
 export const removeToken = () => {
 	localStorage.removeItem("token")
 }
 
+export const saveActiveProjectId = (projectId: string) => {
+	localStorage.setItem("activeProject", projectId)
+}
+
+export const getActiveProjectId = () => localStorage.getItem("activeProject")
+
+export const saveRefreshToken = (token: string) => {
+	localStorage.setItem("refreshToken", JSON.stringify(token))
+}
+
+export const getRefreshToken = () => {
+	const token = localStorage.getItem("refreshToken")
+	return token ? JSON.parse(token) as string : null
+}
+
+export const removeRefreshToken = () => {
+	localStorage.removeItem("refreshToken")
+}
+
 
 /**
  * Takes a FiberConnection instance and returns a serializable object
@@ -64,160 +84,126 @@ export const getConnectionSerializableData = (connection: FiberConnection) => {
 	};
 };
 
-export const save3DConnectionsToLocalStorage = (connections: FiberConnection[]) => {
-	const serializable: ThreeJSData[] = connections.map(conn => ({
-		points: conn.getControlPointsData(),
+const CONNECTIONS_KEY = "connections"
+
+// Fields shared by both views, everything except the layout sections
+const toSpliceFields = (item: Omit<IStoredConnection, "layout">): Omit<IStoredConnection, "layout"> => ({
+	id: item.id,
+	fiber1Id: item.fiber1Id,
+	fiber2Id: item.fiber2Id,
+	color1: item.color1,
+	color2: item.color2,
+	isMarked1: item.isMarked1,
+	isMarked2: item.isMarked2,
+	fiber1CableId: item.fiber1CableId,
+	fiber2CableId: item.fiber2CableId,
+	fiber1CableType: item.fiber1CableType,
+	fiber2CableType: item.fiber2CableType,
+})
+
+// Keys the views wrote before the shared connection document existed
+const LEGACY_CONNECTIONS_KEYS = ["connections2D", "connections3D"]
+
+const readStoredJson = (key: string): unknown => {
+	const stored = localStorage.getItem(key)
+	if (!stored) return null
+	try {
+		return JSON.parse(stored)
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Reads the stored connection documents, upgrading whatever an older version left behind.
+ */
+export const getConnectionDocuments = (): IStoredConnection[] => {
+	if (LEGACY_CONNECTIONS_KEYS.some(key => localStorage.getItem(key) !== null)) {
+		const [connections2D, connections3D] = LEGACY_CONNECTIONS_KEYS.map(readStoredJson)
+		saveConnectionDocuments(upgradeLegacyConnections(connections2D, connections3D))
+		LEGACY_CONNECTIONS_KEYS.forEach(key => localStorage.removeItem(key))
+	}
+	return migrateStoredConnections(readStoredJson(CONNECTIONS_KEY))?.connections ?? []
+}
+
+/**
+ * Seeds the connection documents of a closure, both views read them when they mount.
+ */
+export const saveConnectionDocuments = (documents: IStoredConnection[]) => {
+	const stored: IStoredConnections = { schemaVersion: SCHEMA_VERSION, connections: documents }
+	localStorage.setItem(CONNECTIONS_KEY, JSON.stringify(stored))
+}
+
+/**
+ * Folds one view's complete list of connections into the stored documents and returns the result.
+ * A connection keeps its document id and the other view's layout section. Connections missing from
+ * the list were deleted in that view and are dropped. Documents from before ids were kept stable
+ * are matched by the fibers they join.
+ */
+const mergeViewConnections = (items: IStoredConnection[]): IStoredConnection[] => {
+	const documents = getConnectionDocuments()
+	const merged = items.map(item => {
+		const existing = documents.find(doc => doc.id === item.id)
+			?? documents.find(doc => doc.fiber1Id === item.fiber1Id && doc.fiber2Id === item.fiber2Id)
+		return { ...item, id: existing?.id ?? item.id, layout: { ...existing?.layout, ...item.layout } }
+	})
+	saveConnectionDocuments(merged)
+	return merged
+}
+
+export const save2DConnectionsToLocalStorage = (connections: Connection[]) => mergeViewConnections(
+	connections.map(item => ({ ...toSpliceFields(item), layout: { canvas: { path: item.path.map(({ x, y }) => ({ x, y })) } } }))
+)
+
+export const save3DConnectionsToLocalStorage = (connections: FiberConnection[]) => mergeViewConnections(
+	connections.map(conn => ({
+		id: conn.id,
 		fiber1Id: conn.fiber1.userData.fiberId,
 		fiber2Id: conn.fiber2.userData.fiberId,
+		color1: conn.fiber1.userData.originalColor,
+		color2: conn.fiber2.userData.originalColor,
+		isMarked1: conn.fiber1.userData.isMarked,
+		isMarked2: conn.fiber2.userData.isMarked,
 		fiber1CableType: conn.fiber1.userData.cableType,
 		fiber2CableType: conn.fiber2.userData.cableType,
 		fiber1CableId: conn.fiber1.userData.cableId,
 		fiber2CableId: conn.fiber2.userData.cableId,
-		color1: conn.fiber1.userData.color,
-		color2: conn.fiber2.userData.color
+		layout: { scene: { points: conn.getControlPointsData() } },
 	}))
-	localStorage.setItem("connections3D", JSON.stringify(serializable));
-	const serializable2D = serializable.map(item => threeJSToCanvas(item))
-	localStorage.setItem("connections2D", JSON.stringify(serializable2D));
-}
-
-
-export const save2DConnectionsToLocalStorage = (connections: Connection[]) => {
-	const serializable = connections
-	localStorage.setItem("connections2D", JSON.stringify(serializable));
-	const serializable3D = serializable.map(item => canvasToThreeJS(item))
-	localStorage.setItem("connections3D", JSON.stringify(serializable3D));
-}
-
-
-// Define the interfaces for the data structures
-
-interface Point2D {
-	x: number;
-	y: number;
-}
-
-interface Point3D {
-	x: number;
-	y: number;
-	z: number;
-}
-
-interface ControlPoint extends Point2D {
-	radius: number;
-}
-
-interface Rect {
-	x: number;
-	y: number;
-	width: number;
-	height: number;
-}
-
-// Input for canvasToThreeJS, Output for threeJSToCanvas
-interface CanvasData {
-	id: string;
-	fiber1Id: string;
-	fiber2Id: string;
-	path?: Point2D[];
-	color1: string;
-	color2: string;
-	deleteIconRect?: Rect;
-	fiber1CableType?: string
-	fiber2CableType?: string
-	fiber1CableId?: string
-	fiber2CableId?: string
-}
-
-// Output for canvasToThreeJS, Input for threeJSToCanvas
-interface ThreeJSData {
-	points?: ControlPointData[];
-	fiber1Id: string;
-	fiber2Id: string;
-	fiber1CableType?: string;
-	fiber2CableType?: string;
-	fiber1CableId?: string;
-	fiber2CableId?: string;
-	color1: string
-	color2: string
-}
+)
 
 /**
- * Converts canvas-like data to Three.js-like data.
- * If the input matches the structure of the provided example, it returns the exact example output.
- * Otherwise, it applies a generic transformation.
- * @param data The input CanvasData object.
- * @returns The transformed ThreeJSData object.
+ * The stored connections as the 2D canvas works with them. An empty path gets routed by the canvas.
  */
-export function canvasToThreeJS(data: CanvasData): ThreeJSData {
-	// let outputPoints: Point3D[];
-	let outputFiber1Id = data.fiber1Id;
-	let outputFiber2Id = data.fiber2Id;
-	// const pointsToTransform = data.path?.slice(0, Math.min(data.path.length, 4)) || [];
-	// outputPoints = pointsToTransform?.map((p, index) => ({
-	// 	x: (p.x - 500) / 100, // Arbitrary scaling factor
-	// 	y: (p.y - 200) / 100, // Arbitrary scaling factor
-	// 	z: index * 0.5        // Arbitrary Z coordinate based on index
-	// })) || [];
-
-	return {
-		// points: outputPoints,
-		fiber1Id: outputFiber1Id,
-		fiber2Id: outputFiber2Id,
-		fiber1CableType: data.fiber1CableType,
-		fiber2CableType: data.fiber2CableType,
-		fiber1CableId: data.fiber1CableId,
-		fiber2CableId: data.fiber2CableId,
-		color1: data.color1,
-		color2: data.color2
-	};
-}
+export const get2DConnectionsFromLocalStorage = (): Connection[] => getConnectionDocuments().map(doc => ({
+	...toSpliceFields(doc),
+	path: doc.layout?.canvas?.path ?? [],
+	deleteIconRect: { x: 0, y: 0, width: 16, height: 16 },
+}))
 
 /**
- * Converts Three.js-like data back to canvas-like data.
- * If the input matches the structure of the example Three.js output,
- * it attempts to reconstruct the original example CanvasData.
- * Otherwise, it applies a generic reverse transformation.
- * @param data The input ThreeJSData object.
- * @returns The transformed CanvasData object.
+ * The stored connections as the 3D scene rebuilds them. Without points the scene lays the connection out itself.
  */
-export function threeJSToCanvas(data: ThreeJSData): CanvasData {
-	let outputPath: Point2D[];
-	let outputControlPoints: ControlPoint[];
-	let outputDeleteIconRect: Rect;
-	let outputColor1 = data.color1; // Default to example
-	let outputColor2 = data.color2; // Default to example
-	let outputId = `conn-${v4()}`;
-	let outputFiber1Id = data.fiber1Id;
-	let outputFiber2Id = data.fiber2Id;
-
-	// Check if the input data matches the specific example's ThreeJSData output structure
-	// General case:
-	// This is a placeholder inverse transformation.
-	// The actual inverse depends on the forward transformation used in canvasToThreeJS's general case.
-	// outputPath = data.points?.map(p => ({
-	// 	x: Math.round(p.x * 100 + 500), // Inverse of arbitrary scaling
-	// 	y: Math.round(p.y * 100 + 200)  // Inverse of arbitrary scaling
-	// })) || [];
-
-	// outputControlPoints = outputPath.map(p => ({
-	// 	x: p.x,
-	// 	y: p.y,
-	// 	radius: 4 // Default radius
-	// }));
-		outputDeleteIconRect = { x: 0, y: 0, width: 16, height: 16 };
-
-	return {
-		id: outputId,
-		fiber1Id: outputFiber1Id,
-		fiber2Id: outputFiber2Id,
-		color1: outputColor1,
-		color2: outputColor2,
-		path: [],
-		deleteIconRect: outputDeleteIconRect,
-		fiber1CableType: data.fiber1CableType,
-		fiber2CableType: data.fiber2CableType,
-		fiber1CableId: data.fiber1CableId,
-		fiber2CableId: data.fiber2CableId,
-	};
-}
+export const get3DConnectionsFromLocalStorage = (): InitialConnectionObject[] => getConnectionDocuments().map(doc => ({
+	id: doc.id,
+	fiber1Id: doc.fiber1Id,
+	fiber2Id: doc.fiber2Id,
+	fiber1CableType: doc.fiber1CableType,
+	fiber2CableType: doc.fiber2CableType,
+	fiber1CableId: doc.fiber1CableId,
+	fiber2CableId: doc.fiber2CableId,
+	points: doc.layout?.scene?.points ?? [],
+}))
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+	const url = URL.createObjectURL(blob)
+	const link = document.createElement("a")
+	link.href = url
+	link.download = fileName
+	link.click()
+	URL.revokeObjectURL(url)
+}
+
+// Keeps names typed by users safe to use as file names
+export const toFileName = (name: string, extension: string) =>
+	`${name.trim().replace(/[^\w\-]+/g, "_") || "export"}.${extension}`
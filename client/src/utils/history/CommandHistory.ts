@@ -0,0 +1,147 @@
+// src/utils/history/CommandHistory.ts
+
+/**
+ * A reversible edit. `redo` applies it, `undo` reverts it.
+ */
+export interface HistoryCommand {
+    label: string;
+    undo(): void;
+    redo(): void;
+}
+
+/**
+ * Bounded undo/redo stacks shared by the 2D and 3D splice views.
+ */
+export class CommandHistory {
+    private undoStack: HistoryCommand[] = [];
+    private redoStack: HistoryCommand[] = [];
+    private listeners = new Set<() => void>();
+    private transaction: { label: string; commands: HistoryCommand[] } | null = null;
+    private replaying = false;
+
+    constructor(private readonly limit = 100) { }
+
+    /**
+     * Records a command that has already been applied. A new edit drops everything that could be redone.
+     */
+    public push(command: HistoryCommand): void {
+        this.undoStack.push(command);
+        if (this.undoStack.length > this.limit) this.undoStack.shift();
+        this.redoStack = [];
+        this.notify();
+    }
+
+    /**
+     * Applies the command and records it.
+     */
+    public execute(command: HistoryCommand): void {
+        command.redo();
+        this.push(command);
+    }
+
+    /**
+     * Opens a transaction, every command recorded until `commit` becomes a single undo step.
+     */
+    public begin(label: string): void {
+        this.transaction = { label, commands: [] };
+    }
+
+    /**
+     * Adds an already applied command to the open transaction. Outside a transaction, and while
+     * undoing or redoing, there is nothing to record into and the call is a no-op.
+     */
+    public record(command: HistoryCommand): void {
+        if (!this.transaction || this.replaying) return;
+        this.transaction.commands.push(command);
+    }
+
+    /**
+     * Closes the open transaction. Transactions that recorded nothing leave no step behind.
+     */
+    public commit(): void {
+        const transaction = this.transaction;
+        this.transaction = null;
+        if (!transaction || transaction.commands.length === 0) return;
+
+        const { label, commands } = transaction;
+        this.push({
+            label,
+            undo: () => [...commands].reverse().forEach(command => command.undo()),
+            redo: () => commands.forEach(command => command.redo()),
+        });
+    }
+
+    public isInTransaction(): boolean {
+        return this.transaction !== null;
+    }
+
+    public undo(): boolean {
+        const command = this.undoStack.pop();
+        if (!command) return false;
+        this.replay(() => command.undo());
+        this.redoStack.push(command);
+        this.notify();
+        return true;
+    }
+
+    public redo(): boolean {
+        const command = this.redoStack.pop();
+        if (!command) return false;
+        this.replay(() => command.redo());
+        this.undoStack.push(command);
+        this.notify();
+        return true;
+    }
+
+    public canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    public canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    public clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.transaction = null;
+        this.notify();
+    }
+
+    /**
+     * Calls `listener` whenever the stacks change, returns the unsubscribe function.
+     */
+    public subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => { this.listeners.delete(listener); };
+    }
+
+    // Helpers called by a command while it is replayed must not record it a second time
+    private replay(action: () => void): void {
+        this.replaying = true;
+        try {
+            action();
+        } finally {
+            this.replaying = false;
+        }
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+/**
+ * Ctrl+Z undoes, Ctrl+Shift+Z and Ctrl+Y redo (Cmd on macOS). Ignored while typing in a form field.
+ * Returns the action for the event, or null when it isn't a history shortcut.
+ */
+export const getHistoryShortcut = (e: KeyboardEvent): 'undo' | 'redo' | null => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) return null;
+    const target = e.target as HTMLElement | null;
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return null;
+
+    const key = e.key.toLowerCase();
+    if (key === 'z') return e.shiftKey ? 'redo' : 'undo';
+    if (key === 'y' && !e.shiftKey) return 'redo';
+    return null;
+};
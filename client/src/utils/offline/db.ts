@@ -0,0 +1,67 @@
+const DB_NAME = 'usernet-offline';
+const DB_VERSION = 1;
+
+// Key-value records: the project list and the network of each project
+export const CACHE_STORE = 'cache';
+// Edits made while offline, in the order they were made
+export const EDIT_STORE = 'edits';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const toPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openDatabase = () => {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(CACHE_STORE);
+      request.result.createObjectStore(EDIT_STORE, { keyPath: 'id', autoIncrement: true });
+    };
+    database = toPromise(request);
+    // A failed open is tried again next time
+    database.catch(() => { database = null });
+  }
+  return database;
+};
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error);
+});
+
+/**
+ * Hands the store to work inside one transaction and resolves once everything it started is written.
+ */
+export const runTransaction = async (storeName: string, mode: IDBTransactionMode, work: (store: IDBObjectStore) => void): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  work(transaction.objectStore(storeName));
+  await transactionDone(transaction);
+};
+
+// The result of a request is there once its transaction is complete
+const runRequest = async <T>(storeName: string, mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  let request: IDBRequest<T> | undefined;
+  await runTransaction(storeName, mode, store => { request = makeRequest(store) });
+  return (request as IDBRequest<T>).result;
+};
+
+export const readRecord = <T>(storeName: string, key: IDBValidKey) =>
+  runRequest<T | undefined>(storeName, 'readonly', store => store.get(key));
+
+export const readAllRecords = <T>(storeName: string) =>
+  runRequest<T[]>(storeName, 'readonly', store => store.getAll());
+
+export const deleteRecord = (storeName: string, key: IDBValidKey) =>
+  runRequest(storeName, 'readwrite', store => store.delete(key));
+
+// Read and write in one transaction, so two updates of the same record never overwrite each other
+export const updateRecord = <T>(storeName: string, key: IDBValidKey, update: (value: T | undefined) => T) =>
+  runTransaction(storeName, 'readwrite', store => {
+    const request = store.get(key);
+    request.onsuccess = () => { store.put(update(request.result as T | undefined), key) };
+  });
@@ -0,0 +1,101 @@
+import axios from "axios";
+import { v4 } from "uuid";
+import { IAsset as IAssetFields, ICableRoute as ICableRouteFields } from "shared/networkSchema";
+import { IAsset, ICableRoute, IClosurePlan, IStoredConnection } from "../types";
+import { EDIT_STORE, deleteRecord, readAllRecords, runTransaction } from "./db";
+
+// Of a closure only its splice plan is edited offline, closures are created and deleted online
+interface OfflineFields {
+  asset: IAssetFields;
+  cableRoute: ICableRouteFields;
+  closure: { name: string; connections: IStoredConnection[] };
+}
+
+interface OfflineItems {
+  asset: IAsset;
+  cableRoute: ICableRoute;
+  closure: IClosurePlan;
+}
+
+export type OfflineEntity = keyof OfflineFields;
+
+export type OfflineAction = 'create' | 'update' | 'delete';
+
+/**
+ * A change made without a connection, sent to the server by the next sync.
+ * An item has at most one pending edit, later changes are folded into it.
+ */
+export interface OfflineEdit<E extends OfflineEntity = OfflineEntity> {
+  id?: number;
+  projectId: string;
+  entity: E;
+  action: OfflineAction;
+  // The server id, or the temporary id of an item created offline
+  itemId: string;
+  // Item name, to tell the user what a conflict is about
+  name: string;
+  data?: OfflineFields[E];
+  // updatedAt of the item as last loaded from the server, the sync spots conflicts with it
+  baseUpdatedAt?: string;
+  madeAt: string;
+}
+
+const OFFLINE_ID_PREFIX = 'offline-';
+
+export const isOfflineId = (id: string) => id.startsWith(OFFLINE_ID_PREFIX);
+
+// No response at all means the server was not reached, anything else is a real answer
+export const isOfflineError = (error: unknown) =>
+  !navigator.onLine || (axios.isAxiosError(error) && !error.response);
+
+const foldEdit = (pending: OfflineEdit, edit: OfflineEdit): OfflineEdit | null => {
+  if (edit.action === 'delete') {
+    // An item that never reached the server just disappears
+    return pending.action === 'create' ? null : { ...pending, action: 'delete', data: undefined, name: edit.name, madeAt: edit.madeAt };
+  }
+  return { ...pending, data: edit.data, name: edit.name, madeAt: edit.madeAt };
+};
+
+const queueEdit = (edit: OfflineEdit) => runTransaction(EDIT_STORE, 'readwrite', store => {
+  const request = store.getAll();
+  request.onsuccess = () => {
+    const pending = (request.result as OfflineEdit[]).find(item => item.entity === edit.entity && item.itemId === edit.itemId && item.action !== 'delete');
+    if (!pending) {
+      store.add(edit);
+      return;
+    }
+    const folded = foldEdit(pending, edit);
+    if (folded) store.put(folded);
+    else store.delete(pending.id as number);
+  };
+});
+
+export const getPendingEdits = async (projectId: string) =>
+  (await readAllRecords<OfflineEdit>(EDIT_STORE))
+    .filter(edit => edit.projectId === projectId)
+    .sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+
+export const removeEdit = (edit: OfflineEdit) => deleteRecord(EDIT_STORE, edit.id as number);
+
+/**
+ * Queues a new item and returns it with a temporary id, the server gives it a real one on sync.
+ */
+export const queueCreate = async <E extends OfflineEntity>(projectId: string, entity: E, fields: OfflineFields[E]) => {
+  const now = new Date().toISOString();
+  const item = { ...fields, _id: `${OFFLINE_ID_PREFIX}${v4()}`, createdAt: now, updatedAt: now } as OfflineItems[E];
+  await queueEdit({ projectId, entity, action: 'create', itemId: item._id, name: fields.name, data: fields, madeAt: now });
+  return item;
+};
+
+// current is the item as the store has it, the changed item is returned in its place
+export const queueUpdate = async <E extends OfflineEntity>(projectId: string, entity: E, itemId: string, fields: OfflineFields[E], current?: OfflineItems[E]) => {
+  const now = new Date().toISOString();
+  await queueEdit({ projectId, entity, action: 'update', itemId, name: fields.name, data: fields, baseUpdatedAt: current?.updatedAt, madeAt: now });
+  return { ...current, ...fields, _id: itemId, createdAt: current?.createdAt ?? now, updatedAt: now } as OfflineItems[E];
+};
+
+export const queueDelete = async <E extends OfflineEntity>(projectId: string, entity: E, itemId: string, current?: OfflineItems[E]) => {
+  const now = new Date().toISOString();
+  await queueEdit({ projectId, entity, action: 'delete', itemId, name: current?.name ?? '', baseUpdatedAt: current?.updatedAt, madeAt: now });
+  return itemId;
+};
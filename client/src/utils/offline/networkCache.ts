@@ -0,0 +1,44 @@
+import { IAsset, ICableRoute, IClosure, IClosurePlan, IProject } from "../types";
+import { CACHE_STORE, readRecord, updateRecord } from "./db";
+
+/**
+ * What the map screen needs of a project, kept from the last time it was loaded or changed.
+ */
+export interface NetworkCache {
+  assets?: IAsset[];
+  routes?: ICableRoute[];
+  closures?: IClosure[];
+  // Splice plans by closure id, only those opened or changed on this device
+  plans?: Record<string, IClosurePlan>;
+  savedAt: string;
+}
+
+const PROJECTS_KEY = 'projects';
+
+const toNetworkKey = (projectId: string) => `network:${projectId}`;
+
+const withoutKey = <T>(record: Record<string, T> | undefined, key: string) =>
+  Object.fromEntries(Object.entries(record ?? {}).filter(([itemKey]) => itemKey !== key));
+
+// Read and written in one transaction, so plans of two closures saved at once don't overwrite each other
+const updateNetworkCache = (projectId: string, update: (cached: NetworkCache | undefined) => Omit<NetworkCache, 'savedAt'>) =>
+  updateRecord<NetworkCache>(CACHE_STORE, toNetworkKey(projectId), cached => ({ ...cached, ...update(cached), savedAt: new Date().toISOString() }));
+
+export const readNetworkCache = (projectId: string) => readRecord<NetworkCache>(CACHE_STORE, toNetworkKey(projectId));
+
+// Only the lists given are replaced, the others stay as they were
+export const saveNetworkCache = (projectId: string, lists: Omit<NetworkCache, 'savedAt'>) =>
+  updateNetworkCache(projectId, () => lists);
+
+export const readCachedClosurePlan = async (projectId: string, closureId: string) =>
+  (await readNetworkCache(projectId))?.plans?.[closureId];
+
+export const saveCachedClosurePlan = (projectId: string, plan: IClosurePlan) =>
+  updateNetworkCache(projectId, cached => ({ plans: { ...cached?.plans, [plan._id]: plan } }));
+
+export const removeCachedClosurePlan = (projectId: string, closureId: string) =>
+  updateNetworkCache(projectId, cached => ({ plans: withoutKey(cached?.plans, closureId) }));
+
+export const readCachedProjects = () => readRecord<IProject[]>(CACHE_STORE, PROJECTS_KEY);
+
+export const saveCachedProjects = (projects: IProject[]) => updateRecord<IProject[]>(CACHE_STORE, PROJECTS_KEY, () => projects);
@@ -0,0 +1,124 @@
+import { AxiosError } from "axios";
+import { IAsset as IAssetFields, ICableRoute as ICableRouteFields } from "shared/networkSchema";
+import { R_CreateAsset, R_DeleteAsset, R_GetAssets, R_UpdateAsset } from "../../api/assets/service";
+import { R_CreateCableRoute, R_DeleteCableRoute, R_GetCableRoutes, R_UpdateCableRoute } from "../../api/cableRoutes/service";
+import { R_GetClosures, R_SaveConnections } from "../../api/closures/service";
+import { IStoredConnection } from "../types";
+import { OfflineEdit, OfflineEntity, getPendingEdits, isOfflineError, removeEdit } from "./editQueue";
+
+/**
+ * An edit the sync did not send: the item changed or went away on the server since it was loaded,
+ * or the server turned the edit down.
+ */
+export interface OfflineConflict {
+  edit: OfflineEdit;
+  reason: 'changed' | 'deleted' | 'rejected';
+  // What the server said about a rejected edit
+  message?: string;
+}
+
+export interface SyncResult {
+  synced: number;
+  conflicts: OfflineConflict[];
+}
+
+interface ServerItem {
+  _id: string;
+  updatedAt: string;
+}
+
+const SERVICES: Record<OfflineEntity, {
+  list: (projectId: string) => Promise<ServerItem[]>,
+  create: (projectId: string, data: OfflineEdit['data']) => Promise<unknown>,
+  // baseUpdatedAt lets the server refuse an edit made on an older version, where it checks for that
+  update: (projectId: string, itemId: string, data: OfflineEdit['data'], baseUpdatedAt?: string) => Promise<unknown>,
+  remove: (projectId: string, itemId: string) => Promise<unknown>,
+}> = {
+  asset: {
+    list: R_GetAssets,
+    create: (projectId, data) => R_CreateAsset({ projectId, ...data as IAssetFields }),
+    update: (projectId, assetId, data) => R_UpdateAsset({ projectId, assetId, ...data as IAssetFields }),
+    remove: (projectId, assetId) => R_DeleteAsset({ projectId, assetId }),
+  },
+  cableRoute: {
+    list: R_GetCableRoutes,
+    create: (projectId, data) => R_CreateCableRoute({ projectId, ...data as ICableRouteFields }),
+    update: (projectId, cableRouteId, data) => R_UpdateCableRoute({ projectId, cableRouteId, ...data as ICableRouteFields }),
+    remove: (projectId, cableRouteId) => R_DeleteCableRoute({ projectId, cableRouteId }),
+  },
+  closure: {
+    list: R_GetClosures,
+    create: () => Promise.reject(new Error('Closures are only created online')),
+    update: (projectId, closureId, data, baseUpdatedAt) =>
+      R_SaveConnections({ projectId, closureId, connections: (data as { connections: IStoredConnection[] }).connections, baseUpdatedAt }),
+    remove: () => Promise.reject(new Error('Closures are only deleted online')),
+  },
+};
+
+const sendEdit = (edit: OfflineEdit) => {
+  const service = SERVICES[edit.entity];
+  switch (edit.action) {
+    case 'create':
+      return service.create(edit.projectId, edit.data);
+    case 'update':
+      return service.update(edit.projectId, edit.itemId, edit.data, edit.baseUpdatedAt);
+    case 'delete':
+      return service.remove(edit.projectId, edit.itemId);
+  }
+};
+
+const toMessage = (error: unknown) =>
+  ((error as AxiosError)?.response?.data as { message?: string })?.message || (error as Error)?.message || 'The server turned the edit down';
+
+/**
+ * Sends the queued edits of a project in the order they were made. Edits of items changed on the server
+ * in the meantime are held back as conflicts. Stops at the first connection error, the rest stays queued.
+ */
+export const syncEdits = async (projectId: string): Promise<SyncResult> => {
+  const result: SyncResult = { synced: 0, conflicts: [] };
+  const edits = await getPendingEdits(projectId);
+  if (edits.length === 0) return result;
+
+  const [assets, routes, closures] = await Promise.all([SERVICES.asset.list(projectId), SERVICES.cableRoute.list(projectId), SERVICES.closure.list(projectId)]);
+  const serverItems: Record<OfflineEntity, ServerItem[]> = { asset: assets, cableRoute: routes, closure: closures };
+
+  for (const edit of edits) {
+    if (edit.action !== 'create') {
+      const serverItem = serverItems[edit.entity].find(item => item._id === edit.itemId);
+      if (!serverItem && edit.action === 'update') {
+        result.conflicts.push({ edit, reason: 'deleted' });
+        continue;
+      }
+      if (serverItem && edit.baseUpdatedAt && serverItem.updatedAt !== edit.baseUpdatedAt) {
+        result.conflicts.push({ edit, reason: 'changed' });
+        continue;
+      }
+    }
+
+    try {
+      // Deleting what someone else already deleted needs no request
+      const isGone = edit.action === 'delete' && !serverItems[edit.entity].some(item => item._id === edit.itemId);
+      if (!isGone) await sendEdit(edit);
+      await removeEdit(edit);
+      result.synced++;
+    } catch (error) {
+      if (isOfflineError(error)) break;
+      // Changed on the server between the list and the save
+      const isStale = (error as AxiosError)?.response?.status === 409;
+      result.conflicts.push(isStale ? { edit, reason: 'changed' } : { edit, reason: 'rejected', message: toMessage(error) });
+    }
+  }
+  return result;
+};
+
+/**
+ * Settles a conflict. Keeping the local edit overwrites the server, an update of an item deleted there creates it again.
+ * A deleted closure can't come back that way, its edit can only be dropped.
+ */
+export const resolveConflict = async ({ edit, reason }: OfflineConflict, keep: 'local' | 'server') => {
+  if (keep === 'local' && reason !== 'rejected' && !(reason === 'deleted' && edit.entity === 'closure')) {
+    // Without the base version the server takes it over the changes made there
+    await sendEdit(reason === 'deleted' ? { ...edit, action: 'create' } : { ...edit, baseUpdatedAt: undefined });
+  }
+  await removeEdit(edit);
+};
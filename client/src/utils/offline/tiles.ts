@@ -0,0 +1,106 @@
+import { IGeoPoint } from "shared/networkSchema";
+
+// Shared with the service worker, which answers tile requests from it before going to the network
+export const TILE_CACHE = 'map-tiles';
+
+// Tile servers ask not to be bulk downloaded, an area is capped at this many tiles
+export const MAX_OFFLINE_TILES = 5000;
+
+const PARALLEL_DOWNLOADS = 4;
+
+export interface TileBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+interface TileRange {
+  zoom: number;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+// Web Mercator tile numbers, the scheme every tile server uses
+const toTileX = (lng: number, zoom: number) => Math.floor((lng + 180) / 360 * Math.pow(2, zoom));
+
+const toTileY = (lat: number, zoom: number) => {
+  const rad = lat * Math.PI / 180;
+  return Math.floor((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2 * Math.pow(2, zoom));
+};
+
+const toTileRanges = (bounds: TileBounds, minZoom: number, maxZoom: number): TileRange[] => {
+  const ranges: TileRange[] = [];
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    ranges.push({
+      zoom,
+      minX: toTileX(bounds.west, zoom),
+      maxX: toTileX(bounds.east, zoom),
+      minY: toTileY(bounds.north, zoom),
+      maxY: toTileY(bounds.south, zoom),
+    });
+  }
+  return ranges;
+};
+
+export const countTiles = (bounds: TileBounds, minZoom: number, maxZoom: number) => toTileRanges(bounds, minZoom, maxZoom)
+  .reduce((sum, range) => sum + (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1), 0);
+
+export const listTileUrls = (template: string, bounds: TileBounds, minZoom: number, maxZoom: number): string[] => {
+  const urls: string[] = [];
+  toTileRanges(bounds, minZoom, maxZoom).forEach(({ zoom, minX, maxX, minY, maxY }) => {
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        urls.push(template.replace('{z}', String(zoom)).replace('{x}', String(x)).replace('{y}', String(y)));
+      }
+    }
+  });
+  return urls;
+};
+
+/**
+ * The box around the points with a margin in degrees, undefined when there are no points.
+ */
+export const toTileBounds = (points: IGeoPoint[], margin: number): TileBounds | undefined => {
+  if (points.length === 0) return undefined;
+  return {
+    south: Math.max(-85, Math.min(...points.map(point => point.lat)) - margin),
+    west: Math.max(-180, Math.min(...points.map(point => point.lng)) - margin),
+    north: Math.min(85, Math.max(...points.map(point => point.lat)) + margin),
+    east: Math.min(180, Math.max(...points.map(point => point.lng)) + margin),
+  };
+};
+
+/**
+ * Puts the tiles into the cache the service worker reads, a few at a time.
+ * Tiles already there are not downloaded again.
+ */
+export const precacheTiles = async (urls: string[], onProgress: (done: number) => void) => {
+  const cache = await caches.open(TILE_CACHE);
+  let next = 0;
+  let done = 0;
+  let failed = 0;
+
+  const download = async () => {
+    while (next < urls.length) {
+      const url = urls[next++];
+      try {
+        if (!(await cache.match(url))) {
+          const response = await fetch(url, { mode: 'cors' });
+          if (!response.ok) throw new Error(`${response.status}`);
+          await cache.put(url, response);
+        }
+      } catch {
+        failed++;
+      }
+      onProgress(++done);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(PARALLEL_DOWNLOADS, urls.length) }, download));
+  return { saved: done - failed, failed };
+};
+
+export const clearTileCache = () => caches.delete(TILE_CACHE);
@@ -0,0 +1,98 @@
+// src/utils/powerBudget/budget.ts
+import { ICableRoute } from '../types';
+
+export type Wavelength = 1310 | 1490 | 1550;
+
+export const WAVELENGTHS: Wavelength[] = [1310, 1490, 1550];
+
+// Single mode G.652 fiber, typical cabled attenuation, dB/km
+export const DEFAULT_ATTENUATION: Record<Wavelength, number> = {
+    1310: 0.35,
+    1490: 0.25,
+    1550: 0.22,
+};
+
+export type CircuitElement =
+    | { kind: 'span'; label: string; lengthKm: number }
+    | { kind: 'splice'; label: string }
+    | { kind: 'connector'; label: string }
+    | { kind: 'splitter'; label: string; loss: number };
+
+export type BudgetSettings = {
+    wavelength: Wavelength;
+    // Transmitter launch power, dBm
+    txPower: number;
+    // Lowest power the receiver still decodes, dBm
+    rxSensitivity: number;
+    // dB/km per wavelength, falls back to DEFAULT_ATTENUATION
+    attenuation?: Partial<Record<Wavelength, number>>;
+    spliceLoss: number;
+    connectorLoss: number;
+    // Reserve for repairs and ageing, taken off the margin
+    safetyMargin: number;
+};
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+    wavelength: 1490,
+    txPower: 3,
+    rxSensitivity: -27,
+    spliceLoss: 0.1,
+    connectorLoss: 0.5,
+    safetyMargin: 3,
+};
+
+export type BudgetRow = {
+    element: CircuitElement;
+    loss: number;
+    // Power left after this element, dBm
+    power: number;
+};
+
+export type BudgetResult = {
+    rows: BudgetRow[];
+    totalLoss: number;
+    receivedPower: number;
+    // What is left above the receiver sensitivity once the safety margin is taken off
+    margin: number;
+    passes: boolean;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const getElementLoss = (element: CircuitElement, settings: BudgetSettings): number => {
+    switch (element.kind) {
+        case 'span': {
+            const attenuation = settings.attenuation?.[settings.wavelength] ?? DEFAULT_ATTENUATION[settings.wavelength];
+            return element.lengthKm * attenuation;
+        }
+        case 'splice':
+            return settings.spliceLoss;
+        case 'connector':
+            return settings.connectorLoss;
+        case 'splitter':
+            return element.loss;
+    }
+};
+
+/**
+ * Walks the circuit from the transmitter and reports the loss of every element and what reaches the receiver.
+ */
+export const computePowerBudget = (elements: CircuitElement[], settings: BudgetSettings): BudgetResult => {
+    let power = settings.txPower;
+    const rows = elements.map(element => {
+        const loss = getElementLoss(element, settings);
+        power -= loss;
+        return { element, loss: round(loss), power: round(power) };
+    });
+
+    const totalLoss = round(settings.txPower - power);
+    const margin = round(power - settings.rxSensitivity - settings.safetyMargin);
+    return { rows, totalLoss, receivedPower: round(power), margin, passes: margin >= 0 };
+};
+
+/**
+ * A span along a cable route drawn on the map, as long as its polyline.
+ */
+export const spanFromRoute = (route: ICableRoute, label: string): CircuitElement => {
+    return { kind: 'span', label: `${label} (${route.name})`, lengthKm: Math.round(route.length) / 1000 };
+};
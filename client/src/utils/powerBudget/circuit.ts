@@ -0,0 +1,121 @@
+// src/utils/powerBudget/circuit.ts
+import { ICable, ISplitter, IConnectionDocument, IFiberTrace, ITraceEndpoint, ITraceHop } from 'shared/networkSchema';
+import { CircuitElement } from './budget';
+
+type ClosureContents = {
+    cables: ICable[];
+    splitters: ISplitter[];
+    connections: IConnectionDocument[];
+};
+
+const describeFiber = (cables: ICable[], fiberId: string) => {
+    const cableIndex = cables.findIndex(cable => cable.fibers.some(fiber => fiber.id === fiberId));
+    if (cableIndex < 0) return undefined;
+    const cable = cables[cableIndex];
+    const position = cable.fibers.findIndex(fiber => fiber.id === fiberId) + 1;
+    return `${cable.type.toUpperCase()} cable ${cables.filter(item => item.type === cable.type).indexOf(cable) + 1}, fiber ${position}`;
+};
+
+// A splitter with no output in use, a customer will sit behind the worst of them
+export const unusedSplitterElement = (splitter: ISplitter): CircuitElement => ({
+    kind: 'splitter',
+    label: `${splitter.name}, no output in use`,
+    loss: splitter.outputs.reduce((worst, port) => Math.max(worst, port.loss ?? 0), 0),
+});
+
+export type ClosureCircuit = {
+    elements: CircuitElement[];
+    // Port the walk ended on, a fiber of an outgoing cable when the circuit leaves the closure
+    endPortId: string;
+};
+
+/**
+ * Follows a fiber through the splices and splitters of one closure and returns the elements it
+ * passes. At a splitter the walk continues on the used output with the highest loss, so the budget
+ * covers the worst branch. A splitter with no output in use ends the walk, its highest output loss
+ * is still counted since a customer will sit behind one of them.
+ */
+export const traceClosureCircuit = ({ cables, splitters, connections }: ClosureContents, startFiberId: string): ClosureCircuit => {
+    const elements: CircuitElement[] = [];
+    const visited = new Set<string>();
+    let current = startFiberId;
+
+    const findConnection = (portId: string) => connections.find(conn =>
+        !visited.has(conn.id) && (conn.fiber1Id === portId || conn.fiber2Id === portId));
+
+    let connection = findConnection(current);
+    while (connection) {
+        visited.add(connection.id);
+
+        const next = connection.fiber1Id === current ? connection.fiber2Id : connection.fiber1Id;
+        elements.push({ kind: 'splice', label: `Splice to ${describeFiber(cables, next) ?? 'splitter'}` });
+
+        const splitter = splitters.find(item => item.inputs.some(port => port.id === next));
+        if (!splitter) {
+            current = next;
+            connection = findConnection(current);
+            continue;
+        }
+
+        const usedOutputs = splitter.outputs.filter(port => connections.some(conn => conn.fiber1Id === port.id || conn.fiber2Id === port.id));
+        const output = [...usedOutputs].sort((a, b) => (b.loss ?? 0) - (a.loss ?? 0))[0];
+        if (!output) {
+            elements.push(unusedSplitterElement(splitter));
+            current = next;
+            break;
+        }
+        elements.push({ kind: 'splitter', label: `${splitter.name}, output ${splitter.outputs.indexOf(output) + 1}`, loss: output.loss ?? 0 });
+        current = output.id;
+        connection = findConnection(current);
+    }
+
+    return { elements, endPortId: current };
+};
+
+export type TraceCircuit = {
+    elements: CircuitElement[];
+    // Where the path enters the first closure and where it leaves the last one
+    start: ITraceEndpoint;
+    end: ITraceEndpoint;
+};
+
+const endpointKey = (endpoint: ITraceEndpoint) => `${endpoint.closureId}:${endpoint.portId}`;
+
+const hopElement = (hop: ITraceHop): CircuitElement => {
+    switch (hop.kind) {
+        case 'splice':
+            return { kind: 'splice', label: `Splice to ${hop.to.description}, ${hop.to.closureName}` };
+        case 'splitter':
+            return { kind: 'splitter', label: `${hop.to.description}, ${hop.to.closureName}`, loss: hop.loss ?? 0 };
+        case 'cable':
+            // A cable that only continues by fiber id has no route, its length is not known
+            return hop.length !== undefined
+                ? { kind: 'span', label: `Cable ${hop.from.closureName} → ${hop.to.closureName}`, lengthKm: Math.round(hop.length) / 1000 }
+                : { kind: 'span', label: `Cable ${hop.from.closureName} → ${hop.to.closureName}, no route on the map`, lengthKm: 0 };
+    }
+};
+
+/**
+ * Every path of a cross-closure fiber trace, from its OLT end to one of the far ends behind the traced fiber.
+ * The trace branches at splitters, each branch is a path of its own.
+ */
+export const traceCircuitPaths = ({ hops }: IFiberTrace): TraceCircuit[] => {
+    if (hops.length === 0) return [];
+
+    const next = new Map<string, ITraceHop[]>();
+    hops.forEach(hop => next.set(endpointKey(hop.from), [...(next.get(endpointKey(hop.from)) ?? []), hop]));
+    const reached = new Set(hops.map(hop => endpointKey(hop.to)));
+    const start = hops.find(hop => !reached.has(endpointKey(hop.from)))?.from ?? hops[0].from;
+
+    const paths: TraceCircuit[] = [];
+    const walk = (endpoint: ITraceEndpoint, passed: ITraceHop[], visited: Set<string>) => {
+        const following = (next.get(endpointKey(endpoint)) ?? []).filter(hop => !visited.has(endpointKey(hop.to)));
+        if (following.length === 0) {
+            paths.push({ elements: passed.map(hopElement), start, end: endpoint });
+            return;
+        }
+        following.forEach(hop => walk(hop.to, [...passed, hop], new Set(visited).add(endpointKey(hop.to))));
+    };
+    walk(start, [], new Set([endpointKey(start)]));
+    return paths;
+};
@@ -0,0 +1,60 @@
+// src/utils/spliceReport/export.ts
+import { ClosureReport, SPLICE_COLUMNS, USAGE_COLUMNS, toSpliceCells } from './report';
+
+// Names are typed by users, a spreadsheet would run one starting like a formula. Plain numbers are left as they are
+const FORMULA_START = /^[=+\-@\t\r]/;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+const escapeCsv = (value: string | number) => {
+    const raw = String(value);
+    const text = FORMULA_START.test(raw) && !NUMBER.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * All closures in one table, the closure name leads every row.
+ */
+export const toSpliceReportCsv = (reports: ClosureReport[]): string => {
+    const lines = [['Closure', ...SPLICE_COLUMNS]];
+    reports.forEach(report => report.rows.forEach(row => lines.push([report.closureName, ...toSpliceCells(row)].map(String))));
+    // The BOM makes Excel read the file as UTF-8
+    return '\uFEFF' + lines.map(line => line.map(escapeCsv).join(',')).join('\r\n');
+};
+
+// Excel limits sheet names to 31 characters, forbids some characters and requires unique names
+const toSheetName = (name: string, taken: Set<string>) => {
+    const base = name.replace(/[[\]*?:/\\]/g, ' ').trim() || 'Closure';
+    let sheetName = base.slice(0, 31);
+    for (let i = 2; taken.has(sheetName.toLowerCase()); i++) {
+        const suffix = ` ${i}`;
+        sheetName = `${base.slice(0, 31 - suffix.length).trim()}${suffix}`;
+    }
+    taken.add(sheetName.toLowerCase());
+    return sheetName;
+};
+
+/**
+ * A summary sheet of free/used fibers followed by one splice sheet per closure.
+ */
+export const toSpliceReportXlsx = async (reports: ClosureReport[]): Promise<Blob> => {
+    // exceljs is large, only load it when somebody asks for a workbook
+    const { default: ExcelJS } = await import('exceljs');
+    const workbook = new ExcelJS.Workbook();
+    const taken = new Set<string>(['summary']);
+
+    const summary = workbook.addWorksheet('Summary');
+    summary.addRow(USAGE_COLUMNS).font = { bold: true };
+    reports.forEach(report => report.usage.forEach(item => summary.addRow([report.closureName, item.element, item.total, item.used, item.free])));
+    summary.columns.forEach(column => { column.width = 18; });
+
+    reports.forEach(report => {
+        const sheet = workbook.addWorksheet(toSheetName(report.closureName, taken));
+        sheet.addRow(SPLICE_COLUMNS).font = { bold: true };
+        report.rows.forEach(row => sheet.addRow(toSpliceCells(row)));
+        sheet.columns.forEach(column => { column.width = 16; });
+        sheet.views = [{ state: 'frozen', ySplit: 1 }];
+    });
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
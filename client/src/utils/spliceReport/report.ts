@@ -0,0 +1,112 @@
+// src/utils/spliceReport/report.ts
+import { IClosurePlan } from '../types';
+import { getColorName } from '../colorCodes/standards';
+
+/**
+ * One end of a splice, resolved to where a technician finds it in the closure.
+ */
+export type SpliceEndpoint = {
+    // "IN cable 1", "Splitter 1x8"
+    element: string;
+    // Tube number and colour, empty for fibers outside tubes and for splitter ports
+    tube: string;
+    // 1-based fiber number in the cable, or "IN 1"/"OUT 3" on a splitter
+    position: string;
+    color: string;
+    marked: boolean;
+};
+
+export type SpliceReportRow = {
+    index: number;
+    a: SpliceEndpoint;
+    b: SpliceEndpoint;
+};
+
+export type FiberUsage = {
+    element: string;
+    total: number;
+    used: number;
+    free: number;
+};
+
+export type ClosureReport = {
+    closureName: string;
+    rows: SpliceReportRow[];
+    usage: FiberUsage[];
+};
+
+const UNKNOWN_ENDPOINT: SpliceEndpoint = { element: 'unknown', tube: '', position: '', color: '', marked: false };
+
+/**
+ * Builds the splice list and the fiber usage summary of one closure.
+ */
+export const buildClosureReport = (plan: IClosurePlan): ClosureReport => {
+    const endpoints = new Map<string, SpliceEndpoint>();
+    // Fiber or port id to the usage row of the cable or splitter it belongs to
+    const owners = new Map<string, FiberUsage>();
+    const usage: FiberUsage[] = [];
+    const cableNumbers = { in: 0, out: 0 };
+
+    plan.cables.forEach(cable => {
+        cableNumbers[cable.type]++;
+        const element = `${cable.type.toUpperCase()} cable ${cableNumbers[cable.type]}`;
+        const cableUsage = { element, total: cable.fibers.length, used: 0, free: 0 };
+        usage.push(cableUsage);
+
+        cable.fibers.forEach((fiber, i) => {
+            const tubeIndex = cable.tubes?.findIndex(tube => tube.id === fiber.tubeId) ?? -1;
+            const tube = tubeIndex >= 0 ? `${tubeIndex + 1} (${getColorName(cable.tubes![tubeIndex].color)})` : '';
+            endpoints.set(fiber.id, { element, tube, position: String(i + 1), color: getColorName(fiber.color), marked: !!fiber.isMarked });
+            owners.set(fiber.id, cableUsage);
+        });
+    });
+
+    // Splitters default to their model name, repeated names get a number so the rows can be told apart
+    const nameCounts = new Map<string, number>();
+    plan.splitters.forEach(splitter => nameCounts.set(splitter.name, (nameCounts.get(splitter.name) ?? 0) + 1));
+    const nameNumbers = new Map<string, number>();
+
+    plan.splitters.forEach(splitter => {
+        const number = (nameNumbers.get(splitter.name) ?? 0) + 1;
+        nameNumbers.set(splitter.name, number);
+        const element = `Splitter ${splitter.name}${nameCounts.get(splitter.name)! > 1 ? ` #${number}` : ''}`;
+        const splitterUsage = { element, total: splitter.inputs.length + splitter.outputs.length, used: 0, free: 0 };
+        usage.push(splitterUsage);
+
+        const addPort = (direction: 'IN' | 'OUT') => (port: { id: string; color?: string }, i: number) => {
+            endpoints.set(port.id, { element, tube: '', position: `${direction} ${i + 1}`, color: port.color ? getColorName(port.color) : '', marked: false });
+            owners.set(port.id, splitterUsage);
+        };
+        splitter.inputs.forEach(addPort('IN'));
+        splitter.outputs.forEach(addPort('OUT'));
+    });
+
+    const usedIds = new Set<string>();
+    const rows = plan.connections.map((conn, i) => {
+        usedIds.add(conn.fiber1Id);
+        usedIds.add(conn.fiber2Id);
+        return {
+            index: i + 1,
+            a: endpoints.get(conn.fiber1Id) ?? UNKNOWN_ENDPOINT,
+            b: endpoints.get(conn.fiber2Id) ?? UNKNOWN_ENDPOINT,
+        };
+    });
+
+    usedIds.forEach(id => {
+        const item = owners.get(id);
+        if (item) item.used++;
+    });
+    usage.forEach(item => { item.free = item.total - item.used; });
+
+    return { closureName: plan.name, rows, usage };
+};
+
+export const SPLICE_COLUMNS = ['#', 'A element', 'A tube', 'A fiber', 'A colour', 'B element', 'B tube', 'B fiber', 'B colour'];
+
+const formatColor = ({ color, marked }: SpliceEndpoint) => marked ? `${color}/marked` : color;
+
+export const toSpliceCells = ({ index, a, b }: SpliceReportRow): (string | number)[] => [
+    index, a.element, a.tube, a.position, formatColor(a), b.element, b.tube, b.position, formatColor(b),
+];
+
+export const USAGE_COLUMNS = ['Closure', 'Element', 'Total', 'Used', 'Free'];
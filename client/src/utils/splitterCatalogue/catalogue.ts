@@ -0,0 +1,105 @@
+// src/utils/splitterCatalogue/catalogue.ts
+import { v4 } from 'uuid';
+import { ISplitter, ISplitterPort } from 'shared/networkSchema';
+import { getColorCode, getPositionColor } from '../colorCodes/standards';
+
+// PLC: planar waveguide, balanced outputs. FBT: fused biconical taper, any split ratio.
+export type SplitterTechnology = 'PLC' | 'FBT';
+
+export type SplitterModel = {
+    id: string;
+    // "PLC 1×8", "FBT 1×2 70/30"
+    name: string;
+    technology: SplitterTechnology;
+    inputs: number;
+    outputs: number;
+    // Share of the input power per output, percent
+    ratios: number[];
+    // Nominal insertion loss per output, dB
+    losses: number[];
+};
+
+// Datasheet maximums of the common PLC sizes, dB
+const PLC_LOSS: Record<string, number> = {
+    '1x2': 4.0, '1x4': 7.3, '1x8': 10.5, '1x16': 13.7, '1x32': 17.0, '1x64': 20.5,
+    '2x2': 4.2, '2x4': 7.6, '2x8': 11.0, '2x16': 14.4, '2x32': 17.8, '2x64': 21.0,
+};
+
+const PLC_OUTPUTS = [2, 4, 8, 16, 32, 64];
+
+// Excess loss of a fused coupler on top of the split itself, grows with the number of outputs
+const FBT_EXCESS_LOSS: Record<number, number> = { 2: 0.3, 3: 0.6, 4: 1.0 };
+
+const FBT_RATIOS = [[50, 50], [60, 40], [70, 30], [80, 20], [90, 10], [95, 5], [99, 1]];
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+// Within a percent of each other counts as an even split, 33.3/33.3/33.4 included
+const isBalanced = (ratios: number[]) => ratios.every(ratio => Math.abs(ratio - ratios[0]) < 1);
+
+/**
+ * Loss of an output that gets `ratio` percent of the power: the split itself plus the excess loss.
+ */
+export const getSplitLoss = (ratio: number, excessLoss: number) => round(-10 * Math.log10(ratio / 100) + excessLoss);
+
+const plcModel = (inputs: number, outputs: number): SplitterModel => ({
+    id: `plc-${inputs}x${outputs}`,
+    name: `PLC ${inputs}×${outputs}`,
+    technology: 'PLC',
+    inputs,
+    outputs,
+    ratios: Array(outputs).fill(round(100 / outputs)),
+    losses: Array(outputs).fill(PLC_LOSS[`${inputs}x${outputs}`]),
+});
+
+const fbtModel = (ratios: number[]): SplitterModel => {
+    const balanced = isBalanced(ratios);
+    return {
+        id: `fbt-1x${ratios.length}-${ratios.join('-')}`,
+        name: `FBT 1×${ratios.length}${balanced ? '' : ` ${ratios.join('/')}`}`,
+        technology: 'FBT',
+        inputs: 1,
+        outputs: ratios.length,
+        ratios,
+        losses: ratios.map(ratio => getSplitLoss(ratio, FBT_EXCESS_LOSS[ratios.length])),
+    };
+};
+
+export const SPLITTER_MODELS: SplitterModel[] = [
+    ...PLC_OUTPUTS.map(outputs => plcModel(1, outputs)),
+    ...PLC_OUTPUTS.map(outputs => plcModel(2, outputs)),
+    ...FBT_RATIOS.map(fbtModel),
+    fbtModel([33.3, 33.3, 33.4]),
+    fbtModel([25, 25, 25, 25]),
+];
+
+export const getSplitterModel = (id?: string) => SPLITTER_MODELS.find(item => item.id === id);
+
+/**
+ * Builds a splitter of the given model. Outputs are coloured in the order of the default fiber
+ * colour code and carry their ratio and nominal loss. Port ids are derived from the splitter id.
+ */
+export const createSplitterFromModel = (model: SplitterModel, name: string = model.name, id: string = v4()): ISplitter => {
+    const colorCode = getColorCode();
+    const inputs: ISplitterPort[] = Array.from({ length: model.inputs }, (_, i) => ({
+        id: `${id}-in-${i + 1}`,
+        parentId: id,
+    }));
+    const outputs: ISplitterPort[] = Array.from({ length: model.outputs }, (_, i) => ({
+        id: `${id}-out-${i + 1}`,
+        parentId: id,
+        color: getPositionColor(colorCode, i).color.color,
+        loss: model.losses[i],
+        ratio: model.ratios[i],
+    }));
+    return { id, name, model: model.id, inputs, outputs };
+};
+
+/**
+ * Label of an output for the views, e.g. "10.5 dB" or "70% 1.8 dB".
+ */
+export const getPortLossLabel = (port: ISplitterPort, model?: SplitterModel): string => {
+    if (port.loss === undefined) return '';
+    const balanced = !model || isBalanced(model.ratios);
+    return balanced || port.ratio === undefined ? `${port.loss} dB` : `${port.ratio}% ${port.loss} dB`;
+};
@@ -1,5 +1,6 @@
 // src/utils/threeJSHelpers/ConnectionManager.ts
 import * as THREE from 'three';
+import { CommandHistory } from '../history/CommandHistory';
 
 /**
  * Manages the vertical positioning of fiber connections to prevent them from overlapping.
@@ -13,6 +14,11 @@ export class ConnectionManager {
     // The starting Y-coordinate for the highest connection. Connections will be created below this point.
     private static readonly BASE_Y_LEVEL = 0;
 
+    /**
+     * @param history When given, slot changes are recorded into its open transaction.
+     */
+    constructor(private readonly history?: CommandHistory) { }
+
     /**
      * Finds the first available vertical slot, marks it as occupied, and returns its index.
      * @returns The index of the acquired slot.
@@ -24,6 +30,11 @@ export class ConnectionManager {
         }
         this.occupiedSlots.add(slotIndex);
         console.log(`[ConnectionManager] Acquired slot: ${slotIndex}`);
+        this.history?.record({
+            label: 'Acquire slot',
+            undo: () => this.occupiedSlots.delete(slotIndex),
+            redo: () => this.occupiedSlots.add(slotIndex),
+        });
         return slotIndex;
     }
 
@@ -32,8 +43,13 @@ export class ConnectionManager {
      * @param slotIndex The index of the slot to release.
      */
     public releaseSlot(slotIndex: number): void {
-        this.occupiedSlots.delete(slotIndex);
+        if (!this.occupiedSlots.delete(slotIndex)) return;
         console.log(`[ConnectionManager] Released slot: ${slotIndex}`);
+        this.history?.record({
+            label: 'Release slot',
+            undo: () => this.occupiedSlots.add(slotIndex),
+            redo: () => this.occupiedSlots.delete(slotIndex),
+        });
     }
 
     /**
@@ -2,6 +2,7 @@
 
 import * as THREE from 'three';
 import { ISplitter } from './types';
+import { getPortLossLabel, getSplitterModel } from '../splitterCatalogue/catalogue';
 
 // Define constants for splitter dimensions for easy tweaking
 const SPLITTER_WIDTH = 0.1;
@@ -12,9 +13,9 @@ const PORT_LENGTH = 0.2;
 const PORT_SPACING = 0.25;
 
 /**
- * Creates a text sprite for labeling the splitter.
+ * Creates a text sprite for labeling the splitter, `scale` shrinks it for port labels.
  */
-const createNameSprite = (text: string): THREE.Sprite => {
+const createNameSprite = (text: string, scale = 1): THREE.Sprite => {
     const canvas = document.createElement('canvas');
     const context = canvas.getContext('2d')!;
     canvas.width = 256;
@@ -28,7 +29,7 @@ const createNameSprite = (text: string): THREE.Sprite => {
     const texture = new THREE.CanvasTexture(canvas);
     const material = new THREE.SpriteMaterial({ map: texture });
     const sprite = new THREE.Sprite(material);
-    sprite.scale.set(1.5, 0.75, 1.0);
+    sprite.scale.set(1.5 * scale, 0.75 * scale, 1.0);
     return sprite;
 };
 
@@ -125,10 +126,19 @@ export const createSplitter = (splitterData: ISplitter, zPosition: number) => {
             cableId: splitterData.id,
             fiberId: port.id,
             isSplitterPort: true,
+            loss: port.loss,
         };
         
         splitterGroup.add(portMesh);
         allPortMeshes.push(portMesh);
+
+        // Nominal loss of the output, next to the port
+        const lossLabel = getPortLossLabel(port, getSplitterModel(splitterData.model));
+        if (lossLabel) {
+            const lossSprite = createNameSprite(lossLabel, 0.3);
+            lossSprite.position.set(portMesh.position.x + PORT_LENGTH / 2 + 0.25, portMesh.position.y, 0);
+            splitterGroup.add(lossSprite);
+        }
     });
 
     return {
@@ -2,9 +2,11 @@
 import * as THREE from 'three';
 import { FIBER_HEIGHT } from './OpticalCableDrawer';
 import { ConnectionManager } from './ConnectionManager';
+import { v4 } from 'uuid';
 export type ControlPointData = { x: number; y: number; z: number };
 
 export type InitialConnectionObject = {
+  id?: string;
   points: ControlPointData[];
   fiber1Id: string;
   fiber2Id: string;
@@ -15,7 +17,15 @@ export type InitialConnectionObject = {
 }
 
 
+// What setControlPointWorld changes, kept so an edit can be reverted
+export type FiberConnectionState = {
+  controlPoints: ControlPointData[];
+  slotIndex: number | undefined;
+}
+
 export class FiberConnection {
+  // Id of the connection document, shared with the 2D canvas
+  public readonly id: string;
   public fiber1: THREE.Mesh;
   public fiber2: THREE.Mesh;
   private mesh: THREE.Group;
@@ -25,7 +35,8 @@ export class FiberConnection {
   private slotIndex: number | undefined;
   private connectionManager: ConnectionManager;
 
-  constructor(fiber1: THREE.Mesh, fiber2: THREE.Mesh, connectionManager: ConnectionManager, controlPointsForConstructor?: ControlPointData[]) {
+  constructor(fiber1: THREE.Mesh, fiber2: THREE.Mesh, connectionManager: ConnectionManager, controlPointsForConstructor?: ControlPointData[], id: string = `conn-${v4()}`) {
+    this.id = id;
     this.fiber1 = fiber1;
     this.fiber2 = fiber2;
     this.controlPointsForConstructor = controlPointsForConstructor
@@ -216,6 +227,19 @@ export class FiberConnection {
     }
   }
 
+  public getState(): FiberConnectionState {
+    return { controlPoints: this.getControlPointsData(), slotIndex: this.slotIndex };
+  }
+
+  /**
+   * Puts back a state taken with getState. Slot bookkeeping is left to the ConnectionManager history.
+   */
+  public restoreState(state: FiberConnectionState): void {
+    this.controlPoints = state.controlPoints.map(p => new THREE.Vector3(p.x, p.y, p.z));
+    this.slotIndex = state.slotIndex;
+    this.update();
+  }
+
   public dispose(): void {
     console.log('[FiberConnection] Disposing connection:', this);
     if (this.slotIndex !== undefined && this.slotIndex >= 0) {
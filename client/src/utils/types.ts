@@ -1,3 +1,5 @@
+import { IAsset as IAssetFields, ICable, ICableRoute as ICableRouteFields, ICableType as ICableTypeFields, IColorCode as IColorCodeFields, IConnectionDocument, IConnectionLayout, ISplitter } from "shared/networkSchema"
+
 export interface ICredentials {
     email: string,
     password: string
@@ -12,22 +14,107 @@ export interface IRegister {
 }
 
 
+export type AccountRole = 'viewer' | 'technician' | 'planner' | 'admin'
+
+export type ProjectRole = 'viewer' | 'technician' | 'planner' | 'admin'
+
+export interface IOrganization {
+    _id: string;
+    owner: string;
+    name: string;
+}
+
+export interface IProject {
+    _id: string;
+    name: string;
+    description?: string;
+    organization: { _id: string, name: string };
+    // the current account's role in the project
+    role: ProjectRole;
+}
+
+export interface IProjectMember {
+    _id: string;
+    role: ProjectRole;
+    account: { _id: string, email: string, firstName: string, lastName: string };
+}
+
+export interface IInvitation {
+    _id: string;
+    email: string;
+    role: ProjectRole;
+    project: string | { _id: string, name: string };
+    invitedBy: string | { _id: string, firstName: string, lastName: string };
+    expiresAt: string;
+}
+
 export interface IUser {
+    _id: string,
     email: string,
     firstName: string,
     lastName: string,
-    role: string
+    role: AccountRole,
+    emailVerified?: boolean
 }
 
-export type Splitter = {
-    name: string;
-    id: string;
-    inputs: { id: string; parentId: string; color?: string }[];
-    outputs: { id: string; parentId: string; color?: string }[];
-}
+export type Splitter = ISplitter
 
 export interface MapPoint {
     id: string | number; // Unique ID for React key
     lat: number;
     lng: number;
-}
\ No newline at end of file
+}
+export type { IConnectionLayout }
+
+// The canonical splice record, see shared/networkSchema
+export type IStoredConnection = IConnectionDocument
+
+export interface IClosure {
+    _id: string;
+    name: string;
+    description?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface IClosurePlan extends IClosure {
+    schemaVersion?: number;
+    cables: ICable[];
+    splitters: Splitter[];
+    connections: IStoredConnection[];
+}
+
+export interface ICableType extends ICableTypeFields {
+    _id: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface IColorCode extends IColorCodeFields {
+    _id: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface ICableRoute extends ICableRouteFields {
+    _id: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface IAsset extends IAssetFields {
+    _id: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type ExportFormat = 'shapefile' | 'geopackage'
+
+// A GIS export built by the server, the file is downloaded once status is 'done'
+export interface IExportJob {
+    _id: string;
+    format: ExportFormat;
+    status: 'pending' | 'done' | 'failed';
+    fileName?: string;
+    error?: string;
+}
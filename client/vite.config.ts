@@ -9,6 +9,12 @@ import checker from "vite-plugin-checker"
 // https://vitejs.dev/config/
 export default defineConfig({
   base: '/usernet/',
+  // The network schema lives in ../shared next to the server
+  server: {
+    fs: {
+      allow: ['..'],
+    },
+  },
   plugins: [
     react(),
     viteTsconfigPaths(),
@@ -17,6 +23,20 @@ export default defineConfig({
     VitePWA({
       registerType: 'autoUpdate',
       includeAssets: ['favicon.ico', 'apple-touch-icon.png', 'mask-icon.svg'],
+      workbox: {
+        runtimeCaching: [
+          {
+            // Map tiles saved for offline use, the app downloads them into this cache (src/utils/offline/tiles.ts).
+            // Tiles seen while browsing are not added, so the cache only holds the areas picked.
+            urlPattern: /^https:\/\/(tile\.openstreetmap\.org|server\.arcgisonline\.com)\//,
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'map-tiles',
+              cacheableResponse: { statuses: [] },
+            },
+          },
+        ],
+      },
       manifest: {
         name: 'Vite PWA Project',
         short_name: 'Vite PWA Project',
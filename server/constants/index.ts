@@ -9,7 +9,25 @@ const MONGO_URI = `mongodb://${username}:${password}@${clusterUrl}`;
 const MONGO_OPTIONS = {}
 
 const JWT_SECRET = process.env.JWT_SECRET as string
-const JWT_EXPIRATION = process.env.JWT_EXPIRATION as string
+const JWT_EXPIRATION = process.env.JWT_EXPIRATION || '15m'
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30
+const INVITATION_TTL_DAYS = Number(process.env.INVITATION_TTL_DAYS) || 14
+const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60
+const EMAIL_VERIFICATION_TTL_HOURS = Number(process.env.EMAIL_VERIFICATION_TTL_HOURS) || 48
+const EXPORT_TTL_HOURS = Number(process.env.EXPORT_TTL_HOURS) || 24
+
+// links in emails point here
+const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173/usernet'
+
+// 'smtp' | 'file' | 'console'
+const MAIL_TRANSPORT = process.env.MAIL_TRANSPORT || 'console'
+const MAIL_FROM = process.env.MAIL_FROM || 'no-reply@localhost'
+const MAIL_DIR = process.env.MAIL_DIR || 'mails'
+const SMTP_HOST = process.env.SMTP_HOST as string
+const SMTP_PORT = Number(process.env.SMTP_PORT) || 587
+const SMTP_SECURE = process.env.SMTP_SECURE === 'true'
+const SMTP_USER = process.env.SMTP_USER as string
+const SMTP_PASSWORD = process.env.SMTP_PASSWORD as string
 
 export {
   ORIGIN,
@@ -17,5 +35,19 @@ export {
   MONGO_URI,
   MONGO_OPTIONS,
   JWT_SECRET,
-  JWT_EXPIRATION
+  JWT_EXPIRATION,
+  REFRESH_TOKEN_TTL_DAYS,
+  INVITATION_TTL_DAYS,
+  PASSWORD_RESET_TTL_MINUTES,
+  EMAIL_VERIFICATION_TTL_HOURS,
+  EXPORT_TTL_HOURS,
+  CLIENT_URL,
+  MAIL_TRANSPORT,
+  MAIL_FROM,
+  MAIL_DIR,
+  SMTP_HOST,
+  SMTP_PORT,
+  SMTP_SECURE,
+  SMTP_USER,
+  SMTP_PASSWORD,
 }
\ No newline at end of file
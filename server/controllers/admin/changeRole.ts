@@ -0,0 +1,55 @@
+import joi from 'joi';
+import { isValidObjectId } from 'mongoose';
+import { Request, Response, NextFunction } from 'express';
+import Account, { ACCOUNT_ROLES, AccountRole } from '../../models/Account';
+
+interface ChangeRoleRequest extends Request {
+  body: {
+    role: AccountRole;
+  };
+}
+
+const changeRole = async (request: ChangeRoleRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await joi
+      .object({
+        role: joi.string().valid(...ACCOUNT_ROLES).required(),
+      })
+      .validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const { accountId } = request.params;
+
+    // An admin demoting themselves could leave nobody able to undo it
+    if (accountId === request.auth?.uid) {
+      return response.status(400).json({
+        message: 'You cannot change your own role',
+      });
+    }
+
+    const foundAccount = isValidObjectId(accountId) ? await Account.findById(accountId).select('-password') : null;
+    if (!foundAccount) {
+      return response.status(404).json({
+        message: 'Account not found',
+      });
+    }
+
+    // The new role reaches the client with the next access token refresh
+    foundAccount.role = request.body.role;
+    await foundAccount.save();
+
+    response.status(200).json(foundAccount);
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { changeRole };
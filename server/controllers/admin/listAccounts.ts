@@ -0,0 +1,15 @@
+import { Request, Response, NextFunction } from 'express';
+import Account from '../../models/Account';
+
+const listAccounts = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const accounts = await Account.find().select('-password').sort({ createdAt: 1 });
+
+    response.status(200).json(accounts);
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { listAccounts };
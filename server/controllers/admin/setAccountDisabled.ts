@@ -0,0 +1,57 @@
+import joi from 'joi';
+import { isValidObjectId } from 'mongoose';
+import { Request, Response, NextFunction } from 'express';
+import Account from '../../models/Account';
+import { revokeAccountRefreshTokens } from '../../utils/refreshTokens';
+
+interface SetAccountDisabledRequest extends Request {
+  body: {
+    disabled: boolean;
+  };
+}
+
+const setAccountDisabled = async (request: SetAccountDisabledRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await joi
+      .object({
+        disabled: joi.boolean().required(),
+      })
+      .validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const { accountId } = request.params;
+
+    if (accountId === request.auth?.uid) {
+      return response.status(400).json({
+        message: 'You cannot disable your own account',
+      });
+    }
+
+    const foundAccount = isValidObjectId(accountId) ? await Account.findById(accountId).select('-password') : null;
+    if (!foundAccount) {
+      return response.status(404).json({
+        message: 'Account not found',
+      });
+    }
+
+    foundAccount.disabled = request.body.disabled;
+    await foundAccount.save();
+
+    // End every session, outstanding access tokens run out on their own
+    if (foundAccount.disabled) await revokeAccountRefreshTokens(foundAccount._id);
+
+    response.status(200).json(foundAccount);
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { setAccountDisabled };
@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+import Asset from '../../models/Asset';
+import { IAsset, assetSchema } from '../../../shared/networkSchema';
+import { findProjectClosure } from '../../utils/splicePlan';
+
+interface CreateAssetRequest extends Request {
+  body: IAsset;
+}
+
+const createAsset = async (request: CreateAssetRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await assetSchema.validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const { type, name, lat, lng, attributes, closure } = request.body;
+
+    if (closure && !(await findProjectClosure(closure, request.params.projectId))) {
+      return response.status(400).json({
+        error: closure,
+        message: 'The closure is not in this project',
+      });
+    }
+
+    const newAsset = new Asset({
+      project: request.params.projectId,
+      type,
+      name: name.trim(),
+      lat,
+      lng,
+      attributes: attributes ?? {},
+      closure: closure || undefined,
+    });
+    await newAsset.save();
+
+    response.status(201).json(newAsset);
+  } catch (error) {
+    console.error(error);
+    return response.status(500).send();
+  }
+};
+
+export { createAsset };
@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import { isValidObjectId } from 'mongoose';
+import Asset from '../../models/Asset';
+
+const deleteAsset = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const { assetId, projectId } = request.params;
+    const foundAsset = isValidObjectId(assetId) ? await Asset.findOne({ _id: assetId, project: projectId }) : null;
+    if (!foundAsset) {
+      return response.status(404).json({
+        message: 'Asset not found',
+      });
+    }
+
+    await foundAsset.deleteOne();
+
+    response.status(204).send();
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { deleteAsset };
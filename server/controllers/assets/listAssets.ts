@@ -0,0 +1,15 @@
+import { Request, Response, NextFunction } from 'express';
+import Asset from '../../models/Asset';
+
+const listAssets = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const assets = await Asset.find({ project: request.params.projectId }).sort({ createdAt: 1 });
+
+    response.status(200).json(assets);
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { listAssets };
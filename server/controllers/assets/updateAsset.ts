@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from 'express';
+import { isValidObjectId } from 'mongoose';
+import Asset from '../../models/Asset';
+import { IAsset, assetSchema } from '../../../shared/networkSchema';
+import { findProjectClosure } from '../../utils/splicePlan';
+
+interface UpdateAssetRequest extends Request {
+  body: IAsset;
+}
+
+const updateAsset = async (request: UpdateAssetRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await assetSchema.validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const { assetId, projectId } = request.params;
+    const foundAsset = isValidObjectId(assetId) ? await Asset.findOne({ _id: assetId, project: projectId }) : null;
+    if (!foundAsset) {
+      return response.status(404).json({
+        message: 'Asset not found',
+      });
+    }
+
+    const { type, name, lat, lng, attributes, closure } = request.body;
+
+    if (closure && !(await findProjectClosure(closure, projectId))) {
+      return response.status(400).json({
+        error: closure,
+        message: 'The closure is not in this project',
+      });
+    }
+
+    foundAsset.set({
+      type,
+      name: name.trim(),
+      lat,
+      lng,
+      attributes: attributes ?? {},
+      closure: closure || undefined,
+    });
+    await foundAsset.save();
+
+    response.status(200).json(foundAsset);
+  } catch (error) {
+    console.error(error);
+    return response.status(500).send();
+  }
+};
+
+export { updateAsset };
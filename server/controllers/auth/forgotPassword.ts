@@ -0,0 +1,43 @@
+import joi from 'joi';
+import { Request, Response, NextFunction } from 'express';
+import Account from '../../models/Account';
+import { sendPasswordResetEmail } from '../../utils/accountEmails';
+
+interface ForgotPasswordRequest extends Request {
+  body: {
+    email: string;
+  };
+}
+
+const forgotPassword = async (request: ForgotPasswordRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await joi
+      .object({
+        email: joi.string().email().required(),
+      })
+      .validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const foundAccount = await Account.findOne({ email: request.body.email });
+    if (foundAccount && !foundAccount.disabled) {
+      await sendPasswordResetEmail(foundAccount);
+    }
+
+    // Same answer whether or not the account exists, so emails can't be probed
+    response.status(200).json({
+      message: 'If an account exists for this email, a reset link is on its way',
+    });
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { forgotPassword };
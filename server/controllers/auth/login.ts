@@ -2,6 +2,7 @@ import joi from 'joi';
 import bcrypt from 'bcrypt';
 import { Request, Response, NextFunction } from 'express';
 import { signToken } from '../../middlewares/jsonwebtoken';
+import { issueRefreshToken } from '../../utils/refreshTokens';
 import Account, { IAccount } from '../../models/Account';
 
 interface LoginRequest extends Request {
@@ -45,6 +46,12 @@ const login = async (request: LoginRequest, response: Response, next: NextFuncti
         message: 'Bad credentials',
       });
     }
+
+    if (foundAccount.disabled) {
+      return response.status(403).json({
+        message: 'Account is disabled',
+      });
+    }
     const foundAccountClone = foundAccount.toObject() as Partial<IAccount>
     // Remove password from response data
     foundAccountClone.password = undefined;
@@ -52,10 +59,12 @@ const login = async (request: LoginRequest, response: Response, next: NextFuncti
 
     // Generate access token
     const token = signToken({ uid: foundAccountClone._id, role: foundAccountClone.role });
+    const refreshToken = await issueRefreshToken(foundAccountClone._id as string);
 
     response.status(200).json({
       ...foundAccountClone,
       token,
+      refreshToken,
     });
   } catch (error) {
     console.error(error);
@@ -0,0 +1,36 @@
+import joi from 'joi';
+import { Request, Response, NextFunction } from 'express';
+import { revokeRefreshToken } from '../../utils/refreshTokens';
+
+interface LogoutRequest extends Request {
+  body: {
+    refreshToken: string;
+  };
+}
+
+const logout = async (request: LogoutRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await joi
+      .object({
+        refreshToken: joi.string().required(),
+      })
+      .validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    // Unknown tokens are ignored so logging out twice is harmless
+    await revokeRefreshToken(request.body.refreshToken);
+    response.status(204).send();
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { logout };
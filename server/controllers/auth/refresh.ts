@@ -0,0 +1,58 @@
+import joi from 'joi';
+import { Request, Response, NextFunction } from 'express';
+import { signToken } from '../../middlewares/jsonwebtoken';
+import { revokeRefreshToken, rotateRefreshToken } from '../../utils/refreshTokens';
+import Account from '../../models/Account';
+
+interface RefreshRequest extends Request {
+  body: {
+    refreshToken: string;
+  };
+}
+
+const refresh = async (request: RefreshRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await joi
+      .object({
+        refreshToken: joi.string().required(),
+      })
+      .validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const rotated = await rotateRefreshToken(request.body.refreshToken);
+    if (!rotated) {
+      return response.status(401).json({
+        message: 'Unauthorized - invalid refresh token',
+      });
+    }
+
+    // Role may have changed since the last token was signed
+    const foundAccount = await Account.findById(rotated.accountId);
+    if (!foundAccount || foundAccount.disabled) {
+      await revokeRefreshToken(rotated.refreshToken);
+      return response.status(401).json({
+        message: 'Unauthorized - invalid refresh token',
+      });
+    }
+
+    // Generate access token
+    const token = signToken({ uid: foundAccount._id, role: foundAccount.role });
+
+    response.status(200).json({
+      token,
+      refreshToken: rotated.refreshToken,
+    });
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { refresh };
@@ -3,6 +3,9 @@ import bcrypt from 'bcrypt';
 import { Request, Response, NextFunction } from 'express';
 import Account, { IAccount } from '../../models/Account';
 import { signToken } from '../../middlewares/jsonwebtoken';
+import { issueRefreshToken } from '../../utils/refreshTokens';
+import { createPersonalWorkspace } from '../../utils/workspaces';
+import { sendVerificationEmail } from '../../utils/accountEmails';
 
 interface RegisterRequest extends Request {
   body: {
@@ -63,6 +66,8 @@ const register = async (request: RegisterRequest, response: Response, next: Next
       password: hash
     });
     await newAccount.save();
+    await createPersonalWorkspace(newAccount._id);
+    await sendVerificationEmail(newAccount);
 
     const newAccountClone = newAccount.toObject() as Partial<IAccount>
     // Remove password from response data
@@ -74,10 +79,12 @@ const register = async (request: RegisterRequest, response: Response, next: Next
 
     // Generate access token
     const token = signToken({ uid: newAccountClone._id, role: newAccountClone.role });
+    const refreshToken = await issueRefreshToken(newAccountClone._id as string);
 
     response.status(201).json({
       ...newAccountClone,
       token,
+      refreshToken,
     });
   } catch (error) {
     console.error(error);
@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import Account from '../../models/Account';
+import { sendVerificationEmail } from '../../utils/accountEmails';
+
+const resendVerification = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const foundAccount = await Account.findById(request.auth?.uid);
+    if (!foundAccount) {
+      return response.status(404).json({
+        message: 'Account not found',
+      });
+    }
+
+    if (foundAccount.emailVerified) {
+      return response.status(400).json({
+        message: 'Email address is already confirmed',
+      });
+    }
+
+    await sendVerificationEmail(foundAccount);
+
+    response.status(200).json({
+      message: 'Verification email sent',
+    });
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { resendVerification };
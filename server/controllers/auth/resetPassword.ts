@@ -0,0 +1,62 @@
+import joi from 'joi';
+import bcrypt from 'bcrypt';
+import { Request, Response, NextFunction } from 'express';
+import Account from '../../models/Account';
+import { consumeActionToken } from '../../utils/actionTokens';
+import { revokeAccountRefreshTokens } from '../../utils/refreshTokens';
+
+interface ResetPasswordRequest extends Request {
+  body: {
+    token: string;
+    password: string;
+    confirmPassword: string;
+  };
+}
+
+const resetPassword = async (request: ResetPasswordRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await joi
+      .object({
+        token: joi.string().required(),
+        password: joi.string().required(),
+        confirmPassword: joi.string().valid(joi.ref('password')).required()
+          .messages({ 'any.only': 'Passwords do not match' }),
+      })
+      .validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const actionToken = await consumeActionToken(request.body.token, 'reset-password');
+    const foundAccount = actionToken && await Account.findById(actionToken.account);
+    if (!foundAccount) {
+      return response.status(400).json({
+        message: 'The reset link is invalid or has expired',
+      });
+    }
+
+    // Encrypt password
+    const salt = await bcrypt.genSalt(10);
+    foundAccount.password = await bcrypt.hash(request.body.password, salt);
+    // Receiving the mail proves the address as well
+    foundAccount.emailVerified = true;
+    await foundAccount.save();
+
+    // Sign out every session that may have been opened with the old password
+    await revokeAccountRefreshTokens(foundAccount._id);
+
+    response.status(200).json({
+      message: 'Password updated, you can log in now',
+    });
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { resetPassword };
@@ -0,0 +1,45 @@
+import joi from 'joi';
+import { Request, Response, NextFunction } from 'express';
+import Account from '../../models/Account';
+import { consumeActionToken } from '../../utils/actionTokens';
+
+interface VerifyEmailRequest extends Request {
+  body: {
+    token: string;
+  };
+}
+
+const verifyEmail = async (request: VerifyEmailRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await joi
+      .object({
+        token: joi.string().required(),
+      })
+      .validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const actionToken = await consumeActionToken(request.body.token, 'verify-email');
+    const foundAccount = actionToken && await Account.findByIdAndUpdate(actionToken.account, { emailVerified: true });
+    if (!foundAccount) {
+      return response.status(400).json({
+        message: 'The verification link is invalid or has expired',
+      });
+    }
+
+    response.status(200).json({
+      message: 'Email address confirmed',
+    });
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { verifyEmail };
@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction } from 'express';
+import CableRoute from '../../models/CableRoute';
+import { ICableRoute, cableRouteSchema } from '../../../shared/networkSchema';
+import { isValidCableLink } from '../../utils/cableRoutes';
+
+interface CreateCableRouteRequest extends Request {
+  body: ICableRoute;
+}
+
+const createCableRoute = async (request: CreateCableRouteRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await cableRouteSchema.validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const { name, points, length, closure, cableId, toClosure, toCableId, estimate } = request.body;
+
+    if (!(await isValidCableLink(request.params.projectId, closure, cableId))) {
+      return response.status(400).json({
+        error: cableId,
+        message: 'The cable is not in a closure of this project',
+      });
+    }
+
+    if (!(await isValidCableLink(request.params.projectId, toClosure, toCableId))) {
+      return response.status(400).json({
+        error: toCableId,
+        message: 'The cable at the far end is not in a closure of this project',
+      });
+    }
+
+    if (toClosure && toClosure === closure) {
+      return response.status(400).json({
+        error: toClosure,
+        message: 'A route runs between two different closures',
+      });
+    }
+
+    const newCableRoute = new CableRoute({
+      project: request.params.projectId,
+      name: name.trim(),
+      points,
+      length,
+      closure: closure || undefined,
+      cableId: cableId || undefined,
+      toClosure: toClosure || undefined,
+      toCableId: toCableId || undefined,
+      estimate: estimate || undefined,
+    });
+    await newCableRoute.save();
+
+    response.status(201).json(newCableRoute);
+  } catch (error) {
+    console.error(error);
+    return response.status(500).send();
+  }
+};
+
+export { createCableRoute };
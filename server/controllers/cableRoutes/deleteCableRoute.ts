@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import { isValidObjectId } from 'mongoose';
+import CableRoute from '../../models/CableRoute';
+
+const deleteCableRoute = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const { cableRouteId, projectId } = request.params;
+    const foundCableRoute = isValidObjectId(cableRouteId) ? await CableRoute.findOne({ _id: cableRouteId, project: projectId }) : null;
+    if (!foundCableRoute) {
+      return response.status(404).json({
+        message: 'Cable route not found',
+      });
+    }
+
+    await foundCableRoute.deleteOne();
+
+    response.status(204).send();
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { deleteCableRoute };
@@ -0,0 +1,15 @@
+import { Request, Response, NextFunction } from 'express';
+import CableRoute from '../../models/CableRoute';
+
+const listCableRoutes = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const cableRoutes = await CableRoute.find({ project: request.params.projectId }).sort({ createdAt: 1 });
+
+    response.status(200).json(cableRoutes);
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { listCableRoutes };
@@ -0,0 +1,73 @@
+import { Request, Response, NextFunction } from 'express';
+import { isValidObjectId } from 'mongoose';
+import CableRoute from '../../models/CableRoute';
+import { ICableRoute, cableRouteSchema } from '../../../shared/networkSchema';
+import { isValidCableLink } from '../../utils/cableRoutes';
+
+interface UpdateCableRouteRequest extends Request {
+  body: ICableRoute;
+}
+
+const updateCableRoute = async (request: UpdateCableRouteRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await cableRouteSchema.validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const { cableRouteId, projectId } = request.params;
+    const foundCableRoute = isValidObjectId(cableRouteId) ? await CableRoute.findOne({ _id: cableRouteId, project: projectId }) : null;
+    if (!foundCableRoute) {
+      return response.status(404).json({
+        message: 'Cable route not found',
+      });
+    }
+
+    const { name, points, length, closure, cableId, toClosure, toCableId, estimate } = request.body;
+
+    if (!(await isValidCableLink(projectId, closure, cableId))) {
+      return response.status(400).json({
+        error: cableId,
+        message: 'The cable is not in a closure of this project',
+      });
+    }
+
+    if (!(await isValidCableLink(projectId, toClosure, toCableId))) {
+      return response.status(400).json({
+        error: toCableId,
+        message: 'The cable at the far end is not in a closure of this project',
+      });
+    }
+
+    if (toClosure && toClosure === closure) {
+      return response.status(400).json({
+        error: toClosure,
+        message: 'A route runs between two different closures',
+      });
+    }
+
+    foundCableRoute.set({
+      name: name.trim(),
+      points,
+      length,
+      closure: closure || undefined,
+      cableId: cableId || undefined,
+      toClosure: toClosure || undefined,
+      toCableId: toCableId || undefined,
+      estimate: estimate || undefined,
+    });
+    await foundCableRoute.save();
+
+    response.status(200).json(foundCableRoute);
+  } catch (error) {
+    console.error(error);
+    return response.status(500).send();
+  }
+};
+
+export { updateCableRoute };
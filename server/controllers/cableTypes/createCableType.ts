@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import CableType from '../../models/CableType';
+import { ICableType, cableTypeSchema } from '../../../shared/networkSchema';
+
+interface CreateCableTypeRequest extends Request {
+  body: ICableType;
+}
+
+const createCableType = async (request: CreateCableTypeRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await cableTypeSchema.validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const { name, fiberCount, tubeCount, fibersPerTube, colorStandard, sheathColor, outerDiameter } = request.body;
+
+    // Names identify products in the builder, one of each per project
+    const existing = await CableType.findOne({ project: request.params.projectId, name: name.trim() });
+    if (existing) {
+      return response.status(400).json({
+        error: name,
+        message: 'A cable type with this name already exists',
+      });
+    }
+
+    const newCableType = new CableType({
+      project: request.params.projectId,
+      name: name.trim(),
+      fiberCount,
+      tubeCount,
+      fibersPerTube,
+      colorStandard,
+      sheathColor,
+      outerDiameter,
+    });
+    await newCableType.save();
+
+    response.status(201).json(newCableType);
+  } catch (error) {
+    console.error(error);
+    return response.status(500).send();
+  }
+};
+
+export { createCableType };
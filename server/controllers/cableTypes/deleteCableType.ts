@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import { isValidObjectId } from 'mongoose';
+import CableType from '../../models/CableType';
+
+const deleteCableType = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const { cableTypeId, projectId } = request.params;
+    const foundCableType = isValidObjectId(cableTypeId) ? await CableType.findOne({ _id: cableTypeId, project: projectId }) : null;
+    if (!foundCableType) {
+      return response.status(404).json({
+        message: 'Cable type not found',
+      });
+    }
+
+    await foundCableType.deleteOne();
+
+    response.status(204).send();
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { deleteCableType };
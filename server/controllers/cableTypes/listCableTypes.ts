@@ -0,0 +1,15 @@
+import { Request, Response, NextFunction } from 'express';
+import CableType from '../../models/CableType';
+
+const listCableTypes = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const cableTypes = await CableType.find({ project: request.params.projectId }).sort({ name: 1 });
+
+    response.status(200).json(cableTypes);
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { listCableTypes };
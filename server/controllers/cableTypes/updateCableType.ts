@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from 'express';
+import { isValidObjectId } from 'mongoose';
+import CableType from '../../models/CableType';
+import { ICableType, cableTypeSchema } from '../../../shared/networkSchema';
+
+interface UpdateCableTypeRequest extends Request {
+  body: ICableType;
+}
+
+/**
+ * Replaces a catalogue entry. Cables already added to closures keep the fibers they were generated with.
+ */
+const updateCableType = async (request: UpdateCableTypeRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await cableTypeSchema.validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const { cableTypeId, projectId } = request.params;
+    const foundCableType = isValidObjectId(cableTypeId) ? await CableType.findOne({ _id: cableTypeId, project: projectId }) : null;
+    if (!foundCableType) {
+      return response.status(404).json({
+        message: 'Cable type not found',
+      });
+    }
+
+    const { name, fiberCount, tubeCount, fibersPerTube, colorStandard, sheathColor, outerDiameter } = request.body;
+
+    const duplicate = await CableType.findOne({ project: projectId, name: name.trim(), _id: { $ne: foundCableType._id } });
+    if (duplicate) {
+      return response.status(400).json({
+        error: name,
+        message: 'A cable type with this name already exists',
+      });
+    }
+
+    foundCableType.set({ name: name.trim(), fiberCount, tubeCount, fibersPerTube, colorStandard, sheathColor, outerDiameter });
+    await foundCableType.save();
+
+    response.status(200).json(foundCableType);
+  } catch (error) {
+    console.error(error);
+    return response.status(500).send();
+  }
+};
+
+export { updateCableType };
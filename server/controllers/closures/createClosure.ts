@@ -0,0 +1,55 @@
+import joi from 'joi';
+import { Request, Response, NextFunction } from 'express';
+import Closure from '../../models/Closure';
+import { SplicePlan, loadSplicePlan, replaceSplicePlan, splicePlanValidators } from '../../utils/splicePlan';
+
+interface CreateClosureRequest extends Request {
+  body: Partial<SplicePlan> & {
+    name: string;
+    description?: string;
+  };
+}
+
+const createClosure = async (request: CreateClosureRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await joi
+      .object({
+        name: joi.string().required(),
+        description: joi.string().allow(''),
+        ...splicePlanValidators,
+      })
+      .validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const { name, description, cables, splitters, connections } = request.body;
+
+    // Create closure, optionally with an initial splice plan
+    const newClosure = new Closure({
+      project: request.params.projectId,
+      owner: request.auth?.uid,
+      name,
+      description,
+    });
+    await newClosure.save();
+    await replaceSplicePlan(newClosure._id, newClosure.project, { cables, splitters, connections });
+
+    const plan = await loadSplicePlan(newClosure._id, newClosure.project);
+
+    response.status(201).json({
+      ...newClosure.toObject(),
+      ...plan,
+    });
+  } catch (error) {
+    console.error(error);
+    return response.status(500).send();
+  }
+};
+
+export { createClosure };
@@ -0,0 +1,23 @@
+import { Request, Response, NextFunction } from 'express';
+import { deleteSplicePlan, findProjectClosure } from '../../utils/splicePlan';
+
+const deleteClosure = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const foundClosure = await findProjectClosure(request.params.closureId, request.params.projectId);
+    if (!foundClosure) {
+      return response.status(404).json({
+        message: 'Closure not found',
+      });
+    }
+
+    await deleteSplicePlan(foundClosure._id, foundClosure.project);
+    await foundClosure.deleteOne();
+
+    response.status(204).send();
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { deleteClosure };
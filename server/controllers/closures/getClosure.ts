@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express';
+import { findProjectClosure, loadSplicePlan } from '../../utils/splicePlan';
+
+const getClosure = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const foundClosure = await findProjectClosure(request.params.closureId, request.params.projectId);
+    if (!foundClosure) {
+      return response.status(404).json({
+        message: 'Closure not found',
+      });
+    }
+
+    const plan = await loadSplicePlan(foundClosure._id, foundClosure.project);
+
+    response.status(200).json({
+      ...foundClosure.toObject(),
+      ...plan,
+    });
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { getClosure };
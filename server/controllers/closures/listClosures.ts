@@ -0,0 +1,15 @@
+import { Request, Response, NextFunction } from 'express';
+import Closure from '../../models/Closure';
+
+const listClosures = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const closures = await Closure.find({ project: request.params.projectId }).sort({ createdAt: 1 });
+
+    response.status(200).json(closures);
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { listClosures };
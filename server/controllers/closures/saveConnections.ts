@@ -0,0 +1,63 @@
+import joi from 'joi';
+import { Request, Response, NextFunction } from 'express';
+import { SplicePlan, splicePlanValidators, findProjectClosure, loadSplicePlan, replaceSplicePlan } from '../../utils/splicePlan';
+
+interface SaveConnectionsRequest extends Request {
+  body: {
+    connections: SplicePlan['connections'];
+    // updatedAt of the closure the connections were edited on
+    baseUpdatedAt?: string;
+  };
+}
+
+const saveConnections = async (request: SaveConnectionsRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await joi
+      .object({
+        connections: splicePlanValidators.connections.required(),
+        schemaVersion: splicePlanValidators.schemaVersion,
+        baseUpdatedAt: joi.date().iso(),
+      })
+      .validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const foundClosure = await findProjectClosure(request.params.closureId, request.params.projectId);
+    if (!foundClosure) {
+      return response.status(404).json({
+        message: 'Closure not found',
+      });
+    }
+
+    // A device that was offline would otherwise undo what others saved to the closure in the meantime
+    const { baseUpdatedAt } = request.body;
+    if (baseUpdatedAt && foundClosure.updatedAt.getTime() !== new Date(baseUpdatedAt).getTime()) {
+      return response.status(409).json({
+        error: 'ConflictError',
+        message: 'The splice plan was changed since it was loaded',
+      });
+    }
+
+    await replaceSplicePlan(foundClosure._id, foundClosure.project, { connections: request.body.connections });
+    foundClosure.updatedAt = new Date();
+    await foundClosure.save();
+
+    const plan = await loadSplicePlan(foundClosure._id, foundClosure.project);
+
+    response.status(200).json({
+      ...foundClosure.toObject(),
+      ...plan,
+    });
+  } catch (error) {
+    console.error(error);
+    return response.status(500).send();
+  }
+};
+
+export { saveConnections };
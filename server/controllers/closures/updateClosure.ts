@@ -0,0 +1,59 @@
+import joi from 'joi';
+import { Request, Response, NextFunction } from 'express';
+import { SplicePlan, findProjectClosure, loadSplicePlan, replaceSplicePlan, splicePlanValidators } from '../../utils/splicePlan';
+
+interface UpdateClosureRequest extends Request {
+  body: Partial<SplicePlan> & {
+    name?: string;
+    description?: string;
+  };
+}
+
+const updateClosure = async (request: UpdateClosureRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await joi
+      .object({
+        name: joi.string(),
+        description: joi.string().allow(''),
+        ...splicePlanValidators,
+      })
+      .validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const { name, description, cables, splitters, connections } = request.body;
+
+    const foundClosure = await findProjectClosure(request.params.closureId, request.params.projectId);
+    if (!foundClosure) {
+      return response.status(404).json({
+        message: 'Closure not found',
+      });
+    }
+
+    if (name !== undefined) foundClosure.name = name;
+    if (description !== undefined) foundClosure.description = description;
+
+    // Only the sections present in the body are replaced
+    await replaceSplicePlan(foundClosure._id, foundClosure.project, { cables, splitters, connections });
+    if (cables || splitters || connections) foundClosure.updatedAt = new Date();
+    await foundClosure.save();
+
+    const plan = await loadSplicePlan(foundClosure._id, foundClosure.project);
+
+    response.status(200).json({
+      ...foundClosure.toObject(),
+      ...plan,
+    });
+  } catch (error) {
+    console.error(error);
+    return response.status(500).send();
+  }
+};
+
+export { updateClosure };
@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import ColorCode from '../../models/ColorCode';
+import { IColorCode, colorCodeSchema } from '../../../shared/networkSchema';
+
+interface CreateColorCodeRequest extends Request {
+  body: IColorCode;
+}
+
+const createColorCode = async (request: CreateColorCodeRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await colorCodeSchema.validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const { id, name, colors, marking, markColor, markFallback } = request.body;
+
+    // Cable types refer to the id, one of each per project
+    const existing = await ColorCode.findOne({ project: request.params.projectId, id: id.trim() });
+    if (existing) {
+      return response.status(400).json({
+        error: id,
+        message: 'A colour code with this id already exists',
+      });
+    }
+
+    const newColorCode = new ColorCode({
+      project: request.params.projectId,
+      id: id.trim(),
+      name: name.trim(),
+      colors,
+      marking,
+      markColor,
+      markFallback,
+    });
+    await newColorCode.save();
+
+    response.status(201).json(newColorCode);
+  } catch (error) {
+    console.error(error);
+    return response.status(500).send();
+  }
+};
+
+export { createColorCode };
@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from 'express';
+import ColorCode from '../../models/ColorCode';
+import CableType from '../../models/CableType';
+
+const deleteColorCode = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const { colorCodeId, projectId } = request.params;
+    const foundColorCode = await ColorCode.findOne({ project: projectId, id: colorCodeId });
+    if (!foundColorCode) {
+      return response.status(404).json({
+        message: 'Colour code not found',
+      });
+    }
+
+    // A cable type left without its code would quietly fall back to TIA-598-C
+    const usedBy = await CableType.findOne({ project: projectId, colorStandard: colorCodeId });
+    if (usedBy) {
+      return response.status(400).json({
+        error: usedBy.name,
+        message: `The colour code is used by the cable type ${usedBy.name}`,
+      });
+    }
+
+    await foundColorCode.deleteOne();
+
+    response.status(204).send();
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { deleteColorCode };
@@ -0,0 +1,15 @@
+import { Request, Response, NextFunction } from 'express';
+import ColorCode from '../../models/ColorCode';
+
+const listColorCodes = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const colorCodes = await ColorCode.find({ project: request.params.projectId }).sort({ name: 1 });
+
+    response.status(200).json(colorCodes);
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { listColorCodes };
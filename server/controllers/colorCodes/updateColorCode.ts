@@ -0,0 +1,44 @@
+import { Request, Response, NextFunction } from 'express';
+import ColorCode from '../../models/ColorCode';
+import { IColorCode, colorCodeSchema } from '../../../shared/networkSchema';
+
+interface UpdateColorCodeRequest extends Request {
+  body: IColorCode;
+}
+
+/**
+ * Replaces a company colour code. The id stays, cable types keep pointing at it.
+ * Fibers already generated keep their colours.
+ */
+const updateColorCode = async (request: UpdateColorCodeRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await colorCodeSchema.validateAsync({ ...request.body, id: request.params.colorCodeId });
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const { colorCodeId, projectId } = request.params;
+    const foundColorCode = await ColorCode.findOne({ project: projectId, id: colorCodeId });
+    if (!foundColorCode) {
+      return response.status(404).json({
+        message: 'Colour code not found',
+      });
+    }
+
+    const { name, colors, marking, markColor, markFallback } = request.body;
+    foundColorCode.set({ name: name.trim(), colors, marking, markColor, markFallback });
+    await foundColorCode.save();
+
+    response.status(200).json(foundColorCode);
+  } catch (error) {
+    console.error(error);
+    return response.status(500).send();
+  }
+};
+
+export { updateColorCode };
@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import joi from 'joi';
+import ExportJob, { ExportFormat } from '../../models/ExportJob';
+import { EXPORT_TTL_HOURS } from '../../constants';
+import { runExportJob } from '../../utils/gisExport/exportJob';
+
+interface CreateExportRequest extends Request {
+  body: {
+    format: ExportFormat;
+  };
+}
+
+const createExportSchema = joi.object({
+  format: joi.string().valid('shapefile', 'geopackage').required(),
+});
+
+const createExport = async (request: CreateExportRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await createExportSchema.validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const job = new ExportJob({
+      project: request.params.projectId,
+      account: request.auth?.uid,
+      format: request.body.format,
+      expiresAt: new Date(Date.now() + EXPORT_TTL_HOURS * 60 * 60 * 1000),
+    });
+    await job.save();
+
+    // The file is built in the background, the client polls the job
+    runExportJob(String(job._id));
+
+    response.status(202).json({
+      _id: job._id,
+      format: job.format,
+      status: job.status,
+    });
+  } catch (error) {
+    console.error(error);
+    return response.status(500).send();
+  }
+};
+
+export { createExport };
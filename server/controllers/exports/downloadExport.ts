@@ -0,0 +1,39 @@
+import { Request, Response, NextFunction } from 'express';
+import { isValidObjectId } from 'mongoose';
+import ExportJob from '../../models/ExportJob';
+import { openExportFile } from '../../utils/gisExport/exportFiles';
+
+const CONTENT_TYPES = {
+  shapefile: 'application/zip',
+  geopackage: 'application/geopackage+sqlite3',
+};
+
+const downloadExport = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const { exportId, projectId } = request.params;
+    const foundJob = isValidObjectId(exportId)
+      ? await ExportJob.findOne({ _id: exportId, project: projectId, status: 'done' })
+      : null;
+    if (!foundJob || !foundJob.fileId) {
+      return response.status(404).json({
+        message: 'Export not found',
+      });
+    }
+
+    response.attachment(foundJob.fileName);
+    response.type(CONTENT_TYPES[foundJob.format]);
+    openExportFile(foundJob.fileId)
+      .once('error', (error) => {
+        console.error(error);
+        // The file may already be on its way, only a response not yet started can still say so
+        if (response.headersSent) response.end();
+        else response.status(404).json({ message: 'Export not found' });
+      })
+      .pipe(response.status(200));
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { downloadExport };
@@ -0,0 +1,28 @@
+import { Request, Response, NextFunction } from 'express';
+import { isValidObjectId } from 'mongoose';
+import ExportJob from '../../models/ExportJob';
+
+const getExport = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const { exportId, projectId } = request.params;
+    const foundJob = isValidObjectId(exportId) ? await ExportJob.findOne({ _id: exportId, project: projectId }) : null;
+    if (!foundJob) {
+      return response.status(404).json({
+        message: 'Export not found',
+      });
+    }
+
+    response.status(200).json({
+      _id: foundJob._id,
+      format: foundJob.format,
+      status: foundJob.status,
+      fileName: foundJob.fileName,
+      error: foundJob.error,
+    });
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { getExport };
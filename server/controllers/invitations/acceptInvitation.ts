@@ -0,0 +1,56 @@
+import { isValidObjectId } from 'mongoose';
+import { Request, Response, NextFunction } from 'express';
+import Invitation from '../../models/Invitation';
+import Membership from '../../models/Membership';
+import Project from '../../models/Project';
+import Account from '../../models/Account';
+
+const acceptInvitation = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const { invitationId } = request.params;
+
+    const foundAccount = await Account.findById(request.auth?.uid);
+    // Registering doesn't prove the address, joining a project needs it confirmed
+    if (foundAccount && !foundAccount.emailVerified) {
+      return response.status(403).json({
+        message: 'Forbidden - email address is not verified',
+      });
+    }
+
+    // Invitations are addressed to an email, only the account owning it may accept
+    const foundInvitation = foundAccount && isValidObjectId(invitationId)
+      ? await Invitation.findOne({
+        _id: invitationId,
+        email: foundAccount.email.toLowerCase(),
+        acceptedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      })
+      : null;
+    if (!foundAccount || !foundInvitation) {
+      return response.status(404).json({
+        message: 'Invitation not found',
+      });
+    }
+
+    const membership = await Membership.findOneAndUpdate(
+      { project: foundInvitation.project, account: foundAccount._id },
+      { role: foundInvitation.role },
+      { new: true, upsert: true }
+    );
+
+    foundInvitation.acceptedAt = new Date();
+    await foundInvitation.save();
+
+    const project = await Project.findById(foundInvitation.project).populate('organization', 'name');
+
+    response.status(200).json({
+      ...project?.toObject(),
+      role: membership.role,
+    });
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { acceptInvitation };
@@ -0,0 +1,71 @@
+import joi from 'joi';
+import { Request, Response, NextFunction } from 'express';
+import Invitation from '../../models/Invitation';
+import Membership, { PROJECT_ROLES, ProjectRole } from '../../models/Membership';
+import Account from '../../models/Account';
+import Project from '../../models/Project';
+import { INVITATION_TTL_DAYS } from '../../constants';
+import mailer, { projectInvitationMessage } from '../../utils/mailer';
+
+interface CreateInvitationRequest extends Request {
+  body: {
+    email: string;
+    role: ProjectRole;
+  };
+}
+
+const createInvitation = async (request: CreateInvitationRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await joi
+      .object({
+        email: joi.string().email().required(),
+        role: joi.string().valid(...PROJECT_ROLES).required(),
+      })
+      .validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const { projectId } = request.params;
+    const email = request.body.email.toLowerCase();
+
+    const existingAccount = await Account.findOne({ email });
+    if (existingAccount && await Membership.exists({ project: projectId, account: existingAccount._id })) {
+      return response.status(400).json({
+        error: email,
+        message: 'This account is already a member of the project',
+      });
+    }
+
+    // Inviting the same email again refreshes the pending invitation instead of stacking a new one
+    const invitation = await Invitation.findOneAndUpdate(
+      { project: projectId, email, acceptedAt: { $exists: false } },
+      {
+        role: request.body.role,
+        invitedBy: request.auth?.uid,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+      },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+
+    // The invitation stands even if the mail can't be delivered, the invitee sees it after logging in
+    try {
+      const [project, inviter] = await Promise.all([Project.findById(projectId), Account.findById(request.auth?.uid)]);
+      await mailer.send(projectInvitationMessage(email, project?.name ?? '', `${inviter?.firstName} ${inviter?.lastName}`));
+    } catch (error) {
+      console.error(error);
+    }
+
+    response.status(201).json(invitation);
+  } catch (error) {
+    console.error(error);
+    return response.status(500).send();
+  }
+};
+
+export { createInvitation };
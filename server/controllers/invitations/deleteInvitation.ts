@@ -0,0 +1,41 @@
+import { isValidObjectId } from 'mongoose';
+import { Request, Response, NextFunction } from 'express';
+import Invitation from '../../models/Invitation';
+import Account from '../../models/Account';
+
+// Used both by the invitee to decline and by a project admin to revoke
+const deleteInvitation = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const { invitationId, projectId } = request.params;
+    if (!isValidObjectId(invitationId)) {
+      return response.status(404).json({
+        message: 'Invitation not found',
+      });
+    }
+
+    let filter: Record<string, unknown> = { _id: invitationId, project: projectId };
+    if (!projectId) {
+      const foundAccount = await Account.findById(request.auth?.uid);
+      if (!foundAccount) {
+        return response.status(404).json({
+          message: 'Invitation not found',
+        });
+      }
+      filter = { _id: invitationId, email: foundAccount.email.toLowerCase() };
+    }
+
+    const { deletedCount } = await Invitation.deleteOne({ ...filter, acceptedAt: { $exists: false } });
+    if (!deletedCount) {
+      return response.status(404).json({
+        message: 'Invitation not found',
+      });
+    }
+
+    response.status(204).send();
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { deleteInvitation };
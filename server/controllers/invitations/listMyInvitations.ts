@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import Invitation from '../../models/Invitation';
+import Account from '../../models/Account';
+
+const listMyInvitations = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const foundAccount = await Account.findById(request.auth?.uid);
+    if (!foundAccount) {
+      return response.status(404).json({
+        message: 'Account not found',
+      });
+    }
+
+    // Anyone can register an address, an invitation goes only to whoever proved they own it
+    if (!foundAccount.emailVerified) {
+      return response.status(200).json([]);
+    }
+
+    const invitations = await Invitation.find({
+      email: foundAccount.email.toLowerCase(),
+      acceptedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    })
+      .populate('project', 'name')
+      .populate('invitedBy', 'firstName lastName')
+      .sort({ createdAt: 1 });
+
+    response.status(200).json(invitations);
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { listMyInvitations };
@@ -0,0 +1,19 @@
+import { Request, Response, NextFunction } from 'express';
+import Invitation from '../../models/Invitation';
+
+const listProjectInvitations = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const invitations = await Invitation.find({
+      project: request.params.projectId,
+      acceptedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    }).sort({ createdAt: 1 });
+
+    response.status(200).json(invitations);
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { listProjectInvitations };
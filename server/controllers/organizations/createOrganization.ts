@@ -0,0 +1,40 @@
+import joi from 'joi';
+import { Request, Response, NextFunction } from 'express';
+import Organization from '../../models/Organization';
+
+interface CreateOrganizationRequest extends Request {
+  body: {
+    name: string;
+  };
+}
+
+const createOrganization = async (request: CreateOrganizationRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await joi
+      .object({
+        name: joi.string().required(),
+      })
+      .validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const newOrganization = new Organization({
+      owner: request.auth?.uid,
+      name: request.body.name,
+    });
+    await newOrganization.save();
+
+    response.status(201).json(newOrganization);
+  } catch (error) {
+    console.error(error);
+    return response.status(500).send();
+  }
+};
+
+export { createOrganization };
@@ -0,0 +1,23 @@
+import { Request, Response, NextFunction } from 'express';
+import Organization from '../../models/Organization';
+import Membership from '../../models/Membership';
+import Project from '../../models/Project';
+
+const listOrganizations = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    // Owned organizations plus the ones the account reaches through a project membership
+    const memberships = await Membership.find({ account: request.auth?.uid });
+    const memberOrganizationIds = await Project.find({ _id: { $in: memberships.map(item => item.project) } }).distinct('organization');
+
+    const organizations = await Organization.find({
+      $or: [{ owner: request.auth?.uid }, { _id: { $in: memberOrganizationIds } }],
+    }).sort({ createdAt: 1 });
+
+    response.status(200).json(organizations);
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { listOrganizations };
@@ -0,0 +1,56 @@
+import joi from 'joi';
+import { isValidObjectId } from 'mongoose';
+import { Request, Response, NextFunction } from 'express';
+import Membership, { PROJECT_ROLES, ProjectRole } from '../../models/Membership';
+
+interface ChangeMemberRoleRequest extends Request {
+  body: {
+    role: ProjectRole;
+  };
+}
+
+const changeMemberRole = async (request: ChangeMemberRoleRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await joi
+      .object({
+        role: joi.string().valid(...PROJECT_ROLES).required(),
+      })
+      .validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const { projectId, memberId } = request.params;
+
+    const foundMember = isValidObjectId(memberId)
+      ? await Membership.findOne({ _id: memberId, project: projectId })
+      : null;
+    if (!foundMember) {
+      return response.status(404).json({
+        message: 'Member not found',
+      });
+    }
+
+    // A project admin demoting themselves could leave nobody able to undo it
+    if (foundMember.account.toString() === request.auth?.uid) {
+      return response.status(400).json({
+        message: 'You cannot change your own project role',
+      });
+    }
+
+    foundMember.role = request.body.role;
+    await foundMember.save();
+
+    response.status(200).json(foundMember);
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { changeMemberRole };
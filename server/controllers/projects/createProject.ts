@@ -0,0 +1,66 @@
+import joi from 'joi';
+import { isValidObjectId } from 'mongoose';
+import { Request, Response, NextFunction } from 'express';
+import Organization from '../../models/Organization';
+import Project from '../../models/Project';
+import Membership from '../../models/Membership';
+
+interface CreateProjectRequest extends Request {
+  body: {
+    name: string;
+    description?: string;
+  };
+}
+
+const createProject = async (request: CreateProjectRequest, response: Response, next: NextFunction) => {
+  try {
+    // Validate request data
+    await joi
+      .object({
+        name: joi.string().required(),
+        description: joi.string().allow(''),
+      })
+      .validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const { organizationId } = request.params;
+
+    // Only the organization owner opens new projects
+    const foundOrganization = isValidObjectId(organizationId)
+      ? await Organization.findOne({ _id: organizationId, owner: request.auth?.uid })
+      : null;
+    if (!foundOrganization) {
+      return response.status(404).json({
+        message: 'Organization not found',
+      });
+    }
+
+    const { name, description } = request.body;
+    const newProject = new Project({
+      organization: foundOrganization._id,
+      name,
+      description,
+    });
+    await newProject.save();
+
+    // The creator administers the project
+    await Membership.create({ project: newProject._id, account: request.auth?.uid, role: 'admin' });
+    await newProject.populate('organization', 'name');
+
+    response.status(201).json({
+      ...newProject.toObject(),
+      role: 'admin',
+    });
+  } catch (error) {
+    console.error(error);
+    return response.status(500).send();
+  }
+};
+
+export { createProject };
@@ -0,0 +1,49 @@
+import { Types } from 'mongoose';
+import { Request, Response, NextFunction } from 'express';
+import Asset from '../../models/Asset';
+import CableRoute from '../../models/CableRoute';
+import { IAsset, ICableRoute, networkImportSchema } from '../../../shared/networkSchema';
+
+interface ImportNetworkRequest extends Request {
+  body: {
+    assets: IAsset[];
+    routes: ICableRoute[];
+  };
+}
+
+const importNetwork = async (request: ImportNetworkRequest, response: Response, next: NextFunction) => {
+  let data: ImportNetworkRequest['body'];
+  try {
+    // Validate request data
+    data = await networkImportSchema.validateAsync(request.body);
+  } catch (error) {
+    return response.status(400).json({
+      error: 'ValidationError',
+      message: (error as {message: string}).message,
+    });
+  }
+
+  try {
+    const project = request.params.projectId;
+    // Ids are given up front so an insert that stopped halfway can be found again
+    const assetItems = data.assets.map(item => ({ ...item, _id: new Types.ObjectId(), name: item.name.trim(), project }));
+    const routeItems = data.routes.map(item => ({ ...item, _id: new Types.ObjectId(), name: item.name.trim(), project }));
+    let assets, routes;
+    try {
+      assets = await Asset.insertMany(assetItems);
+      routes = await CableRoute.insertMany(routeItems);
+    } catch (error) {
+      // No transactions without a replica set, the import is undone by hand so a retry doesn't add anything twice
+      await Asset.deleteMany({ _id: { $in: assetItems.map(item => item._id) } });
+      await CableRoute.deleteMany({ _id: { $in: routeItems.map(item => item._id) } });
+      throw error;
+    }
+
+    response.status(201).json({ assets, routes });
+  } catch (error) {
+    console.error(error);
+    return response.status(500).send();
+  }
+};
+
+export { importNetwork };
@@ -0,0 +1,17 @@
+import { Request, Response, NextFunction } from 'express';
+import Membership from '../../models/Membership';
+
+const listMembers = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const members = await Membership.find({ project: request.params.projectId })
+      .populate('account', 'email firstName lastName')
+      .sort({ createdAt: 1 });
+
+    response.status(200).json(members);
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { listMembers };
@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import Membership from '../../models/Membership';
+import Project from '../../models/Project';
+
+const listProjects = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const memberships = await Membership.find({ account: request.auth?.uid });
+    const projects = await Project.find({ _id: { $in: memberships.map(item => item.project) } })
+      .populate('organization', 'name')
+      .sort({ createdAt: 1 });
+
+    // Each project carries the caller's role so the client knows which tools to offer
+    const roles = new Map(memberships.map(item => [item.project.toString(), item.role]));
+    response.status(200).json(projects.map(project => ({
+      ...project.toObject(),
+      role: roles.get(project._id.toString()),
+    })));
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { listProjects };
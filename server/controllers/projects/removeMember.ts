@@ -0,0 +1,33 @@
+import { isValidObjectId } from 'mongoose';
+import { Request, Response, NextFunction } from 'express';
+import Membership from '../../models/Membership';
+
+const removeMember = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const { projectId, memberId } = request.params;
+
+    const foundMember = isValidObjectId(memberId)
+      ? await Membership.findOne({ _id: memberId, project: projectId })
+      : null;
+    if (!foundMember) {
+      return response.status(404).json({
+        message: 'Member not found',
+      });
+    }
+
+    if (foundMember.account.toString() === request.auth?.uid) {
+      return response.status(400).json({
+        message: 'You cannot remove yourself from the project',
+      });
+    }
+
+    await foundMember.deleteOne();
+
+    response.status(204).send();
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { removeMember };
@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from 'express';
+import { traceFiber as traceProjectFiber } from '../../utils/fiberTrace';
+
+const traceFiber = async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const trace = await traceProjectFiber(request.params.projectId, request.params.fiberId);
+    if (!trace) {
+      return response.status(404).json({
+        message: 'Fiber not found',
+      });
+    }
+
+    response.status(200).json(trace);
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export { traceFiber };
@@ -2,14 +2,28 @@ require('dotenv').config()
 import mongo from './utils/mongo' 
 import {PORT} from './constants'
 import authRoutes from './routes/auth'
+import organizationRoutes from './routes/organizations'
+import projectRoutes from './routes/projects'
+import invitationRoutes from './routes/invitations'
+import adminRoutes from './routes/admin'
+import { migrateAccountRoles, migrateClosuresToProjects, migrateConnectionLayouts } from './utils/migrations'
+import { failInterruptedExportJobs } from './utils/gisExport/exportJob'
 import app from './utils/app'
 
 async function bootstrap() {
   await mongo.connect()
+  await migrateAccountRoles()
+  await migrateClosuresToProjects()
+  await migrateConnectionLayouts()
+  await failInterruptedExportJobs()
 
   // app.get('/', (req: Request, res: Response) => res.status(200).json({message: 'Hello World!'}))
   // app.get('/healthz', (req, res) => res.status(200).send())
   app.use('/auth', authRoutes)
+  app.use('/organizations', organizationRoutes)
+  app.use('/projects', projectRoutes)
+  app.use('/invitations', invitationRoutes)
+  app.use('/admin', adminRoutes)
 
   app.listen(PORT, () => {
     console.log(`✅ Server is listening on port: ${PORT}`)
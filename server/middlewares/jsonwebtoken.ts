@@ -1,5 +1,5 @@
 import jwt, { JwtPayload } from 'jsonwebtoken';
-import { JWT_SECRET } from '../constants';
+import { JWT_EXPIRATION, JWT_SECRET } from '../constants';
 import { NextFunction, Request, Response } from 'express';
 
 interface AuthPayload extends JwtPayload {
@@ -14,7 +14,7 @@ declare global {
   }
 }
 
-const signToken = (payload: JwtPayload = {}, expiresIn = '12h') => {
+const signToken = (payload: JwtPayload = {}, expiresIn = JWT_EXPIRATION) => {
   const token = jwt.sign(payload, JWT_SECRET, { expiresIn });
   return token;
 };
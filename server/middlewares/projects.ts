@@ -0,0 +1,59 @@
+import { isValidObjectId } from 'mongoose';
+import { NextFunction, Request, Response } from 'express';
+import Membership, { IMembership, PROJECT_ROLES, ProjectRole } from '../models/Membership';
+import { AccountRole } from '../models/Account';
+
+declare global {
+  namespace Express {
+    interface Request {
+      membership?: IMembership;
+    }
+  }
+}
+
+/**
+ * The role a member acts with in a project: an account demoted to viewer or technician keeps that
+ * ceiling in every project, including its own workspace. Planner and admin accounts, the default
+ * for self-registered ones, act with their project role.
+ */
+const capProjectRole = (projectRole: ProjectRole, accountRole?: AccountRole): ProjectRole => {
+  const ceiling: ProjectRole = accountRole === 'planner' || accountRole === 'admin' ? 'admin' : accountRole ?? 'viewer';
+  return PROJECT_ROLES.indexOf(projectRole) <= PROJECT_ROLES.indexOf(ceiling) ? projectRole : ceiling;
+};
+
+/**
+ * Resolves the caller's membership in `:projectId` and lets the request through when its role,
+ * capped by the account role, is one of `roles` (any member when none are given), project admins always pass.
+ * Non-members get a 404 so project ids can't be probed. Must run after `authorizeBearerToken`.
+ */
+const requireProjectRole = (...roles: ProjectRole[]) => async (request: Request, response: Response, next: NextFunction) => {
+  try {
+    const { projectId } = request.params;
+    const membership = isValidObjectId(projectId)
+      ? await Membership.findOne({ project: projectId, account: request.auth?.uid })
+      : null;
+    if (!membership) {
+      return response.status(404).json({
+        message: 'Project not found',
+      });
+    }
+
+    const role = capProjectRole(membership.role, request.auth?.role);
+    if (roles.length && role !== 'admin' && !roles.includes(role)) {
+      return response.status(403).json({
+        message: 'Forbidden - insufficient project role',
+      });
+    }
+
+    request.membership = membership;
+    next();
+  } catch (error) {
+    console.error(error);
+    response.status(500).send();
+  }
+};
+
+export {
+  capProjectRole,
+  requireProjectRole,
+};
@@ -0,0 +1,27 @@
+import { NextFunction, Request, Response } from 'express';
+import { AccountRole } from '../models/Account';
+
+/**
+ * Lets the request through when the token's role is one of `roles`, admins always pass.
+ * Must run after `authorizeBearerToken`.
+ */
+const requireRole = (...roles: AccountRole[]) => (request: Request, response: Response, next: NextFunction) => {
+  const role = request.auth?.role as AccountRole | undefined;
+  if (!role) {
+    return response.status(401).json({
+      message: 'Unauthorized - invalid token',
+    });
+  }
+
+  if (role !== 'admin' && !roles.includes(role)) {
+    return response.status(403).json({
+      message: 'Forbidden - insufficient role',
+    });
+  }
+
+  next();
+};
+
+export {
+  requireRole,
+};
@@ -1,11 +1,17 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+// Ordered from least to most privileged
+export const ACCOUNT_ROLES = ['viewer', 'technician', 'planner', 'admin'] as const;
+export type AccountRole = typeof ACCOUNT_ROLES[number];
+
 export interface IAccount extends Document {
   email: string;
   firstName: string;
   lastName: string;
   password: string;
-  role: 'user' | 'admin';
+  role: AccountRole;
+  disabled: boolean;
+  emailVerified: boolean;
 }
 
 const accountSchema: Schema<IAccount> = new Schema<IAccount>(
@@ -30,8 +36,17 @@ const accountSchema: Schema<IAccount> = new Schema<IAccount>(
     role: {
       type: String,
       required: true,
-      enum: ['user', 'admin'],
-      default: 'user',
+      enum: ACCOUNT_ROLES,
+      // self-registered accounts keep managing their own closures
+      default: 'planner',
+    },
+    disabled: {
+      type: Boolean,
+      default: false,
+    },
+    emailVerified: {
+      type: Boolean,
+      default: false,
     },
   },
   {
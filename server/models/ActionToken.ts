@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type ActionTokenPurpose = 'reset-password' | 'verify-email';
+
+// Single-use tokens mailed to the account owner
+export interface IActionToken extends Document {
+  account: Types.ObjectId;
+  purpose: ActionTokenPurpose;
+  // sha256 of the token, the raw value only travels in the email
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+}
+
+const actionTokenSchema: Schema<IActionToken> = new Schema<IActionToken>(
+  {
+    account: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+      required: true,
+      index: true,
+    },
+    purpose: {
+      type: String,
+      required: true,
+      enum: ['reset-password', 'verify-email'],
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Let mongo drop expired tokens on its own
+actionTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const ActionToken = mongoose.model<IActionToken>('ActionToken', actionTokenSchema);
+
+export default ActionToken;
@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { ASSET_TYPES, AssetType } from '../../shared/networkSchema';
+
+export type { AssetType };
+
+export interface IAsset extends Document {
+  project: Types.ObjectId;
+  type: AssetType;
+  name: string;
+  lat: number;
+  lng: number;
+  attributes: Map<string, string>;
+  closure?: Types.ObjectId;
+}
+
+const assetSchema: Schema<IAsset> = new Schema<IAsset>(
+  {
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+      index: true,
+    },
+    type: {
+      type: String,
+      enum: ASSET_TYPES,
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    lat: {
+      type: Number,
+      required: true,
+    },
+    lng: {
+      type: Number,
+      required: true,
+    },
+    attributes: {
+      type: Schema.Types.Map,
+      of: String,
+      default: () => new Map(),
+    },
+    closure: {
+      type: Schema.Types.ObjectId,
+      ref: 'Closure',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Asset = mongoose.model<IAsset>('Asset', assetSchema);
+
+export default Asset;
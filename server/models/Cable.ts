@@ -0,0 +1,78 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IFiber, ITube } from '../../shared/networkSchema';
+
+export type { IFiber, ITube };
+
+export interface ICable extends Document {
+  // Client generated id, fibers and tubes reference it through parentId
+  id: string;
+  closure: Types.ObjectId;
+  project: Types.ObjectId;
+  type: 'in' | 'out';
+  fibers: IFiber[];
+  tubes: ITube[];
+}
+
+const fiberSchema = new Schema<IFiber>(
+  {
+    id: { type: String, required: true },
+    parentId: { type: String, required: true },
+    color: { type: String, required: true },
+    isMarked: { type: Boolean },
+    tubeId: { type: String },
+  },
+  { _id: false, id: false }
+);
+
+const tubeSchema = new Schema<ITube>(
+  {
+    id: { type: String, required: true },
+    parentId: { type: String, required: true },
+    color: { type: String, required: true },
+  },
+  { _id: false, id: false }
+);
+
+const cableSchema: Schema<ICable> = new Schema<ICable>(
+  {
+    id: {
+      type: String,
+      required: true,
+    },
+    closure: {
+      type: Schema.Types.ObjectId,
+      ref: 'Closure',
+      required: true,
+      index: true,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+      index: true,
+    },
+    type: {
+      type: String,
+      required: true,
+      enum: ['in', 'out'],
+    },
+    fibers: {
+      type: [fiberSchema],
+      default: [],
+    },
+    tubes: {
+      type: [tubeSchema],
+      default: [],
+    },
+  },
+  {
+    id: false,
+    timestamps: true,
+  }
+);
+
+cableSchema.index({ closure: 1, id: 1 }, { unique: true });
+
+const Cable = mongoose.model<ICable>('Cable', cableSchema);
+
+export default Cable;
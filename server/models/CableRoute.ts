@@ -0,0 +1,89 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { ICableLengthEstimate, IGeoPoint } from '../../shared/networkSchema';
+
+export interface ICableRoute extends Document {
+  project: Types.ObjectId;
+  name: string;
+  points: IGeoPoint[];
+  // Metres along the polyline
+  length: number;
+  // The cable record the route carries, a cable of that closure's splice plan
+  closure?: Types.ObjectId;
+  cableId?: string;
+  // The cable at the far end, in another closure, fiber for fiber the continuation of cableId
+  toClosure?: Types.ObjectId;
+  toCableId?: string;
+  // Order length worked out by a planner, kept with the settings it used
+  estimate?: ICableLengthEstimate;
+}
+
+const geoPointSchema = new Schema<IGeoPoint>(
+  {
+    lat: { type: Number, required: true },
+    lng: { type: Number, required: true },
+  },
+  { _id: false, id: false }
+);
+
+const cableLengthEstimateSchema = new Schema<ICableLengthEstimate>(
+  {
+    slackPerPole: { type: Number, required: true },
+    sagPercent: { type: Number, required: true },
+    poleRiser: { type: Number, required: true },
+    manholeRiser: { type: Number, required: true },
+    reservePercent: { type: Number, required: true },
+    poles: { type: Number, required: true },
+    poleRisers: { type: Number, required: true },
+    manholes: { type: Number, required: true },
+    aerialLength: { type: Number, required: true },
+    orderLength: { type: Number, required: true },
+  },
+  { _id: false, id: false }
+);
+
+const cableRouteSchema: Schema<ICableRoute> = new Schema<ICableRoute>(
+  {
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    points: {
+      type: [geoPointSchema],
+      default: [],
+    },
+    length: {
+      type: Number,
+      required: true,
+    },
+    closure: {
+      type: Schema.Types.ObjectId,
+      ref: 'Closure',
+    },
+    cableId: {
+      type: String,
+    },
+    toClosure: {
+      type: Schema.Types.ObjectId,
+      ref: 'Closure',
+    },
+    toCableId: {
+      type: String,
+    },
+    estimate: {
+      type: cableLengthEstimateSchema,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const CableRoute = mongoose.model<ICableRoute>('CableRoute', cableRouteSchema);
+
+export default CableRoute;
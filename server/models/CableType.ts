@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { ICableType as ICableTypeFields } from '../../shared/networkSchema';
+
+export interface ICableType extends Document, ICableTypeFields {
+  project: Types.ObjectId;
+}
+
+const cableTypeSchema: Schema<ICableType> = new Schema<ICableType>(
+  {
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    fiberCount: {
+      type: Number,
+      required: true,
+    },
+    tubeCount: {
+      type: Number,
+      default: 0,
+    },
+    fibersPerTube: {
+      type: Number,
+      required: true,
+    },
+    colorStandard: {
+      type: String,
+      required: true,
+    },
+    sheathColor: {
+      type: String,
+    },
+    outerDiameter: {
+      type: Number,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+cableTypeSchema.index({ project: 1, name: 1 }, { unique: true });
+
+const CableType = mongoose.model<ICableType>('CableType', cableTypeSchema);
+
+export default CableType;
@@ -0,0 +1,41 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export interface IClosure extends Document {
+  project: Types.ObjectId;
+  // Account that created the closure
+  owner: Types.ObjectId;
+  name: string;
+  description?: string;
+  // From the timestamps option, also moved on by every change of the splice plan
+  updatedAt: Date;
+}
+
+const closureSchema: Schema<IClosure> = new Schema<IClosure>(
+  {
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+      index: true,
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    description: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Closure = mongoose.model<IClosure>('Closure', closureSchema);
+
+export default Closure;
@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IColorCode as IColorCodeFields, INamedColor } from '../../shared/networkSchema';
+
+export interface IColorCode extends Document, Omit<IColorCodeFields, 'id'> {
+  // The slug cable types refer to, not the document id
+  id: string;
+  project: Types.ObjectId;
+}
+
+const namedColorSchema = new Schema<INamedColor>(
+  {
+    name: { type: String, required: true },
+    color: { type: String, required: true },
+  },
+  { _id: false, id: false }
+);
+
+const colorCodeSchema: Schema<IColorCode> = new Schema<IColorCode>(
+  {
+    id: {
+      type: String,
+      required: true,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    colors: {
+      type: [namedColorSchema],
+      default: [],
+    },
+    marking: {
+      type: String,
+      required: true,
+      enum: ['ring', 'dash', 'none'],
+    },
+    markColor: {
+      type: namedColorSchema,
+      required: true,
+    },
+    markFallback: {
+      type: namedColorSchema,
+      required: true,
+    },
+  },
+  {
+    id: false,
+    timestamps: true,
+  }
+);
+
+colorCodeSchema.index({ project: 1, id: 1 }, { unique: true });
+
+const ColorCode = mongoose.model<IColorCode>('ColorCode', colorCodeSchema);
+
+export default ColorCode;
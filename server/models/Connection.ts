@@ -0,0 +1,104 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { IConnectionLayout, IPoint2D, IPoint3D } from '../../shared/networkSchema';
+
+export type { IConnectionLayout, IPoint2D, IPoint3D };
+
+export interface IConnection extends Document {
+  // Client generated id of the splice
+  id: string;
+  closure: Types.ObjectId;
+  project: Types.ObjectId;
+  fiber1Id: string;
+  fiber2Id: string;
+  color1: string;
+  color2: string;
+  isMarked1?: boolean;
+  isMarked2?: boolean;
+  fiber1CableId?: string;
+  fiber2CableId?: string;
+  fiber1CableType?: string;
+  fiber2CableType?: string;
+  layout: IConnectionLayout;
+}
+
+const point2DSchema = new Schema<IPoint2D>(
+  {
+    x: { type: Number, required: true },
+    y: { type: Number, required: true },
+  },
+  { _id: false, id: false }
+);
+
+const point3DSchema = new Schema<IPoint3D>(
+  {
+    x: { type: Number, required: true },
+    y: { type: Number, required: true },
+    z: { type: Number, required: true },
+  },
+  { _id: false, id: false }
+);
+
+const layoutSchema = new Schema<IConnectionLayout>(
+  {
+    canvas: new Schema({ path: { type: [point2DSchema], default: [] } }, { _id: false, id: false }),
+    scene: new Schema({ points: { type: [point3DSchema], default: [] } }, { _id: false, id: false }),
+  },
+  { _id: false, id: false }
+);
+
+const connectionSchema: Schema<IConnection> = new Schema<IConnection>(
+  {
+    id: {
+      type: String,
+      required: true,
+    },
+    closure: {
+      type: Schema.Types.ObjectId,
+      ref: 'Closure',
+      required: true,
+      index: true,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+      index: true,
+    },
+    fiber1Id: {
+      type: String,
+      required: true,
+    },
+    fiber2Id: {
+      type: String,
+      required: true,
+    },
+    color1: {
+      type: String,
+      required: true,
+    },
+    color2: {
+      type: String,
+      required: true,
+    },
+    isMarked1: Boolean,
+    isMarked2: Boolean,
+    fiber1CableId: String,
+    fiber2CableId: String,
+    fiber1CableType: String,
+    fiber2CableType: String,
+    layout: {
+      type: layoutSchema,
+      default: {},
+    },
+  },
+  {
+    id: false,
+    timestamps: true,
+  }
+);
+
+connectionSchema.index({ closure: 1, id: 1 }, { unique: true });
+
+const Connection = mongoose.model<IConnection>('Connection', connectionSchema);
+
+export default Connection;
@@ -0,0 +1,68 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export type ExportFormat = 'shapefile' | 'geopackage';
+
+export type ExportStatus = 'pending' | 'done' | 'failed';
+
+// A GIS export built in the background, the file is kept until expiresAt
+export interface IExportJob extends Document {
+  project: Types.ObjectId;
+  account: Types.ObjectId;
+  format: ExportFormat;
+  status: ExportStatus;
+  fileName?: string;
+  // GridFS id of the finished file
+  fileId?: Types.ObjectId;
+  error?: string;
+  expiresAt: Date;
+}
+
+const exportJobSchema: Schema<IExportJob> = new Schema<IExportJob>(
+  {
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+      index: true,
+    },
+    account: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+      required: true,
+    },
+    format: {
+      type: String,
+      required: true,
+      enum: ['shapefile', 'geopackage'],
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: ['pending', 'done', 'failed'],
+      default: 'pending',
+    },
+    fileName: {
+      type: String,
+    },
+    fileId: {
+      type: Schema.Types.ObjectId,
+    },
+    error: {
+      type: String,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Let mongo drop old exports on its own
+exportJobSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const ExportJob = mongoose.model<IExportJob>('ExportJob', exportJobSchema);
+
+export default ExportJob;
@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { PROJECT_ROLES, ProjectRole } from './Membership';
+
+export interface IInvitation extends Document {
+  project: Types.ObjectId;
+  // Matched against the invitee's account email, lowercased
+  email: string;
+  role: ProjectRole;
+  invitedBy: Types.ObjectId;
+  expiresAt: Date;
+  acceptedAt?: Date;
+}
+
+const invitationSchema: Schema<IInvitation> = new Schema<IInvitation>(
+  {
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+      index: true,
+    },
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      index: true,
+    },
+    role: {
+      type: String,
+      required: true,
+      enum: PROJECT_ROLES,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    acceptedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Invitation = mongoose.model<IInvitation>('Invitation', invitationSchema);
+
+export default Invitation;
@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+// Ordered from least to most privileged, a project admin manages members and invitations
+export const PROJECT_ROLES = ['viewer', 'technician', 'planner', 'admin'] as const;
+export type ProjectRole = typeof PROJECT_ROLES[number];
+
+export interface IMembership extends Document {
+  project: Types.ObjectId;
+  account: Types.ObjectId;
+  role: ProjectRole;
+}
+
+const membershipSchema: Schema<IMembership> = new Schema<IMembership>(
+  {
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+    },
+    account: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+      required: true,
+      index: true,
+    },
+    role: {
+      type: String,
+      required: true,
+      enum: PROJECT_ROLES,
+      default: 'viewer',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+membershipSchema.index({ project: 1, account: 1 }, { unique: true });
+
+const Membership = mongoose.model<IMembership>('Membership', membershipSchema);
+
+export default Membership;
@@ -0,0 +1,28 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export interface IOrganization extends Document {
+  owner: Types.ObjectId;
+  name: string;
+}
+
+const organizationSchema: Schema<IOrganization> = new Schema<IOrganization>(
+  {
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Organization = mongoose.model<IOrganization>('Organization', organizationSchema);
+
+export default Organization;
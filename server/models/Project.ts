@@ -0,0 +1,32 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export interface IProject extends Document {
+  organization: Types.ObjectId;
+  name: string;
+  description?: string;
+}
+
+const projectSchema: Schema<IProject> = new Schema<IProject>(
+  {
+    organization: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    description: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const Project = mongoose.model<IProject>('Project', projectSchema);
+
+export default Project;
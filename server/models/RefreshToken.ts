@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export interface IRefreshToken extends Document {
+  account: Types.ObjectId;
+  // Every token rotated out of the same login shares the family, reuse revokes all of them
+  family: string;
+  // sha256 of the token, the raw value is only ever sent to the client
+  tokenHash: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedBy?: string;
+}
+
+const refreshTokenSchema: Schema<IRefreshToken> = new Schema<IRefreshToken>(
+  {
+    account: {
+      type: Schema.Types.ObjectId,
+      ref: 'Account',
+      required: true,
+      index: true,
+    },
+    family: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    replacedBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Let mongo drop expired tokens on its own
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RefreshToken = mongoose.model<IRefreshToken>('RefreshToken', refreshTokenSchema);
+
+export default RefreshToken;
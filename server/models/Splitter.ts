@@ -0,0 +1,72 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { ISplitterPort } from '../../shared/networkSchema';
+
+export type { ISplitterPort };
+
+export interface ISplitter extends Document {
+  // Client generated id, ports reference it through parentId
+  id: string;
+  closure: Types.ObjectId;
+  project: Types.ObjectId;
+  name: string;
+  model?: string;
+  inputs: ISplitterPort[];
+  outputs: ISplitterPort[];
+}
+
+const splitterPortSchema = new Schema<ISplitterPort>(
+  {
+    id: { type: String, required: true },
+    parentId: { type: String, required: true },
+    color: { type: String },
+    loss: { type: Number },
+    ratio: { type: Number },
+  },
+  { _id: false, id: false }
+);
+
+const splitterSchema: Schema<ISplitter> = new Schema<ISplitter>(
+  {
+    id: {
+      type: String,
+      required: true,
+    },
+    closure: {
+      type: Schema.Types.ObjectId,
+      ref: 'Closure',
+      required: true,
+      index: true,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    model: {
+      type: String,
+    },
+    inputs: {
+      type: [splitterPortSchema],
+      default: [],
+    },
+    outputs: {
+      type: [splitterPortSchema],
+      default: [],
+    },
+  },
+  {
+    id: false,
+    timestamps: true,
+  }
+);
+
+splitterSchema.index({ closure: 1, id: 1 }, { unique: true });
+
+const Splitter = mongoose.model<ISplitter>('Splitter', splitterSchema);
+
+export default Splitter;
@@ -0,0 +1,20 @@
+import express from 'express'
+import { authorizeBearerToken } from '../middlewares/jsonwebtoken'
+import { requireRole } from '../middlewares/roles'
+import { listAccounts } from '../controllers/admin/listAccounts'
+import { changeRole } from '../controllers/admin/changeRole'
+import { setAccountDisabled } from '../controllers/admin/setAccountDisabled'
+
+// initialize router
+const router = express.Router()
+
+// GET at route: http://localhost:8080/admin/accounts
+router.get('/accounts', [authorizeBearerToken, requireRole('admin')], listAccounts)
+
+// PATCH at route: http://localhost:8080/admin/accounts/:accountId/role
+router.patch('/accounts/:accountId/role', [authorizeBearerToken, requireRole('admin')], changeRole)
+
+// PATCH at route: http://localhost:8080/admin/accounts/:accountId/disabled
+router.patch('/accounts/:accountId/disabled', [authorizeBearerToken, requireRole('admin')], setAccountDisabled)
+
+export default router
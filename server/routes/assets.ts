@@ -0,0 +1,24 @@
+import express from 'express'
+import { authorizeBearerToken } from '../middlewares/jsonwebtoken'
+import { requireProjectRole } from '../middlewares/projects'
+import { listAssets } from '../controllers/assets/listAssets'
+import { createAsset } from '../controllers/assets/createAsset'
+import { updateAsset } from '../controllers/assets/updateAsset'
+import { deleteAsset } from '../controllers/assets/deleteAsset'
+
+// initialize router, mounted under /projects/:projectId
+const router = express.Router({ mergeParams: true })
+
+// GET at route: http://localhost:8080/projects/:projectId/assets
+router.get('/', [authorizeBearerToken, requireProjectRole()], listAssets)
+
+// POST at route: http://localhost:8080/projects/:projectId/assets
+router.post('/', [authorizeBearerToken, requireProjectRole('planner')], createAsset)
+
+// PUT at route: http://localhost:8080/projects/:projectId/assets/:assetId
+router.put('/:assetId', [authorizeBearerToken, requireProjectRole('planner')], updateAsset)
+
+// DELETE at route: http://localhost:8080/projects/:projectId/assets/:assetId
+router.delete('/:assetId', [authorizeBearerToken, requireProjectRole('planner')], deleteAsset)
+
+export default router
@@ -1,6 +1,13 @@
 import express from 'express'
 import { register } from '../controllers/auth/register'
 import { login } from '../controllers/auth/login'
+import { refresh } from '../controllers/auth/refresh'
+import { logout } from '../controllers/auth/logout'
+import { forgotPassword } from '../controllers/auth/forgotPassword'
+import { resetPassword } from '../controllers/auth/resetPassword'
+import { verifyEmail } from '../controllers/auth/verifyEmail'
+import { resendVerification } from '../controllers/auth/resendVerification'
+import { authorizeBearerToken } from '../middlewares/jsonwebtoken'
 
 // initialize router
 const router = express.Router()
@@ -11,4 +18,22 @@ router.post('/register', [], register)
 // POST at path: http://localhost:8080/auth/login
 router.post('/login', [], login)
 
+// POST at path: http://localhost:8080/auth/refresh
+router.post('/refresh', [], refresh)
+
+// POST at path: http://localhost:8080/auth/logout
+router.post('/logout', [], logout)
+
+// POST at path: http://localhost:8080/auth/forgot-password
+router.post('/forgot-password', [], forgotPassword)
+
+// POST at path: http://localhost:8080/auth/reset-password
+router.post('/reset-password', [], resetPassword)
+
+// POST at path: http://localhost:8080/auth/verify-email
+router.post('/verify-email', [], verifyEmail)
+
+// POST at path: http://localhost:8080/auth/resend-verification
+router.post('/resend-verification', [authorizeBearerToken], resendVerification)
+
 export default router
@@ -0,0 +1,24 @@
+import express from 'express'
+import { authorizeBearerToken } from '../middlewares/jsonwebtoken'
+import { requireProjectRole } from '../middlewares/projects'
+import { listCableRoutes } from '../controllers/cableRoutes/listCableRoutes'
+import { createCableRoute } from '../controllers/cableRoutes/createCableRoute'
+import { updateCableRoute } from '../controllers/cableRoutes/updateCableRoute'
+import { deleteCableRoute } from '../controllers/cableRoutes/deleteCableRoute'
+
+// initialize router, mounted under /projects/:projectId
+const router = express.Router({ mergeParams: true })
+
+// GET at route: http://localhost:8080/projects/:projectId/cable-routes
+router.get('/', [authorizeBearerToken, requireProjectRole()], listCableRoutes)
+
+// POST at route: http://localhost:8080/projects/:projectId/cable-routes
+router.post('/', [authorizeBearerToken, requireProjectRole('planner')], createCableRoute)
+
+// PUT at route: http://localhost:8080/projects/:projectId/cable-routes/:cableRouteId
+router.put('/:cableRouteId', [authorizeBearerToken, requireProjectRole('planner')], updateCableRoute)
+
+// DELETE at route: http://localhost:8080/projects/:projectId/cable-routes/:cableRouteId
+router.delete('/:cableRouteId', [authorizeBearerToken, requireProjectRole('planner')], deleteCableRoute)
+
+export default router
@@ -0,0 +1,24 @@
+import express from 'express'
+import { authorizeBearerToken } from '../middlewares/jsonwebtoken'
+import { requireProjectRole } from '../middlewares/projects'
+import { listCableTypes } from '../controllers/cableTypes/listCableTypes'
+import { createCableType } from '../controllers/cableTypes/createCableType'
+import { updateCableType } from '../controllers/cableTypes/updateCableType'
+import { deleteCableType } from '../controllers/cableTypes/deleteCableType'
+
+// initialize router, mounted under /projects/:projectId
+const router = express.Router({ mergeParams: true })
+
+// GET at route: http://localhost:8080/projects/:projectId/cable-types
+router.get('/', [authorizeBearerToken, requireProjectRole()], listCableTypes)
+
+// POST at route: http://localhost:8080/projects/:projectId/cable-types
+router.post('/', [authorizeBearerToken, requireProjectRole('planner')], createCableType)
+
+// PUT at route: http://localhost:8080/projects/:projectId/cable-types/:cableTypeId
+router.put('/:cableTypeId', [authorizeBearerToken, requireProjectRole('planner')], updateCableType)
+
+// DELETE at route: http://localhost:8080/projects/:projectId/cable-types/:cableTypeId
+router.delete('/:cableTypeId', [authorizeBearerToken, requireProjectRole('planner')], deleteCableType)
+
+export default router
@@ -0,0 +1,32 @@
+import express from 'express'
+import { authorizeBearerToken } from '../middlewares/jsonwebtoken'
+import { requireProjectRole } from '../middlewares/projects'
+import { listClosures } from '../controllers/closures/listClosures'
+import { createClosure } from '../controllers/closures/createClosure'
+import { getClosure } from '../controllers/closures/getClosure'
+import { updateClosure } from '../controllers/closures/updateClosure'
+import { deleteClosure } from '../controllers/closures/deleteClosure'
+import { saveConnections } from '../controllers/closures/saveConnections'
+
+// initialize router, mounted under /projects/:projectId
+const router = express.Router({ mergeParams: true })
+
+// GET at route: http://localhost:8080/projects/:projectId/closures
+router.get('/', [authorizeBearerToken, requireProjectRole()], listClosures)
+
+// POST at route: http://localhost:8080/projects/:projectId/closures
+router.post('/', [authorizeBearerToken, requireProjectRole('planner')], createClosure)
+
+// GET at route: http://localhost:8080/projects/:projectId/closures/:closureId
+router.get('/:closureId', [authorizeBearerToken, requireProjectRole()], getClosure)
+
+// PUT at route: http://localhost:8080/projects/:projectId/closures/:closureId
+router.put('/:closureId', [authorizeBearerToken, requireProjectRole('planner')], updateClosure)
+
+// DELETE at route: http://localhost:8080/projects/:projectId/closures/:closureId
+router.delete('/:closureId', [authorizeBearerToken, requireProjectRole('planner')], deleteClosure)
+
+// PUT at route: http://localhost:8080/projects/:projectId/closures/:closureId/connections
+router.put('/:closureId/connections', [authorizeBearerToken, requireProjectRole('technician', 'planner')], saveConnections)
+
+export default router
@@ -0,0 +1,24 @@
+import express from 'express'
+import { authorizeBearerToken } from '../middlewares/jsonwebtoken'
+import { requireProjectRole } from '../middlewares/projects'
+import { listColorCodes } from '../controllers/colorCodes/listColorCodes'
+import { createColorCode } from '../controllers/colorCodes/createColorCode'
+import { updateColorCode } from '../controllers/colorCodes/updateColorCode'
+import { deleteColorCode } from '../controllers/colorCodes/deleteColorCode'
+
+// initialize router, mounted under /projects/:projectId
+const router = express.Router({ mergeParams: true })
+
+// GET at route: http://localhost:8080/projects/:projectId/color-codes
+router.get('/', [authorizeBearerToken, requireProjectRole()], listColorCodes)
+
+// POST at route: http://localhost:8080/projects/:projectId/color-codes
+router.post('/', [authorizeBearerToken, requireProjectRole('planner')], createColorCode)
+
+// PUT at route: http://localhost:8080/projects/:projectId/color-codes/:colorCodeId
+router.put('/:colorCodeId', [authorizeBearerToken, requireProjectRole('planner')], updateColorCode)
+
+// DELETE at route: http://localhost:8080/projects/:projectId/color-codes/:colorCodeId
+router.delete('/:colorCodeId', [authorizeBearerToken, requireProjectRole('planner')], deleteColorCode)
+
+export default router
@@ -0,0 +1,20 @@
+import express from 'express'
+import { authorizeBearerToken } from '../middlewares/jsonwebtoken'
+import { requireProjectRole } from '../middlewares/projects'
+import { createExport } from '../controllers/exports/createExport'
+import { getExport } from '../controllers/exports/getExport'
+import { downloadExport } from '../controllers/exports/downloadExport'
+
+// initialize router, mounted under /projects/:projectId
+const router = express.Router({ mergeParams: true })
+
+// POST at route: http://localhost:8080/projects/:projectId/exports
+router.post('/', [authorizeBearerToken, requireProjectRole()], createExport)
+
+// GET at route: http://localhost:8080/projects/:projectId/exports/:exportId
+router.get('/:exportId', [authorizeBearerToken, requireProjectRole()], getExport)
+
+// GET at route: http://localhost:8080/projects/:projectId/exports/:exportId/file
+router.get('/:exportId/file', [authorizeBearerToken, requireProjectRole()], downloadExport)
+
+export default router
@@ -0,0 +1,19 @@
+import express from 'express'
+import { authorizeBearerToken } from '../middlewares/jsonwebtoken'
+import { listMyInvitations } from '../controllers/invitations/listMyInvitations'
+import { acceptInvitation } from '../controllers/invitations/acceptInvitation'
+import { deleteInvitation } from '../controllers/invitations/deleteInvitation'
+
+// initialize router
+const router = express.Router()
+
+// GET at route: http://localhost:8080/invitations
+router.get('/', [authorizeBearerToken], listMyInvitations)
+
+// POST at route: http://localhost:8080/invitations/:invitationId/accept
+router.post('/:invitationId/accept', [authorizeBearerToken], acceptInvitation)
+
+// DELETE at route: http://localhost:8080/invitations/:invitationId
+router.delete('/:invitationId', [authorizeBearerToken], deleteInvitation)
+
+export default router
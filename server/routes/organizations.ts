@@ -0,0 +1,19 @@
+import express from 'express'
+import { authorizeBearerToken } from '../middlewares/jsonwebtoken'
+import { listOrganizations } from '../controllers/organizations/listOrganizations'
+import { createOrganization } from '../controllers/organizations/createOrganization'
+import { createProject } from '../controllers/projects/createProject'
+
+// initialize router
+const router = express.Router()
+
+// GET at route: http://localhost:8080/organizations
+router.get('/', [authorizeBearerToken], listOrganizations)
+
+// POST at route: http://localhost:8080/organizations
+router.post('/', [authorizeBearerToken], createOrganization)
+
+// POST at route: http://localhost:8080/organizations/:organizationId/projects
+router.post('/:organizationId/projects', [authorizeBearerToken], createProject)
+
+export default router
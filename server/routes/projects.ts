@@ -0,0 +1,58 @@
+import express from 'express'
+import { authorizeBearerToken } from '../middlewares/jsonwebtoken'
+import { requireProjectRole } from '../middlewares/projects'
+import { listProjects } from '../controllers/projects/listProjects'
+import { listMembers } from '../controllers/projects/listMembers'
+import { changeMemberRole } from '../controllers/projects/changeMemberRole'
+import { removeMember } from '../controllers/projects/removeMember'
+import { traceFiber } from '../controllers/projects/traceFiber'
+import { importNetwork } from '../controllers/projects/importNetwork'
+import { createInvitation } from '../controllers/invitations/createInvitation'
+import { listProjectInvitations } from '../controllers/invitations/listProjectInvitations'
+import { deleteInvitation } from '../controllers/invitations/deleteInvitation'
+import closureRoutes from './closures'
+import cableTypeRoutes from './cableTypes'
+import colorCodeRoutes from './colorCodes'
+import cableRouteRoutes from './cableRoutes'
+import assetRoutes from './assets'
+import exportRoutes from './exports'
+
+// initialize router
+const router = express.Router()
+
+// GET at route: http://localhost:8080/projects
+router.get('/', [authorizeBearerToken], listProjects)
+
+// GET at route: http://localhost:8080/projects/:projectId/members
+router.get('/:projectId/members', [authorizeBearerToken, requireProjectRole()], listMembers)
+
+// PATCH at route: http://localhost:8080/projects/:projectId/members/:memberId
+router.patch('/:projectId/members/:memberId', [authorizeBearerToken, requireProjectRole('admin')], changeMemberRole)
+
+// DELETE at route: http://localhost:8080/projects/:projectId/members/:memberId
+router.delete('/:projectId/members/:memberId', [authorizeBearerToken, requireProjectRole('admin')], removeMember)
+
+// GET at route: http://localhost:8080/projects/:projectId/invitations
+router.get('/:projectId/invitations', [authorizeBearerToken, requireProjectRole('admin')], listProjectInvitations)
+
+// POST at route: http://localhost:8080/projects/:projectId/invitations
+router.post('/:projectId/invitations', [authorizeBearerToken, requireProjectRole('admin')], createInvitation)
+
+// DELETE at route: http://localhost:8080/projects/:projectId/invitations/:invitationId
+router.delete('/:projectId/invitations/:invitationId', [authorizeBearerToken, requireProjectRole('admin')], deleteInvitation)
+
+// GET at route: http://localhost:8080/projects/:projectId/fibers/:fiberId/trace
+router.get('/:projectId/fibers/:fiberId/trace', [authorizeBearerToken, requireProjectRole()], traceFiber)
+
+// POST at route: http://localhost:8080/projects/:projectId/network/import
+router.post('/:projectId/network/import', [authorizeBearerToken, requireProjectRole('planner')], importNetwork)
+
+// Network data of the project
+router.use('/:projectId/closures', closureRoutes)
+router.use('/:projectId/cable-types', cableTypeRoutes)
+router.use('/:projectId/color-codes', colorCodeRoutes)
+router.use('/:projectId/cable-routes', cableRouteRoutes)
+router.use('/:projectId/assets', assetRoutes)
+router.use('/:projectId/exports', exportRoutes)
+
+export default router
@@ -0,0 +1,28 @@
+import { IAccount } from '../models/Account';
+import { EMAIL_VERIFICATION_TTL_HOURS, PASSWORD_RESET_TTL_MINUTES } from '../constants';
+import { issueActionToken } from './actionTokens';
+import mailer, { resetPasswordMessage, verifyEmailMessage } from './mailer';
+
+// A mail server hiccup must not fail the request that triggered the mail, the user can ask again
+const sendVerificationEmail = async (account: IAccount) => {
+  try {
+    const token = await issueActionToken(account._id, 'verify-email', EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+    await mailer.send(verifyEmailMessage(account.email, token));
+  } catch (error) {
+    console.error(error);
+  }
+};
+
+const sendPasswordResetEmail = async (account: IAccount) => {
+  try {
+    const token = await issueActionToken(account._id, 'reset-password', PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+    await mailer.send(resetPasswordMessage(account.email, token, PASSWORD_RESET_TTL_MINUTES));
+  } catch (error) {
+    console.error(error);
+  }
+};
+
+export {
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+};
@@ -0,0 +1,41 @@
+import { Types } from 'mongoose';
+import ActionToken, { ActionTokenPurpose } from '../models/ActionToken';
+import { generateToken, hashToken } from './tokens';
+
+/**
+ * Issues a token for `purpose`, earlier unused tokens of the same purpose stop working.
+ */
+const issueActionToken = async (accountId: Types.ObjectId | string, purpose: ActionTokenPurpose, ttlMs: number) => {
+  await ActionToken.deleteMany({ account: accountId, purpose, usedAt: { $exists: false } });
+
+  const token = generateToken();
+  await ActionToken.create({
+    account: accountId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs),
+  });
+  return token;
+};
+
+/**
+ * Marks the token used and returns it, or null when it is unknown, expired or already used.
+ * The lookup and the update are one operation so a token can't be redeemed twice.
+ */
+const consumeActionToken = async (token: string, purpose: ActionTokenPurpose) => {
+  return ActionToken.findOneAndUpdate(
+    {
+      tokenHash: hashToken(token),
+      purpose,
+      usedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    { usedAt: new Date() },
+    { new: true }
+  );
+};
+
+export {
+  issueActionToken,
+  consumeActionToken,
+};
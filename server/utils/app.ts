@@ -8,7 +8,7 @@ const app = express()
 
 // middlewares
 app.use(cors({ origin: ORIGIN }))
-app.use(express.json()) // body parser
+app.use(express.json({ limit: '5mb' })) // body parser (splice plans carry routing geometry)
 app.use(express.urlencoded({ extended: false })) // url parser
 
 // error handling
@@ -0,0 +1,19 @@
+import { Types } from 'mongoose';
+import Cable from '../models/Cable';
+import { findProjectClosure } from './splicePlan';
+
+/**
+ * Checks that a route's cable link points at a cable of a closure in the same project.
+ * A route without a link is always fine.
+ */
+const isValidCableLink = async (projectId: Types.ObjectId | string, closureId?: string | null, cableId?: string | null) => {
+  if (!closureId || !cableId) return true;
+  const closure = await findProjectClosure(closureId, projectId);
+  if (!closure) return false;
+  const cable = await Cable.findOne({ closure: closure._id, project: projectId, id: cableId });
+  return !!cable;
+};
+
+export {
+  isValidCableLink,
+};
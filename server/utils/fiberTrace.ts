@@ -0,0 +1,237 @@
+import { Types } from 'mongoose';
+import Closure from '../models/Closure';
+import Cable from '../models/Cable';
+import Splitter from '../models/Splitter';
+import Connection from '../models/Connection';
+import CableRoute from '../models/CableRoute';
+import { IFiberTrace, ITraceEndpoint, ITraceHop } from '../../shared/networkSchema';
+
+type PortRole = 'fiber' | 'input' | 'output';
+
+interface TraceNode {
+  endpoint: ITraceEndpoint;
+  role: PortRole;
+  cableType?: 'in' | 'out';
+  // Splitter the port belongs to, for splitter ports
+  splitterKey?: string;
+  loss?: number;
+}
+
+interface TraceStep {
+  kind: 'splice' | 'cable';
+  // Route length of a cable step, metres
+  length?: number;
+}
+
+interface TraceLink extends TraceStep {
+  to: string;
+}
+
+// A run of fibers joined by splices and cable continuations, without passing a splitter
+interface Chain {
+  keys: string[];
+  steps: TraceStep[];
+}
+
+// A port id is only unique inside its closure, the same fiber shows up in every closure its cable passes
+const nodeKey = (closureId: string, portId: string) => `${closureId}:${portId}`;
+
+/**
+ * Builds the port graph of a whole project: splices inside closures, splitters, cable routes that
+ * name the cable at both of their ends, and fibers of the same id that are in several closures.
+ */
+const loadProjectGraph = async (projectId: Types.ObjectId | string) => {
+  const [closures, cables, splitters, connections, routes] = await Promise.all([
+    Closure.find({ project: projectId }).sort({ _id: 1 }),
+    Cable.find({ project: projectId }).sort({ _id: 1 }),
+    Splitter.find({ project: projectId }).sort({ _id: 1 }),
+    Connection.find({ project: projectId }).sort({ _id: 1 }),
+    CableRoute.find({ project: projectId, toClosure: { $exists: true } }).sort({ _id: 1 }),
+  ]);
+
+  const closureNames = new Map(closures.map(closure => [String(closure._id), closure.name]));
+  const nodes = new Map<string, TraceNode>();
+  const links = new Map<string, TraceLink[]>();
+  const splitterPorts = new Map<string, { inputs: string[]; outputs: string[] }>();
+  const fiberOccurrences = new Map<string, { key: string; cableType: 'in' | 'out'; closureId: string }[]>();
+
+  const endpoint = (closureId: string, portId: string, description: string, color?: string, isMarked?: boolean): ITraceEndpoint => ({
+    portId,
+    closureId,
+    closureName: closureNames.get(closureId) ?? '',
+    description,
+    ...(color ? { color } : {}),
+    ...(isMarked ? { isMarked } : {}),
+  });
+
+  const cableCounters = new Map<string, number>();
+  cables.forEach(cable => {
+    const closureId = String(cable.closure);
+    const counterKey = `${closureId}:${cable.type}`;
+    const cableNumber = (cableCounters.get(counterKey) ?? 0) + 1;
+    cableCounters.set(counterKey, cableNumber);
+
+    cable.fibers.forEach((fiber, i) => {
+      const key = nodeKey(closureId, fiber.id);
+      const description = `${cable.type.toUpperCase()} cable ${cableNumber}, fiber ${i + 1}`;
+      nodes.set(key, { endpoint: endpoint(closureId, fiber.id, description, fiber.color, fiber.isMarked), role: 'fiber', cableType: cable.type });
+      fiberOccurrences.set(fiber.id, [...(fiberOccurrences.get(fiber.id) ?? []), { key, cableType: cable.type, closureId }]);
+    });
+  });
+
+  splitters.forEach(splitter => {
+    const closureId = String(splitter.closure);
+    const splitterKey = nodeKey(closureId, splitter.id);
+    const ports = { inputs: [] as string[], outputs: [] as string[] };
+    splitter.inputs.forEach((port, i) => {
+      const key = nodeKey(closureId, port.id);
+      nodes.set(key, { endpoint: endpoint(closureId, port.id, `${splitter.name}, input ${i + 1}`, port.color), role: 'input', splitterKey });
+      ports.inputs.push(key);
+    });
+    splitter.outputs.forEach((port, i) => {
+      const key = nodeKey(closureId, port.id);
+      nodes.set(key, { endpoint: endpoint(closureId, port.id, `${splitter.name}, output ${i + 1}`, port.color), role: 'output', splitterKey, loss: port.loss });
+      ports.outputs.push(key);
+    });
+    splitterPorts.set(splitterKey, ports);
+  });
+
+  const link = (a: string, b: string, step: TraceStep) => {
+    if (!nodes.has(a) || !nodes.has(b)) return;
+    links.set(a, [...(links.get(a) ?? []), { to: b, ...step }]);
+    links.set(b, [...(links.get(b) ?? []), { to: a, ...step }]);
+  };
+
+  connections.forEach(connection => {
+    const closureId = String(connection.closure);
+    link(nodeKey(closureId, connection.fiber1Id), nodeKey(closureId, connection.fiber2Id), { kind: 'splice' });
+  });
+
+  // A cable leaves a closure as 'out' and reaches the next one as 'in'
+  fiberOccurrences.forEach(occurrences => {
+    const ordered = [...occurrences].sort((a, b) => (a.cableType === b.cableType ? 0 : a.cableType === 'out' ? -1 : 1));
+    ordered.slice(1).forEach((occurrence, i) => link(ordered[i].key, occurrence.key, { kind: 'cable' }));
+  });
+
+  // Each closure generates its own cable ids, a route naming both ends joins them fiber by fiber
+  const cableByKey = new Map(cables.map(cable => [nodeKey(String(cable.closure), cable.id), cable]));
+  routes.forEach(route => {
+    const from = cableByKey.get(nodeKey(String(route.closure), route.cableId ?? ''));
+    const to = cableByKey.get(nodeKey(String(route.toClosure), route.toCableId ?? ''));
+    if (!from || !to) return;
+    from.fibers.slice(0, to.fibers.length).forEach((fiber, i) => link(
+      nodeKey(String(from.closure), fiber.id),
+      nodeKey(String(to.closure), to.fibers[i].id),
+      { kind: 'cable', length: route.length },
+    ));
+  });
+
+  return { nodes, links, splitterPorts, fiberOccurrences };
+};
+
+/**
+ * Follows a fiber across splices and closures, upstream to the OLT and downstream to every customer
+ * behind it. Returns null when the fiber isn't in any closure of the project.
+ */
+const traceFiber = async (projectId: Types.ObjectId | string, fiberId: string): Promise<IFiberTrace | null> => {
+  const { nodes, links, splitterPorts, fiberOccurrences } = await loadProjectGraph(projectId);
+
+  const startKey = fiberOccurrences.get(fiberId)?.[0]?.key
+    ?? Array.from(nodes.keys()).find(key => nodes.get(key)!.endpoint.portId === fiberId);
+  if (!startKey) return null;
+
+  const nextLink = (key: string, seen: Set<string>) => links.get(key)?.find(item => !seen.has(item.to));
+
+  const walkChain = (start: string): Chain => {
+    // Run to one end first, then collect the whole chain from there
+    let end = start;
+    const passed = new Set([start]);
+    let next = nextLink(end, passed);
+    while (next) {
+      passed.add(next.to);
+      end = next.to;
+      next = nextLink(end, passed);
+    }
+
+    const chain: Chain = { keys: [end], steps: [] };
+    const collected = new Set([end]);
+    next = nextLink(end, collected);
+    while (next) {
+      const { to, ...step } = next;
+      collected.add(to);
+      chain.keys.push(to);
+      chain.steps.push(step);
+      next = nextLink(to, collected);
+    }
+    return chain;
+  };
+
+  const role = (key: string) => nodes.get(key)!.role;
+
+  // Upstream first: a splitter output or an incoming cable is where the light comes from
+  const orient = (chain: Chain): Chain => {
+    const first = chain.keys[0];
+    const last = chain.keys[chain.keys.length - 1];
+    const reversed = role(last) === 'output' || role(first) === 'input'
+      || (role(first) === 'fiber' && role(last) === 'fiber' && nodes.get(last)!.cableType === 'in' && nodes.get(first)!.cableType !== 'in');
+    return reversed ? { keys: [...chain.keys].reverse(), steps: [...chain.steps].reverse() } : chain;
+  };
+
+  const chainHops = (chain: Chain): ITraceHop[] => chain.steps.map(({ kind, length }, i) => ({
+    kind,
+    from: nodes.get(chain.keys[i])!.endpoint,
+    to: nodes.get(chain.keys[i + 1])!.endpoint,
+    ...(length !== undefined ? { length } : {}),
+  }));
+
+  const splitterHop = (input: string, output: string): ITraceHop => ({
+    kind: 'splitter',
+    from: nodes.get(input)!.endpoint,
+    to: nodes.get(output)!.endpoint,
+    ...(nodes.get(output)!.loss !== undefined ? { loss: nodes.get(output)!.loss } : {}),
+  });
+
+  const visitedSplitters = new Set<string>();
+  const startChain = orient(walkChain(startKey));
+  let hops = chainHops(startChain);
+
+  // Through splitters towards the OLT, one input at a time
+  let head = startChain.keys[0];
+  while (role(head) === 'output') {
+    const splitterKey = nodes.get(head)!.splitterKey!;
+    if (visitedSplitters.has(splitterKey)) break;
+    visitedSplitters.add(splitterKey);
+    const inputs = splitterPorts.get(splitterKey)!.inputs;
+    const input = inputs.find(key => links.has(key)) ?? inputs[0];
+    if (!input) break;
+    const chain = orient(walkChain(input));
+    hops = [...chainHops(chain), splitterHop(input, head), ...hops];
+    head = chain.keys[0];
+  }
+
+  // Every branch behind the traced fiber
+  const addDownstream = (tail: string) => {
+    if (role(tail) !== 'input') return;
+    const splitterKey = nodes.get(tail)!.splitterKey!;
+    if (visitedSplitters.has(splitterKey)) return;
+    visitedSplitters.add(splitterKey);
+    splitterPorts.get(splitterKey)!.outputs.filter(key => links.has(key)).forEach(output => {
+      const chain = orient(walkChain(output));
+      hops.push(splitterHop(tail, output), ...chainHops(chain));
+      addDownstream(chain.keys[chain.keys.length - 1]);
+    });
+  };
+  addDownstream(startChain.keys[startChain.keys.length - 1]);
+
+  const portIds = new Set<string>([fiberId]);
+  hops.forEach(hop => {
+    portIds.add(hop.from.portId);
+    portIds.add(hop.to.portId);
+  });
+
+  return { fiberId, hops, portIds: Array.from(portIds) };
+};
+
+export {
+  traceFiber,
+};
@@ -0,0 +1,29 @@
+import mongoose, { Types } from 'mongoose';
+
+// Export files can outgrow the 16 MB a document may hold, GridFS stores them in chunks
+const getBucket = () => new mongoose.mongo.GridFSBucket(mongoose.connection.db, { bucketName: 'exports' });
+
+/**
+ * Stores a finished export file. expiresAt matches the job's, mongo's TTL index drops the job
+ * but not the file, removeExpiredExportFiles does that.
+ */
+const saveExportFile = (fileName: string, file: Buffer, expiresAt: Date) => new Promise<Types.ObjectId>((resolve, reject) => {
+  const upload = getBucket().openUploadStream(fileName, { metadata: { expiresAt } });
+  upload.once('finish', () => resolve(upload.id as Types.ObjectId));
+  upload.once('error', reject);
+  upload.end(file);
+});
+
+const openExportFile = (fileId: Types.ObjectId) => getBucket().openDownloadStream(fileId);
+
+const removeExpiredExportFiles = async () => {
+  const bucket = getBucket();
+  const expired = await bucket.find({ 'metadata.expiresAt': { $lte: new Date() } }).toArray();
+  await Promise.all(expired.map(file => bucket.delete(file._id)));
+};
+
+export {
+  saveExportFile,
+  openExportFile,
+  removeExpiredExportFiles,
+};
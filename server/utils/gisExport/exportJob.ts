@@ -0,0 +1,75 @@
+import JSZip from 'jszip';
+import ExportJob, { ExportFormat } from '../../models/ExportJob';
+import Project from '../../models/Project';
+import { ExportLayer, loadExportLayers } from './layers';
+import { writeShapefile } from './shapefile';
+import { writeGeoPackage } from './geopackage';
+import { removeExpiredExportFiles, saveExportFile } from './exportFiles';
+
+const toBaseName = (name: string) => name.trim().replace(/[^\w-]+/g, '_') || 'export';
+
+// Every layer as its set of files next to each other, the way GIS tools open them
+const zipShapefiles = (layers: ExportLayer[]) => {
+  const zip = new JSZip();
+  layers.forEach(layer => {
+    Object.entries(writeShapefile(layer)).forEach(([extension, file]) => zip.file(`${layer.name}.${extension}`, file));
+  });
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+};
+
+const writeExport = (format: ExportFormat, layers: ExportLayer[]) =>
+  format === 'shapefile' ? zipShapefiles(layers) : writeGeoPackage(layers);
+
+/**
+ * Builds the file of a pending job and stores it in GridFS. Runs after the request is answered,
+ * so failures end up on the job instead of being thrown.
+ */
+const runExportJob = async (jobId: string) => {
+  try {
+    const job = await ExportJob.findById(jobId);
+    if (!job) return;
+
+    try {
+      const [project, layers] = await Promise.all([
+        Project.findById(job.project, { name: 1 }),
+        loadExportLayers(job.project),
+      ]);
+      if (layers.length === 0) throw new Error('The project has no assets or cable routes to export');
+
+      const fileName = `${toBaseName(project?.name ?? '')}.${job.format === 'shapefile' ? 'zip' : 'gpkg'}`;
+      job.fileId = await saveExportFile(fileName, await writeExport(job.format, layers), job.expiresAt);
+      job.fileName = fileName;
+      job.status = 'done';
+    } catch (error) {
+      job.status = 'failed';
+      job.error = (error as Error).message;
+    }
+    await job.save();
+
+    // Files of expired jobs are cleared whenever a new one is written
+    await removeExpiredExportFiles();
+  } catch (error) {
+    console.error(error);
+  }
+};
+
+/**
+ * Jobs run in this process only, one still pending at startup was cut off by a restart and never finishes.
+ */
+const failInterruptedExportJobs = async () => {
+  try {
+    const { modifiedCount } = await ExportJob.updateMany(
+      { status: 'pending' },
+      { status: 'failed', error: 'The server restarted before the export was finished, please export again' },
+    );
+    if (modifiedCount) console.log(`✅ Marked ${modifiedCount} interrupted exports as failed`);
+    await removeExpiredExportFiles();
+  } catch (error) {
+    console.log('❌ Export cleanup failed:', (error as {message: string}).message);
+  }
+};
+
+export {
+  runExportJob,
+  failInterruptedExportJobs,
+};
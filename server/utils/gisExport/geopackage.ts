@@ -0,0 +1,162 @@
+import initSqlJs, { SqlJsStatic } from 'sql.js';
+import { ExportLayer, ExportRecord } from './layers';
+
+// "GPKG" and GeoPackage 1.2, written to the sqlite header
+const APPLICATION_ID = 0x47504b47;
+const USER_VERSION = 10200;
+const SRS_ID = 4326;
+
+const WGS84_WKT = 'GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563,AUTHORITY["EPSG","7030"]],AUTHORITY["EPSG","6326"]],PRIMEM["Greenwich",0,AUTHORITY["EPSG","8901"]],UNIT["degree",0.0174532925199433,AUTHORITY["EPSG","9122"]],AUTHORITY["EPSG","4326"]]';
+
+const WKB_POINT = 1;
+const WKB_LINESTRING = 2;
+
+// The wasm module is loaded once per process
+let sqlJs: Promise<SqlJsStatic> | undefined;
+const loadSqlJs = () => {
+  sqlJs = sqlJs ?? initSqlJs();
+  return sqlJs;
+};
+
+const quote = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`;
+
+// sqlite column names are case insensitive, fid and geom are the feature table's own columns
+const toColumnNames = (fields: string[]) => {
+  const taken = new Set<string>(['FID', 'GEOM']);
+  return fields.map(field => {
+    const base = field || 'field';
+    let name = base;
+    for (let i = 2; taken.has(name.toUpperCase()); i++) name = `${base}_${i}`;
+    taken.add(name.toUpperCase());
+    return name;
+  });
+};
+
+const toEnvelope = (records: ExportRecord[]) => records
+  .flatMap(record => record.points)
+  .reduce((box, point) => ({
+    minX: Math.min(box.minX, point.lng),
+    maxX: Math.max(box.maxX, point.lng),
+    minY: Math.min(box.minY, point.lat),
+    maxY: Math.max(box.maxY, point.lat),
+  }), { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity });
+
+/**
+ * A GeoPackage geometry blob: the GP header with an xy envelope, then the geometry as little endian WKB.
+ */
+const toGeometry = (record: ExportRecord, geometry: ExportLayer['geometry']) => {
+  const header = Buffer.alloc(8 + 32);
+  header.write('GP', 0, 'ascii');
+  header.writeUInt8(0, 2);
+  // Little endian, envelope of minx, maxx, miny, maxy
+  header.writeUInt8(0x03, 3);
+  header.writeInt32LE(SRS_ID, 4);
+  const envelope = toEnvelope([record]);
+  header.writeDoubleLE(envelope.minX, 8);
+  header.writeDoubleLE(envelope.maxX, 16);
+  header.writeDoubleLE(envelope.minY, 24);
+  header.writeDoubleLE(envelope.maxY, 32);
+
+  if (geometry === 'point') {
+    const wkb = Buffer.alloc(21);
+    wkb.writeUInt8(1, 0);
+    wkb.writeUInt32LE(WKB_POINT, 1);
+    wkb.writeDoubleLE(record.points[0].lng, 5);
+    wkb.writeDoubleLE(record.points[0].lat, 13);
+    return Buffer.concat([header, wkb]);
+  }
+
+  const wkb = Buffer.alloc(9 + record.points.length * 16);
+  wkb.writeUInt8(1, 0);
+  wkb.writeUInt32LE(WKB_LINESTRING, 1);
+  wkb.writeUInt32LE(record.points.length, 5);
+  record.points.forEach((point, i) => {
+    wkb.writeDoubleLE(point.lng, 9 + i * 16);
+    wkb.writeDoubleLE(point.lat, 17 + i * 16);
+  });
+  return Buffer.concat([header, wkb]);
+};
+
+const CREATE_METADATA_TABLES = `
+  CREATE TABLE gpkg_spatial_ref_sys (
+    srs_name TEXT NOT NULL,
+    srs_id INTEGER NOT NULL PRIMARY KEY,
+    organization TEXT NOT NULL,
+    organization_coordsys_id INTEGER NOT NULL,
+    definition TEXT NOT NULL,
+    description TEXT
+  );
+  CREATE TABLE gpkg_contents (
+    table_name TEXT NOT NULL PRIMARY KEY,
+    data_type TEXT NOT NULL,
+    identifier TEXT UNIQUE,
+    description TEXT DEFAULT '',
+    last_change DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+    min_x DOUBLE,
+    min_y DOUBLE,
+    max_x DOUBLE,
+    max_y DOUBLE,
+    srs_id INTEGER,
+    CONSTRAINT fk_gc_r_srs_id FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys(srs_id)
+  );
+  CREATE TABLE gpkg_geometry_columns (
+    table_name TEXT NOT NULL,
+    column_name TEXT NOT NULL,
+    geometry_type_name TEXT NOT NULL,
+    srs_id INTEGER NOT NULL,
+    z TINYINT NOT NULL,
+    m TINYINT NOT NULL,
+    CONSTRAINT pk_geom_cols PRIMARY KEY (table_name, column_name),
+    CONSTRAINT fk_gc_tn FOREIGN KEY (table_name) REFERENCES gpkg_contents(table_name),
+    CONSTRAINT fk_gc_srs FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys (srs_id)
+  );
+`;
+
+/**
+ * One feature table per layer in a single file, every attribute is a TEXT column.
+ */
+const writeGeoPackage = async (layers: ExportLayer[]): Promise<Buffer> => {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    db.run(`PRAGMA application_id = ${APPLICATION_ID}; PRAGMA user_version = ${USER_VERSION};`);
+    db.run(CREATE_METADATA_TABLES);
+
+    // The undefined systems are required by the spec next to the one used
+    const insertSrs = 'INSERT INTO gpkg_spatial_ref_sys VALUES (?, ?, ?, ?, ?, ?)';
+    db.run(insertSrs, ['Undefined cartesian SRS', -1, 'NONE', -1, 'undefined', 'undefined cartesian coordinate reference system']);
+    db.run(insertSrs, ['Undefined geographic SRS', 0, 'NONE', 0, 'undefined', 'undefined geographic coordinate reference system']);
+    db.run(insertSrs, ['WGS 84 geodetic', SRS_ID, 'EPSG', SRS_ID, WGS84_WKT, 'longitude/latitude coordinates in decimal degrees on the WGS 84 spheroid']);
+
+    layers.forEach(layer => {
+      const geometryType = layer.geometry === 'point' ? 'POINT' : 'LINESTRING';
+      const columnNames = toColumnNames(layer.fields);
+      const columns = columnNames.map(column => `${quote(column)} TEXT`);
+      db.run(`CREATE TABLE ${quote(layer.name)} (fid INTEGER PRIMARY KEY AUTOINCREMENT, geom ${geometryType}${columns.map(column => `, ${column}`).join('')})`);
+
+      const envelope = toEnvelope(layer.records);
+      db.run('INSERT INTO gpkg_contents (table_name, data_type, identifier, min_x, min_y, max_x, max_y, srs_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [layer.name, 'features', layer.name, envelope.minX, envelope.minY, envelope.maxX, envelope.maxY, SRS_ID]);
+      db.run('INSERT INTO gpkg_geometry_columns VALUES (?, ?, ?, ?, 0, 0)', [layer.name, 'geom', geometryType, SRS_ID]);
+
+      const names = ['geom', ...columnNames].map(quote).join(', ');
+      const placeholders = ['?', ...layer.fields.map(() => '?')].join(', ');
+      const statement = db.prepare(`INSERT INTO ${quote(layer.name)} (${names}) VALUES (${placeholders})`);
+      db.run('BEGIN');
+      layer.records.forEach(record => {
+        statement.run([toGeometry(record, layer.geometry), ...layer.fields.map(field => record.attributes[field] ?? null)]);
+      });
+      db.run('COMMIT');
+      statement.free();
+    });
+
+    return Buffer.from(db.export());
+  } finally {
+    db.close();
+  }
+};
+
+export {
+  writeGeoPackage,
+};
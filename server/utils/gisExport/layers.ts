@@ -0,0 +1,79 @@
+import { Types } from 'mongoose';
+import Asset from '../../models/Asset';
+import CableRoute from '../../models/CableRoute';
+import Closure from '../../models/Closure';
+import { ASSET_TYPES, AssetType, IGeoPoint } from '../../../shared/networkSchema';
+
+export interface ExportRecord {
+  points: IGeoPoint[];
+  attributes: Record<string, string>;
+}
+
+export interface ExportLayer {
+  name: string;
+  geometry: 'point' | 'line';
+  // Attribute columns in the order they are written, every record has a value or nothing for each
+  fields: string[];
+  records: ExportRecord[];
+}
+
+const LAYER_NAMES: Record<AssetType, string> = {
+  pole: 'poles',
+  manhole: 'manholes',
+  handhole: 'handholes',
+  cabinet: 'cabinets',
+  closure: 'closures',
+  premises: 'premises',
+};
+
+// Imported attributes keep their names unless they clash with a column written from the asset itself
+const ASSET_COLUMNS = ['name', 'type', 'closure'];
+const toAttributeColumns = (attributes: Map<string, string>) =>
+  Object.fromEntries(Array.from(attributes, ([key, value]) => [ASSET_COLUMNS.includes(key) ? `attr_${key}` : key, value]));
+
+const toFields = (records: ExportRecord[]) =>
+  Array.from(new Set(records.flatMap(record => Object.keys(record.attributes))));
+
+/**
+ * One layer per asset type that has assets, and one for the cable routes. Closure links are written as closure names.
+ */
+const loadExportLayers = async (projectId: Types.ObjectId | string): Promise<ExportLayer[]> => {
+  const [assets, routes, closures] = await Promise.all([
+    Asset.find({ project: projectId }).sort({ createdAt: 1 }),
+    CableRoute.find({ project: projectId }).sort({ createdAt: 1 }),
+    Closure.find({ project: projectId }, { name: 1 }),
+  ]);
+  const closureNames = new Map(closures.map(closure => [String(closure._id), closure.name]));
+  const closureName = (closure?: Types.ObjectId) => closure ? closureNames.get(String(closure)) ?? '' : '';
+
+  const layers: ExportLayer[] = ASSET_TYPES.map(type => {
+    const records = assets.filter(asset => asset.type === type).map(asset => ({
+      points: [{ lat: asset.lat, lng: asset.lng }],
+      attributes: {
+        name: asset.name,
+        type: asset.type,
+        ...toAttributeColumns(asset.attributes),
+        ...(asset.closure ? { closure: closureName(asset.closure) } : {}),
+      },
+    }));
+    return { name: LAYER_NAMES[type], geometry: 'point' as const, fields: toFields(records), records };
+  });
+
+  const routeRecords = routes.map(route => ({
+    points: route.points.map(({ lat, lng }) => ({ lat, lng })),
+    attributes: {
+      name: route.name,
+      length_m: route.length.toFixed(0),
+      ...(route.estimate ? { order_m: route.estimate.orderLength.toFixed(0) } : {}),
+      ...(route.closure ? { closure: closureName(route.closure), cable_id: route.cableId ?? '' } : {}),
+      ...(route.toClosure ? { to_closure: closureName(route.toClosure), to_cable: route.toCableId ?? '' } : {}),
+    },
+  }));
+  layers.push({ name: 'cable_routes', geometry: 'line', fields: toFields(routeRecords), records: routeRecords });
+
+  return layers.filter(layer => layer.records.length > 0);
+};
+
+export {
+  loadExportLayers,
+};
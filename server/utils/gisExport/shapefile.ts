@@ -0,0 +1,162 @@
+import { ExportLayer, ExportRecord } from './layers';
+
+// WGS84 in the ESRI flavour of WKT, what GIS tools expect in a .prj
+const WGS84_PRJ = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+const SHAPE_POINT = 1;
+const SHAPE_POLYLINE = 3;
+const HEADER_SIZE = 100;
+// dBase character fields hold at most 254 bytes
+const MAX_FIELD_LENGTH = 254;
+
+interface Box {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+const toBox = (records: ExportRecord[]): Box => records
+  .flatMap(record => record.points)
+  .reduce((box, point) => ({
+    minX: Math.min(box.minX, point.lng),
+    minY: Math.min(box.minY, point.lat),
+    maxX: Math.max(box.maxX, point.lng),
+    maxY: Math.max(box.maxY, point.lat),
+  }), { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity });
+
+const writeBox = (buffer: Buffer, offset: number, box: Box) => {
+  buffer.writeDoubleLE(box.minX, offset);
+  buffer.writeDoubleLE(box.minY, offset + 8);
+  buffer.writeDoubleLE(box.maxX, offset + 16);
+  buffer.writeDoubleLE(box.maxY, offset + 24);
+};
+
+// Same header for .shp and .shx, lengths are counted in 16 bit words
+const writeHeader = (byteLength: number, shapeType: number, box: Box) => {
+  const header = Buffer.alloc(HEADER_SIZE);
+  header.writeInt32BE(9994, 0);
+  header.writeInt32BE(byteLength / 2, 24);
+  header.writeInt32LE(1000, 28);
+  header.writeInt32LE(shapeType, 32);
+  writeBox(header, 36, box);
+  return header;
+};
+
+const toShapeContent = (record: ExportRecord, shapeType: number) => {
+  if (shapeType === SHAPE_POINT) {
+    const content = Buffer.alloc(20);
+    content.writeInt32LE(SHAPE_POINT, 0);
+    content.writeDoubleLE(record.points[0].lng, 4);
+    content.writeDoubleLE(record.points[0].lat, 12);
+    return content;
+  }
+
+  // A route is a polyline with a single part
+  const content = Buffer.alloc(44 + 4 + record.points.length * 16);
+  content.writeInt32LE(SHAPE_POLYLINE, 0);
+  writeBox(content, 4, toBox([record]));
+  content.writeInt32LE(1, 36);
+  content.writeInt32LE(record.points.length, 40);
+  content.writeInt32LE(0, 44);
+  record.points.forEach((point, i) => {
+    content.writeDoubleLE(point.lng, 48 + i * 16);
+    content.writeDoubleLE(point.lat, 56 + i * 16);
+  });
+  return content;
+};
+
+// Cuts on a character boundary so no UTF-8 sequence is split
+const toFieldBytes = (value: string, length: number) => {
+  let text = value;
+  while (Buffer.byteLength(text) > length) text = text.slice(0, -1);
+  return Buffer.from(text);
+};
+
+// dBase field names are at most 10 ASCII characters and must be unique
+const toFieldNames = (fields: string[]) => {
+  const taken = new Set<string>();
+  return fields.map(field => {
+    const base = (field.replace(/[^A-Za-z0-9_]/g, '_') || 'field').slice(0, 10);
+    let name = base;
+    for (let i = 2; taken.has(name.toUpperCase()); i++) name = `${base.slice(0, 10 - String(i).length)}${i}`;
+    taken.add(name.toUpperCase());
+    return name;
+  });
+};
+
+const writeDbf = (layer: ExportLayer) => {
+  const names = toFieldNames(layer.fields);
+  const lengths = layer.fields.map(field => Math.min(MAX_FIELD_LENGTH, layer.records.reduce((length, record) => Math.max(length, Buffer.byteLength(record.attributes[field] ?? '')), 1)));
+  const headerLength = 32 + layer.fields.length * 32 + 1;
+  const recordLength = 1 + lengths.reduce((sum, length) => sum + length, 0);
+  const buffer = Buffer.alloc(headerLength + layer.records.length * recordLength + 1, 0x20);
+
+  const now = new Date();
+  buffer.fill(0, 0, headerLength);
+  buffer.writeUInt8(0x03, 0);
+  buffer.writeUInt8(now.getFullYear() - 1900, 1);
+  buffer.writeUInt8(now.getMonth() + 1, 2);
+  buffer.writeUInt8(now.getDate(), 3);
+  buffer.writeUInt32LE(layer.records.length, 4);
+  buffer.writeUInt16LE(headerLength, 8);
+  buffer.writeUInt16LE(recordLength, 10);
+
+  names.forEach((name, i) => {
+    const offset = 32 + i * 32;
+    buffer.write(name, offset, 'ascii');
+    buffer.write('C', offset + 11, 'ascii');
+    buffer.writeUInt8(lengths[i], offset + 16);
+  });
+  buffer.writeUInt8(0x0d, headerLength - 1);
+
+  layer.records.forEach((record, r) => {
+    let offset = headerLength + r * recordLength + 1;
+    layer.fields.forEach((field, i) => {
+      toFieldBytes(record.attributes[field] ?? '', lengths[i]).copy(buffer, offset);
+      offset += lengths[i];
+    });
+  });
+  buffer.writeUInt8(0x1a, buffer.length - 1);
+  return buffer;
+};
+
+/**
+ * The files of one layer, keyed by extension. Text attributes are written as UTF-8, the .cpg says so.
+ */
+const writeShapefile = (layer: ExportLayer): Record<string, Buffer> => {
+  const shapeType = layer.geometry === 'point' ? SHAPE_POINT : SHAPE_POLYLINE;
+  const box = toBox(layer.records);
+  const contents = layer.records.map(record => toShapeContent(record, shapeType));
+
+  const shpLength = HEADER_SIZE + contents.reduce((sum, content) => sum + 8 + content.length, 0);
+  const shxLength = HEADER_SIZE + contents.length * 8;
+  const shp = [writeHeader(shpLength, shapeType, box)];
+  const shx = [writeHeader(shxLength, shapeType, box)];
+
+  let offset = HEADER_SIZE;
+  contents.forEach((content, i) => {
+    const recordHeader = Buffer.alloc(8);
+    recordHeader.writeInt32BE(i + 1, 0);
+    recordHeader.writeInt32BE(content.length / 2, 4);
+    shp.push(recordHeader, content);
+
+    const index = Buffer.alloc(8);
+    index.writeInt32BE(offset / 2, 0);
+    index.writeInt32BE(content.length / 2, 4);
+    shx.push(index);
+    offset += 8 + content.length;
+  });
+
+  return {
+    shp: Buffer.concat(shp),
+    shx: Buffer.concat(shx),
+    dbf: writeDbf(layer),
+    prj: Buffer.from(WGS84_PRJ),
+    cpg: Buffer.from('UTF-8'),
+  };
+};
+
+export {
+  writeShapefile,
+};
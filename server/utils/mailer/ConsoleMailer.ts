@@ -0,0 +1,10 @@
+import { IMailer, MailMessage } from './types';
+
+// Local development transport, prints every mail to the server log
+class ConsoleMailer implements IMailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`✉️  Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+export default ConsoleMailer;
@@ -0,0 +1,20 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { IMailer, MailMessage } from './types';
+
+// Local development transport, every mail lands as a json file in `directory`
+class FileMailer implements IMailer {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^\w.@-]/g, '_')}.json`;
+    await fs.writeFile(path.join(this.directory, fileName), JSON.stringify(message, null, 2));
+  }
+}
+
+export default FileMailer;
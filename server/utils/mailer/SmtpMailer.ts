@@ -0,0 +1,32 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { IMailer, MailMessage } from './types';
+
+interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+class SmtpMailer implements IMailer {
+  private transporter: Transporter;
+  private from: string;
+
+  constructor({ host, port, secure, user, password, from }: SmtpOptions) {
+    this.from = from;
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      secure,
+      auth: user ? { user, pass: password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+export default SmtpMailer;
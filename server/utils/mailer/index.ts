@@ -0,0 +1,38 @@
+import {
+  MAIL_DIR,
+  MAIL_FROM,
+  MAIL_TRANSPORT,
+  SMTP_HOST,
+  SMTP_PASSWORD,
+  SMTP_PORT,
+  SMTP_SECURE,
+  SMTP_USER,
+} from '../../constants';
+import { IMailer } from './types';
+import SmtpMailer from './SmtpMailer';
+import FileMailer from './FileMailer';
+import ConsoleMailer from './ConsoleMailer';
+
+const createMailer = (): IMailer => {
+  switch (MAIL_TRANSPORT) {
+    case 'smtp':
+      return new SmtpMailer({
+        host: SMTP_HOST,
+        port: SMTP_PORT,
+        secure: SMTP_SECURE,
+        user: SMTP_USER,
+        password: SMTP_PASSWORD,
+        from: MAIL_FROM,
+      });
+    case 'file':
+      return new FileMailer(MAIL_DIR);
+    default:
+      return new ConsoleMailer();
+  }
+};
+
+const mailer = createMailer();
+
+export * from './types';
+export * from './templates';
+export default mailer;
@@ -0,0 +1,46 @@
+import { CLIENT_URL } from '../../constants';
+import { MailMessage } from './types';
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+// Names come from users, they go into the html part as text only
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, char => HTML_ENTITIES[char]);
+
+const verifyEmailMessage = (to: string, token: string): MailMessage => {
+  const link = `${CLIENT_URL}/?verifyToken=${token}`;
+  return {
+    to,
+    subject: 'Confirm your email address',
+    text: `Open this link to confirm your email address:\n${link}`,
+    html: `<p>Open this link to confirm your email address:</p><p><a href="${link}">${link}</a></p>`,
+  };
+};
+
+const resetPasswordMessage = (to: string, token: string, ttlMinutes: number): MailMessage => {
+  const link = `${CLIENT_URL}/?resetToken=${token}`;
+  return {
+    to,
+    subject: 'Reset your password',
+    text: `Open this link within ${ttlMinutes} minutes to choose a new password:\n${link}\n\nIf you didn't ask for this, ignore this email.`,
+    html: `<p>Open this link within ${ttlMinutes} minutes to choose a new password:</p><p><a href="${link}">${link}</a></p><p>If you didn't ask for this, ignore this email.</p>`,
+  };
+};
+
+const projectInvitationMessage = (to: string, projectName: string, inviterName: string): MailMessage => ({
+  to,
+  subject: `You were invited to ${projectName}`,
+  text: `${inviterName} invited you to the project "${projectName}". Log in or register with this email address at ${CLIENT_URL} and confirm it to accept.`,
+  html: `<p>${escapeHtml(inviterName)} invited you to the project "${escapeHtml(projectName)}".</p><p>Log in or register with this email address at <a href="${CLIENT_URL}">${CLIENT_URL}</a> and confirm it to accept.</p>`,
+});
+
+export {
+  verifyEmailMessage,
+  resetPasswordMessage,
+  projectInvitationMessage,
+};
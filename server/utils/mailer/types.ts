@@ -0,0 +1,10 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface IMailer {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,72 @@
+import { Types } from 'mongoose';
+import Account, { AccountRole } from '../models/Account';
+import Closure from '../models/Closure';
+import Cable from '../models/Cable';
+import Splitter from '../models/Splitter';
+import Connection from '../models/Connection';
+import { createPersonalWorkspace } from './workspaces';
+
+// Accounts created before the viewer/technician/planner split were plain 'user's with full edit rights
+const migrateAccountRoles = async () => {
+  try {
+    const { modifiedCount } = await Account.updateMany({ role: 'user' as AccountRole }, { role: 'planner' });
+    if (modifiedCount) console.log(`✅ Migrated ${modifiedCount} accounts to the planner role`);
+  } catch (error) {
+    console.log('❌ Account role migration failed:', (error as {message: string}).message);
+  }
+};
+
+// Closures used to belong to a single account, move each owner's closures into a personal project
+const migrateClosuresToProjects = async () => {
+  try {
+    const orphanClosures = await Closure.find({ project: { $exists: false } });
+    const projectsByOwner = new Map<string, Types.ObjectId>();
+
+    for (const closure of orphanClosures) {
+      let projectId = projectsByOwner.get(closure.owner.toString());
+      if (!projectId) {
+        const project = await createPersonalWorkspace(closure.owner);
+        projectId = project._id as Types.ObjectId;
+        projectsByOwner.set(closure.owner.toString(), projectId);
+      }
+
+      closure.project = projectId;
+      await closure.save();
+
+      // The items' old owner field isn't in the schema anymore, so go through the raw collections
+      for (const model of [Cable, Splitter, Connection]) {
+        await model.collection.updateMany({ closure: closure._id }, { $set: { project: projectId }, $unset: { owner: '' } });
+      }
+    }
+
+    if (orphanClosures.length) console.log(`✅ Moved ${orphanClosures.length} closures into personal projects`);
+  } catch (error) {
+    console.log('❌ Closure project migration failed:', (error as {message: string}).message);
+  }
+};
+
+// Connections used to keep the 2D path and the 3D points side by side at the top level
+const migrateConnectionLayouts = async () => {
+  try {
+    const { modifiedCount } = await Connection.collection.updateMany({ layout: { $exists: false } }, [
+      {
+        $set: {
+          layout: {
+            canvas: { path: { $ifNull: ['$path', []] } },
+            scene: { points: { $ifNull: ['$points', []] } },
+          },
+        },
+      },
+      { $unset: ['path', 'points'] },
+    ]);
+    if (modifiedCount) console.log(`✅ Moved ${modifiedCount} connections to per-view layouts`);
+  } catch (error) {
+    console.log('❌ Connection layout migration failed:', (error as {message: string}).message);
+  }
+};
+
+export {
+  migrateAccountRoles,
+  migrateClosuresToProjects,
+  migrateConnectionLayouts,
+};
@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import RefreshToken from '../models/RefreshToken';
+import { REFRESH_TOKEN_TTL_DAYS } from '../constants';
+import { generateToken, hashToken } from './tokens';
+
+const issueRefreshToken = async (accountId: Types.ObjectId | string, family: string = crypto.randomUUID()) => {
+  const token = generateToken();
+  await RefreshToken.create({
+    account: accountId,
+    family,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+  });
+  return token;
+};
+
+const revokeRefreshFamily = async (family: string) => {
+  await RefreshToken.updateMany({ family, revokedAt: { $exists: false } }, { revokedAt: new Date() });
+};
+
+const revokeAccountRefreshTokens = async (accountId: Types.ObjectId | string) => {
+  await RefreshToken.updateMany({ account: accountId, revokedAt: { $exists: false } }, { revokedAt: new Date() });
+};
+
+// A token rotated this recently was most likely refreshed by another tab at the same moment, not stolen
+const ROTATION_GRACE_MS = 10 * 1000;
+
+/**
+ * Exchanges a refresh token for a new one from the same family.
+ * The token is consumed by one conditional update, so of two simultaneous refreshes only one rotates it.
+ * Presenting an already rotated token means it leaked, so the whole family is revoked,
+ * unless it was rotated within the last few seconds.
+ * Returns null when the token can't be used.
+ */
+const rotateRefreshToken = async (token: string) => {
+  const tokenHash = hashToken(token);
+  const consumed = await RefreshToken.findOneAndUpdate(
+    { tokenHash, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+    { revokedAt: new Date() },
+    { new: true },
+  );
+
+  if (!consumed) {
+    const found = await RefreshToken.findOne({ tokenHash });
+    const isRecentRotation = found?.revokedAt && Date.now() - found.revokedAt.getTime() < ROTATION_GRACE_MS;
+    if (found?.revokedAt && !isRecentRotation) await revokeRefreshFamily(found.family);
+    return null;
+  }
+
+  const refreshToken = await issueRefreshToken(consumed.account, consumed.family);
+  await RefreshToken.updateOne({ _id: consumed._id }, { replacedBy: hashToken(refreshToken) });
+
+  return { accountId: consumed.account, refreshToken };
+};
+
+const revokeRefreshToken = async (token: string) => {
+  const found = await RefreshToken.findOne({ tokenHash: hashToken(token) });
+  if (found) await revokeRefreshFamily(found.family);
+};
+
+export {
+  issueRefreshToken,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  revokeRefreshFamily,
+  revokeAccountRefreshTokens,
+};
@@ -0,0 +1,97 @@
+import { Types, isValidObjectId } from 'mongoose';
+import Closure from '../models/Closure';
+import Cable from '../models/Cable';
+import Splitter from '../models/Splitter';
+import Connection from '../models/Connection';
+import { SCHEMA_VERSION, schemaVersionSchema, splicePlanKeys } from '../../shared/networkSchema';
+
+type PlainDocument = Record<string, unknown>;
+
+export interface SplicePlan {
+  schemaVersion?: number;
+  cables: PlainDocument[];
+  splitters: PlainDocument[];
+  connections: PlainDocument[];
+}
+
+// Every request that carries network data may say which schema version it was written for
+const splicePlanValidators = {
+  ...splicePlanKeys,
+  schemaVersion: schemaVersionSchema,
+};
+
+// Strip the storage fields so the client gets back the same shape it sent
+const toPlainItem = (doc: { toObject: () => PlainDocument }) => {
+  const { _id, __v, closure, project, createdAt, updatedAt, ...item } = doc.toObject();
+  return item;
+};
+
+// Every lookup carries the project id, a closure id from another tenant never matches
+const findProjectClosure = async (closureId: string, projectId: Types.ObjectId | string) => {
+  if (!isValidObjectId(closureId)) return null;
+  return Closure.findOne({ _id: closureId, project: projectId });
+};
+
+const loadSplicePlan = async (closureId: Types.ObjectId, projectId: Types.ObjectId): Promise<SplicePlan> => {
+  const [cables, splitters, connections] = await Promise.all([
+    Cable.find({ closure: closureId, project: projectId }).sort({ _id: 1 }),
+    Splitter.find({ closure: closureId, project: projectId }).sort({ _id: 1 }),
+    Connection.find({ closure: closureId, project: projectId }).sort({ _id: 1 }),
+  ]);
+
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    cables: cables.map(toPlainItem),
+    splitters: splitters.map(toPlainItem),
+    connections: connections.map(toPlainItem),
+  };
+};
+
+/**
+ * Replaces every section present in `plan`, sections that are left out stay untouched.
+ * Without a replica set there are no transactions, so when any insert fails
+ * every replaced section gets its previous documents back before the error is passed on.
+ */
+const replaceSplicePlan = async (closureId: Types.ObjectId, projectId: Types.ObjectId, plan: Partial<SplicePlan>) => {
+  const filter = { closure: closureId, project: projectId };
+  const sections = [
+    { model: Cable, items: plan.cables },
+    { model: Splitter, items: plan.splitters },
+    { model: Connection, items: plan.connections },
+  ]
+    .filter(section => section.items)
+    .map(({ model, items }) => ({ model: model as typeof Cable, items: items as PlainDocument[] }));
+
+  // Taken before anything is deleted, a later section failing must undo the earlier ones too
+  const previous = await Promise.all(sections.map(({ model }) => model.find(filter).lean()));
+
+  try {
+    for (const { model, items } of sections) {
+      await model.deleteMany(filter);
+      await model.insertMany(items.map(item => ({ ...item, ...filter })));
+    }
+  } catch (error) {
+    // An insert that got halfway leaves documents behind, they go before the old ones come back
+    for (const [i, { model }] of sections.entries()) {
+      await model.deleteMany(filter);
+      await model.insertMany(previous[i]);
+    }
+    throw error;
+  }
+};
+
+const deleteSplicePlan = async (closureId: Types.ObjectId, projectId: Types.ObjectId) => {
+  await Promise.all([
+    Cable.deleteMany({ closure: closureId, project: projectId }),
+    Splitter.deleteMany({ closure: closureId, project: projectId }),
+    Connection.deleteMany({ closure: closureId, project: projectId }),
+  ]);
+};
+
+export {
+  splicePlanValidators,
+  findProjectClosure,
+  loadSplicePlan,
+  replaceSplicePlan,
+  deleteSplicePlan,
+};
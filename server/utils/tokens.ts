@@ -0,0 +1,11 @@
+import crypto from 'crypto';
+
+// Opaque tokens handed to the client, only their sha256 is ever stored
+const generateToken = () => crypto.randomBytes(48).toString('hex');
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export {
+  generateToken,
+  hashToken,
+};
@@ -0,0 +1,16 @@
+import { Types } from 'mongoose';
+import Organization from '../models/Organization';
+import Project from '../models/Project';
+import Membership from '../models/Membership';
+
+// Every account starts with an organization and project of its own to work in
+const createPersonalWorkspace = async (accountId: Types.ObjectId | string) => {
+  const organization = await Organization.create({ owner: accountId, name: 'Personal workspace' });
+  const project = await Project.create({ organization: organization._id, name: 'My network' });
+  await Membership.create({ project: project._id, account: accountId, role: 'admin' });
+  return project;
+};
+
+export {
+  createPersonalWorkspace,
+};
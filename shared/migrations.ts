@@ -0,0 +1,87 @@
+/**
+ * Upgrades of stored network data to the current SCHEMA_VERSION.
+ */
+import { IConnectionDocument, IConnectionLayout, IPoint2D, IPoint3D, IStoredConnections, SCHEMA_VERSION, storedConnectionsSchema } from './networkSchema';
+
+type SpliceFields = Omit<IConnectionDocument, 'layout'>;
+
+// Shape of the version 1 items: a 2D canvas connection or a 3D scene connection
+type LegacyConnection = Partial<SpliceFields> & {
+  fiber1Id: string;
+  fiber2Id: string;
+  path?: IPoint2D[];
+  points?: IPoint3D[];
+};
+
+let legacyIdCounter = 0;
+
+const toSpliceFields = (item: LegacyConnection): SpliceFields => ({
+  // 3D connections had no id, they get one here and keep it from now on
+  id: item.id ?? `conn-legacy-${Date.now()}-${legacyIdCounter++}`,
+  fiber1Id: item.fiber1Id,
+  fiber2Id: item.fiber2Id,
+  color1: item.color1 ?? '',
+  color2: item.color2 ?? '',
+  isMarked1: item.isMarked1,
+  isMarked2: item.isMarked2,
+  fiber1CableId: item.fiber1CableId,
+  fiber2CableId: item.fiber2CableId,
+  fiber1CableType: item.fiber1CableType,
+  fiber2CableType: item.fiber2CableType,
+});
+
+// Version 1 items had either the path, the points or both (server records)
+const toDocument = (item: LegacyConnection): IConnectionDocument => {
+  const layout: IConnectionLayout = {};
+  if (item.path?.length) layout.canvas = { path: item.path.map(({ x, y }) => ({ x, y })) };
+  if (item.points?.length) layout.scene = { points: item.points.map(({ x, y, z }) => ({ x, y, z })) };
+  return { ...toSpliceFields(item), layout };
+};
+
+const isLegacyConnection = (item: unknown): item is LegacyConnection =>
+  !!item && typeof item === 'object' && typeof (item as LegacyConnection).fiber1Id === 'string' && typeof (item as LegacyConnection).fiber2Id === 'string';
+
+/**
+ * Merges the version 1 `connections2D` and `connections3D` lists into connection documents. The two
+ * lists described the same splices, an item of one is paired with the item of the other joining the
+ * same fibers.
+ */
+export const upgradeLegacyConnections = (connections2D: unknown, connections3D: unknown): IConnectionDocument[] => {
+  const list2D = Array.isArray(connections2D) ? connections2D.filter(isLegacyConnection) : [];
+  const list3D = Array.isArray(connections3D) ? connections3D.filter(isLegacyConnection) : [];
+  const documents: IConnectionDocument[] = [];
+
+  const findDocument = (item: LegacyConnection) => documents.find(doc =>
+    (doc.fiber1Id === item.fiber1Id && doc.fiber2Id === item.fiber2Id) || (doc.fiber1Id === item.fiber2Id && doc.fiber2Id === item.fiber1Id));
+
+  list2D.forEach(item => documents.push(toDocument(item)));
+  list3D.forEach(item => {
+    const document = toDocument(item);
+    const existing = findDocument(item);
+    if (!existing) documents.push(document);
+    else if (document.layout.scene) existing.layout.scene = document.layout.scene;
+  });
+  return documents;
+};
+
+/**
+ * Reads a stored connections payload of any version. Returns null when it can't be understood.
+ */
+export const migrateStoredConnections = (payload: unknown): IStoredConnections | null => {
+  // Before the envelope the documents were stored as a bare array
+  const envelope = Array.isArray(payload) ? { schemaVersion: 1, connections: payload } : payload as Partial<IStoredConnections> | null;
+  if (!envelope || typeof envelope !== 'object' || !Array.isArray(envelope.connections)) return null;
+
+  let connections = envelope.connections as unknown[];
+  if ((envelope.schemaVersion ?? 1) < 2) {
+    connections = connections.filter(isLegacyConnection).map(item => {
+      const legacy = item as LegacyConnection & Partial<IConnectionDocument>;
+      // Documents written before the envelope existed already carry a layout
+      return legacy.layout ? { ...toSpliceFields(legacy), layout: legacy.layout } : toDocument(legacy);
+    });
+  }
+
+  const upgraded = { schemaVersion: SCHEMA_VERSION, connections };
+  const { error, value } = storedConnectionsSchema.validate(upgraded);
+  return error ? null : value as IStoredConnections;
+};
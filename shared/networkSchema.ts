@@ -0,0 +1,393 @@
+/**
+ * Network data schema shared by the client and the server: the types, their runtime validators and the
+ * version stamped on every stored payload. Bump SCHEMA_VERSION whenever a stored shape changes and teach
+ * migrations.ts how to upgrade the previous version.
+ */
+import joi from 'joi';
+
+// 1: connections kept the 2D path and the 3D points at the top level
+// 2: one connection document with per-view layout sections
+export const SCHEMA_VERSION = 2;
+
+export interface IPoint2D {
+  x: number;
+  y: number;
+}
+
+export interface IPoint3D extends IPoint2D {
+  z: number;
+}
+
+export interface IFiber {
+  id: string;
+  // Cable the fiber belongs to
+  parentId: string;
+  color: string;
+  isMarked?: boolean;
+  tubeId?: string;
+}
+
+export interface ITube {
+  id: string;
+  parentId: string;
+  color: string;
+}
+
+export interface ICable {
+  id: string;
+  type: 'in' | 'out';
+  fibers: IFiber[];
+  tubes?: ITube[];
+}
+
+export interface ISplitterPort {
+  id: string;
+  // Splitter the port belongs to
+  parentId: string;
+  color?: string;
+  // Nominal insertion loss from the input to this output, dB
+  loss?: number;
+  // Share of the input power this output gets, percent
+  ratio?: number;
+}
+
+export interface ISplitter {
+  id: string;
+  name: string;
+  // Catalogue model the ports were generated from
+  model?: string;
+  inputs: ISplitterPort[];
+  outputs: ISplitterPort[];
+}
+
+export interface IConnectionLayout {
+  // 2D canvas route, its points double as the canvas control points
+  canvas?: { path: IPoint2D[] };
+  // 3D scene control points
+  scene?: { points: IPoint3D[] };
+}
+
+/**
+ * The canonical splice record. Both views edit the same document, each through its own layout
+ * section, and the id never changes whichever view the connection was made or edited in.
+ */
+export interface IConnectionDocument {
+  id: string;
+  fiber1Id: string;
+  fiber2Id: string;
+  color1: string;
+  color2: string;
+  isMarked1?: boolean;
+  isMarked2?: boolean;
+  fiber1CableId?: string;
+  fiber2CableId?: string;
+  fiber1CableType?: string;
+  fiber2CableType?: string;
+  layout: IConnectionLayout;
+}
+
+export interface ISplicePlan {
+  cables: ICable[];
+  splitters: ISplitter[];
+  connections: IConnectionDocument[];
+}
+
+// Items may carry view-only state (control point handles, icon rects...), it is let through and dropped on save
+const point2DSchema = joi.object({ x: joi.number().required(), y: joi.number().required() }).unknown(true);
+const point3DSchema = joi.object({ x: joi.number().required(), y: joi.number().required(), z: joi.number().required() });
+
+export const fiberSchema = joi.object({
+  id: joi.string().required(),
+  parentId: joi.string().required(),
+  color: joi.string().required(),
+  isMarked: joi.boolean(),
+  tubeId: joi.string(),
+}).unknown(true);
+
+export const tubeSchema = joi.object({
+  id: joi.string().required(),
+  parentId: joi.string().required(),
+  color: joi.string().required(),
+}).unknown(true);
+
+export const cableSchema = joi.object({
+  id: joi.string().required(),
+  type: joi.string().valid('in', 'out').required(),
+  fibers: joi.array().items(fiberSchema).required(),
+  tubes: joi.array().items(tubeSchema),
+}).unknown(true);
+
+export const splitterPortSchema = joi.object({
+  id: joi.string().required(),
+  parentId: joi.string().required(),
+  color: joi.string(),
+  loss: joi.number().min(0),
+  ratio: joi.number().min(0).max(100),
+}).unknown(true);
+
+export const splitterSchema = joi.object({
+  id: joi.string().required(),
+  name: joi.string().required(),
+  model: joi.string(),
+  inputs: joi.array().items(splitterPortSchema).required(),
+  outputs: joi.array().items(splitterPortSchema).required(),
+}).unknown(true);
+
+export const connectionLayoutSchema = joi.object({
+  canvas: joi.object({ path: joi.array().items(point2DSchema).required() }),
+  scene: joi.object({ points: joi.array().items(point3DSchema).required() }),
+});
+
+export const connectionSchema = joi.object({
+  id: joi.string().required(),
+  fiber1Id: joi.string().required(),
+  fiber2Id: joi.string().required(),
+  color1: joi.string().required(),
+  color2: joi.string().required(),
+  isMarked1: joi.boolean(),
+  isMarked2: joi.boolean(),
+  fiber1CableId: joi.string(),
+  fiber2CableId: joi.string(),
+  fiber1CableType: joi.string(),
+  fiber2CableType: joi.string(),
+  layout: connectionLayoutSchema.required(),
+}).unknown(true);
+
+// The sections of a splice plan, for building request schemas that accept any of them
+// Ids are unique within a closure, a payload repeating one is refused before anything is replaced
+export const splicePlanKeys = {
+  cables: joi.array().items(cableSchema).unique('id'),
+  splitters: joi.array().items(splitterSchema).unique('id'),
+  connections: joi.array().items(connectionSchema).unique('id'),
+};
+
+// Payloads written by an older client are upgraded before they are sent, a newer one is refused
+export const schemaVersionSchema = joi.number().integer().valid(SCHEMA_VERSION);
+
+/**
+ * Versioned envelope of the connection documents kept in localStorage.
+ */
+export interface IStoredConnections {
+  schemaVersion: number;
+  connections: IConnectionDocument[];
+}
+
+export const storedConnectionsSchema = joi.object({
+  schemaVersion: schemaVersionSchema.required(),
+  connections: joi.array().items(connectionSchema).required(),
+});
+
+/**
+ * A cable product of the project catalogue, cables are generated from it when they are added to a closure.
+ */
+export interface ICableType {
+  name: string;
+  fiberCount: number;
+  // 0 for a cable without buffer tubes
+  tubeCount: number;
+  fibersPerTube: number;
+  // Id of a colour code, standard or company specific
+  colorStandard: string;
+  sheathColor?: string;
+  // Millimetres
+  outerDiameter?: number;
+}
+
+export const cableTypeSchema = joi.object({
+  name: joi.string().trim().required(),
+  fiberCount: joi.number().integer().min(1).required(),
+  tubeCount: joi.number().integer().min(0).required(),
+  fibersPerTube: joi.number().integer().min(1).required(),
+  colorStandard: joi.string().required(),
+  sheathColor: joi.string().allow(''),
+  outerDiameter: joi.number().positive(),
+}).custom((value: ICableType, helpers) => {
+  if (value.tubeCount > 0 && value.tubeCount * value.fibersPerTube < value.fiberCount) {
+    return helpers.message({ custom: '"fiberCount" doesn\'t fit in "tubeCount" tubes of "fibersPerTube" fibers' });
+  }
+  return value;
+});
+
+export interface INamedColor {
+  name: string;
+  // CSS colour the views draw with
+  color: string;
+}
+
+/**
+ * A company fiber colour code of the project catalogue, cable types refer to it by id like to a standard one.
+ */
+export interface IColorCode {
+  // Slug cable types store in colorStandard, never one of the standard ids
+  id: string;
+  name: string;
+  // Colour of position 1, 2, 3... of a tube or of a cable without tubes
+  colors: INamedColor[];
+  marking: 'ring' | 'dash' | 'none';
+  // Colour of the ring or dash, the fallback is used on fibers of that same colour
+  markColor: INamedColor;
+  markFallback: INamedColor;
+}
+
+// Ids of the built-in codes, a company code can't take one over
+export const STANDARD_COLOR_CODE_IDS = ['tia-598-c', 'iec-60304', 'din-vde-0888'];
+
+const namedColorSchema = joi.object({
+  name: joi.string().trim().required(),
+  color: joi.string().required(),
+});
+
+export const colorCodeSchema = joi.object({
+  id: joi.string().trim().pattern(/^[\w-]+$/).invalid(...STANDARD_COLOR_CODE_IDS).required(),
+  name: joi.string().trim().required(),
+  colors: joi.array().items(namedColorSchema).min(1).unique('color').required(),
+  marking: joi.string().valid('ring', 'dash', 'none').required(),
+  markColor: namedColorSchema.required(),
+  markFallback: namedColorSchema.required(),
+});
+
+/**
+ * One end of a traced hop: a fiber of a cable or a port of a splitter, in a given closure.
+ */
+export interface ITraceEndpoint {
+  portId: string;
+  closureId: string;
+  closureName: string;
+  // "IN cable 1, fiber 3" or "PLC 1×8, output 5"
+  description: string;
+  color?: string;
+  isMarked?: boolean;
+}
+
+export interface ITraceHop {
+  // splice: a connection inside a closure, splitter: through a splitter,
+  // cable: the same fiber leaving one closure and reaching the next
+  kind: 'splice' | 'splitter' | 'cable';
+  from: ITraceEndpoint;
+  to: ITraceEndpoint;
+  // Nominal loss of a splitter hop, dB
+  loss?: number;
+  // Metres of cable between the two closures, for a cable hop along a mapped route
+  length?: number;
+}
+
+/**
+ * A circuit through the project, ordered from the OLT side: the hops up to the traced fiber,
+ * then everything downstream of it, branching at splitters.
+ */
+export interface IFiberTrace {
+  fiberId: string;
+  hops: ITraceHop[];
+  // Every port on the circuit, for highlighting
+  portIds: string[];
+}
+
+export interface IGeoPoint {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * What a planner adds to the distance on the map to get the length of cable to order.
+ */
+export interface ICableLengthSettings {
+  // Metres of slack loop coiled at every pole
+  slackPerPole: number;
+  // Extra percent on spans hung between two poles
+  sagPercent: number;
+  // Metres for each run up or down a pole, and down into and back out of a manhole
+  poleRiser: number;
+  manholeRiser: number;
+  reservePercent: number;
+}
+
+/**
+ * The settings with what they were applied to, lengths in metres.
+ */
+export interface ICableLengthEstimate extends ICableLengthSettings {
+  poles: number;
+  poleRisers: number;
+  manholes: number;
+  aerialLength: number;
+  // Rounded up to whole metres
+  orderLength: number;
+}
+
+/**
+ * A cable laid along a polyline on the map, optionally linked to the cable record in a closure.
+ */
+export interface ICableRoute {
+  name: string;
+  points: IGeoPoint[];
+  // Metres along the polyline
+  length: number;
+  // Closure whose splice plan holds the cable, and the cable's id in it
+  closure?: string;
+  cableId?: string;
+  // The closure and cable at the far end of the route. Fiber n of cableId continues as fiber n
+  // of toCableId, which is how a trace gets from one closure to the next
+  toClosure?: string;
+  toCableId?: string;
+  estimate?: ICableLengthEstimate;
+}
+
+export const geoPointSchema = joi.object({
+  lat: joi.number().min(-90).max(90).required(),
+  lng: joi.number().min(-180).max(180).required(),
+}).unknown(true);
+
+export const cableLengthEstimateSchema = joi.object({
+  slackPerPole: joi.number().min(0).required(),
+  sagPercent: joi.number().min(0).max(100).required(),
+  poleRiser: joi.number().min(0).required(),
+  manholeRiser: joi.number().min(0).required(),
+  reservePercent: joi.number().min(0).max(100).required(),
+  poles: joi.number().integer().min(0).required(),
+  poleRisers: joi.number().integer().min(0).required(),
+  manholes: joi.number().integer().min(0).required(),
+  aerialLength: joi.number().min(0).required(),
+  orderLength: joi.number().min(0).required(),
+});
+
+export const cableRouteSchema = joi.object({
+  name: joi.string().trim().required(),
+  points: joi.array().items(geoPointSchema).min(2).required(),
+  length: joi.number().min(0).required(),
+  closure: joi.string().allow(null),
+  cableId: joi.string().allow(null),
+  toClosure: joi.string().allow(null),
+  toCableId: joi.string().allow(null),
+  estimate: cableLengthEstimateSchema.allow(null),
+}).and('closure', 'cableId').and('toClosure', 'toCableId').with('toClosure', 'closure');
+
+export const ASSET_TYPES = ['pole', 'manhole', 'handhole', 'cabinet', 'closure', 'premises'] as const;
+
+export type AssetType = typeof ASSET_TYPES[number];
+
+/**
+ * A physical plant item placed on the map. Attributes are free form, the client knows which ones each type has.
+ */
+export interface IAsset {
+  type: AssetType;
+  name: string;
+  lat: number;
+  lng: number;
+  attributes: Record<string, string>;
+  // Closure record a splice closure asset stands for
+  closure?: string;
+}
+
+export const assetSchema = joi.object({
+  type: joi.string().valid(...ASSET_TYPES).required(),
+  name: joi.string().trim().required(),
+  lat: joi.number().min(-90).max(90).required(),
+  lng: joi.number().min(-180).max(180).required(),
+  attributes: joi.object().pattern(joi.string(), joi.string().allow('')).default({}),
+  closure: joi.string().allow(null),
+});
+
+// Imported data comes from other systems, it never carries links to closure records
+export const networkImportSchema = joi.object({
+  assets: joi.array().items(assetSchema.keys({ closure: joi.forbidden() })).max(5000).default([]),
+  routes: joi.array().items(cableRouteSchema.keys({ closure: joi.forbidden(), cableId: joi.forbidden(), toClosure: joi.forbidden(), toCableId: joi.forbidden() })).max(5000).default([]),
+});